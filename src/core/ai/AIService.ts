@@ -4,6 +4,7 @@ import axios from "axios";
 import * as fs from "fs-extra";
 import * as path from "path";
 import { AIConfig, ImageResult, SummaryOptions } from "../../types";
+import { OutlineExtractor } from "../content/OutlineExtractor";
 import { IAIService } from "./AIService.interface";
 
 /**
@@ -69,6 +70,10 @@ export class AIService implements IAIService {
     options?: SummaryOptions
   ): Promise<string> {
     const maxLength = options?.maxLength || 250;
+    // The outline tells the model how the article is structured
+    const outline = options?.outline?.length
+      ? `Outline of the article:\n${OutlineExtractor.toText(options.outline)}\n\nArticle:\n`
+      : "";
 
     try {
       const { text } = await generateText({
@@ -76,7 +81,7 @@ export class AIService implements IAIService {
         messages: [
           {
             role: "user",
-            content: `You are an expert summarizer. Your task is to create concise, informative summaries that capture the key points of technical articles. Please provide a concise summary (maximum 3 sentences) of the following technical article. Highlight the key technologies, concepts, and takeaways. Do NOT include "Summary:" or any other prefix in your response, just provide the summary directly:\n\n${content}`,
+            content: `You are an expert summarizer. Your task is to create concise, informative summaries that capture the key points of technical articles. Please provide a concise summary (maximum 3 sentences) of the following technical article. Highlight the key technologies, concepts, and takeaways. Do NOT include "Summary:" or any other prefix in your response, just provide the summary directly:\n\n${outline}${content}`,
           },
         ],
       });
@@ -3,12 +3,49 @@ import fs from "fs";
 import path from "path";
 import {
   AIConfig,
+  CategoryMode,
+  ContentFilterOptions,
+  ContentFormat,
+  ImageSource,
   NotionConfig,
+  OrphanPolicy,
+  SchemaUpdateMode,
+  SourceMode,
   StorageConfig,
+  TraversalMode,
   ValidationResult,
 } from "../../types";
+import { ContentFilter } from "../content/ContentFilter";
+import { CategoryMapper } from "../notion/CategoryMapper";
+import { FieldMapper } from "../notion/FieldMapper";
+import { DatabaseSchemaFile } from "./DatabaseSchemaFile";
 import { IConfigManager } from "./ConfigManager.interface";
 
+/**
+ * Supported formats for rendered page content
+ */
+const CONTENT_FORMATS: ContentFormat[] = ["text", "markdown", "html"];
+
+/**
+ * Supported sources of page images
+ */
+const IMAGE_SOURCES: ImageSource[] = ["cover", "icon", "inline", "generate"];
+
+/**
+ * Supported ways of handling target database schema differences
+ */
+const SCHEMA_UPDATE_MODES: SchemaUpdateMode[] = ["apply", "preview", "off"];
+
+/**
+ * Supported ways of handling entries whose source page is gone
+ */
+const ORPHAN_POLICIES: OrphanPolicy[] = ["ignore", "mark", "archive"];
+
+/**
+ * Supported ways of writing the category of an entry
+ */
+const CATEGORY_MODES: CategoryMode[] = ["select", "relation"];
+
 /**
  * Implementation of the ConfigManager
  * Manages application configuration using environment variables and config files
@@ -34,6 +71,46 @@ export class ConfigManager implements IConfigManager {
           process.env.NOTION_RATE_LIMIT_DELAY || "350",
           10
         ),
+        contentFormat: process.env.NOTION_CONTENT_FORMAT || "text",
+        traversalMode: process.env.NOTION_TRAVERSAL_MODE || "categories",
+        maxDepth: parseInt(process.env.NOTION_MAX_DEPTH || "3", 10),
+        sourceMode: process.env.NOTION_SOURCE_MODE || "page",
+        sourceDatabaseId: process.env.NOTION_SOURCE_DATABASE_ID,
+        sourceProperties: {
+          title: process.env.NOTION_SOURCE_TITLE_PROPERTY,
+          category: process.env.NOTION_SOURCE_CATEGORY_PROPERTY || "Category",
+          tags: process.env.NOTION_SOURCE_TAGS_PROPERTY || "Tags",
+        },
+        cacheDir: process.env.NOTION_CACHE_DIR ?? "./.notion-cache",
+        maxConcurrentRequests: parseInt(
+          process.env.NOTION_MAX_CONCURRENT_REQUESTS || "3",
+          10
+        ),
+        maxRetries: parseInt(process.env.NOTION_MAX_RETRIES || "5", 10),
+        categoryRules: this.parseJson(process.env.NOTION_CATEGORY_RULES),
+        contentFilter: this.parseContentFilter(),
+        imageSources: (
+          process.env.NOTION_IMAGE_SOURCES || "cover,inline,icon,generate"
+        )
+          .split(",")
+          .map((source) => source.trim())
+          .filter(Boolean),
+        tableOfContents: process.env.NOTION_TABLE_OF_CONTENTS === "true",
+        outlineProperty: process.env.NOTION_OUTLINE_PROPERTY || undefined,
+        schemaUpdate: process.env.NOTION_SCHEMA_UPDATE || "preview",
+        schemaFile: process.env.NOTION_SCHEMA_FILE || undefined,
+        fieldMapping: this.parseJson(process.env.NOTION_FIELD_MAPPING),
+        fieldOwnership: this.parseJson(process.env.NOTION_FIELD_OWNERSHIP),
+        orphanPolicy: process.env.NOTION_ORPHAN_POLICY || "ignore",
+        orphanStatus: process.env.NOTION_ORPHAN_STATUS || "Archived",
+        orphanArchiveLimit: parseInt(
+          process.env.NOTION_ORPHAN_ARCHIVE_LIMIT || "10",
+          10
+        ),
+        categoryMode: process.env.NOTION_CATEGORY_MODE || "select",
+        categoryDatabaseId: process.env.NOTION_CATEGORY_DATABASE_ID,
+        categoryDatabaseName:
+          process.env.NOTION_CATEGORY_DATABASE_NAME || "Categories",
       },
       ai: {
         provider: process.env.AI_PROVIDER || "deepseek",
@@ -64,6 +141,8 @@ export class ConfigManager implements IConfigManager {
         stateFilePath: process.env.STATE_FILE_PATH || "./processing-state.json",
       },
     };
+
+    this.loadDatabaseSchema();
   }
 
   /**
@@ -130,6 +209,54 @@ export class ConfigManager implements IConfigManager {
         rateLimitDelay: process.env.NOTION_RATE_LIMIT_DELAY
           ? parseInt(process.env.NOTION_RATE_LIMIT_DELAY)
           : 350,
+        contentFormat:
+          (process.env.NOTION_CONTENT_FORMAT as ContentFormat) || "text",
+        traversalMode:
+          (process.env.NOTION_TRAVERSAL_MODE as TraversalMode) || "categories",
+        maxDepth: process.env.NOTION_MAX_DEPTH
+          ? parseInt(process.env.NOTION_MAX_DEPTH)
+          : 3,
+        sourceMode: (process.env.NOTION_SOURCE_MODE as SourceMode) || "page",
+        sourceDatabaseId: process.env.NOTION_SOURCE_DATABASE_ID || "",
+        sourceProperties: {
+          title: process.env.NOTION_SOURCE_TITLE_PROPERTY || undefined,
+          category: process.env.NOTION_SOURCE_CATEGORY_PROPERTY || "Category",
+          tags: process.env.NOTION_SOURCE_TAGS_PROPERTY || "Tags",
+        },
+        cacheDir: process.env.NOTION_CACHE_DIR ?? "./.notion-cache",
+        maxConcurrentRequests: process.env.NOTION_MAX_CONCURRENT_REQUESTS
+          ? parseInt(process.env.NOTION_MAX_CONCURRENT_REQUESTS)
+          : 3,
+        maxRetries: process.env.NOTION_MAX_RETRIES
+          ? parseInt(process.env.NOTION_MAX_RETRIES)
+          : 5,
+        categoryRules: this.parseJson(process.env.NOTION_CATEGORY_RULES),
+        contentFilter: this.parseContentFilter(),
+        imageSources: (
+          process.env.NOTION_IMAGE_SOURCES || "cover,inline,icon,generate"
+        )
+          .split(",")
+          .map((source) => source.trim())
+          .filter(Boolean),
+        tableOfContents: process.env.NOTION_TABLE_OF_CONTENTS === "true",
+        outlineProperty: process.env.NOTION_OUTLINE_PROPERTY || undefined,
+        schemaUpdate:
+          (process.env.NOTION_SCHEMA_UPDATE as SchemaUpdateMode) || "preview",
+        schemaFile: process.env.NOTION_SCHEMA_FILE || undefined,
+        fieldMapping: this.parseJson(process.env.NOTION_FIELD_MAPPING),
+        fieldOwnership: this.parseJson(process.env.NOTION_FIELD_OWNERSHIP),
+        orphanPolicy:
+          (process.env.NOTION_ORPHAN_POLICY as OrphanPolicy) || "ignore",
+        orphanStatus: process.env.NOTION_ORPHAN_STATUS || "Archived",
+        orphanArchiveLimit: process.env.NOTION_ORPHAN_ARCHIVE_LIMIT
+          ? parseInt(process.env.NOTION_ORPHAN_ARCHIVE_LIMIT)
+          : 10,
+        categoryMode:
+          (process.env.NOTION_CATEGORY_MODE as CategoryMode) || "select",
+        categoryDatabaseId:
+          process.env.NOTION_CATEGORY_DATABASE_ID || undefined,
+        categoryDatabaseName:
+          process.env.NOTION_CATEGORY_DATABASE_NAME || "Categories",
       };
 
       // Load environment variables for AI
@@ -179,6 +306,8 @@ export class ConfigManager implements IConfigManager {
           this.mergeConfigs(this.config, fileConfig);
         }
       }
+
+      this.loadDatabaseSchema();
     } catch (error) {
       console.error("Error loading configuration:", error);
     }
@@ -201,12 +330,190 @@ export class ConfigManager implements IConfigManager {
       result.errors.push("Notion API key is required");
     }
 
-    if (!this.config.notion?.sourcePageId) {
+    if (this.config.notion?.sourceMode === "database") {
+      if (!this.config.notion.sourceDatabaseId) {
+        result.isValid = false;
+        result.valid = false;
+        result.errors.push(
+          "Notion source database ID is required in database mode"
+        );
+      }
+
+      // The source page is only needed as the parent of a new target database
+      if (
+        !this.config.notion.sourcePageId &&
+        !this.config.notion.resolvedDatabaseId
+      ) {
+        result.isValid = false;
+        result.valid = false;
+        result.errors.push(
+          "Notion source page ID or target database ID is required in database mode"
+        );
+      }
+    } else if (!this.config.notion?.sourcePageId) {
       result.isValid = false;
       result.valid = false;
       result.errors.push("Notion source page ID is required");
     }
 
+    if (
+      this.config.notion?.sourceMode &&
+      !["page", "database"].includes(this.config.notion.sourceMode)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Unsupported source mode: ${this.config.notion.sourceMode}`
+      );
+    }
+
+    if (
+      this.config.notion?.contentFormat &&
+      !CONTENT_FORMATS.includes(this.config.notion.contentFormat)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Unsupported content format: ${this.config.notion.contentFormat}`
+      );
+    }
+
+    if (
+      this.config.notion?.schemaUpdate &&
+      !SCHEMA_UPDATE_MODES.includes(this.config.notion.schemaUpdate)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Unsupported schema update mode: ${this.config.notion.schemaUpdate}`
+      );
+    }
+
+    if (
+      this.config.notion?.categoryMode &&
+      !CATEGORY_MODES.includes(this.config.notion.categoryMode)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Unsupported category mode: ${this.config.notion.categoryMode}`
+      );
+    }
+
+    if (
+      this.config.notion?.orphanPolicy &&
+      !ORPHAN_POLICIES.includes(this.config.notion.orphanPolicy)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Unsupported orphan policy: ${this.config.notion.orphanPolicy}`
+      );
+    }
+
+    if (
+      this.config.notion?.orphanArchiveLimit !== undefined &&
+      !(this.config.notion.orphanArchiveLimit >= 0)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        "Notion orphan archive limit must be a non-negative number"
+      );
+    }
+
+    if (
+      this.config.notion?.traversalMode &&
+      !["categories", "deep"].includes(this.config.notion.traversalMode)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Unsupported traversal mode: ${this.config.notion.traversalMode}`
+      );
+    }
+
+    if (
+      this.config.notion?.maxDepth !== undefined &&
+      !(this.config.notion.maxDepth >= 1)
+    ) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push("Notion max depth must be a positive number");
+    }
+
+    if (this.config.notion?.databaseSchema !== undefined) {
+      const schemaErrors = DatabaseSchemaFile.validate(
+        this.config.notion.databaseSchema
+      );
+      if (schemaErrors.length > 0) {
+        result.isValid = false;
+        result.valid = false;
+        result.errors.push(...schemaErrors);
+      }
+    } else if (this.config.notion?.schemaFile) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Database schema file not found: ${this.config.notion.schemaFile}`
+      );
+    }
+
+    if (this.config.notion?.fieldMapping !== undefined) {
+      const mappingErrors = FieldMapper.validate(
+        this.config.notion.fieldMapping
+      );
+      if (mappingErrors.length > 0) {
+        result.isValid = false;
+        result.valid = false;
+        result.errors.push(...mappingErrors);
+      }
+    }
+
+    if (this.config.notion?.fieldOwnership !== undefined) {
+      const ownershipErrors = FieldMapper.validateOwnership(
+        this.config.notion.fieldOwnership
+      );
+      if (ownershipErrors.length > 0) {
+        result.isValid = false;
+        result.valid = false;
+        result.errors.push(...ownershipErrors);
+      }
+    }
+
+    if (this.config.notion?.categoryRules !== undefined) {
+      const ruleErrors = CategoryMapper.validate(
+        this.config.notion.categoryRules
+      );
+      if (ruleErrors.length > 0) {
+        result.isValid = false;
+        result.valid = false;
+        result.errors.push(...ruleErrors);
+      }
+    }
+
+    if (this.config.notion?.contentFilter) {
+      const filterErrors = ContentFilter.validate(
+        this.config.notion.contentFilter
+      );
+      if (filterErrors.length > 0) {
+        result.isValid = false;
+        result.valid = false;
+        result.errors.push(...filterErrors);
+      }
+    }
+
+    const unsupportedSources = (this.config.notion?.imageSources || []).filter(
+      (source: ImageSource) => !IMAGE_SOURCES.includes(source)
+    );
+    if (unsupportedSources.length > 0) {
+      result.isValid = false;
+      result.valid = false;
+      result.errors.push(
+        `Unsupported image sources: ${unsupportedSources.join(", ")}`
+      );
+    }
+
     // Validate AI configuration
     if (!this.config.ai.apiKey) {
       result.isValid = false;
@@ -245,6 +552,65 @@ export class ConfigManager implements IConfigManager {
     return result;
   }
 
+  /**
+   * Loads the target database schema from the configured schema file
+   * A schema given directly in a configuration file takes precedence
+   */
+  private loadDatabaseSchema(): void {
+    const notion = this.config.notion;
+
+    if (notion?.schemaFile && notion.databaseSchema === undefined) {
+      notion.databaseSchema = DatabaseSchemaFile.read(notion.schemaFile);
+    }
+  }
+
+  /**
+   * Parses a JSON value given in an environment variable
+   * Invalid JSON is kept as is so that validation reports it
+   * @param value The JSON text
+   */
+  private parseJson(value?: string): unknown {
+    if (!value) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
+  /**
+   * Reads the content filters from the environment
+   * List values are comma-separated
+   */
+  private parseContentFilter(): ContentFilterOptions {
+    const list = (value?: string) => {
+      const items = (value || "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+      return items.length > 0 ? items : undefined;
+    };
+
+    return {
+      includeCategories: list(process.env.NOTION_INCLUDE_CATEGORIES),
+      excludeCategories: list(process.env.NOTION_EXCLUDE_CATEGORIES),
+      includeTitles: list(process.env.NOTION_INCLUDE_TITLES),
+      excludeTitles: list(process.env.NOTION_EXCLUDE_TITLES),
+      includePageIds: list(process.env.NOTION_INCLUDE_PAGE_IDS),
+      excludePageIds: list(process.env.NOTION_EXCLUDE_PAGE_IDS),
+      createdAfter: process.env.NOTION_CREATED_AFTER || undefined,
+      createdBefore: process.env.NOTION_CREATED_BEFORE || undefined,
+      editedAfter: process.env.NOTION_EDITED_AFTER || undefined,
+      editedBefore: process.env.NOTION_EDITED_BEFORE || undefined,
+      minWords: process.env.NOTION_MIN_WORDS
+        ? parseInt(process.env.NOTION_MIN_WORDS, 10)
+        : undefined,
+    };
+  }
+
   /**
    * Deep merges two config objects
    */
@@ -0,0 +1,310 @@
+import fs from "fs";
+import path from "path";
+import { DatabaseSchema, PropertyDefinition } from "../../types";
+
+/**
+ * Version of the schema file format written by this release
+ */
+const SCHEMA_FILE_VERSION = 1;
+
+/**
+ * Property types a schema file can define
+ */
+const PROPERTY_TYPES: PropertyDefinition["type"][] = [
+  "title",
+  "rich_text",
+  "select",
+  "multi_select",
+  "status",
+  "number",
+  "url",
+  "email",
+  "phone_number",
+  "date",
+  "files",
+  "checkbox",
+  "people",
+  "relation",
+  "formula",
+  "rollup",
+  "created_time",
+  "created_by",
+  "last_edited_time",
+  "last_edited_by",
+];
+
+/**
+ * Property types that have options
+ */
+const OPTION_TYPES: PropertyDefinition["type"][] = [
+  "select",
+  "multi_select",
+  "status",
+];
+
+/**
+ * Colors of select options accepted by the Notion API
+ */
+const OPTION_COLORS = [
+  "default",
+  "gray",
+  "brown",
+  "orange",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+  "pink",
+  "red",
+];
+
+/**
+ * Database Schema File
+ * Reads, validates and writes the versioned JSON file that defines the
+ * properties of the target database
+ */
+export class DatabaseSchemaFile {
+  /**
+   * Path of the schema file when none is configured, relative to the working directory
+   */
+  static readonly DEFAULT_PATH = "config/database-schema.json";
+
+  /**
+   * Reads a schema file
+   * Invalid JSON is returned as text so that validation reports it
+   * @param filePath Path of the schema file
+   * @returns The parsed file, or undefined if the file does not exist
+   */
+  static read(filePath: string): unknown {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    if (!fs.existsSync(resolvedPath)) {
+      return undefined;
+    }
+
+    const text = fs.readFileSync(resolvedPath, "utf8");
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  /**
+   * Writes a schema to a file, creating its directory if needed
+   * @param filePath Path of the schema file
+   * @param schema The schema to write
+   */
+  static write(filePath: string, schema: DatabaseSchema): void {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, JSON.stringify(schema, null, 2) + "\n");
+  }
+
+  /**
+   * Converts the live schema of a database into the contents of a schema file
+   * Properties of types a schema file cannot define, such as buttons, are left out
+   * @param live The schema of an existing database
+   */
+  static fromLiveSchema(live: DatabaseSchema): DatabaseSchema {
+    const schema: DatabaseSchema = {
+      version: SCHEMA_FILE_VERSION,
+      name: live.name,
+      properties: {},
+    };
+
+    for (const [name, definition] of Object.entries(live.properties)) {
+      if (!PROPERTY_TYPES.includes(definition.type)) {
+        continue;
+      }
+
+      schema.properties[name] = this.toFileDefinition(definition);
+    }
+
+    return schema;
+  }
+
+  /**
+   * Validates the contents of a schema file
+   * A missing version means the current version
+   * @param schema The parsed schema file
+   * @returns Error messages, empty when the schema is valid
+   */
+  static validate(schema: unknown): string[] {
+    if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+      return ["Database schema must be a JSON object"];
+    }
+
+    const errors: string[] = [];
+    const { version, name, properties } = schema as Record<string, any>;
+
+    if (version !== undefined && version !== SCHEMA_FILE_VERSION) {
+      errors.push(`Unsupported database schema version: ${version}`);
+    }
+
+    if (name !== undefined && typeof name !== "string") {
+      errors.push("Database schema name must be a string");
+    }
+
+    if (
+      !properties ||
+      typeof properties !== "object" ||
+      Array.isArray(properties)
+    ) {
+      errors.push("Database schema properties must be an object");
+      return errors;
+    }
+
+    let titles = 0;
+
+    for (const [property, definition] of Object.entries<any>(properties)) {
+      if (!definition || !PROPERTY_TYPES.includes(definition.type)) {
+        errors.push(
+          `Unsupported type of property "${property}": ${definition?.type}`
+        );
+        continue;
+      }
+
+      if (definition.type === "title") {
+        titles++;
+      }
+
+      if (definition.options !== undefined) {
+        errors.push(...this.validateOptions(property, definition));
+      }
+
+      errors.push(...this.validateSettings(property, definition, properties));
+    }
+
+    if (titles !== 1) {
+      errors.push("Database schema must have exactly one title property");
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates the options of a select or multi-select property
+   * @param property The property name
+   * @param definition The property definition
+   */
+  private static validateOptions(
+    property: string,
+    definition: Record<string, any>
+  ): string[] {
+    if (!OPTION_TYPES.includes(definition.type)) {
+      return [`Only select properties can have options: "${property}"`];
+    }
+
+    if (!Array.isArray(definition.options)) {
+      return [`Options of property "${property}" must be an array`];
+    }
+
+    const errors: string[] = [];
+    const names = new Set<string>();
+
+    for (const option of definition.options) {
+      // The API uses commas to separate options
+      if (
+        typeof option?.name !== "string" ||
+        !option.name.trim() ||
+        option.name.includes(",")
+      ) {
+        errors.push(
+          `Invalid option of property "${property}": ${JSON.stringify(option)}`
+        );
+      } else if (names.has(option.name)) {
+        errors.push(
+          `Duplicate option of property "${property}": ${option.name}`
+        );
+      } else if (
+        option.color !== undefined &&
+        !OPTION_COLORS.includes(option.color)
+      ) {
+        errors.push(
+          `Unsupported color of option "${option.name}" of property "${property}": ${option.color}`
+        );
+      }
+
+      if (typeof option?.name === "string") {
+        names.add(option.name);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates the settings of relation, formula and rollup properties
+   * @param property The property name
+   * @param definition The property definition
+   * @param properties All properties of the schema
+   */
+  private static validateSettings(
+    property: string,
+    definition: Record<string, any>,
+    properties: Record<string, any>
+  ): string[] {
+    const isText = (value: unknown) =>
+      typeof value === "string" && !!value.trim();
+
+    switch (definition.type) {
+      case "relation":
+        return isText(definition.databaseId)
+          ? []
+          : [`Relation property "${property}" must name a database`];
+      case "formula":
+        return isText(definition.expression)
+          ? []
+          : [`Formula property "${property}" must have an expression`];
+      case "rollup": {
+        const rollup = definition.rollup;
+
+        if (
+          !isText(rollup?.relationProperty) ||
+          !isText(rollup?.rollupProperty) ||
+          !isText(rollup?.function)
+        ) {
+          return [
+            `Rollup property "${property}" must name a relation property, a rollup property and a function`,
+          ];
+        }
+
+        return properties[rollup.relationProperty]?.type === "relation"
+          ? []
+          : [
+              `Rollup property "${property}" must roll up a relation property of the schema: ${rollup.relationProperty}`,
+            ];
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Converts a live property into the definition a schema file holds
+   * @param definition The live property definition
+   */
+  private static toFileDefinition(
+    definition: PropertyDefinition
+  ): PropertyDefinition {
+    const { type } = definition;
+
+    if (OPTION_TYPES.includes(type)) {
+      return { type, options: definition.options || [] };
+    }
+
+    switch (type) {
+      case "relation":
+        return { type, databaseId: definition.databaseId };
+      case "formula":
+        return { type, expression: definition.expression };
+      case "rollup":
+        return { type, rollup: definition.rollup };
+      default:
+        return { type };
+    }
+  }
+}
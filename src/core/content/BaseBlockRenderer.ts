@@ -0,0 +1,98 @@
+import { Block, RendererOptions, RichTextSpan } from "../../types";
+import { IBlockRenderer } from "./BlockRenderer.interface";
+import { OutlineExtractor } from "./OutlineExtractor";
+
+/**
+ * Block types that are rendered as items of a list
+ */
+const LIST_ITEM_TYPES = ["bulleted_list_item", "numbered_list_item", "to_do"];
+
+/**
+ * Base class for block renderers
+ * Provides shared access to the text and children of transformed blocks
+ */
+export abstract class BaseBlockRenderer implements IBlockRenderer {
+  protected options: RendererOptions;
+  protected outlineExtractor: OutlineExtractor;
+
+  /**
+   * Creates a new renderer
+   * @param options Options for the rendered output
+   */
+  constructor(options: RendererOptions = {}) {
+    this.options = options;
+    this.outlineExtractor = new OutlineExtractor();
+  }
+
+  /**
+   * Renders blocks into a document string
+   * @param blocks Blocks to render
+   */
+  abstract render(blocks: Block[]): string;
+
+  /**
+   * Gets the plain text of a block
+   * Text blocks store a string, richer blocks store an object with a text field
+   * @param block The block to read
+   */
+  protected getText(block: Block): string {
+    const content = block.content;
+
+    if (typeof content === "string") {
+      return content;
+    }
+
+    if (content && typeof content.text === "string") {
+      return content.text;
+    }
+
+    return "";
+  }
+
+  /**
+   * Gets the formatted spans of a block
+   * Falls back to a single unformatted span for blocks without spans
+   * @param block The block to read
+   */
+  protected getRichText(block: Block): RichTextSpan[] {
+    const richText = block.content?.richText;
+    if (Array.isArray(richText)) {
+      return richText;
+    }
+
+    const text = this.getText(block);
+    return text ? [{ type: "text", text }] : [];
+  }
+
+  /**
+   * Gets the nested child blocks of a block
+   * @param block The block to read
+   */
+  protected getChildren(block: Block): Block[] {
+    const children = block.content?.children;
+    return Array.isArray(children) ? children : [];
+  }
+
+  /**
+   * Checks if a block is a list item
+   * @param block The block to check
+   */
+  protected isListItem(block: Block): boolean {
+    return LIST_ITEM_TYPES.includes(block.type);
+  }
+
+  /**
+   * Checks if two sibling blocks belong to the same list
+   * @param previous The previous sibling
+   * @param current The current block
+   */
+  protected isSameList(previous: Block | undefined, current: Block): boolean {
+    if (!previous || !this.isListItem(previous) || !this.isListItem(current)) {
+      return false;
+    }
+
+    // Bulleted items and to-dos are both unordered lists in the output
+    const ordered = (block: Block) => block.type === "numbered_list_item";
+    return ordered(previous) === ordered(current);
+  }
+}
@@ -0,0 +1,13 @@
+import { Block } from "../../types";
+
+/**
+ * Interface for block renderers
+ * Converts a tree of Notion blocks into a serialized document
+ */
+export interface IBlockRenderer {
+  /**
+   * Renders blocks into a document string
+   * @param blocks Blocks to render
+   */
+  render(blocks: Block[]): string;
+}
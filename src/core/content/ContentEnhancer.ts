@@ -1,10 +1,19 @@
-import { ContentPage, Status, SummaryOptions } from "../../types";
+import {
+  ContentLanguage,
+  ContentPage,
+  OutlineEntry,
+  Status,
+  SummaryOptions,
+} from "../../types";
 import { IAIService } from "../ai/AIService.interface";
+import { TextAnalyzer } from "./TextAnalyzer";
 
 /**
  * Service for enhancing content pages with additional metadata
  */
 export class ContentEnhancer {
+  private textAnalyzer = new TextAnalyzer();
+
   constructor(private aiService: IAIService) {}
 
   /**
@@ -16,7 +25,10 @@ export class ContentEnhancer {
     // Generate summary if not present
     if (!enhanced.summary) {
       try {
-        enhanced.summary = await this.generateSummary(page.content);
+        enhanced.summary = await this.generateSummary(
+          page.content,
+          page.outline
+        );
       } catch (error) {
         console.error(`Error generating summary for page ${page.id}:`, error);
         // Keep field empty instead of using placeholder
@@ -50,7 +62,10 @@ export class ContentEnhancer {
     // Calculate reading time
     if (!enhanced.minsRead) {
       try {
-        enhanced.minsRead = this.calculateReadingTime(page.content);
+        enhanced.minsRead = this.calculateReadingTime(
+          page.content,
+          page.language
+        );
       } catch (error) {
         console.error(
           `Error calculating reading time for page ${page.id}:`,
@@ -71,10 +86,14 @@ export class ContentEnhancer {
   /**
    * Generates a summary of the content using AI
    */
-  private async generateSummary(content: string): Promise<string> {
+  private async generateSummary(
+    content: string,
+    outline?: OutlineEntry[]
+  ): Promise<string> {
     const options: SummaryOptions = {
       maxLength: 250,
       style: "detailed",
+      ...(outline?.length && { outline }),
     };
     return this.aiService.generateSummary(content, options);
   }
@@ -114,10 +133,14 @@ export class ContentEnhancer {
   /**
    * Calculates estimated reading time in minutes
    */
-  private calculateReadingTime(content: string): number {
-    const wordsPerMinute = 200;
-    const words = content.trim().split(/\s+/).length;
-    const minutes = Math.ceil(words / wordsPerMinute);
-    return Math.max(1, minutes); // Minimum 1 minute
+  private calculateReadingTime(
+    content: string,
+    language?: ContentLanguage
+  ): number {
+    // Minimum 1 minute, even for empty pages
+    return Math.max(
+      1,
+      this.textAnalyzer.estimateReadingTime(content, language)
+    );
   }
 }
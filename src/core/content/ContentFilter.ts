@@ -0,0 +1,259 @@
+import { Category, ContentFilterOptions, ContentPage } from "../../types";
+import { TextAnalyzer } from "./TextAnalyzer";
+
+/**
+ * Content Filter
+ * Decides which source pages are migrated, so that scratch pages and
+ * templates are dropped before any AI enhancement is paid for
+ */
+export class ContentFilter {
+  private options: ContentFilterOptions;
+  private includeTitles: RegExp[];
+  private excludeTitles: RegExp[];
+  private includePageIds: string[];
+  private excludePageIds: string[];
+
+  /**
+   * Creates a new ContentFilter
+   * @param options The filters to apply, all optional
+   */
+  constructor(options: ContentFilterOptions = {}) {
+    this.options = options;
+    this.includeTitles = (options.includeTitles ?? []).map((pattern) =>
+      ContentFilter.toRegExp(pattern)
+    );
+    this.excludeTitles = (options.excludeTitles ?? []).map((pattern) =>
+      ContentFilter.toRegExp(pattern)
+    );
+    this.includePageIds = (options.includePageIds ?? []).map(
+      ContentFilter.normalizeId
+    );
+    this.excludePageIds = (options.excludePageIds ?? []).map(
+      ContentFilter.normalizeId
+    );
+  }
+
+  /**
+   * Checks whether a category passes the category filters
+   * @param category The category to check
+   */
+  acceptsCategory(category: Category): boolean {
+    return this.getCategoryReason(category.name) === undefined;
+  }
+
+  /**
+   * Gets the reason a page is filtered out
+   * @param page The content page to check
+   * @returns The reason, or undefined if the page is kept
+   */
+  getSkipReason(page: ContentPage): string | undefined {
+    const { options } = this;
+    const pageId = ContentFilter.normalizeId(page.id);
+
+    if (this.excludePageIds.includes(pageId)) {
+      return "page ID is excluded";
+    }
+
+    if (
+      this.includePageIds.length > 0 &&
+      !this.includePageIds.includes(pageId)
+    ) {
+      return "page ID is not included";
+    }
+
+    const categoryReason = this.getCategoryReason(page.category);
+    if (categoryReason) {
+      return categoryReason;
+    }
+
+    if (this.excludeTitles.some((pattern) => pattern.test(page.title))) {
+      return "title is excluded";
+    }
+
+    if (
+      this.includeTitles.length > 0 &&
+      !this.includeTitles.some((pattern) => pattern.test(page.title))
+    ) {
+      return "title is not included";
+    }
+
+    const dateReason =
+      this.getDateReason(
+        "created",
+        page.createdTime,
+        options.createdAfter,
+        options.createdBefore
+      ) ??
+      this.getDateReason(
+        "edited",
+        page.lastEditedTime,
+        options.editedAfter,
+        options.editedBefore
+      );
+    if (dateReason) {
+      return dateReason;
+    }
+
+    if (options.minWords) {
+      const words = ContentFilter.countWords(page.content);
+      if (words < options.minWords) {
+        return `has ${words} words, fewer than ${options.minWords}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Splits pages into the ones kept and the ones filtered out
+   * @param pages The content pages to filter
+   */
+  filterPages(pages: ContentPage[]): {
+    kept: ContentPage[];
+    skipped: Array<{ page: ContentPage; reason: string }>;
+  } {
+    const kept: ContentPage[] = [];
+    const skipped: Array<{ page: ContentPage; reason: string }> = [];
+
+    for (const page of pages) {
+      const reason = this.getSkipReason(page);
+      if (reason) {
+        skipped.push({ page, reason });
+      } else {
+        kept.push(page);
+      }
+    }
+
+    return { kept, skipped };
+  }
+
+  /**
+   * Counts the words of rendered content, ignoring HTML tags and markup
+   * Each Chinese, Japanese or Korean character counts as a word
+   * @param content The page content
+   */
+  static countWords(content: string): number {
+    return new TextAnalyzer().countWords(content);
+  }
+
+  /**
+   * Converts a title pattern to a regular expression
+   * Patterns written as /pattern/flags are regular expressions, anything else
+   * is a case-insensitive glob where * matches any text and ? one character
+   * @param pattern The title pattern
+   */
+  static toRegExp(pattern: string): RegExp {
+    const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+    if (regex) {
+      return new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+    }
+
+    const source = pattern
+      .split("")
+      .map((char) => {
+        if (char === "*") return ".*";
+        if (char === "?") return ".";
+        return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("");
+
+    return new RegExp(`^${source}$`, "i");
+  }
+
+  /**
+   * Validates content filters from the configuration
+   * @param options The configured filters
+   * @returns Error messages, empty if the filters are valid
+   */
+  static validate(options: ContentFilterOptions): string[] {
+    const errors: string[] = [];
+
+    for (const key of ["includeTitles", "excludeTitles"] as const) {
+      for (const pattern of options[key] ?? []) {
+        try {
+          ContentFilter.toRegExp(pattern);
+        } catch (error) {
+          errors.push(
+            `Invalid title pattern ${pattern}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+
+    for (const key of [
+      "createdAfter",
+      "createdBefore",
+      "editedAfter",
+      "editedBefore",
+    ] as const) {
+      const value = options[key];
+      if (value !== undefined && isNaN(Date.parse(value))) {
+        errors.push(`Invalid ${key} date: ${value}`);
+      }
+    }
+
+    if (
+      options.minWords !== undefined &&
+      !(options.minWords >= 0 && Number.isInteger(options.minWords))
+    ) {
+      errors.push("Minimum word count must be a non-negative integer");
+    }
+
+    return errors;
+  }
+
+  /**
+   * Gets the reason a category name is filtered out
+   * @param name The category name
+   * @returns The reason, or undefined if the category is kept
+   */
+  private getCategoryReason(name: string): string | undefined {
+    const { includeCategories, excludeCategories } = this.options;
+    const matches = (names: string[]) =>
+      names.some((entry) => entry.toLowerCase() === name.toLowerCase());
+
+    if (excludeCategories && matches(excludeCategories)) {
+      return `category ${name} is excluded`;
+    }
+
+    if (includeCategories?.length && !matches(includeCategories)) {
+      return `category ${name} is not included`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Normalizes a Notion page ID so dashed and undashed forms compare equal
+   * @param id The page ID
+   */
+  private static normalizeId(id: string): string {
+    return id.replace(/-/g, "").toLowerCase();
+  }
+
+  /**
+   * Gets the reason a timestamp falls outside a date range
+   * @param label Name of the timestamp used in the reason
+   * @param time The page timestamp
+   * @param after Earliest date kept, inclusive
+   * @param before Latest date kept, exclusive
+   */
+  private getDateReason(
+    label: string,
+    time: string,
+    after?: string,
+    before?: string
+  ): string | undefined {
+    const timestamp = Date.parse(time);
+
+    if (after && !(timestamp >= Date.parse(after))) {
+      return `${label} before ${after}`;
+    }
+
+    if (before && !(timestamp < Date.parse(before))) {
+      return `${label} on or after ${before}`;
+    }
+
+    return undefined;
+  }
+}
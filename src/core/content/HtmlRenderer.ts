@@ -0,0 +1,416 @@
+import { Block, OutlineEntry, RichTextSpan, TextContent } from "../../types";
+import { BaseBlockRenderer } from "./BaseBlockRenderer";
+import { OutlineExtractor } from "./OutlineExtractor";
+
+/**
+ * HTML renderer for Notion blocks
+ * Produces semantic, escaped HTML suitable for a CMS or static page
+ */
+export class HtmlRenderer extends BaseBlockRenderer {
+  private anchors = new Map<string, string>(); // Heading block ID to anchor
+
+  /**
+   * Renders blocks into an HTML fragment
+   * @param blocks Blocks to render
+   */
+  render(blocks: Block[]): string {
+    const outline = this.options.tableOfContents
+      ? this.outlineExtractor.extract(blocks)
+      : [];
+    this.anchors = new Map(outline.map((entry) => [entry.blockId, entry.slug]));
+
+    let html = this.renderBlocks(blocks);
+    if (outline.length > 0) {
+      html = `${this.renderTableOfContents(outline)}\n${html}`;
+    }
+
+    return html ? html + "\n" : "";
+  }
+
+  /**
+   * Renders a navigation list linking to the headings of the document
+   * @param outline The headings of the document
+   */
+  private renderTableOfContents(outline: OutlineEntry[]): string {
+    const depths = OutlineExtractor.getDepths(outline);
+    const parts: string[] = [];
+    let depth = -1;
+
+    outline.forEach((entry, index) => {
+      if (depths[index] > depth) {
+        // Open a nested list inside the current item
+        parts.push("<ul>");
+      } else {
+        parts.push("</li>");
+        for (; depth > depths[index]; depth--) {
+          parts.push("</ul>", "</li>");
+        }
+      }
+
+      depth = depths[index];
+      parts.push(
+        `<li><a href="#${this.escape(entry.slug)}">${this.escape(entry.text)}</a>`
+      );
+    });
+
+    parts.push("</li>");
+    for (; depth > 0; depth--) {
+      parts.push("</ul>", "</li>");
+    }
+    parts.push("</ul>");
+
+    return `<nav class="toc">\n${parts.join("")}\n</nav>`;
+  }
+
+  /**
+   * Gets the ID attribute of a heading, when a table of contents links to it
+   * @param block The heading block
+   */
+  private renderAnchor(block: Block): string {
+    const anchor = this.anchors.get(block.id);
+    return anchor ? ` id="${this.escape(anchor)}"` : "";
+  }
+
+  /**
+   * Renders a list of sibling blocks, grouping list runs into lists
+   * @param blocks Sibling blocks to render
+   */
+  private renderBlocks(blocks: Block[]): string {
+    const parts: string[] = [];
+    let index = 0;
+
+    while (index < blocks.length) {
+      const block = blocks[index];
+
+      if (this.isListItem(block)) {
+        // Collect the run of items that belong to the same list
+        const items = [block];
+        while (
+          index + items.length < blocks.length &&
+          this.isSameList(items[items.length - 1], blocks[index + items.length])
+        ) {
+          items.push(blocks[index + items.length]);
+        }
+
+        parts.push(this.renderList(items));
+        index += items.length;
+        continue;
+      }
+
+      const rendered = this.renderBlock(block);
+      if (rendered) {
+        parts.push(rendered);
+      }
+      index++;
+    }
+
+    return parts.join("\n");
+  }
+
+  /**
+   * Renders a single non-list block with its children
+   * @param block The block to render
+   */
+  private renderBlock(block: Block): string {
+    const children = this.renderBlocks(this.getChildren(block));
+
+    switch (block.type) {
+      case "paragraph":
+        return this.joinParts(`<p>${this.renderInline(block)}</p>`, children);
+      case "heading_1":
+      case "heading_2":
+      case "heading_3": {
+        const tag = `h${block.type.slice(-1)}`;
+        return this.joinParts(
+          `<${tag}${this.renderAnchor(block)}>${this.renderInline(block)}</${tag}>`,
+          children
+        );
+      }
+      case "quote":
+        return `<blockquote>${this.joinParts(`<p>${this.renderInline(block)}</p>`, children)}</blockquote>`;
+      case "callout": {
+        const icon = this.renderIcon(block.content?.icon);
+        return `<aside class="callout">${icon}${this.joinParts(`<p>${this.renderInline(block)}</p>`, children)}</aside>`;
+      }
+      case "toggle":
+        return `<details><summary>${this.renderInline(block)}</summary>${children ? "\n" + children + "\n" : ""}</details>`;
+      case "table":
+        return this.renderTable(block);
+      case "table_row":
+        return `<table>\n${this.renderRow(block, false, false)}\n</table>`;
+      case "column_list":
+        return `<div class="column-list">\n${children}\n</div>`;
+      case "column":
+        return `<div class="column">\n${children}\n</div>`;
+      case "divider":
+        return "<hr>";
+      case "equation":
+        return `<div class="equation">${this.escape(block.content?.expression || "")}</div>`;
+      case "code":
+        return this.renderCode(block);
+      case "image":
+        return this.renderImage(block);
+      case "video":
+        return this.renderVideo(block);
+      case "bookmark":
+      case "embed":
+      case "file":
+      case "pdf":
+        return this.renderLink(block);
+      case "child_page":
+        // Child pages are migrated as content pages of their own,
+        // unless they were absorbed into their parent below the maximum depth
+        return children
+          ? `<section>\n<h2${this.renderAnchor(block)}>${this.escape(block.content?.title || "")}</h2>\n${children}\n</section>`
+          : "";
+      default: {
+        const text = this.renderInline(block);
+        return this.joinParts(text ? `<p>${text}</p>` : "", children);
+      }
+    }
+  }
+
+  /**
+   * Renders a run of list items as a single list
+   * @param items List items of the same list
+   */
+  private renderList(items: Block[]): string {
+    const tag = items[0].type === "numbered_list_item" ? "ol" : "ul";
+    const listItems = items.map((item) => {
+      const checkbox =
+        item.type === "to_do"
+          ? `<input type="checkbox" disabled${item.content?.checked ? " checked" : ""}> `
+          : "";
+      const children = this.renderBlocks(this.getChildren(item));
+
+      return `<li>${checkbox}${this.renderInline(item)}${children ? "\n" + children + "\n" : ""}</li>`;
+    });
+
+    return `<${tag}>\n${listItems.join("\n")}\n</${tag}>`;
+  }
+
+  /**
+   * Renders a table block and its rows
+   * @param block The table block
+   */
+  private renderTable(block: Block): string {
+    const rows = this.getChildren(block).filter(
+      (row) => row.type === "table_row"
+    );
+    if (rows.length === 0) {
+      return "";
+    }
+
+    const hasColumnHeader = !!block.content?.hasColumnHeader;
+    const hasRowHeader = !!block.content?.hasRowHeader;
+    const body = rows
+      .slice(hasColumnHeader ? 1 : 0)
+      .map((row) => this.renderRow(row, false, hasRowHeader));
+    const parts = [];
+
+    if (hasColumnHeader) {
+      parts.push(
+        `<thead>\n${this.renderRow(rows[0], true, hasRowHeader)}\n</thead>`
+      );
+    }
+    if (body.length > 0) {
+      parts.push(`<tbody>\n${body.join("\n")}\n</tbody>`);
+    }
+
+    return `<table>\n${parts.join("\n")}\n</table>`;
+  }
+
+  /**
+   * Renders a table row
+   * @param row The table row block
+   * @param isHeader Whether the row is the column header
+   * @param hasRowHeader Whether the first cell is a row header
+   */
+  private renderRow(
+    row: Block,
+    isHeader: boolean,
+    hasRowHeader: boolean
+  ): string {
+    const cells: TextContent[] = row.content?.cells || [];
+    const html = cells.map((cell, index) => {
+      const tag = isHeader || (hasRowHeader && index === 0) ? "th" : "td";
+      return `<${tag}>${this.renderSpans(cell.richText || [])}</${tag}>`;
+    });
+
+    return `<tr>${html.join("")}</tr>`;
+  }
+
+  /**
+   * Renders a callout icon
+   * @param icon Emoji or image URL of the icon
+   */
+  private renderIcon(icon: string | undefined): string {
+    if (!icon) {
+      return "";
+    }
+
+    const url = this.safeUrl(icon);
+    if (/^https?:/i.test(icon)) {
+      return url
+        ? `<img class="callout-icon" src="${this.escape(url)}" alt="">`
+        : "";
+    }
+
+    return `<span class="callout-icon">${this.escape(icon)}</span>`;
+  }
+
+  /**
+   * Renders a video block, embedding uploaded files and linking external videos
+   * @param block The video block
+   */
+  private renderVideo(block: Block): string {
+    const url = this.safeUrl(block.content?.url);
+    if (!url || block.content?.type !== "file") {
+      return this.renderLink(block);
+    }
+
+    const caption = this.escape(block.content?.caption || "");
+    const video = `<video src="${this.escape(url)}" controls></video>`;
+
+    return caption
+      ? `<figure>${video}<figcaption>${caption}</figcaption></figure>`
+      : `<figure>${video}</figure>`;
+  }
+
+  /**
+   * Renders a link to an embedded resource such as a bookmark or file
+   * @param block The block to render
+   */
+  private renderLink(block: Block): string {
+    const url = this.safeUrl(block.content?.url);
+    if (!url) {
+      return "";
+    }
+
+    const label = block.content?.caption || block.content?.name || url;
+    return `<p><a href="${this.escape(url)}">${this.escape(label)}</a></p>`;
+  }
+
+  /**
+   * Renders a code block
+   * @param block The code block
+   */
+  private renderCode(block: Block): string {
+    const language = block.content?.language;
+    const className =
+      language && language !== "plain text"
+        ? ` class="language-${this.escape(language.replace(/\s+/g, "-"))}"`
+        : "";
+
+    return `<pre><code${className}>${this.escape(this.getText(block))}</code></pre>`;
+  }
+
+  /**
+   * Renders an image block as a figure
+   * @param block The image block
+   */
+  private renderImage(block: Block): string {
+    const url = this.safeUrl(block.content?.url);
+    if (!url) {
+      return "";
+    }
+
+    const caption = this.escape(block.content?.caption || "");
+    const image = `<img src="${this.escape(url)}" alt="${caption}">`;
+
+    return caption
+      ? `<figure>${image}<figcaption>${caption}</figcaption></figure>`
+      : `<figure>${image}</figure>`;
+  }
+
+  /**
+   * Renders the inline text of a block
+   * @param block The block to render
+   */
+  private renderInline(block: Block): string {
+    return this.renderSpans(this.getRichText(block));
+  }
+
+  /**
+   * Renders a list of rich text spans
+   * @param spans The spans to render
+   */
+  private renderSpans(spans: RichTextSpan[]): string {
+    return spans
+      .map((span) => this.renderSpan(span))
+      .join("")
+      .replace(/\n/g, "<br>");
+  }
+
+  /**
+   * Renders a rich text span with its annotations and link
+   * @param span The span to render
+   */
+  private renderSpan(span: RichTextSpan): string {
+    const annotations = span.annotations;
+    let html = this.escape(span.text);
+
+    if (span.type === "equation") {
+      html = `<span class="equation">${html}</span>`;
+    }
+    if (annotations?.code) {
+      html = `<code>${html}</code>`;
+    }
+    if (annotations?.bold) {
+      html = `<strong>${html}</strong>`;
+    }
+    if (annotations?.italic) {
+      html = `<em>${html}</em>`;
+    }
+    if (annotations?.strikethrough) {
+      html = `<s>${html}</s>`;
+    }
+    if (annotations?.underline) {
+      html = `<u>${html}</u>`;
+    }
+    if (annotations?.color && annotations.color !== "default") {
+      html = `<span class="color-${this.escape(annotations.color)}">${html}</span>`;
+    }
+
+    const href = this.safeUrl(span.href);
+    if (href) {
+      html = `<a href="${this.escape(href)}">${html}</a>`;
+    }
+
+    return html;
+  }
+
+  /**
+   * Joins a block's own markup with its rendered children
+   * @param html The block markup
+   * @param children Rendered child markup
+   */
+  private joinParts(html: string, children: string): string {
+    return [html, children].filter(Boolean).join("\n");
+  }
+
+  /**
+   * Returns the URL if it uses a safe scheme, otherwise an empty string
+   * @param url URL to check
+   */
+  private safeUrl(url: string | undefined): string {
+    if (!url) {
+      return "";
+    }
+
+    return /^(https?:|mailto:|\/|#)/i.test(url.trim()) ? url.trim() : "";
+  }
+
+  /**
+   * Escapes text for use in HTML content and attributes
+   * @param text Text to escape
+   */
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&#39;");
+  }
+}
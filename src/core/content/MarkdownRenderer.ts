@@ -0,0 +1,430 @@
+import { Block, OutlineEntry, RichTextSpan, TextContent } from "../../types";
+import { BaseBlockRenderer } from "./BaseBlockRenderer";
+import { OutlineExtractor } from "./OutlineExtractor";
+
+/**
+ * Markdown renderer for Notion blocks
+ * Preserves list numbering and nesting, inline formatting, links,
+ * code fences, images, quotes, callouts, toggles and tables
+ */
+export class MarkdownRenderer extends BaseBlockRenderer {
+  /**
+   * Renders blocks into a Markdown document
+   * @param blocks Blocks to render
+   */
+  render(blocks: Block[]): string {
+    let markdown = this.renderBlocks(blocks);
+
+    if (this.options.tableOfContents) {
+      const outline = this.outlineExtractor.extract(blocks);
+      if (outline.length > 0) {
+        markdown = `${this.renderTableOfContents(outline)}\n\n${markdown}`;
+      }
+    }
+
+    return markdown ? markdown + "\n" : "";
+  }
+
+  /**
+   * Renders a nested list linking to the headings of the document
+   * The anchors match the heading IDs generated by GitHub-flavored Markdown
+   * @param outline The headings of the document
+   */
+  private renderTableOfContents(outline: OutlineEntry[]): string {
+    const depths = OutlineExtractor.getDepths(outline);
+
+    return outline
+      .map(
+        (entry, index) =>
+          `${"  ".repeat(depths[index])}- [${this.escape(entry.text)}](#${entry.slug})`
+      )
+      .join("\n");
+  }
+
+  /**
+   * Renders a list of sibling blocks
+   * @param blocks Sibling blocks to render
+   */
+  private renderBlocks(blocks: Block[]): string {
+    let markdown = "";
+    let previous: Block | undefined;
+    let listNumber = 0;
+
+    for (const block of blocks) {
+      // Numbered items continue counting until the run is interrupted
+      if (block.type === "numbered_list_item") {
+        listNumber =
+          previous?.type === "numbered_list_item" ? listNumber + 1 : 1;
+      }
+
+      const rendered = this.renderBlock(block, listNumber);
+      if (!rendered) {
+        continue;
+      }
+
+      if (markdown) {
+        // Items of the same list are kept tight, everything else is a new paragraph
+        markdown += this.isSameList(previous, block) ? "\n" : "\n\n";
+      }
+
+      markdown += rendered;
+      previous = block;
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Renders a single block with its children
+   * @param block The block to render
+   * @param listNumber The position of the block in a numbered list
+   */
+  private renderBlock(block: Block, listNumber: number): string {
+    const children = this.getChildren(block);
+
+    switch (block.type) {
+      case "paragraph":
+        return this.joinParts(this.renderInline(block), children);
+      case "heading_1":
+      case "heading_2":
+      case "heading_3": {
+        const level = Number(block.type.slice(-1));
+        const heading = `${"#".repeat(level)} ${this.renderInline(block).replace(/\s*\n\s*/g, " ")}`;
+        return this.joinParts(heading, children);
+      }
+      case "bulleted_list_item":
+        return this.renderListItem("- ", block, children);
+      case "numbered_list_item":
+        return this.renderListItem(`${listNumber}. `, block, children);
+      case "to_do":
+        return this.renderListItem(
+          block.content?.checked ? "- [x] " : "- [ ] ",
+          block,
+          children
+        );
+      case "quote":
+        return this.prefixLines(
+          this.joinParts(this.renderInline(block), children),
+          "> "
+        );
+      case "callout": {
+        // Image icons cannot be shown inline, so only emoji are kept
+        const icon = block.content?.icon;
+        const prefix = icon && !/^https?:/i.test(icon) ? `${icon} ` : "";
+        return this.prefixLines(
+          this.joinParts(prefix + this.renderInline(block), children),
+          "> "
+        );
+      }
+      case "toggle": {
+        // Markdown has no toggle, so fall back to an HTML disclosure element
+        const nested = this.renderBlocks(children);
+        const summary = `<details>\n<summary>${this.renderInline(block)}</summary>`;
+        return nested
+          ? `${summary}\n\n${nested}\n\n</details>`
+          : `${summary}\n</details>`;
+      }
+      case "table":
+        return this.renderTable(block, children);
+      case "table_row":
+        return `| ${this.renderRow(block).join(" | ")} |`;
+      case "divider":
+        return "---";
+      case "equation":
+        return `$$\n${block.content?.expression || ""}\n$$`;
+      case "code":
+        return this.renderCode(block);
+      case "image":
+        return this.renderImage(block);
+      case "bookmark":
+      case "embed":
+      case "video":
+      case "file":
+      case "pdf":
+        return this.renderLink(block);
+      case "child_page":
+        // Child pages are migrated as content pages of their own,
+        // unless they were absorbed into their parent below the maximum depth
+        return children.length > 0
+          ? this.joinParts(
+              `## ${this.escape(block.content?.title || "")}`,
+              children
+            )
+          : "";
+      default:
+        return this.joinParts(this.renderInline(block), children);
+    }
+  }
+
+  /**
+   * Renders a list item with its nested blocks indented under the marker
+   * @param marker The list marker including trailing space
+   * @param block The list item block
+   * @param children Nested blocks of the item
+   */
+  private renderListItem(
+    marker: string,
+    block: Block,
+    children: Block[]
+  ): string {
+    const indent = " ".repeat(marker.length);
+    let markdown = marker + this.indentLines(this.renderInline(block), indent);
+
+    const nested = this.renderBlocks(children);
+    if (nested) {
+      markdown += "\n" + this.indentLines(nested, indent, true);
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Renders a table block and its rows as a GFM table
+   * @param block The table block
+   * @param rows The table row blocks
+   */
+  private renderTable(block: Block, rows: Block[]): string {
+    const cells = rows
+      .filter((row) => row.type === "table_row")
+      .map((row) => this.renderRow(row));
+
+    if (cells.length === 0) {
+      return "";
+    }
+
+    const width = Math.max(
+      block.content?.tableWidth || 0,
+      ...cells.map((row) => row.length)
+    );
+    const pad = (row: string[]) =>
+      row.concat(new Array(width - row.length).fill(""));
+
+    // Row headers have no Markdown equivalent, so they are emphasized
+    if (block.content?.hasRowHeader) {
+      cells.forEach((row) => {
+        if (row[0]) {
+          row[0] = `**${row[0]}**`;
+        }
+      });
+    }
+
+    // GFM tables always need a header row, so an empty one is used if absent
+    const header = block.content?.hasColumnHeader
+      ? pad(cells.shift()!)
+      : new Array(width).fill("");
+    const line = (row: string[]) => `| ${row.join(" | ")} |`;
+
+    return [
+      line(header),
+      line(new Array(width).fill("---")),
+      ...cells.map((row) => line(pad(row))),
+    ].join("\n");
+  }
+
+  /**
+   * Renders the cells of a table row
+   * @param row The table row block
+   */
+  private renderRow(row: Block): string[] {
+    const cells: TextContent[] = row.content?.cells || [];
+
+    return cells.map((cell) =>
+      this.renderSpans(cell.richText || [])
+        .replace(/\|/g, "\\|")
+        .replace(/\n/g, "<br>")
+    );
+  }
+
+  /**
+   * Renders a link to an embedded resource such as a bookmark or file
+   * @param block The block to render
+   */
+  private renderLink(block: Block): string {
+    const url = block.content?.url;
+    if (!url) {
+      return "";
+    }
+
+    const label = block.content?.caption || block.content?.name || url;
+    return `[${this.escape(label)}](${this.escapeUrl(url)})`;
+  }
+
+  /**
+   * Renders a code block as a fenced code block
+   * @param block The code block
+   */
+  private renderCode(block: Block): string {
+    const code = this.getText(block);
+    const language =
+      block.content?.language && block.content.language !== "plain text"
+        ? block.content.language
+        : "";
+
+    // Use a fence longer than any backtick run inside the code
+    const longestRun = Math.max(
+      0,
+      ...(code.match(/`+/g) || []).map((run) => run.length)
+    );
+    const fence = "`".repeat(Math.max(3, longestRun + 1));
+
+    return `${fence}${language}\n${code}\n${fence}`;
+  }
+
+  /**
+   * Renders an image block with its caption
+   * @param block The image block
+   */
+  private renderImage(block: Block): string {
+    const url = block.content?.url;
+    if (!url) {
+      return "";
+    }
+
+    const caption = this.escape(block.content?.caption || "");
+    const image = `![${caption}](${this.escapeUrl(url)})`;
+
+    return caption ? `${image}\n*${caption}*` : image;
+  }
+
+  /**
+   * Renders the inline text of a block
+   * @param block The block to render
+   */
+  private renderInline(block: Block): string {
+    // Soft line breaks inside a block become Markdown hard breaks
+    return this.renderSpans(this.getRichText(block)).replace(/\n/g, "  \n");
+  }
+
+  /**
+   * Renders a list of rich text spans
+   * @param spans The spans to render
+   */
+  private renderSpans(spans: RichTextSpan[]): string {
+    return spans.map((span) => this.renderSpan(span)).join("");
+  }
+
+  /**
+   * Renders a rich text span with its annotations and link
+   * @param span The span to render
+   */
+  private renderSpan(span: RichTextSpan): string {
+    // Format each line separately so markers never cross a line break
+    return span.text
+      .split("\n")
+      .map((line) => this.formatLine(line, span))
+      .join("\n");
+  }
+
+  /**
+   * Formats a single line of a span
+   * @param line The line text
+   * @param span The span the line belongs to
+   */
+  private formatLine(line: string, span: RichTextSpan): string {
+    if (!line.trim()) {
+      return line;
+    }
+
+    // Markers must hug the text, so surrounding whitespace stays outside
+    const leading = line.match(/^\s*/)![0];
+    const trailing = line.match(/\s*$/)![0];
+    const text = line.trim();
+    const annotations = span.annotations;
+
+    let markdown: string;
+    if (span.type === "equation") {
+      markdown = `$${text}$`;
+    } else if (annotations?.code) {
+      markdown = this.codeSpan(text);
+    } else {
+      markdown = this.escape(text);
+    }
+
+    if (annotations?.bold) {
+      markdown = `**${markdown}**`;
+    }
+    if (annotations?.italic) {
+      markdown = `*${markdown}*`;
+    }
+    if (annotations?.strikethrough) {
+      markdown = `~~${markdown}~~`;
+    }
+    if (span.href) {
+      markdown = `[${markdown}](${this.escapeUrl(span.href)})`;
+    }
+
+    return leading + markdown + trailing;
+  }
+
+  /**
+   * Wraps text in an inline code span
+   * @param text The code text
+   */
+  private codeSpan(text: string): string {
+    const longestRun = Math.max(
+      0,
+      ...(text.match(/`+/g) || []).map((run) => run.length)
+    );
+    const fence = "`".repeat(longestRun + 1);
+    const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+
+    return `${fence}${padding}${text}${padding}${fence}`;
+  }
+
+  /**
+   * Joins a block's own text with its rendered children
+   * @param text The block text
+   * @param children Nested blocks
+   */
+  private joinParts(text: string, children: Block[]): string {
+    const nested = this.renderBlocks(children);
+    return [text, nested].filter(Boolean).join("\n\n");
+  }
+
+  /**
+   * Indents every line after the first (or every line) by a prefix
+   * @param text Text to indent
+   * @param indent Indentation prefix
+   * @param includeFirst Whether to indent the first line as well
+   */
+  private indentLines(
+    text: string,
+    indent: string,
+    includeFirst = false
+  ): string {
+    return text
+      .split("\n")
+      .map((line, index) =>
+        line && (includeFirst || index > 0) ? indent + line : line
+      )
+      .join("\n");
+  }
+
+  /**
+   * Prefixes every line of a text, used for block quotes
+   * @param text Text to prefix
+   * @param prefix Prefix to add
+   */
+  private prefixLines(text: string, prefix: string): string {
+    return text
+      .split("\n")
+      .map((line) => (line ? prefix + line : prefix.trimEnd()))
+      .join("\n");
+  }
+
+  /**
+   * Escapes characters that would end a Markdown link destination
+   * @param url URL to escape
+   */
+  private escapeUrl(url: string): string {
+    return url.replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29");
+  }
+
+  /**
+   * Escapes characters that Markdown would treat as formatting
+   * @param text Text to escape
+   */
+  private escape(text: string): string {
+    return text.replace(/([\\`*_[\]])/g, "\\$1");
+  }
+}
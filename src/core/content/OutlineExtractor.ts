@@ -0,0 +1,116 @@
+import { Block, OutlineEntry } from "../../types";
+
+/**
+ * Heading block types and the level they represent
+ */
+const HEADING_LEVELS: Record<string, 1 | 2 | 3> = {
+  heading_1: 1,
+  heading_2: 2,
+  heading_3: 3,
+};
+
+/**
+ * Outline Extractor
+ * Collects the headings of a block tree in document order, with anchor
+ * slugs that match the ones generated by GitHub-flavored Markdown
+ */
+export class OutlineExtractor {
+  /**
+   * Extracts the outline of blocks, including nested blocks
+   * @param blocks Blocks to extract headings from
+   */
+  extract(blocks: Block[]): OutlineEntry[] {
+    const outline: OutlineEntry[] = [];
+    this.collectHeadings(blocks, outline, new Map<string, number>());
+    return outline;
+  }
+
+  /**
+   * Gets the nesting depth of each outline entry
+   * Depths start at zero for the highest level and never skip a level,
+   * so a heading_3 directly below a heading_1 is nested only once
+   * @param outline The outline entries
+   */
+  static getDepths(outline: OutlineEntry[]): number[] {
+    const minLevel = Math.min(...outline.map((entry) => entry.level));
+    const depths: number[] = [];
+
+    outline.forEach((entry, index) => {
+      const depth = entry.level - minLevel;
+      depths.push(index === 0 ? 0 : Math.min(depth, depths[index - 1] + 1));
+    });
+
+    return depths;
+  }
+
+  /**
+   * Renders an outline as indented plain text, one heading per line
+   * @param outline The outline entries
+   */
+  static toText(outline: OutlineEntry[]): string {
+    const depths = OutlineExtractor.getDepths(outline);
+
+    return outline
+      .map((entry, index) => "  ".repeat(depths[index]) + entry.text)
+      .join("\n");
+  }
+
+  /**
+   * Adds the headings of blocks to the outline
+   * @param blocks Blocks to search
+   * @param outline The outline being built
+   * @param slugs Number of times each slug was used
+   */
+  private collectHeadings(
+    blocks: Block[],
+    outline: OutlineEntry[],
+    slugs: Map<string, number>
+  ): void {
+    for (const block of blocks) {
+      const children = Array.isArray(block.content?.children)
+        ? block.content.children
+        : [];
+      const level = HEADING_LEVELS[block.type];
+
+      // Headings store their text as a string or in a text field,
+      // absorbed child pages are rendered as a second level heading
+      const text =
+        level !== undefined
+          ? typeof block.content === "string"
+            ? block.content
+            : block.content?.text
+          : block.type === "child_page" && children.length > 0
+            ? block.content?.title
+            : undefined;
+
+      if (typeof text === "string" && text.trim()) {
+        const heading = text.replace(/\s+/g, " ").trim();
+        outline.push({
+          level: level ?? 2,
+          text: heading,
+          slug: this.createSlug(heading, slugs),
+          blockId: block.id,
+        });
+      }
+
+      this.collectHeadings(children, outline, slugs);
+    }
+  }
+
+  /**
+   * Creates a unique anchor slug for a heading
+   * Repeated headings get a numeric suffix, as on GitHub
+   * @param text The heading text
+   * @param slugs Number of times each slug was used
+   */
+  private createSlug(text: string, slugs: Map<string, number>): string {
+    const base = text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "")
+      .replace(/\s/g, "-");
+    const count = slugs.get(base) || 0;
+
+    slugs.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  }
+}
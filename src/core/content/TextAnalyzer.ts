@@ -0,0 +1,382 @@
+import { ContentLanguage, TextStats } from "../../types";
+
+/**
+ * Reading speed of prose, in words per minute for space-separated languages
+ * and in characters per minute for Chinese, Japanese and Korean
+ */
+const READING_SPEEDS: Record<ContentLanguage, number> = {
+  en: 200,
+  other: 200,
+  zh: 300,
+  ja: 400,
+  ko: 500,
+};
+
+/**
+ * Reading speed of code, in lines per minute
+ */
+const CODE_LINES_PER_MINUTE = 20;
+
+/**
+ * Common English words that never make useful tags
+ */
+const ENGLISH_STOP_WORDS = new Set(
+  (
+    "a about above after again against all also am an and any are as at be because been " +
+    "before being below between both but by can could did do does doing down during each " +
+    "even every few for from further had has have having he her here hers him his how " +
+    "however i if in into is it its itself just like make many may me more most much must " +
+    "my no nor not now of off on once only or other our ours out over own same she should " +
+    "since so some such than that the their theirs them then there these they this those " +
+    "through to too under until up upon us use used using very was we well were what when " +
+    "where which while who whom why will with within without would yet you your yours"
+  ).split(" ")
+);
+
+/**
+ * Chinese function words that separate terms
+ */
+const CHINESE_SEPARATORS =
+  /[的了是着和与及或也都就很这那我你他她它们把被吗呢吧啊]+/u;
+
+/**
+ * Chinese words that never make useful tags
+ */
+const CHINESE_STOP_WORDS = new Set([
+  "一个",
+  "一些",
+  "可以",
+  "没有",
+  "如果",
+  "因为",
+  "所以",
+  "但是",
+  "然后",
+  "什么",
+  "怎么",
+  "为什么",
+  "进行",
+  "使用",
+  "通过",
+  "现在",
+  "已经",
+  "需要",
+  "自己",
+  "时候",
+]);
+
+/**
+ * Korean words that never make useful tags
+ */
+const KOREAN_STOP_WORDS = new Set([
+  "그리고",
+  "하지만",
+  "그러나",
+  "그래서",
+  "또는",
+  "있다",
+  "없다",
+  "있는",
+  "하는",
+  "합니다",
+  "입니다",
+  "있습니다",
+  "것은",
+  "것이",
+]);
+
+/**
+ * Korean particles stripped from the end of words
+ */
+const KOREAN_PARTICLES = /(에서|으로|은|는|이|가|을|를|의|에|로|와|과|도|만)$/u;
+
+/**
+ * Characters of Chinese, Japanese and Korean scripts
+ */
+const CJK_CHARACTER =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}ー]/gu;
+
+/**
+ * Text Analyzer
+ * Detects the language of page content and provides reading time and
+ * keyword extraction that work for both space-separated and CJK text
+ */
+export class TextAnalyzer {
+  /**
+   * Detects the main language of content from its scripts
+   * Latin text is English when English stop words are common in it
+   * @param content The page content
+   */
+  detectLanguage(content: string): ContentLanguage {
+    const prose = this.getProse(content);
+    const han = this.count(prose, /\p{Script=Han}/gu);
+    const kana = this.count(
+      prose,
+      /[\p{Script=Hiragana}\p{Script=Katakana}]/gu
+    );
+    const hangul = this.count(prose, /\p{Script=Hangul}/gu);
+    const words = this.getLatinWords(prose);
+    const cjk = han + kana + hangul;
+
+    if (cjk > 0 && cjk >= words.length) {
+      // Japanese mixes kanji with kana, Korean is written almost entirely in Hangul
+      if (kana >= cjk * 0.1) return "ja";
+      if (hangul > han) return "ko";
+      return "zh";
+    }
+
+    const stopWords = words.filter((word) => ENGLISH_STOP_WORDS.has(word));
+    return words.length > 0 && stopWords.length >= words.length * 0.1
+      ? "en"
+      : "other";
+  }
+
+  /**
+   * Measures content, counting code separately from prose
+   * @param content The page content in any content format
+   * @param language The language of the content, detected when omitted
+   */
+  analyze(content: string, language?: ContentLanguage): TextStats {
+    const prose = this.getProse(content);
+
+    return {
+      language: language || this.detectLanguage(content),
+      words: this.getLatinWords(prose).length,
+      characters: this.count(prose, CJK_CHARACTER),
+      codeLines: this.getCode(content)
+        .flatMap((code) => code.split("\n"))
+        .filter((line) => line.trim()).length,
+    };
+  }
+
+  /**
+   * Counts words, treating every CJK character as a word
+   * @param content The page content
+   */
+  countWords(content: string): number {
+    if (!content) return 0;
+
+    const text = this.stripMarkup(content);
+    const words = text
+      .replace(CJK_CHARACTER, " ")
+      .split(/\s+/)
+      .filter((word) => /[\p{L}\p{N}]/u.test(word)).length;
+
+    return words + this.count(text, CJK_CHARACTER);
+  }
+
+  /**
+   * Estimates the reading time of content in minutes
+   * Prose is read at the speed of its language and code line by line
+   * @param content The page content in any content format
+   * @param language The language of the content, detected when omitted
+   */
+  estimateReadingTime(content: string, language?: ContentLanguage): number {
+    if (!content || !content.trim()) return 0;
+
+    const stats = this.analyze(content, language);
+    // CJK characters in Latin text are most often Chinese
+    const characterSpeed =
+      stats.language === "ja" || stats.language === "ko"
+        ? READING_SPEEDS[stats.language]
+        : READING_SPEEDS.zh;
+    const minutes =
+      stats.words / READING_SPEEDS[stats.language] +
+      stats.characters / characterSpeed +
+      stats.codeLines / CODE_LINES_PER_MINUTE;
+
+    return Math.max(1, Math.ceil(minutes));
+  }
+
+  /**
+   * Extracts the most frequent terms of content
+   * Terms of CJK text must occur at least twice and pairs straddling two
+   * words are dropped, because terms are found without a dictionary
+   * @param content The page content in any content format
+   * @param limit Maximum number of terms
+   * @param language The language of the content, detected when omitted
+   */
+  extractKeywords(
+    content: string,
+    limit: number,
+    language?: ContentLanguage
+  ): string[] {
+    const prose = this.getProse(content);
+    const counts = new Map<string, number>();
+
+    for (const term of this.extractTerms(
+      prose,
+      language || this.detectLanguage(content)
+    )) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    return Array.from(counts.entries())
+      .filter(
+        ([term, count]) =>
+          !this.isCjk(term) ||
+          (count > 1 && !this.isStraddlingPair(term, count, counts))
+      )
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([term]) => term);
+  }
+
+  /**
+   * Extracts the distinct terms of a title
+   * @param title The page title
+   * @param language The language of the page
+   */
+  extractTitleTerms(title: string, language?: ContentLanguage): string[] {
+    return Array.from(
+      new Set(this.extractTerms(title, language || this.detectLanguage(title)))
+    );
+  }
+
+  /**
+   * Splits text into candidate tag terms
+   * @param text Text without markup
+   * @param language The language of the text
+   */
+  private extractTerms(text: string, language: ContentLanguage): string[] {
+    const terms = this.getLatinWords(text).filter(
+      (word) => word.length > 3 && !ENGLISH_STOP_WORDS.has(word)
+    );
+
+    // Katakana runs are mostly loanwords and names
+    for (const run of text.match(/[\p{Script=Katakana}ー]{2,}/gu) || []) {
+      terms.push(run);
+    }
+
+    for (const run of text.match(/\p{Script=Han}+/gu) || []) {
+      if (language === "ja") {
+        // Kana separates Japanese words, so kanji runs are compounds
+        if (run.length >= 2) terms.push(run);
+        continue;
+      }
+
+      for (const segment of run.split(CHINESE_SEPARATORS)) {
+        if (segment.length >= 2 && segment.length <= 4) {
+          terms.push(segment);
+        } else if (segment.length > 4) {
+          // Long runs are split into overlapping pairs, frequent pairs are words
+          for (let index = 0; index < segment.length - 1; index++) {
+            terms.push(segment.slice(index, index + 2));
+          }
+        }
+      }
+    }
+
+    for (const word of text.match(/\p{Script=Hangul}+/gu) || []) {
+      const stem = word.length > 2 ? word.replace(KOREAN_PARTICLES, "") : word;
+      if (stem.length >= 2 && !KOREAN_STOP_WORDS.has(stem)) {
+        terms.push(stem);
+      }
+    }
+
+    return terms.filter(
+      (term) => !CHINESE_STOP_WORDS.has(term) && !KOREAN_STOP_WORDS.has(term)
+    );
+  }
+
+  /**
+   * Checks if a CJK pair straddles two words, which is the case when
+   * a pair overlapping it occurs more often, like 部函 in 内部函数
+   * @param term The pair to check
+   * @param count Number of times the pair occurs
+   * @param counts Number of times each term occurs
+   */
+  private isStraddlingPair(
+    term: string,
+    count: number,
+    counts: Map<string, number>
+  ): boolean {
+    if (term.length !== 2) return false;
+
+    for (const [other, otherCount] of counts) {
+      if (
+        other.length === 2 &&
+        otherCount > count &&
+        (other[0] === term[1] || other[1] === term[0])
+      ) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Gets the Latin words of text in lower case
+   * Words mixed with digits or symbols are left out
+   * @param text Text without markup
+   */
+  private getLatinWords(text: string): string[] {
+    return text
+      .replace(CJK_CHARACTER, " ")
+      .split(/\s+/)
+      .map((word) => word.replace(/^[^\p{L}]+|[^\p{L}]+$/gu, ""))
+      .filter((word) => /^\p{Script=Latin}+$/u.test(word))
+      .map((word) => word.toLowerCase());
+  }
+
+  /**
+   * Gets the prose of content, without code blocks, markup or URLs
+   * @param content The page content in any content format
+   */
+  private getProse(content: string): string {
+    return this.stripMarkup(
+      (content || "")
+        .replace(/(`{3,})[^\n]*\n[\s\S]*?\1/g, " ")
+        .replace(/<pre[^>]*>[\s\S]*?<\/pre>/gi, " ")
+    ).replace(/https?:\/\/\S+/g, " ");
+  }
+
+  /**
+   * Gets the code blocks of content
+   * Code is fenced in text and Markdown content and preformatted in HTML
+   * @param content The page content in any content format
+   */
+  private getCode(content: string): string[] {
+    const code: string[] = [];
+
+    for (const match of (content || "").matchAll(
+      /(`{3,})[^\n]*\n([\s\S]*?)\1/g
+    )) {
+      code.push(match[2]);
+    }
+
+    for (const match of (content || "").matchAll(
+      /<pre[^>]*>([\s\S]*?)<\/pre>/gi
+    )) {
+      code.push(this.stripMarkup(match[1]));
+    }
+
+    return code;
+  }
+
+  /**
+   * Removes HTML tags and entities from content
+   * @param content The page content
+   */
+  private stripMarkup(content: string): string {
+    return content.replace(/<[^>]*>/g, " ").replace(/&[#\w]+;/g, " ");
+  }
+
+  /**
+   * Checks if a term is written in a CJK script
+   * @param term The term to check
+   */
+  private isCjk(term: string): boolean {
+    return new RegExp(CJK_CHARACTER.source, "u").test(term);
+  }
+
+  /**
+   * Counts the matches of a pattern in text
+   * @param text The text to search
+   * @param pattern A global pattern
+   */
+  private count(text: string, pattern: RegExp): number {
+    return (text.match(pattern) || []).length;
+  }
+}
@@ -0,0 +1,92 @@
+import { CategoryMapping, CategoryRule } from "../../types";
+
+/**
+ * Maps source category titles onto categories using declarative rules
+ * Titles that match no rule are used as they are
+ */
+export class CategoryMapper {
+  private rules: Array<{ rule: CategoryRule; pattern: RegExp }>;
+
+  /**
+   * Creates a new CategoryMapper
+   * @param rules Category rules, applied in order
+   */
+  constructor(rules: CategoryRule[] = []) {
+    // Stateful flags would make repeated tests against the same pattern unreliable
+    this.rules = rules.map((rule) => ({
+      rule,
+      pattern: new RegExp(rule.match, rule.flags?.replace(/[gy]/g, "")),
+    }));
+  }
+
+  /**
+   * Applies the first matching rule to a title
+   * @param title The source category title
+   * @returns The mapped category, or undefined if the category is excluded
+   */
+  map(title: string): CategoryMapping | undefined {
+    const entry = this.rules.find(({ pattern }) => pattern.test(title));
+    if (!entry) {
+      return { name: title };
+    }
+
+    const { rule, pattern } = entry;
+    if (rule.exclude) {
+      return undefined;
+    }
+
+    let name = title;
+    if (rule.alias !== undefined) {
+      name = rule.alias;
+    } else if (rule.rename !== undefined) {
+      name = title.replace(pattern, rule.rename).trim();
+    }
+
+    if (rule.prefix) {
+      name = rule.prefix + name;
+    }
+
+    return rule.parent ? { name, parent: rule.parent } : { name };
+  }
+
+  /**
+   * Validates category rules from the configuration
+   * @param rules The configured rules
+   * @returns Error messages, empty if the rules are valid
+   */
+  static validate(rules: unknown): string[] {
+    if (!Array.isArray(rules)) {
+      return ["Category rules must be an array"];
+    }
+
+    const errors: string[] = [];
+
+    rules.forEach((rule, index) => {
+      const label = `Category rule ${index + 1}`;
+
+      if (!rule || typeof rule !== "object" || typeof rule.match !== "string") {
+        errors.push(`${label} must have a match pattern`);
+        return;
+      }
+
+      try {
+        new RegExp(rule.match, rule.flags);
+      } catch (error) {
+        errors.push(
+          `${label} has an invalid pattern: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      if (rule.alias !== undefined && rule.rename !== undefined) {
+        errors.push(`${label} cannot both rename and alias`);
+      }
+
+      const actions = ["rename", "alias", "prefix", "exclude", "parent"];
+      if (!actions.some((action) => rule[action] !== undefined)) {
+        errors.push(`${label} has no action (${actions.join(", ")})`);
+      }
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,115 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { Block, PageContent } from "../../types";
+
+/**
+ * Version of the cached entry format
+ * Bump this when the shape of transformed blocks changes so stale entries are ignored
+ */
+const CACHE_VERSION = 2;
+
+/**
+ * Entry stored in the content cache
+ */
+interface ContentCacheEntry {
+  version: number;
+  pageContent: PageContent;
+}
+
+/**
+ * Persistent on-disk cache of transformed page content
+ * Entries are keyed by page ID and stay valid while the page's last edited time is unchanged
+ * and the Notion file URLs in them have not expired
+ */
+export class ContentCache {
+  private cacheDir: string;
+
+  /**
+   * Creates a new ContentCache
+   * @param cacheDir Directory to store cached pages in
+   */
+  constructor(cacheDir: string) {
+    this.cacheDir = cacheDir;
+  }
+
+  /**
+   * Gets the cached content of a page if it is still current
+   * @param pageId ID of the page
+   * @param lastEditedTime The page's current last edited time
+   */
+  async get(
+    pageId: string,
+    lastEditedTime: string
+  ): Promise<PageContent | undefined> {
+    try {
+      const filePath = this.getFilePath(pageId);
+      if (!(await fs.pathExists(filePath))) {
+        return undefined;
+      }
+
+      const entry: ContentCacheEntry = await fs.readJSON(filePath);
+      if (
+        entry.version !== CACHE_VERSION ||
+        entry.pageContent?.lastEditedTime !== lastEditedTime ||
+        this.hasExpiredFiles(entry.pageContent.blocks)
+      ) {
+        return undefined;
+      }
+
+      return entry.pageContent;
+    } catch (error) {
+      // A corrupt entry is treated as a miss and rewritten on the next set
+      console.warn(
+        `Error reading cached content for page ${pageId}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores the content of a page
+   * @param pageId ID of the page
+   * @param pageContent The transformed page content
+   */
+  async set(pageId: string, pageContent: PageContent): Promise<void> {
+    try {
+      const entry: ContentCacheEntry = { version: CACHE_VERSION, pageContent };
+      await fs.ensureDir(this.cacheDir);
+      await fs.writeJSON(this.getFilePath(pageId), entry);
+    } catch (error) {
+      console.error(`Error caching content for page ${pageId}:`, error);
+    }
+  }
+
+  /**
+   * Removes all cached pages
+   */
+  async clear(): Promise<void> {
+    await fs.remove(this.cacheDir);
+  }
+
+  /**
+   * Checks whether any block links to a Notion-hosted file whose URL has expired
+   * @param blocks Blocks to check, including nested blocks
+   */
+  private hasExpiredFiles(blocks: Block[] = []): boolean {
+    const now = Date.now();
+
+    return blocks.some(
+      (block) =>
+        (block.content?.expiryTime &&
+          Date.parse(block.content.expiryTime) <= now) ||
+        (Array.isArray(block.content?.children) &&
+          this.hasExpiredFiles(block.content.children))
+    );
+  }
+
+  /**
+   * Gets the path of the cache file for a page
+   * @param pageId ID of the page
+   */
+  private getFilePath(pageId: string): string {
+    return path.join(this.cacheDir, `${pageId.replace(/-/g, "")}.json`);
+  }
+}
@@ -21,8 +21,8 @@ export class ContentPageFactory {
       id: block.id,
       title: this.extractTitle(pageResponse),
       parentId: category.id,
-      category:
-        category.type === "mit" ? `CITS${category.name}` : category.name,
+      category: category.name,
+      ...(category.parent && { parentCategory: category.parent }),
       content: blockContent,
       createdTime: pageResponse.created_time,
       lastEditedTime: pageResponse.last_edited_time,
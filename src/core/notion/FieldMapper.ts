@@ -0,0 +1,535 @@
+import {
+  Block,
+  ContentPage,
+  DatabaseSchema,
+  FieldBinding,
+  FieldMapping,
+  FieldOwnership,
+  FieldOwnershipMap,
+  MappedField,
+  NotionEntry,
+  PropertyDefinition,
+} from "../../types";
+import { OutlineExtractor } from "../content/OutlineExtractor";
+
+/**
+ * Types each content page field can be written as
+ */
+const FIELD_TYPES: Record<MappedField, FieldBinding["type"][]> = {
+  title: ["title"],
+  category: ["select", "multi_select", "rich_text"],
+  tags: ["multi_select", "select", "rich_text"],
+  summary: ["rich_text", "callout"],
+  excerpt: ["rich_text", "callout"],
+  minsRead: ["number", "rich_text"],
+  imageUrl: ["url", "rich_text"],
+  r2ImageUrl: ["url", "rich_text"],
+  createdTime: ["date", "rich_text"],
+  status: ["select", "status", "rich_text"],
+  originalPageUrl: ["url", "rich_text"],
+  published: ["checkbox"],
+  outline: ["rich_text", "callout"],
+  sourceId: ["rich_text"],
+};
+
+/**
+ * Ownerships a field can have
+ */
+const OWNERSHIPS: FieldOwnership[] = [
+  "source-wins",
+  "database-wins",
+  "fill-if-empty",
+  "ai-only-once",
+];
+
+/**
+ * Fields the content enhancement generates when the page has no value
+ */
+const GENERATED_FIELDS: MappedField[] = [
+  "summary",
+  "excerpt",
+  "tags",
+  "minsRead",
+  "imageUrl",
+];
+
+/**
+ * Maximum length of a single rich text object accepted by the Notion API
+ */
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Value of a content page field, or of the property it is written to
+ */
+export type FieldValue = string | number | boolean | string[] | undefined;
+
+/**
+ * Field Mapper
+ * Writes content page fields to the target database properties they are
+ * bound to, and reads them back from existing entries
+ */
+export class FieldMapper {
+  /**
+   * Bindings matching the built-in database schema
+   */
+  static readonly DEFAULT_MAPPING: FieldMapping = {
+    title: { property: "Title", type: "title" },
+    category: { property: "Category", type: "select" },
+    tags: { property: "Tags", type: "multi_select" },
+    summary: { property: "Summary", type: "rich_text" },
+    excerpt: { property: "Excerpt", type: "rich_text" },
+    minsRead: { property: "Mins Read", type: "number" },
+    imageUrl: { property: "Image", type: "url" },
+    r2ImageUrl: { property: "R2ImageUrl", type: "url" },
+    createdTime: { property: "Date Created", type: "date" },
+    status: { property: "Status", type: "select" },
+    originalPageUrl: { property: "Original Page", type: "url" },
+    published: { property: "Published", type: "checkbox" },
+    sourceId: { property: "Source ID", type: "rich_text" },
+  };
+
+  /**
+   * Ownership of the fields not listed in the configured ownership
+   */
+  static readonly DEFAULT_OWNERSHIP: FieldOwnershipMap = {
+    title: "source-wins",
+  };
+
+  private mapping: FieldMapping;
+  private ownership: FieldOwnershipMap;
+  private relatedPages: Map<string, string>;
+
+  /**
+   * Creates a new FieldMapper
+   * @param mapping Field bindings, the default mapping when omitted
+   * @param outlineProperty Rich text property the outline is written to when the mapping does not bind it
+   * @param ownership Ownership of fields of existing entries, added to the default ownership
+   */
+  constructor(
+    mapping: FieldMapping = FieldMapper.DEFAULT_MAPPING,
+    outlineProperty?: string,
+    ownership?: FieldOwnershipMap
+  ) {
+    this.mapping = { ...mapping };
+    this.ownership = { ...FieldMapper.DEFAULT_OWNERSHIP, ...ownership };
+    this.relatedPages = new Map<string, string>();
+
+    if (outlineProperty && !this.mapping.outline) {
+      this.mapping.outline = { property: outlineProperty, type: "rich_text" };
+    }
+  }
+
+  /**
+   * Binds the category field to a relation with the categories database
+   * The field keeps its property, a mapping that does not write the
+   * category to a property is returned unchanged
+   * @param mapping Field bindings, the default mapping when omitted
+   * @returns A copy of the mapping
+   */
+  static withCategoryRelation(
+    mapping: FieldMapping = FieldMapper.DEFAULT_MAPPING
+  ): FieldMapping {
+    const binding = mapping.category;
+    if (!binding?.property || binding.type === "callout") {
+      return { ...mapping };
+    }
+
+    return {
+      ...mapping,
+      category: { property: binding.property, type: "relation" },
+    };
+  }
+
+  /**
+   * Sets the pages relation properties link to
+   * Values without a related page are left out of the relation
+   * @param pages IDs of the related pages, by value
+   */
+  setRelatedPages(pages: Map<string, string>): void {
+    this.relatedPages = new Map(pages);
+  }
+
+  /**
+   * Writes the status field as a status when its property is a status in the database
+   * The built-in schema has a select, while many databases use Notion's
+   * status property, which takes the same option names
+   * @param live The schema of the target database
+   */
+  useStatusProperty(live: DatabaseSchema): void {
+    const binding = this.mapping.status;
+
+    if (
+      binding?.type === "select" &&
+      binding.property &&
+      live.properties[binding.property]?.type === "status"
+    ) {
+      this.mapping.status = { ...binding, type: "status" };
+    }
+  }
+
+  /**
+   * Gets the binding of a field
+   * @param field The content page field
+   */
+  getBinding(field: MappedField): FieldBinding | undefined {
+    return this.mapping[field];
+  }
+
+  /**
+   * Gets who owns a field of existing entries
+   * @param field The content page field
+   */
+  getOwnership(field: MappedField): FieldOwnership {
+    return this.ownership[field] || "fill-if-empty";
+  }
+
+  /**
+   * Gets the fields that are written to properties
+   */
+  getPropertyFields(): MappedField[] {
+    return this.getBindings()
+      .filter(([, binding]) => binding.type !== "callout")
+      .map(([field]) => field);
+  }
+
+  /**
+   * Gets the properties the mapping writes to, with their types
+   */
+  getPropertyTypes(): Record<string, PropertyDefinition["type"]> {
+    const types: Record<string, PropertyDefinition["type"]> = {};
+
+    for (const [, binding] of this.getBindings()) {
+      if (binding.type !== "callout" && binding.property) {
+        types[binding.property] = binding.type;
+      }
+    }
+
+    return types;
+  }
+
+  /**
+   * Gets the value of a field of a content page
+   * @param contentPage The content page
+   * @param field The field to get
+   */
+  getValue(contentPage: ContentPage, field: MappedField): FieldValue {
+    switch (field) {
+      case "minsRead":
+        return contentPage.minsRead || 0;
+      case "status":
+        return contentPage.status || "Draft";
+      case "published":
+        return contentPage.published || false;
+      case "outline":
+        return OutlineExtractor.toText(contentPage.outline || []);
+      case "sourceId":
+        return contentPage.id;
+      default:
+        return contentPage[field];
+    }
+  }
+
+  /**
+   * Converts the bound fields of a content page into property values
+   * @param contentPage The content page to convert
+   * @param fields Fields to convert, all bound fields when omitted
+   */
+  toProperties(
+    contentPage: ContentPage,
+    fields?: MappedField[]
+  ): Record<string, any> {
+    const properties: Record<string, any> = {};
+
+    for (const [field] of this.getBindings()) {
+      if (!fields || fields.includes(field)) {
+        Object.assign(
+          properties,
+          this.toFieldProperties(field, this.getValue(contentPage, field))
+        );
+      }
+    }
+
+    return properties;
+  }
+
+  /**
+   * Converts the value of a single field into the value of its property
+   * @param field The field
+   * @param value The value to write
+   * @returns The property value keyed by property, empty if the field is not written to a property
+   */
+  toFieldProperties(
+    field: MappedField,
+    value: FieldValue
+  ): Record<string, any> {
+    const binding = this.mapping[field];
+    if (!binding?.property || binding.type === "callout") {
+      return {};
+    }
+
+    return {
+      [binding.property]: this.toPropertyValue(binding.type, value),
+    };
+  }
+
+  /**
+   * Converts a field value into the value read back after writing it
+   * Used to compare source values with the values of existing entries
+   * @param field The field
+   * @param value The value to convert
+   */
+  toStoredValue(field: MappedField, value: FieldValue): FieldValue {
+    return this.readField(
+      { properties: this.toFieldProperties(field, value) } as NotionEntry,
+      field
+    );
+  }
+
+  /**
+   * Creates the callouts a page body starts with
+   * Empty fields get no callout
+   * @param contentPage The content page to convert
+   */
+  toCallouts(contentPage: ContentPage): Block[] {
+    const callouts: Block[] = [];
+
+    for (const [field, binding] of this.getBindings()) {
+      const text =
+        binding.type === "callout"
+          ? this.toText(this.getValue(contentPage, field))
+          : "";
+
+      if (text) {
+        callouts.push({
+          id: `${contentPage.id}-${field}`,
+          type: "callout",
+          content: { text, richText: [] },
+          hasChildren: false,
+        });
+      }
+    }
+
+    return callouts;
+  }
+
+  /**
+   * Reads the value of a field back from the property of an entry
+   * @param entry The database entry
+   * @param field The field to read
+   * @returns The value, or undefined if the field is not written to a property
+   */
+  readField(entry: NotionEntry, field: MappedField): FieldValue {
+    const binding = this.mapping[field];
+    if (!binding?.property || binding.type === "callout") {
+      return undefined;
+    }
+
+    const property = entry.properties[binding.property];
+    if (!property) {
+      return undefined;
+    }
+
+    switch (binding.type) {
+      case "title":
+      case "rich_text":
+        return (property[binding.type] || [])
+          .map((part: any) => part.plain_text ?? part.text?.content ?? "")
+          .join("");
+      case "select":
+      case "status":
+        return property[binding.type]?.name;
+      case "multi_select":
+        return (property.multi_select || []).map((option: any) => option.name);
+      case "number":
+        return property.number ?? undefined;
+      case "url":
+        return property.url ?? undefined;
+      case "date":
+        return property.date?.start;
+      case "checkbox":
+        return property.checkbox;
+      case "relation":
+        return (property.relation || []).map((page: any) => page.id);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Validates a field mapping from the configuration
+   * @param mapping The configured mapping
+   * @returns Error messages, empty if the mapping is valid
+   */
+  static validate(mapping: unknown): string[] {
+    if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+      return ["Field mapping must be an object"];
+    }
+
+    const errors: string[] = [];
+    const fields = new Map<string, string>();
+
+    for (const [field, binding] of Object.entries<any>(mapping)) {
+      const types = FIELD_TYPES[field as MappedField];
+
+      if (!types) {
+        errors.push(`Unknown field in field mapping: ${field}`);
+        continue;
+      }
+
+      if (!binding || !types.includes(binding.type)) {
+        errors.push(
+          `Unsupported type of field "${field}": ${binding?.type} (expected ${types.join(", ")})`
+        );
+        continue;
+      }
+
+      if (binding.type === "callout") {
+        continue;
+      }
+
+      if (typeof binding.property !== "string" || !binding.property.trim()) {
+        errors.push(`Field "${field}" must name a property`);
+      } else if (fields.has(binding.property)) {
+        errors.push(
+          `Property "${binding.property}" is bound to both "${fields.get(binding.property)}" and "${field}"`
+        );
+      } else {
+        fields.set(binding.property, field);
+      }
+    }
+
+    if (!("title" in mapping)) {
+      errors.push("Field mapping must bind the title field");
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates a field ownership from the configuration
+   * The source ID identifies entries, so its ownership cannot be changed
+   * @param ownership The configured ownership
+   * @returns Error messages, empty if the ownership is valid
+   */
+  static validateOwnership(ownership: unknown): string[] {
+    if (
+      !ownership ||
+      typeof ownership !== "object" ||
+      Array.isArray(ownership)
+    ) {
+      return ["Field ownership must be an object"];
+    }
+
+    const errors: string[] = [];
+
+    for (const [field, value] of Object.entries<any>(ownership)) {
+      if (!FIELD_TYPES[field as MappedField]) {
+        errors.push(`Unknown field in field ownership: ${field}`);
+      } else if (field === "sourceId") {
+        errors.push("The ownership of the sourceId field cannot be changed");
+      } else if (!OWNERSHIPS.includes(value)) {
+        errors.push(
+          `Unsupported ownership of field "${field}": ${value} (expected ${OWNERSHIPS.join(", ")})`
+        );
+      } else if (
+        value === "ai-only-once" &&
+        !GENERATED_FIELDS.includes(field as MappedField)
+      ) {
+        errors.push(
+          `Field "${field}" is not generated, so it cannot be ai-only-once`
+        );
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Gets the bound fields in mapping order
+   */
+  private getBindings(): Array<[MappedField, FieldBinding]> {
+    return Object.entries(this.mapping).filter(
+      (entry): entry is [MappedField, FieldBinding] => !!entry[1]
+    );
+  }
+
+  /**
+   * Converts a field value into the value of a property of the given type
+   * @param type The property type
+   * @param value The field value
+   */
+  private toPropertyValue(
+    type: PropertyDefinition["type"],
+    value: FieldValue
+  ): Record<string, any> {
+    switch (type) {
+      case "title":
+        return { title: this.toRichText(this.toText(value)) };
+      case "rich_text":
+        return { rich_text: this.toRichText(this.toText(value)) };
+      case "select": {
+        // A select holds a single option, so lists keep their first item
+        const name = Array.isArray(value) ? value[0] : this.toText(value);
+        return { select: name ? { name } : null };
+      }
+      case "status": {
+        const name = Array.isArray(value) ? value[0] : this.toText(value);
+        return { status: name ? { name } : null };
+      }
+      case "multi_select": {
+        const names = Array.isArray(value)
+          ? value
+          : [this.toText(value)].filter(Boolean);
+        return { multi_select: names.map((name) => ({ name })) };
+      }
+      case "number":
+        return { number: typeof value === "number" ? value : null };
+      case "url":
+        return { url: this.toText(value) || null };
+      case "date":
+        return { date: value ? { start: this.toText(value) } : null };
+      case "checkbox":
+        return { checkbox: !!value };
+      case "relation": {
+        const names = Array.isArray(value) ? value : [this.toText(value)];
+        return {
+          relation: names
+            .map((name) => this.relatedPages.get(name))
+            .filter((id): id is string => !!id)
+            .map((id) => ({ id })),
+        };
+      }
+      default:
+        throw new Error(`Unsupported type of mapped property: ${type}`);
+    }
+  }
+
+  /**
+   * Converts a field value into text, joining lists with commas
+   * @param value The field value
+   */
+  private toText(value: FieldValue): string {
+    if (Array.isArray(value)) {
+      return value.join(", ");
+    }
+
+    return value === undefined ? "" : String(value);
+  }
+
+  /**
+   * Converts text into rich text, split into parts the API accepts
+   * @param text The text to convert
+   */
+  private toRichText(text: string): any[] {
+    const parts: any[] = [];
+
+    for (let start = 0; start < text.length; start += MAX_TEXT_LENGTH) {
+      parts.push({
+        type: "text",
+        text: { content: text.slice(start, start + MAX_TEXT_LENGTH) },
+      });
+    }
+
+    return parts;
+  }
+}
@@ -0,0 +1,265 @@
+import { Block, NotionBlockRequest, RichTextSpan } from "../../types";
+
+/**
+ * Block types whose content is a rich text body
+ */
+const TEXT_BLOCK_TYPES = [
+  "paragraph",
+  "heading_1",
+  "heading_2",
+  "heading_3",
+  "bulleted_list_item",
+  "numbered_list_item",
+  "quote",
+  "toggle",
+  "to_do",
+  "callout",
+];
+
+/**
+ * Block types that hold an external file
+ */
+const MEDIA_BLOCK_TYPES = ["image", "video", "file", "pdf"];
+
+/**
+ * Maximum length of a single rich text object accepted by the Notion API
+ */
+const MAX_TEXT_LENGTH = 2000;
+
+/**
+ * Notion Block Converter
+ * Converts transformed blocks back into the request shape of the Notion API
+ * so page bodies can be written to the target database
+ */
+export class NotionBlockConverter {
+  /**
+   * Converts blocks into Notion block requests
+   * Blocks the API cannot create are flattened or skipped
+   * @param blocks Blocks to convert
+   */
+  toNotionBlocks(blocks: Block[]): NotionBlockRequest[] {
+    const result: NotionBlockRequest[] = [];
+
+    for (const block of blocks) {
+      result.push(...this.convertBlock(block));
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts a single block, which may yield several blocks or none
+   * @param block The block to convert
+   */
+  private convertBlock(block: Block): NotionBlockRequest[] {
+    const content = block.content || {};
+    const children = this.toNotionBlocks(this.getChildren(block));
+
+    if (TEXT_BLOCK_TYPES.includes(block.type)) {
+      const payload: Record<string, any> = {
+        rich_text: this.toRichText(content.richText, content.text),
+      };
+
+      if (block.type === "to_do") {
+        payload.checked = !!content.checked;
+      } else if (block.type === "callout" && content.icon) {
+        payload.icon = /^https?:/i.test(content.icon)
+          ? { type: "external", external: { url: content.icon } }
+          : { type: "emoji", emoji: content.icon };
+      } else if (block.type.startsWith("heading_") && children.length > 0) {
+        // Only toggleable headings can hold children
+        payload.is_toggleable = true;
+      }
+
+      return [this.createBlock(block.type, payload, children)];
+    }
+
+    if (MEDIA_BLOCK_TYPES.includes(block.type)) {
+      // Only reachable URLs can be referenced as external files
+      if (!/^https?:/i.test(content.url || "")) {
+        return [];
+      }
+
+      return [
+        this.createBlock(block.type, {
+          type: "external",
+          external: { url: content.url },
+          ...(content.caption && {
+            caption: this.toRichText(undefined, content.caption),
+          }),
+        }),
+      ];
+    }
+
+    switch (block.type) {
+      case "code":
+        return [
+          this.createBlock("code", {
+            rich_text: this.toRichText(undefined, content.text),
+            language: content.language || "plain text",
+          }),
+        ];
+      case "bookmark":
+      case "embed":
+        return content.url
+          ? [
+              this.createBlock(block.type, {
+                url: content.url,
+                ...(content.caption && {
+                  caption: this.toRichText(undefined, content.caption),
+                }),
+              }),
+            ]
+          : [];
+      case "equation":
+        return [
+          this.createBlock("equation", {
+            expression: content.expression || "",
+          }),
+        ];
+      case "divider":
+        return [this.createBlock("divider", {})];
+      case "table":
+        return [
+          this.createBlock(
+            "table",
+            {
+              table_width: content.tableWidth || 0,
+              has_column_header: !!content.hasColumnHeader,
+              has_row_header: !!content.hasRowHeader,
+            },
+            children
+          ),
+        ];
+      case "table_row":
+        return [
+          this.createBlock("table_row", {
+            cells: (content.cells || []).map((cell: any) =>
+              this.toRichText(cell?.richText, cell?.text)
+            ),
+          }),
+        ];
+      case "column_list":
+      case "column":
+        return children.length > 0
+          ? [this.createBlock(block.type, {}, children)]
+          : [];
+      case "child_page":
+        // Child pages absorbed into their parent become a section of it
+        return children.length > 0
+          ? [
+              this.createBlock("heading_2", {
+                rich_text: this.toRichText(undefined, content.title),
+              }),
+              ...children,
+            ]
+          : [];
+      case "synced_block":
+        // Synced blocks are copied as their content
+        return children;
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Creates a block request, nesting children inside the type payload
+   * @param type The block type
+   * @param payload The type specific payload
+   * @param children Converted child blocks
+   */
+  private createBlock(
+    type: string,
+    payload: Record<string, any>,
+    children: NotionBlockRequest[] = []
+  ): NotionBlockRequest {
+    return {
+      object: "block",
+      type,
+      [type]: children.length > 0 ? { ...payload, children } : payload,
+    };
+  }
+
+  /**
+   * Gets the child blocks of a block
+   * @param block The block to read
+   */
+  private getChildren(block: Block): Block[] {
+    const children = block.content?.children;
+    return Array.isArray(children) ? children : [];
+  }
+
+  /**
+   * Converts formatted spans into Notion rich text
+   * Falls back to the plain text when a block has no spans
+   * @param spans The formatted spans
+   * @param text The plain text of the block
+   */
+  private toRichText(
+    spans: RichTextSpan[] | undefined,
+    text: string | undefined
+  ): any[] {
+    if (!spans || spans.length === 0) {
+      return text ? this.toTextObjects(text) : [];
+    }
+
+    const result: any[] = [];
+
+    for (const span of spans) {
+      if (span.type === "equation") {
+        result.push({
+          type: "equation",
+          equation: { expression: span.text },
+          ...(span.annotations && { annotations: span.annotations }),
+        });
+      } else if (span.type === "mention" && span.mention?.type === "date") {
+        result.push({
+          type: "mention",
+          mention: {
+            type: "date",
+            date: {
+              start: span.mention.start,
+              ...(span.mention.end && { end: span.mention.end }),
+            },
+          },
+          ...(span.annotations && { annotations: span.annotations }),
+        });
+      } else {
+        // Other mentions point into the source workspace, so keep their text
+        const href = span.href || span.mention?.url;
+        result.push(...this.toTextObjects(span.text, href, span.annotations));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates text objects, splitting text longer than the API limit
+   * @param text The text content
+   * @param href Optional link target
+   * @param annotations Optional formatting
+   */
+  private toTextObjects(
+    text: string,
+    href?: string,
+    annotations?: RichTextSpan["annotations"]
+  ): any[] {
+    const result: any[] = [];
+    // Relative links to other Notion pages cannot be written as links
+    const link = href && /^https?:/i.test(href) ? { url: href } : undefined;
+
+    for (let start = 0; start < text.length; start += MAX_TEXT_LENGTH) {
+      result.push({
+        type: "text",
+        text: {
+          content: text.slice(start, start + MAX_TEXT_LENGTH),
+          ...(link && { link }),
+        },
+        ...(annotations && { annotations }),
+      });
+    }
+
+    return result;
+  }
+}
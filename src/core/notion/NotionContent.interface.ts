@@ -1,4 +1,9 @@
-import { Category, ContentPage, PageContent } from "../../types";
+import {
+  Category,
+  ContentLanguage,
+  ContentPage,
+  PageContent,
+} from "../../types";
 
 /**
  * Interface for the NotionContent component
@@ -23,6 +28,19 @@ export interface INotionContent {
    */
   extractValidContent(pageId: string): Promise<ContentPage[]>;
 
+  /**
+   * Extracts content pages from the rows of a database
+   * @param databaseId ID of the database to read
+   */
+  extractDatabaseContent(databaseId: string): Promise<ContentPage[]>;
+
+  /**
+   * Lists the pages of a source that are left out because the category
+   * rules exclude their category
+   * @param sourceId ID of the source page, or of the source database after extracting its content
+   */
+  extractExcludedPageIds(sourceId: string): Promise<string[]>;
+
   /**
    * Generates an excerpt from content
    * @param content Content to generate excerpt from
@@ -35,12 +53,19 @@ export interface INotionContent {
    * @param content Content to extract tags from
    * @param title Title of the content
    * @param category Optional category of the content
+   * @param language Optional language of the content, detected when omitted
    */
-  extractTags(content: string, title: string, category?: string): string[];
+  extractTags(
+    content: string,
+    title: string,
+    category?: string,
+    language?: ContentLanguage
+  ): string[];
 
   /**
    * Estimates reading time for content
    * @param content Content to estimate reading time for
+   * @param language Optional language of the content, detected when omitted
    */
-  estimateReadingTime(content: string): number;
+  estimateReadingTime(content: string, language?: ContentLanguage): number;
 }
@@ -1,13 +1,32 @@
 import { Client } from "@notionhq/client";
-import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
+import {
+  PageObjectResponse,
+  QueryDatabaseResponse,
+} from "@notionhq/client/build/src/api-endpoints";
 import {
   Block,
   Category,
+  ContentAsset,
+  ContentFormat,
+  ContentLanguage,
   ContentPage,
   NotionConfig,
   PageContent,
+  RichTextMention,
+  RichTextSpan,
+  SourcePropertyMapping,
+  TextContent,
+  TraversalMode,
 } from "../../types";
+import { IBlockRenderer } from "../content/BlockRenderer.interface";
+import { HtmlRenderer } from "../content/HtmlRenderer";
+import { MarkdownRenderer } from "../content/MarkdownRenderer";
+import { OutlineExtractor } from "../content/OutlineExtractor";
+import { TextAnalyzer } from "../content/TextAnalyzer";
+import { CategoryMapper } from "./CategoryMapper";
+import { ContentCache } from "./ContentCache";
 import { INotionContent } from "./NotionContent.interface";
+import { RateLimiter } from "./RateLimiter";
 
 /**
  * Implementation of the NotionContent service
@@ -15,19 +34,66 @@ import { INotionContent } from "./NotionContent.interface";
  */
 export class NotionContent implements INotionContent {
   private client: Client;
-  private rateLimitDelay: number;
+  private rateLimiter: RateLimiter;
   private contentCache: Map<string, PageContent>;
   private categoryCache: Map<string, Category[]>;
+  private excludedCategories: Map<string, string[]>;
+  private excludedRows: Map<string, string[]>;
+  private contentFormat: ContentFormat;
+  private traversalMode: TraversalMode;
+  private maxDepth: number;
+  private sourceProperties: SourcePropertyMapping;
+  private renderers: Partial<Record<ContentFormat, IBlockRenderer>>;
+  private persistentCache?: ContentCache;
+  private categoryMapper: CategoryMapper;
+  private outlineExtractor: OutlineExtractor;
+  private textAnalyzer: TextAnalyzer;
 
   /**
    * Creates a new NotionContent instance
    * @param config The Notion configuration
+   * @param rateLimiter Optional rate limiter shared with other Notion services
    */
-  constructor(config: NotionConfig) {
+  constructor(config: NotionConfig, rateLimiter?: RateLimiter) {
     this.client = new Client({ auth: config.apiKey });
-    this.rateLimitDelay = config.rateLimitDelay || 350;
+    this.rateLimiter = rateLimiter || RateLimiter.fromConfig(config);
     this.contentCache = new Map<string, PageContent>();
     this.categoryCache = new Map<string, Category[]>();
+    this.excludedCategories = new Map<string, string[]>();
+    this.excludedRows = new Map<string, string[]>();
+    this.contentFormat = config.contentFormat || "text";
+    this.traversalMode = config.traversalMode || "categories";
+    this.maxDepth = config.maxDepth || 3;
+    this.sourceProperties = config.sourceProperties || {};
+    this.categoryMapper = new CategoryMapper(config.categoryRules);
+    this.outlineExtractor = new OutlineExtractor();
+    this.textAnalyzer = new TextAnalyzer();
+    this.renderers = {
+      markdown: new MarkdownRenderer({
+        tableOfContents: config.tableOfContents,
+      }),
+      html: new HtmlRenderer({ tableOfContents: config.tableOfContents }),
+    };
+
+    // Persist transformed pages between runs when a cache directory is configured
+    if (config.cacheDir) {
+      this.persistentCache = new ContentCache(config.cacheDir);
+    }
+  }
+
+  /**
+   * Gets the format used for rendered page content
+   */
+  getContentFormat(): ContentFormat {
+    return this.contentFormat;
+  }
+
+  /**
+   * Sets the format used for rendered page content
+   * @param format The content format to use for this run
+   */
+  setContentFormat(format: ContentFormat): void {
+    this.contentFormat = format;
   }
 
   /**
@@ -41,10 +107,11 @@ export class NotionContent implements INotionContent {
     }
 
     // Fetch the page
-    await this.delay();
-    const page = (await this.client.pages.retrieve({
-      page_id: pageId,
-    })) as PageObjectResponse;
+    const page = (await this.rateLimiter.schedule(() =>
+      this.client.pages.retrieve({
+        page_id: pageId,
+      })
+    )) as PageObjectResponse;
 
     // Get the page title
     let title = "Untitled";
@@ -59,20 +126,59 @@ export class NotionContent implements INotionContent {
       }
     }
 
-    // Fetch blocks
-    const blocks = await this.fetchBlocks(pageId);
+    // Fetch blocks, or reuse them if the page is unchanged since the last run
+    const storedContent = await this.loadPageContent(pageId, page, title);
+
+    // Child pages are cached on their own, so they are expanded after the lookup
+    const pageContent: PageContent =
+      this.traversalMode === "deep"
+        ? storedContent
+        : {
+            ...storedContent,
+            blocks: await this.expandChildPages(storedContent.blocks),
+          };
+
+    // Cache the result
+    this.contentCache.set(pageId, pageContent);
+
+    return pageContent;
+  }
+
+  /**
+   * Loads the content of a page from the persistent cache or the API
+   * The cached entry is used only while the page's last edited time is unchanged
+   * @param pageId ID of the page
+   * @param page The retrieved page
+   * @param title Title of the page
+   */
+  private async loadPageContent(
+    pageId: string,
+    page: PageObjectResponse,
+    title: string
+  ): Promise<PageContent> {
+    const cached = await this.persistentCache?.get(
+      pageId,
+      page.last_edited_time
+    );
+    if (cached) {
+      return {
+        ...cached,
+        title,
+        properties: page.properties,
+        ...this.getPageImages(page),
+      };
+    }
 
-    // Create the page content
     const pageContent: PageContent = {
       title,
-      blocks,
+      blocks: await this.fetchBlocks(pageId),
       properties: page.properties,
+      ...this.getPageImages(page),
       createdTime: page.created_time,
       lastEditedTime: page.last_edited_time,
     };
 
-    // Cache the result
-    this.contentCache.set(pageId, pageContent);
+    await this.persistentCache?.set(pageId, pageContent);
 
     return pageContent;
   }
@@ -90,24 +196,27 @@ export class NotionContent implements INotionContent {
     // Fetch blocks to find child pages
     const blocks = await this.fetchBlocks(pageId);
     const categories: Category[] = [];
+    const excluded: string[] = [];
 
     // Find child pages/subpages as categories
     for (const block of blocks) {
       if (block.type === "child_page" && block.hasChildren) {
-        // Determine if this is a regular category or MIT unit
-        const isMITUnit =
-          block.content?.title?.toLowerCase().includes("mit") || false;
-
-        categories.push({
-          id: block.id,
-          name: block.content?.title || "Untitled",
-          type: isMITUnit ? "mit" : "regular",
-        });
+        const title = block.content?.title || "Untitled";
+
+        // Excluded categories are skipped together with their pages
+        const mapping = this.categoryMapper.map(title);
+        if (!mapping) {
+          excluded.push(block.id);
+          continue;
+        }
+
+        categories.push({ id: block.id, title, ...mapping });
       }
     }
 
     // Cache the results
     this.categoryCache.set(pageId, categories);
+    this.excludedCategories.set(pageId, excluded);
 
     return categories;
   }
@@ -117,6 +226,10 @@ export class NotionContent implements INotionContent {
    * @param pageId ID of the page to extract content from
    */
   async extractValidContent(pageId: string): Promise<ContentPage[]> {
+    if (this.traversalMode === "deep") {
+      return this.extractNestedContent(pageId);
+    }
+
     const contentPages: ContentPage[] = [];
     const categories = await this.extractCategories(pageId);
 
@@ -130,19 +243,17 @@ export class NotionContent implements INotionContent {
         if (block.type === "child_page") {
           // Get the content of this page
           const pageContent = await this.fetchPageContent(block.id);
-          const textContent = this.convertBlocksToText(pageContent.blocks);
 
           // Create a ContentPage object
-          contentPages.push({
-            id: block.id,
-            title: pageContent.title,
-            parentId: category.id,
-            category:
-              category.type === "mit" ? `CITS${category.name}` : category.name,
-            content: textContent,
-            createdTime: pageContent.createdTime,
-            lastEditedTime: pageContent.lastEditedTime,
-          });
+          contentPages.push(
+            this.createContentPage(
+              block.id,
+              pageContent,
+              pageContent.blocks,
+              category,
+              category.id
+            )
+          );
         }
       }
     }
@@ -150,6 +261,362 @@ export class NotionContent implements INotionContent {
     return contentPages;
   }
 
+  /**
+   * Extracts content pages from the rows of a database
+   * @param databaseId ID of the database to read
+   */
+  async extractDatabaseContent(databaseId: string): Promise<ContentPage[]> {
+    const contentPages: ContentPage[] = [];
+    const excluded: string[] = [];
+    let hasMore = true;
+    let startCursor: string | undefined = undefined;
+
+    while (hasMore) {
+      const response: QueryDatabaseResponse = await this.rateLimiter.schedule(
+        () =>
+          this.client.databases.query({
+            database_id: databaseId,
+            start_cursor: startCursor,
+            page_size: 100,
+          })
+      );
+
+      for (const result of response.results) {
+        // Partial results carry no properties and cannot be mapped
+        if (!("properties" in result)) {
+          continue;
+        }
+
+        const contentPage = await this.createDatabaseContentPage(
+          result as PageObjectResponse,
+          databaseId
+        );
+        if (contentPage) {
+          contentPages.push(contentPage);
+        } else {
+          excluded.push(result.id);
+        }
+      }
+
+      hasMore = response.has_more && !!response.next_cursor;
+      startCursor = response.next_cursor || undefined;
+    }
+
+    this.excludedRows.set(databaseId, excluded);
+
+    return contentPages;
+  }
+
+  /**
+   * Lists the pages of a source that are left out because the category
+   * rules exclude their category
+   * The rows of a source database are the ones its last extraction skipped,
+   * the pages below excluded categories of a source page are listed to the
+   * depth their content would be extracted from
+   * @param sourceId ID of the source page, or of the source database after extracting its content
+   */
+  async extractExcludedPageIds(sourceId: string): Promise<string[]> {
+    const rows = this.excludedRows.get(sourceId);
+    if (rows) {
+      return [...rows];
+    }
+
+    await this.extractCategories(sourceId);
+
+    const pageIds: string[] = [];
+    const maxDepth = this.traversalMode === "deep" ? this.maxDepth : 1;
+
+    for (const categoryId of this.excludedCategories.get(sourceId) || []) {
+      await this.collectPageIds(categoryId, 1, maxDepth, pageIds);
+    }
+
+    return pageIds;
+  }
+
+  /**
+   * Recursively collects the IDs of the child pages of a page
+   * @param parentId ID of the parent page
+   * @param depth Nesting level of the child pages below the category
+   * @param maxDepth Deepest level to collect
+   * @param pageIds Collected page IDs
+   */
+  private async collectPageIds(
+    parentId: string,
+    depth: number,
+    maxDepth: number,
+    pageIds: string[]
+  ): Promise<void> {
+    for (const block of this.findChildPages(await this.fetchBlocks(parentId))) {
+      pageIds.push(block.id);
+
+      if (depth < maxDepth) {
+        await this.collectPageIds(block.id, depth + 1, maxDepth, pageIds);
+      }
+    }
+  }
+
+  /**
+   * Creates a content page from a database row and its block body
+   * @param row The database row
+   * @param databaseId ID of the database the row belongs to
+   * @returns The content page, or undefined if its category is excluded
+   */
+  private async createDatabaseContentPage(
+    row: PageObjectResponse,
+    databaseId: string
+  ): Promise<ContentPage | undefined> {
+    const properties = row.properties;
+    const titleProperty = this.sourceProperties.title
+      ? properties[this.sourceProperties.title]
+      : Object.values(properties).find((property) => property.type === "title");
+    const categoryName = this.sourceProperties.category || "Category";
+    const tagsName = this.sourceProperties.tags || "Tags";
+
+    const category = this.categoryMapper.map(
+      this.getPropertyText(properties[categoryName]) || "Uncategorized"
+    );
+    if (!category) {
+      return undefined;
+    }
+
+    const title = this.getPropertyText(titleProperty) || "Untitled";
+    const pageContent = await this.loadPageContent(row.id, row, title);
+    const blocks = await this.expandChildPages(pageContent.blocks);
+    const content = this.renderBlocks(blocks);
+
+    return {
+      id: row.id,
+      title,
+      parentId: databaseId,
+      category: category.name,
+      ...(category.parent && { parentCategory: category.parent }),
+      tags: this.getPropertyList(properties[tagsName]),
+      content,
+      contentFormat: this.contentFormat,
+      language: this.textAnalyzer.detectLanguage(content),
+      assets: this.collectAssets(blocks),
+      blocks,
+      outline: this.outlineExtractor.extract(blocks),
+      ...(pageContent.cover && { coverUrl: pageContent.cover }),
+      ...(pageContent.icon && { iconUrl: pageContent.icon }),
+      originalPageUrl: row.url,
+      createdTime: row.created_time,
+      lastEditedTime: row.last_edited_time,
+    };
+  }
+
+  /**
+   * Reads a database property as a single text value
+   * Multi-select properties yield their first option
+   * @param property The property value
+   */
+  private getPropertyText(property: any): string {
+    if (!property) {
+      return "";
+    }
+
+    switch (property.type) {
+      case "title":
+      case "rich_text":
+        return (property[property.type] || [])
+          .map((item: any) => item.plain_text || "")
+          .join("")
+          .trim();
+      case "select":
+      case "status":
+        return property[property.type]?.name || "";
+      case "multi_select":
+        return property.multi_select?.[0]?.name || "";
+      case "formula":
+        return property.formula?.type === "string"
+          ? property.formula.string || ""
+          : "";
+      default:
+        return "";
+    }
+  }
+
+  /**
+   * Reads a database property as a list of values
+   * Text properties are split on commas
+   * @param property The property value
+   */
+  private getPropertyList(property: any): string[] {
+    if (!property) {
+      return [];
+    }
+
+    if (property.type === "multi_select") {
+      return (property.multi_select || []).map((option: any) => option.name);
+    }
+
+    return this.getPropertyText(property)
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Extracts content pages from every nested level under the categories
+   * Pages deeper than the maximum depth are absorbed into their parent
+   * @param pageId ID of the page to extract content from
+   */
+  private async extractNestedContent(pageId: string): Promise<ContentPage[]> {
+    const contentPages: ContentPage[] = [];
+    const categories = await this.extractCategories(pageId);
+
+    for (const category of categories) {
+      const blocks = await this.fetchBlocks(category.id);
+      await this.collectNestedPages(
+        blocks,
+        category,
+        [category.name],
+        category.id,
+        1,
+        contentPages
+      );
+    }
+
+    return contentPages;
+  }
+
+  /**
+   * Recursively turns the child pages found in blocks into content pages
+   * @param blocks Blocks of the parent page
+   * @param category The top-level category
+   * @param categoryPath Breadcrumb from the category down to the parent page
+   * @param parentId ID of the parent page
+   * @param depth Nesting level of the child pages below the category
+   * @param contentPages Collected content pages
+   */
+  private async collectNestedPages(
+    blocks: Block[],
+    category: Category,
+    categoryPath: string[],
+    parentId: string,
+    depth: number,
+    contentPages: ContentPage[]
+  ): Promise<void> {
+    for (const block of this.findChildPages(blocks)) {
+      const pageContent = await this.fetchPageContent(block.id);
+      const atMaxDepth = depth >= this.maxDepth;
+
+      // At the deepest level nested pages become part of the page body
+      const renderedBlocks = atMaxDepth
+        ? await this.expandChildPages(pageContent.blocks)
+        : pageContent.blocks;
+
+      contentPages.push({
+        ...this.createContentPage(
+          block.id,
+          pageContent,
+          renderedBlocks,
+          category,
+          parentId
+        ),
+        categoryPath,
+      });
+
+      if (!atMaxDepth) {
+        await this.collectNestedPages(
+          pageContent.blocks,
+          category,
+          [...categoryPath, pageContent.title],
+          block.id,
+          depth + 1,
+          contentPages
+        );
+      }
+    }
+  }
+
+  /**
+   * Finds child page blocks, including those nested in toggles or columns
+   * @param blocks Blocks to search
+   */
+  private findChildPages(blocks: Block[]): Block[] {
+    const childPages: Block[] = [];
+
+    for (const block of blocks) {
+      if (block.type === "child_page") {
+        childPages.push(block);
+      } else if (Array.isArray(block.content?.children)) {
+        childPages.push(...this.findChildPages(block.content.children));
+      }
+    }
+
+    return childPages;
+  }
+
+  /**
+   * Replaces child page blocks with their fetched content
+   * @param blocks Blocks to expand
+   */
+  private async expandChildPages(blocks: Block[]): Promise<Block[]> {
+    const result: Block[] = [];
+
+    for (const block of blocks) {
+      if (block.type === "child_page") {
+        const pageContent = await this.fetchPageContent(block.id);
+        result.push({
+          ...block,
+          content: {
+            ...block.content,
+            children: await this.expandChildPages(pageContent.blocks),
+          },
+        });
+      } else if (Array.isArray(block.content?.children)) {
+        result.push({
+          ...block,
+          content: {
+            ...block.content,
+            children: await this.expandChildPages(block.content.children),
+          },
+        });
+      } else {
+        result.push(block);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Creates a content page from fetched page content
+   * @param id ID of the page
+   * @param pageContent The fetched page content
+   * @param blocks Blocks to render as the page body
+   * @param category The category the page belongs to
+   * @param parentId ID of the parent page
+   */
+  private createContentPage(
+    id: string,
+    pageContent: PageContent,
+    blocks: Block[],
+    category: Category,
+    parentId: string
+  ): ContentPage {
+    const content = this.renderBlocks(blocks);
+
+    return {
+      id,
+      title: pageContent.title,
+      parentId,
+      category: category.name,
+      ...(category.parent && { parentCategory: category.parent }),
+      content,
+      contentFormat: this.contentFormat,
+      language: this.textAnalyzer.detectLanguage(content),
+      assets: this.collectAssets(blocks),
+      blocks,
+      outline: this.outlineExtractor.extract(blocks),
+      ...(pageContent.cover && { coverUrl: pageContent.cover }),
+      ...(pageContent.icon && { iconUrl: pageContent.icon }),
+      createdTime: pageContent.createdTime,
+      lastEditedTime: pageContent.lastEditedTime,
+    };
+  }
+
   /**
    * Generates an excerpt from content
    * @param content Content to generate excerpt from
@@ -186,51 +653,42 @@ export class NotionContent implements INotionContent {
 
   /**
    * Extracts tags from content
+   * Combines the category, the terms of the title and the most frequent
+   * terms of the prose, skipping stop words in English and CJK text
    * @param content Content to extract tags from
    * @param title Title of the content
    * @param category Optional category of the content
+   * @param language Optional language of the content, detected when omitted
    */
-  extractTags(content: string, title: string, category?: string): string[] {
+  extractTags(
+    content: string,
+    title: string,
+    category?: string,
+    language?: ContentLanguage
+  ): string[] {
     const tags = new Set<string>();
+    const contentLanguage =
+      language || this.textAnalyzer.detectLanguage(content);
 
     // Add category as a tag if present
     if (category) {
       tags.add(category);
     }
 
-    // Extract keywords from title
-    const titleWords = title
-      .split(/\s+/)
-      .filter((word) => word.length > 3)
-      .map((word) => word.toLowerCase());
-
-    for (const word of titleWords) {
-      tags.add(word);
-    }
-
-    // Extract keywords from content
-    // This is a simple implementation - in a real system, you would use
-    // more sophisticated techniques like TF-IDF or NLP
-    const contentKeywords = content
-      .split(/\s+/)
-      .filter((word) => word.length > 5)
-      .filter((word) => /^[A-Za-z]+$/.test(word)) // Only alphabetic
-      .map((word) => word.toLowerCase());
-
-    // Count keyword frequencies
-    const keywordCounts = new Map<string, number>();
-    for (const word of contentKeywords) {
-      keywordCounts.set(word, (keywordCounts.get(word) || 0) + 1);
+    for (const term of this.textAnalyzer.extractTitleTerms(
+      title,
+      contentLanguage
+    )) {
+      tags.add(term);
     }
 
-    // Get the top keywords by frequency
-    const topKeywords = Array.from(keywordCounts.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(([word]) => word);
-
-    for (const word of topKeywords) {
-      tags.add(word);
+    // Add the top keywords of the content by frequency
+    for (const term of this.textAnalyzer.extractKeywords(
+      content,
+      5,
+      contentLanguage
+    )) {
+      tags.add(term);
     }
 
     // Convert to array and limit to 10 tags
@@ -239,18 +697,12 @@ export class NotionContent implements INotionContent {
 
   /**
    * Estimates reading time for content
+   * Prose is read at the speed of its language, code line by line
    * @param content Content to estimate reading time for
+   * @param language Optional language of the content, detected when omitted
    */
-  estimateReadingTime(content: string): number {
-    if (!content) return 0;
-
-    // Average reading speed: 200 words per minute
-    const wordsPerMinute = 200;
-    const wordCount = content.split(/\s+/).length;
-    const readingTime = Math.ceil(wordCount / wordsPerMinute);
-
-    // Return at least 1 minute
-    return Math.max(1, readingTime);
+  estimateReadingTime(content: string, language?: ContentLanguage): number {
+    return this.textAnalyzer.estimateReadingTime(content, language);
   }
 
   /**
@@ -258,19 +710,17 @@ export class NotionContent implements INotionContent {
    * @param pageId ID of the page to fetch blocks from
    */
   private async fetchBlocks(pageId: string): Promise<Block[]> {
-    await this.delay();
-
     const blocks: Block[] = [];
     let hasMore = true;
     let startCursor: string | undefined = undefined;
 
     while (hasMore) {
-      await this.delay();
-
-      const response = await this.client.blocks.children.list({
-        block_id: pageId,
-        start_cursor: startCursor,
-      });
+      const response = await this.rateLimiter.schedule(() =>
+        this.client.blocks.children.list({
+          block_id: pageId,
+          start_cursor: startCursor,
+        })
+      );
 
       const transformedBlocks = response.results.map((block) =>
         this.transformBlock(block)
@@ -295,9 +745,21 @@ export class NotionContent implements INotionContent {
     const result: Block[] = [];
 
     for (const block of blocks) {
+      // Child pages are fetched as pages of their own so each one is cached separately
+      if (block.type === "child_page") {
+        result.push(block);
+        continue;
+      }
+
       if (block.hasChildren) {
+        // Synced copies read their children from the original block
+        const childSource =
+          block.type === "synced_block" && block.content?.syncedFrom
+            ? block.content.syncedFrom
+            : block.id;
+
         // Fetch child blocks
-        const childBlocks = await this.fetchBlocks(block.id);
+        const childBlocks = await this.fetchBlocks(childSource);
 
         // Add the block with its children
         result.push({
@@ -327,21 +789,25 @@ export class NotionContent implements INotionContent {
     let content: any = {};
 
     // Handle different block types
-    if (blockType === "paragraph") {
-      content = this.extractTextContent(block.paragraph?.rich_text);
-    } else if (blockType === "heading_1") {
-      content = this.extractTextContent(block.heading_1?.rich_text);
-    } else if (blockType === "heading_2") {
-      content = this.extractTextContent(block.heading_2?.rich_text);
-    } else if (blockType === "heading_3") {
-      content = this.extractTextContent(block.heading_3?.rich_text);
-    } else if (blockType === "bulleted_list_item") {
-      content = this.extractTextContent(block.bulleted_list_item?.rich_text);
-    } else if (blockType === "numbered_list_item") {
-      content = this.extractTextContent(block.numbered_list_item?.rich_text);
+    if (
+      blockType === "paragraph" ||
+      blockType === "heading_1" ||
+      blockType === "heading_2" ||
+      blockType === "heading_3" ||
+      blockType === "bulleted_list_item" ||
+      blockType === "numbered_list_item" ||
+      blockType === "quote" ||
+      blockType === "toggle"
+    ) {
+      content = this.extractTextBlock(block[blockType]?.rich_text);
+    } else if (blockType === "callout") {
+      content = {
+        ...this.extractTextBlock(block.callout?.rich_text),
+        icon: this.extractIcon(block.callout?.icon),
+      };
     } else if (blockType === "to_do") {
       content = {
-        text: this.extractTextContent(block.to_do?.rich_text),
+        ...this.extractTextBlock(block.to_do?.rich_text),
         checked: block.to_do?.checked || false,
       };
     } else if (blockType === "code") {
@@ -354,7 +820,57 @@ export class NotionContent implements INotionContent {
         type: block.image?.type,
         url: block.image?.file?.url || block.image?.external?.url,
         caption: this.extractTextContent(block.image?.caption),
+        ...(block.image?.file?.expiry_time && {
+          expiryTime: block.image.file.expiry_time,
+        }),
+      };
+    } else if (
+      blockType === "video" ||
+      blockType === "file" ||
+      blockType === "pdf"
+    ) {
+      const media = block[blockType];
+      content = {
+        type: media?.type,
+        url: media?.file?.url || media?.external?.url,
+        caption: this.extractTextContent(media?.caption),
+        name: media?.name,
+        ...(media?.file?.expiry_time && {
+          expiryTime: media.file.expiry_time,
+        }),
       };
+    } else if (blockType === "bookmark" || blockType === "embed") {
+      content = {
+        url: block[blockType]?.url,
+        caption: this.extractTextContent(block[blockType]?.caption),
+      };
+    } else if (blockType === "equation") {
+      content = {
+        expression: block.equation?.expression || "",
+      };
+    } else if (blockType === "table") {
+      content = {
+        tableWidth: block.table?.table_width || 0,
+        hasColumnHeader: block.table?.has_column_header || false,
+        hasRowHeader: block.table?.has_row_header || false,
+      };
+    } else if (blockType === "table_row") {
+      content = {
+        cells: (block.table_row?.cells || []).map((cell: any[]) =>
+          this.extractTextBlock(cell)
+        ),
+      };
+    } else if (blockType === "synced_block") {
+      content = {
+        syncedFrom: block.synced_block?.synced_from?.block_id || null,
+      };
+    } else if (
+      blockType === "divider" ||
+      blockType === "column_list" ||
+      blockType === "column"
+    ) {
+      // Structural blocks carry no content of their own
+      content = {};
     } else if (blockType === "child_page") {
       content = {
         title: block.child_page?.title || "Untitled",
@@ -384,6 +900,173 @@ export class NotionContent implements INotionContent {
     return richText.map((item) => item.plain_text).join("");
   }
 
+  /**
+   * Extracts plain text and formatted spans from rich text
+   * @param richText Rich text to extract content from
+   */
+  private extractTextBlock(richText: any[]): TextContent {
+    return {
+      text: this.extractTextContent(richText),
+      richText: this.extractRichText(richText),
+    };
+  }
+
+  /**
+   * Extracts formatted spans from rich text
+   * Keeps annotations, links and mention targets
+   * @param richText Rich text to extract spans from
+   */
+  private extractRichText(richText: any[]): RichTextSpan[] {
+    if (!richText || !Array.isArray(richText)) {
+      return [];
+    }
+
+    return richText.map((item) => {
+      const span: RichTextSpan = {
+        type:
+          item.type === "mention" || item.type === "equation"
+            ? item.type
+            : "text",
+        text: item.plain_text ?? item.text?.content ?? "",
+      };
+
+      // Only keep annotations that change the default formatting
+      const annotations = item.annotations;
+      if (
+        annotations &&
+        (annotations.bold ||
+          annotations.italic ||
+          annotations.strikethrough ||
+          annotations.underline ||
+          annotations.code ||
+          (annotations.color && annotations.color !== "default"))
+      ) {
+        span.annotations = {
+          bold: !!annotations.bold,
+          italic: !!annotations.italic,
+          strikethrough: !!annotations.strikethrough,
+          underline: !!annotations.underline,
+          code: !!annotations.code,
+          color: annotations.color || "default",
+        };
+      }
+
+      const href = item.href || item.text?.link?.url;
+      if (href) {
+        span.href = href;
+      }
+
+      if (item.type === "mention" && item.mention) {
+        span.mention = this.extractMention(item.mention);
+      }
+
+      return span;
+    });
+  }
+
+  /**
+   * Extracts the target of a rich text mention
+   * @param mention The Notion mention object
+   */
+  private extractMention(mention: any): RichTextMention {
+    const type = mention.type;
+    const target = mention[type] || {};
+    const result: RichTextMention = { type };
+
+    if (type === "date") {
+      if (target.start) result.start = target.start;
+      if (target.end) result.end = target.end;
+    } else if (type === "link_preview") {
+      if (target.url) result.url = target.url;
+    } else {
+      if (target.id) result.id = target.id;
+      if (target.name) result.name = target.name;
+    }
+
+    return result;
+  }
+
+  /**
+   * Renders blocks in the configured content format
+   * @param blocks Blocks to render
+   */
+  private renderBlocks(blocks: Block[]): string {
+    const renderer = this.renderers[this.contentFormat];
+    if (renderer) {
+      return renderer.render(blocks);
+    }
+
+    return this.convertBlocksToText(blocks);
+  }
+
+  /**
+   * Collects the inline images and attachments of the blocks, including nested blocks
+   * @param blocks Blocks to search
+   */
+  private collectAssets(blocks: Block[]): ContentAsset[] {
+    const assets: ContentAsset[] = [];
+
+    for (const block of blocks) {
+      if (
+        (block.type === "image" ||
+          block.type === "file" ||
+          block.type === "pdf") &&
+        block.content?.url
+      ) {
+        assets.push({
+          blockId: block.id,
+          type: block.type,
+          url: block.content.url,
+          ...(block.content.name && { name: block.content.name }),
+        });
+      }
+
+      if (Array.isArray(block.content?.children)) {
+        assets.push(...this.collectAssets(block.content.children));
+      }
+    }
+
+    return assets;
+  }
+
+  /**
+   * Gets the cover and image icon of a page
+   * Emoji icons are left out because they are not images
+   * @param page The retrieved page
+   */
+  private getPageImages(
+    page: PageObjectResponse
+  ): Pick<PageContent, "cover" | "icon"> {
+    const cover = page.cover
+      ? (page.cover as any).file?.url || (page.cover as any).external?.url
+      : undefined;
+    const icon =
+      page.icon && page.icon.type !== "emoji"
+        ? this.extractIcon(page.icon)
+        : undefined;
+
+    return {
+      ...(cover && { cover }),
+      ...(icon && { icon }),
+    };
+  }
+
+  /**
+   * Extracts an icon as an emoji or image URL
+   * @param icon The Notion icon object
+   */
+  private extractIcon(icon: any): string | undefined {
+    if (!icon) {
+      return undefined;
+    }
+
+    if (icon.type === "emoji") {
+      return icon.emoji;
+    }
+
+    return icon.file?.url || icon.external?.url;
+  }
+
   /**
    * Converts blocks to plain text
    * @param blocks Blocks to convert
@@ -392,18 +1075,46 @@ export class NotionContent implements INotionContent {
     let text = "";
 
     for (const block of blocks) {
+      // Text blocks keep their text in a content object
+      const blockText =
+        typeof block.content === "string" ? block.content : block.content?.text;
+
       if (block.type === "paragraph") {
-        text += block.content + "\n\n";
+        text += blockText + "\n\n";
       } else if (block.type === "heading_1") {
-        text += block.content + "\n\n";
+        text += blockText + "\n\n";
       } else if (block.type === "heading_2") {
-        text += block.content + "\n\n";
+        text += blockText + "\n\n";
       } else if (block.type === "heading_3") {
-        text += block.content + "\n\n";
+        text += blockText + "\n\n";
+      } else if (
+        block.type === "quote" ||
+        block.type === "toggle" ||
+        block.type === "callout"
+      ) {
+        text += blockText + "\n\n";
+      } else if (block.type === "table_row") {
+        text +=
+          block.content.cells
+            .map((cell: TextContent) => cell.text)
+            .join(" | ") + "\n";
+      } else if (block.type === "equation") {
+        text += block.content.expression + "\n\n";
+      } else if (block.type === "divider") {
+        text += "---\n\n";
+      } else if (
+        block.type === "bookmark" ||
+        block.type === "embed" ||
+        block.type === "video" ||
+        block.type === "file" ||
+        block.type === "pdf"
+      ) {
+        const label = block.content.caption || block.content.name;
+        text += (label ? `${label}: ` : "") + block.content.url + "\n\n";
       } else if (block.type === "bulleted_list_item") {
-        text += "• " + block.content + "\n";
+        text += "• " + blockText + "\n";
       } else if (block.type === "numbered_list_item") {
-        text += "1. " + block.content + "\n";
+        text += "1. " + blockText + "\n";
       } else if (block.type === "to_do") {
         const checkbox = block.content.checked ? "[x]" : "[ ]";
         text += checkbox + " " + block.content.text + "\n";
@@ -421,11 +1132,4 @@ export class NotionContent implements INotionContent {
 
     return text;
   }
-
-  /**
-   * Delays execution to respect API rate limits
-   */
-  private async delay(): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, this.rateLimitDelay));
-  }
 }
@@ -2,7 +2,9 @@ import { Client } from "@notionhq/client";
 import {
   DatabaseSchema,
   EntryData,
+  NotionBlockRequest,
   NotionEntry,
+  PropertyDefinition,
   QueryFilter,
 } from "../../types";
 
@@ -57,6 +59,24 @@ export interface INotionDatabase {
    */
   createDatabase(schema: DatabaseSchema, parentPageId: string): Promise<string>;
 
+  /**
+   * Gets the schema the database is created with by default,
+   * from the schema file when one is configured
+   */
+  getDefaultSchema(): DatabaseSchema;
+
+  /**
+   * Retrieves the live schema of a database
+   * @param databaseId Optional ID of another database to read
+   */
+  getSchema(databaseId?: string): Promise<DatabaseSchema>;
+
+  /**
+   * Adds or updates properties of the database
+   * @param properties The property definitions to write, by property name
+   */
+  updateSchema(properties: Record<string, PropertyDefinition>): Promise<void>;
+
   /**
    * Creates or updates an entry in the database based on title
    * If an entry with the same title exists, it will be updated
@@ -71,6 +91,12 @@ export interface INotionDatabase {
    */
   queryEntries(filter?: QueryFilter): Promise<NotionEntry[]>;
 
+  /**
+   * Iterates over all entries matching a query, fetching them page by page
+   * @param filter Optional filter for the query
+   */
+  iterateEntries(filter?: QueryFilter): AsyncGenerator<NotionEntry>;
+
   /**
    * Creates a new entry in the database
    * @param data The data for the new entry
@@ -84,6 +110,12 @@ export interface INotionDatabase {
    */
   updateEntry(pageId: string, data: Partial<EntryData>): Promise<void>;
 
+  /**
+   * Archives an entry in the database
+   * @param pageId The ID of the page to archive
+   */
+  archiveEntry(pageId: string): Promise<void>;
+
   /**
    * Batch updates multiple entries
    * @param entries Array of entries to update
@@ -91,4 +123,14 @@ export interface INotionDatabase {
   batchUpdateEntries(
     entries: Array<{ id: string; data: Partial<EntryData> }>
   ): Promise<void>;
+
+  /**
+   * Replaces the body of a page with new blocks
+   * @param pageId The ID of the page to write to
+   * @param blocks The blocks of the new body
+   */
+  replacePageContent(
+    pageId: string,
+    blocks: NotionBlockRequest[]
+  ): Promise<void>;
 }
@@ -1,13 +1,36 @@
 import { Client } from "@notionhq/client";
-import { PageObjectResponse } from "@notionhq/client/build/src/api-endpoints";
 import {
+  PageObjectResponse,
+  QueryDatabaseParameters,
+} from "@notionhq/client/build/src/api-endpoints";
+import {
+  DatabaseFilter,
   DatabaseSchema,
   EntryData,
+  NotionBlockRequest,
   NotionConfig,
   NotionEntry,
+  PropertyDefinition,
   QueryFilter,
 } from "../../types";
 import { INotionDatabase } from "./NotionDatabase.interface";
+import { Filter, QueryBuilder } from "./QueryBuilder";
+import { RateLimiter } from "./RateLimiter";
+
+/**
+ * Maximum number of blocks accepted by a single append request
+ */
+const MAX_BLOCKS_PER_REQUEST = 100;
+
+/**
+ * Maximum number of entries returned by a single query request
+ */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Property of the built-in schema holding the ID of an entry's source page
+ */
+const SOURCE_ID_PROPERTY = "Source ID";
 
 /**
  * Implementation of the NotionDatabase service
@@ -17,20 +40,23 @@ export class NotionDatabase implements INotionDatabase {
   private databaseId?: string;
   private databaseName?: string;
   private sourcePageId?: string;
-  private rateLimitDelay: number = 350; // milliseconds
+  private schema?: DatabaseSchema;
+  private rateLimiter: RateLimiter;
 
   /**
    * Creates a new NotionDatabase instance
    * @param config The Notion configuration
+   * @param rateLimiter Optional rate limiter shared with other Notion services
    */
-  constructor(config: NotionConfig) {
+  constructor(config: NotionConfig, rateLimiter?: RateLimiter) {
     this.client = new Client({ auth: config.apiKey });
     // Use the resolved database ID if available (backward compatibility)
     this.databaseId = config.resolvedDatabaseId;
     // Store the database name for lookup/creation
     this.databaseName = config.targetDatabaseName || "Content Database";
     this.sourcePageId = config.sourcePageId;
-    this.rateLimitDelay = config.rateLimitDelay || 350;
+    this.schema = config.databaseSchema;
+    this.rateLimiter = rateLimiter || RateLimiter.fromConfig(config);
   }
 
   /**
@@ -60,13 +86,15 @@ export class NotionDatabase implements INotionDatabase {
 
     try {
       // Search for databases with the specified name
-      const response = await this.client.search({
-        query: this.databaseName,
-        filter: {
-          property: "object",
-          value: "database",
-        },
-      });
+      const response = await this.rateLimiter.schedule(() =>
+        this.client.search({
+          query: this.databaseName,
+          filter: {
+            property: "object",
+            value: "database",
+          },
+        })
+      );
 
       // Look for an exact match by name
       for (const result of response.results) {
@@ -120,9 +148,12 @@ export class NotionDatabase implements INotionDatabase {
     }
 
     try {
-      await this.client.databases.retrieve({
-        database_id: this.databaseId,
-      });
+      const databaseId = this.databaseId;
+      await this.rateLimiter.schedule(() =>
+        this.client.databases.retrieve({
+          database_id: databaseId,
+        })
+      );
       return true;
     } catch {
       return false;
@@ -149,11 +180,8 @@ export class NotionDatabase implements INotionDatabase {
 
     // If we couldn't find it and we have a parent page ID, create it
     if (parentPageId) {
-      // Use provided schema or create a default one
-      const dbSchema: DatabaseSchema = schema || {
-        name: this.databaseName || "Content Database",
-        properties: this.buildDefaultProperties(),
-      };
+      // Use provided schema or the configured one
+      const dbSchema: DatabaseSchema = schema || this.getDefaultSchema();
 
       // Create the database
       const newId = await this.createDatabase(dbSchema, parentPageId);
@@ -203,21 +231,25 @@ export class NotionDatabase implements INotionDatabase {
       });
 
       // Create the database
-      const response = await this.client.databases.create({
-        parent: {
-          type: "page_id",
-          page_id: pageId,
-        },
-        title: [
-          {
-            type: "text",
-            text: {
-              content: schema.name,
+      const response = await this.rateLimiter.schedule(
+        () =>
+          this.client.databases.create({
+            parent: {
+              type: "page_id",
+              page_id: pageId,
             },
-          },
-        ],
-        properties,
-      });
+            title: [
+              {
+                type: "text",
+                text: {
+                  content: schema.name,
+                },
+              },
+            ],
+            properties,
+          }),
+        false
+      );
 
       this.databaseId = response.id;
       return response.id;
@@ -228,55 +260,128 @@ export class NotionDatabase implements INotionDatabase {
   }
 
   /**
-   * Queries entries from the database
-   * @param filter Optional filter for the query
+   * Gets the schema the database is created with by default
+   * This is the schema file when one is configured, otherwise the built-in
+   * schema. The database is always named after the target database name,
+   * so that it is found again on the next run
    */
-  async queryEntries(filter?: QueryFilter): Promise<NotionEntry[]> {
+  getDefaultSchema(): DatabaseSchema {
+    return {
+      name: this.databaseName || "Content Database",
+      properties: this.schema
+        ? { ...this.schema.properties }
+        : this.buildDefaultProperties(),
+    };
+  }
+
+  /**
+   * Retrieves the live schema of a database
+   * Properties of types without a definition keep their Notion type
+   * @param databaseId Optional ID of another database to read
+   */
+  async getSchema(
+    databaseId: string | undefined = this.databaseId
+  ): Promise<DatabaseSchema> {
+    if (!databaseId) {
+      throw new Error("Database ID is not set");
+    }
+
     try {
-      // Validate database ID
-      if (!this.databaseId) {
-        throw new Error("Database ID is required");
+      const database = await this.rateLimiter.schedule(() =>
+        this.client.databases.retrieve({ database_id: databaseId })
+      );
+      const schema: DatabaseSchema = {
+        name: ((database as any).title || [])
+          .map((text: any) => text.plain_text)
+          .join(""),
+        properties: {},
+      };
+
+      for (const [name, value] of Object.entries(database.properties)) {
+        const property = value as any;
+        const options = property[property.type]?.options;
+
+        schema.properties[name] = {
+          type: property.type,
+          ...(Array.isArray(options) && {
+            options: options.map((option: any) => ({
+              name: option.name,
+              color: option.color,
+            })),
+          }),
+          ...(property.type === "relation" && {
+            databaseId: property.relation?.database_id,
+          }),
+          ...(property.type === "formula" && {
+            expression: property.formula?.expression,
+          }),
+          ...(property.type === "rollup" && {
+            rollup: {
+              relationProperty: property.rollup?.relation_property_name,
+              rollupProperty: property.rollup?.rollup_property_name,
+              function: property.rollup?.function,
+            },
+          }),
+        };
       }
 
-      // Create filter for the query - leave it undefined for now to avoid type issues
-      const entries: NotionEntry[] = [];
-      let hasMore = true;
-      let startCursor: string | undefined = filter?.start_cursor;
+      return schema;
+    } catch (error) {
+      console.error("Failed to retrieve database schema:", error);
+      throw new Error(
+        `Failed to retrieve database schema: ${(error as Error).message}`
+      );
+    }
+  }
 
-      while (hasMore) {
-        await this.delay();
+  /**
+   * Adds or updates properties of the database
+   * Select options are added to the existing ones when they are sent in full
+   * @param properties The property definitions to write, by property name
+   */
+  async updateSchema(
+    properties: Record<string, PropertyDefinition>
+  ): Promise<void> {
+    if (!this.databaseId) {
+      throw new Error("Database ID is not set");
+    }
 
-        const response = await this.client.databases.query({
-          database_id: this.databaseId,
-          // Don't pass filter for now to avoid type issues
-          start_cursor: startCursor,
-          page_size: filter?.page_size || 100,
-        });
+    try {
+      const databaseId = this.databaseId;
+      const request: Record<string, any> = {};
 
-        // Transform the results
-        const transformedEntries = response.results.map((result) => {
-          // Type assertion to PageObjectResponse which has all required properties
-          const page = result as PageObjectResponse;
+      for (const [name, definition] of Object.entries(properties)) {
+        request[name] = this.createPropertyDefinition(definition);
+      }
 
-          return {
-            id: page.id,
-            properties: page.properties,
-            url: page.url,
-            created_time: page.created_time,
-            last_edited_time: page.last_edited_time,
-          };
-        });
+      await this.rateLimiter.schedule(() =>
+        this.client.databases.update({
+          database_id: databaseId,
+          properties: request,
+        })
+      );
+    } catch (error) {
+      console.error("Failed to update database schema:", error);
+      throw new Error(
+        `Failed to update database schema: ${(error as Error).message}`
+      );
+    }
+  }
 
-        entries.push(...transformedEntries);
+  /**
+   * Queries entries from the database
+   * @param filter Optional filter for the query, page_size limits the number of entries returned
+   */
+  async queryEntries(filter?: QueryFilter): Promise<NotionEntry[]> {
+    try {
+      const entries: NotionEntry[] = [];
 
-        // Check if there are more results
-        hasMore = response.has_more && !!response.next_cursor;
-        startCursor = response.next_cursor || undefined;
+      for await (const entry of this.iterateEntries(filter)) {
+        entries.push(entry);
 
         // If a page_size was specified and we've reached it, stop
         if (filter?.page_size && entries.length >= filter.page_size) {
-          hasMore = false;
-          entries.splice(filter.page_size);
+          break;
         }
       }
 
@@ -287,6 +392,55 @@ export class NotionDatabase implements INotionDatabase {
     }
   }
 
+  /**
+   * Iterates over all entries matching a query, one page of results at a time
+   * @param filter Optional filter for the query, page_size sets the size of each request
+   */
+  async *iterateEntries(filter?: QueryFilter): AsyncGenerator<NotionEntry> {
+    // Validate database ID
+    if (!this.databaseId) {
+      throw new Error("Database ID is required");
+    }
+
+    const databaseId = this.databaseId;
+    const queryFilter = filter ? this.transformFilter(filter) : undefined;
+    const sorts = filter?.sorts?.length ? filter.sorts : undefined;
+    let hasMore = true;
+    let startCursor: string | undefined = filter?.start_cursor;
+
+    while (hasMore) {
+      const response = await this.rateLimiter.schedule(() =>
+        this.client.databases.query({
+          database_id: databaseId,
+          // Conditions allow several operators, the API types expect exactly one
+          ...(queryFilter && {
+            filter: queryFilter as QueryDatabaseParameters["filter"],
+          }),
+          ...(sorts && { sorts }),
+          start_cursor: startCursor,
+          page_size: Math.min(filter?.page_size || 100, MAX_PAGE_SIZE),
+        })
+      );
+
+      for (const result of response.results) {
+        // Type assertion to PageObjectResponse which has all required properties
+        const page = result as PageObjectResponse;
+
+        yield {
+          id: page.id,
+          properties: page.properties,
+          url: page.url,
+          created_time: page.created_time,
+          last_edited_time: page.last_edited_time,
+        };
+      }
+
+      // Check if there are more results
+      hasMore = response.has_more && !!response.next_cursor;
+      startCursor = response.next_cursor || undefined;
+    }
+  }
+
   /**
    * Creates a new entry in the database
    * @param data The data for the new entry
@@ -296,17 +450,21 @@ export class NotionDatabase implements INotionDatabase {
       throw new Error("Database ID is not set");
     }
 
-    await this.delay(); // Respect rate limiting
+    const databaseId = this.databaseId;
 
     try {
       const properties = this.transformDataToProperties(data);
 
-      const response = await this.client.pages.create({
-        parent: {
-          database_id: this.databaseId,
-        },
-        properties,
-      });
+      const response = await this.rateLimiter.schedule(
+        () =>
+          this.client.pages.create({
+            parent: {
+              database_id: databaseId,
+            },
+            properties,
+          }),
+        false
+      );
 
       return response.id;
     } catch (error) {
@@ -321,21 +479,39 @@ export class NotionDatabase implements INotionDatabase {
    * @param data The data to update
    */
   async updateEntry(pageId: string, data: Partial<EntryData>): Promise<void> {
-    await this.delay(); // Respect rate limiting
-
     try {
       const properties = this.transformDataToProperties(data);
 
-      await this.client.pages.update({
-        page_id: pageId,
-        properties,
-      });
+      await this.rateLimiter.schedule(() =>
+        this.client.pages.update({
+          page_id: pageId,
+          properties,
+        })
+      );
     } catch (error) {
       console.error(`Failed to update entry ${pageId}:`, error);
       throw new Error(`Failed to update entry: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Archives an entry, which moves it to the trash
+   * @param pageId The ID of the page to archive
+   */
+  async archiveEntry(pageId: string): Promise<void> {
+    try {
+      await this.rateLimiter.schedule(() =>
+        this.client.pages.update({
+          page_id: pageId,
+          archived: true,
+        })
+      );
+    } catch (error) {
+      console.error(`Failed to archive entry ${pageId}:`, error);
+      throw new Error(`Failed to archive entry: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Batch updates multiple entries
    * @param entries Array of entries to update
@@ -349,18 +525,219 @@ export class NotionDatabase implements INotionDatabase {
     }
   }
 
+  /**
+   * Replaces the body of a page with new blocks
+   * Existing children are deleted, then the blocks are appended in chunks
+   * @param pageId The ID of the page to write to
+   * @param blocks The blocks of the new body
+   */
+  async replacePageContent(
+    pageId: string,
+    blocks: NotionBlockRequest[]
+  ): Promise<void> {
+    try {
+      const existingIds = await this.listChildIds(pageId);
+
+      for (const blockId of existingIds) {
+        await this.rateLimiter.schedule(() =>
+          this.client.blocks.delete({ block_id: blockId })
+        );
+      }
+
+      await this.appendBlocks(pageId, blocks);
+    } catch (error) {
+      console.error(`Failed to replace content of page ${pageId}:`, error);
+      throw new Error(
+        `Failed to replace page content: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Appends blocks to a parent block in chunks the API accepts
+   * Nested children are appended to the created blocks afterwards, because
+   * a single request only accepts two levels of nesting
+   * @param parentId The ID of the parent page or block
+   * @param blocks The blocks to append
+   */
+  private async appendBlocks(
+    parentId: string,
+    blocks: NotionBlockRequest[]
+  ): Promise<void> {
+    for (
+      let start = 0;
+      start < blocks.length;
+      start += MAX_BLOCKS_PER_REQUEST
+    ) {
+      const chunk = blocks.slice(start, start + MAX_BLOCKS_PER_REQUEST);
+
+      const response = await this.rateLimiter.schedule(
+        () =>
+          this.client.blocks.children.append({
+            block_id: parentId,
+            children: chunk.map((block) => this.getInlineBlock(block)) as any,
+          }),
+        false
+      );
+
+      for (let index = 0; index < chunk.length; index++) {
+        const created = response.results[index];
+        if (created) {
+          await this.appendDeferredChildren(created.id, chunk[index]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Gets the part of a block that is sent in the append request
+   * Tables and column lists must be created with their rows and columns,
+   * all other children are deferred
+   * @param block The block to send
+   */
+  private getInlineBlock(block: NotionBlockRequest): NotionBlockRequest {
+    const payload = block[block.type];
+    if (!payload?.children) {
+      return block;
+    }
+
+    const { children, ...rest } = payload;
+
+    if (block.type === "table") {
+      return {
+        ...block,
+        table: {
+          ...rest,
+          children: children.slice(0, MAX_BLOCKS_PER_REQUEST),
+        },
+      };
+    }
+
+    if (block.type === "column_list") {
+      return {
+        ...block,
+        column_list: {
+          ...rest,
+          children: children.map((column: NotionBlockRequest) => ({
+            ...column,
+            column: {
+              ...column.column,
+              children: (column.column?.children || []).map(
+                (child: NotionBlockRequest) => this.withoutChildren(child)
+              ),
+            },
+          })),
+        },
+      };
+    }
+
+    return { ...block, [block.type]: rest };
+  }
+
+  /**
+   * Appends the children left out of the append request of a block
+   * @param blockId The ID of the created block
+   * @param block The block as it was requested
+   */
+  private async appendDeferredChildren(
+    blockId: string,
+    block: NotionBlockRequest
+  ): Promise<void> {
+    const children: NotionBlockRequest[] = block[block.type]?.children || [];
+    if (children.length === 0) {
+      return;
+    }
+
+    if (block.type === "table") {
+      await this.appendBlocks(blockId, children.slice(MAX_BLOCKS_PER_REQUEST));
+      return;
+    }
+
+    if (block.type === "column_list") {
+      const hasNestedChildren = children.some((column) =>
+        (column.column?.children || []).some(
+          (child: NotionBlockRequest) => child[child.type]?.children
+        )
+      );
+      if (!hasNestedChildren) {
+        return;
+      }
+
+      // The response only holds the column list, so look up the created blocks
+      const columnIds = await this.listChildIds(blockId);
+      for (let column = 0; column < children.length; column++) {
+        if (!columnIds[column]) continue;
+
+        const columnChildren: NotionBlockRequest[] =
+          children[column].column?.children || [];
+        const childIds = await this.listChildIds(columnIds[column]);
+
+        for (let index = 0; index < columnChildren.length; index++) {
+          if (childIds[index]) {
+            await this.appendDeferredChildren(
+              childIds[index],
+              columnChildren[index]
+            );
+          }
+        }
+      }
+      return;
+    }
+
+    await this.appendBlocks(blockId, children);
+  }
+
+  /**
+   * Removes the children from a block request
+   * @param block The block request
+   */
+  private withoutChildren(block: NotionBlockRequest): NotionBlockRequest {
+    const payload = block[block.type];
+    if (!payload?.children) {
+      return block;
+    }
+
+    const rest = { ...payload };
+    delete rest.children;
+    return { ...block, [block.type]: rest };
+  }
+
+  /**
+   * Lists the IDs of the children of a page or block
+   * @param blockId The ID of the parent page or block
+   */
+  private async listChildIds(blockId: string): Promise<string[]> {
+    const ids: string[] = [];
+    let hasMore = true;
+    let startCursor: string | undefined = undefined;
+
+    while (hasMore) {
+      const response = await this.rateLimiter.schedule(() =>
+        this.client.blocks.children.list({
+          block_id: blockId,
+          start_cursor: startCursor,
+        })
+      );
+
+      ids.push(...response.results.map((block) => block.id));
+      hasMore = response.has_more && !!response.next_cursor;
+      startCursor = response.next_cursor || undefined;
+    }
+
+    return ids;
+  }
+
   /**
    * Transforms a query filter to Notion's filter format
+   * Empty filters are left out, the API rejects them
    * @param filter The filter to transform
    */
-  private transformFilter(filter: QueryFilter): any {
-    // If custom filter is provided, use it directly
-    if (filter.filter) {
+  private transformFilter(filter: QueryFilter): DatabaseFilter | undefined {
+    if (filter.filter && Object.keys(filter.filter).length > 0) {
       return filter.filter;
     }
 
-    // For now, return empty object as default filter
-    return {};
+    return undefined;
   }
 
   /**
@@ -397,24 +774,40 @@ export class NotionDatabase implements INotionDatabase {
    * @param definition The property definition
    */
   private createPropertyDefinition(definition: any): any {
-    const { type, options } = definition;
-
-    if (type === "select" || type === "multi_select") {
-      return {
-        [type]: options ? { options } : {},
-      };
+    const { type, options, databaseId, expression, rollup } = definition;
+
+    switch (type) {
+      case "select":
+      case "multi_select":
+        return {
+          [type]: options ? { options } : {},
+        };
+      case "relation":
+        return {
+          relation: {
+            database_id: databaseId,
+            type: "single_property",
+            single_property: {},
+          },
+        };
+      case "formula":
+        return {
+          formula: { expression },
+        };
+      case "rollup":
+        return {
+          rollup: {
+            relation_property_name: rollup?.relationProperty,
+            rollup_property_name: rollup?.rollupProperty,
+            function: rollup?.function,
+          },
+        };
+      default:
+        // Status options are managed in Notion, the API cannot create them
+        return {
+          [type]: {},
+        };
     }
-
-    return {
-      [type]: {},
-    };
-  }
-
-  /**
-   * Delays execution to respect API rate limits
-   */
-  private async delay(): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, this.rateLimitDelay));
   }
 
   /**
@@ -424,14 +817,10 @@ export class NotionDatabase implements INotionDatabase {
   private buildDefaultProperties(): Record<string, any> {
     return {
       Title: { type: "title" },
+      // Category options are created as categories are written
       Category: {
         type: "select",
-        options: [
-          { name: "JavaScript", color: "yellow" },
-          { name: "Python", color: "blue" },
-          { name: "React", color: "green" },
-          { name: "TypeScript", color: "purple" },
-        ],
+        options: [],
       },
       Tags: {
         type: "multi_select",
@@ -471,12 +860,17 @@ export class NotionDatabase implements INotionDatabase {
       Published: {
         type: "checkbox",
       },
+      // Identifies the source page of an entry, can be hidden in views
+      [SOURCE_ID_PROPERTY]: {
+        type: "rich_text",
+      },
     };
   }
 
   /**
-   * Creates or updates an entry in the database based on title
-   * If an entry with the same title exists, it will be updated
+   * Creates or updates an entry in the database based on its source ID or title
+   * An entry with the same source ID is updated, otherwise an entry with the
+   * same title that is not linked to another source page
    * @param data The data for the entry
    * @returns Object containing the entry ID and whether it was created or updated
    */
@@ -485,8 +879,6 @@ export class NotionDatabase implements INotionDatabase {
       throw new Error("Database ID is not set");
     }
 
-    await this.delay(); // Respect rate limiting
-
     try {
       // First, check if an entry with this title exists
       const title = this.extractTitle(data);
@@ -494,15 +886,27 @@ export class NotionDatabase implements INotionDatabase {
         throw new Error("Title is required for upsert operation");
       }
 
-      const existingEntries = await this.queryEntries({
-        filter: {
-          property: "Title",
-          title: {
-            equals: title,
-          },
-        },
-        page_size: 1,
-      });
+      const sourceId =
+        data.properties?.[SOURCE_ID_PROPERTY]?.rich_text?.[0]?.text?.content;
+      let existingEntries: NotionEntry[] = [];
+
+      if (sourceId) {
+        existingEntries = await this.queryEntries(
+          new QueryBuilder()
+            .where(Filter.richText(SOURCE_ID_PROPERTY).equals(sourceId))
+            .limit(1)
+            .build()
+        );
+      }
+
+      if (existingEntries.length === 0) {
+        const query = new QueryBuilder().where(Filter.title().equals(title));
+        if (sourceId) {
+          query.where(Filter.richText(SOURCE_ID_PROPERTY).isEmpty());
+        }
+
+        existingEntries = await this.queryEntries(query.limit(1).build());
+      }
 
       // If an entry exists, update it
       if (existingEntries.length > 0) {
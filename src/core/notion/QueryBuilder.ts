@@ -0,0 +1,422 @@
+import {
+  CheckboxCondition,
+  DatabaseFilter,
+  DatabaseSort,
+  DateCondition,
+  MultiSelectCondition,
+  NumberCondition,
+  PropertyFilter,
+  QueryFilter,
+  SelectCondition,
+  SortDirection,
+  TextCondition,
+  TimestampFilter,
+} from "../../types";
+
+/**
+ * Maximum nesting depth of compound filters accepted by the Notion API
+ */
+const MAX_COMPOUND_DEPTH = 2;
+
+/**
+ * Builds conditions on a title, rich text or URL property
+ */
+export class TextFilter {
+  private property: string;
+  private type: "title" | "rich_text" | "url";
+
+  constructor(property: string, type: "title" | "rich_text" | "url") {
+    this.property = property;
+    this.type = type;
+  }
+
+  equals(value: string): PropertyFilter {
+    return this.create({ equals: value });
+  }
+
+  doesNotEqual(value: string): PropertyFilter {
+    return this.create({ does_not_equal: value });
+  }
+
+  contains(value: string): PropertyFilter {
+    return this.create({ contains: value });
+  }
+
+  doesNotContain(value: string): PropertyFilter {
+    return this.create({ does_not_contain: value });
+  }
+
+  startsWith(value: string): PropertyFilter {
+    return this.create({ starts_with: value });
+  }
+
+  endsWith(value: string): PropertyFilter {
+    return this.create({ ends_with: value });
+  }
+
+  isEmpty(): PropertyFilter {
+    return this.create({ is_empty: true });
+  }
+
+  isNotEmpty(): PropertyFilter {
+    return this.create({ is_not_empty: true });
+  }
+
+  private create(condition: TextCondition): PropertyFilter {
+    return {
+      property: this.property,
+      [this.type]: condition,
+    } as PropertyFilter;
+  }
+}
+
+/**
+ * Builds conditions on a number property
+ */
+export class NumberFilter {
+  private property: string;
+
+  constructor(property: string) {
+    this.property = property;
+  }
+
+  equals(value: number): PropertyFilter {
+    return this.create({ equals: value });
+  }
+
+  doesNotEqual(value: number): PropertyFilter {
+    return this.create({ does_not_equal: value });
+  }
+
+  greaterThan(value: number): PropertyFilter {
+    return this.create({ greater_than: value });
+  }
+
+  lessThan(value: number): PropertyFilter {
+    return this.create({ less_than: value });
+  }
+
+  greaterThanOrEqualTo(value: number): PropertyFilter {
+    return this.create({ greater_than_or_equal_to: value });
+  }
+
+  lessThanOrEqualTo(value: number): PropertyFilter {
+    return this.create({ less_than_or_equal_to: value });
+  }
+
+  isEmpty(): PropertyFilter {
+    return this.create({ is_empty: true });
+  }
+
+  isNotEmpty(): PropertyFilter {
+    return this.create({ is_not_empty: true });
+  }
+
+  private create(condition: NumberCondition): PropertyFilter {
+    return { property: this.property, number: condition };
+  }
+}
+
+/**
+ * Builds conditions on a checkbox property
+ */
+export class CheckboxFilter {
+  private property: string;
+
+  constructor(property: string) {
+    this.property = property;
+  }
+
+  equals(value: boolean): PropertyFilter {
+    return this.create({ equals: value });
+  }
+
+  doesNotEqual(value: boolean): PropertyFilter {
+    return this.create({ does_not_equal: value });
+  }
+
+  private create(condition: CheckboxCondition): PropertyFilter {
+    return { property: this.property, checkbox: condition };
+  }
+}
+
+/**
+ * Builds conditions on a select property
+ */
+export class SelectFilter {
+  private property: string;
+
+  constructor(property: string) {
+    this.property = property;
+  }
+
+  equals(value: string): PropertyFilter {
+    return this.create({ equals: value });
+  }
+
+  doesNotEqual(value: string): PropertyFilter {
+    return this.create({ does_not_equal: value });
+  }
+
+  isEmpty(): PropertyFilter {
+    return this.create({ is_empty: true });
+  }
+
+  isNotEmpty(): PropertyFilter {
+    return this.create({ is_not_empty: true });
+  }
+
+  private create(condition: SelectCondition): PropertyFilter {
+    return { property: this.property, select: condition };
+  }
+}
+
+/**
+ * Builds conditions on a multi-select property
+ */
+export class MultiSelectFilter {
+  private property: string;
+
+  constructor(property: string) {
+    this.property = property;
+  }
+
+  contains(value: string): PropertyFilter {
+    return this.create({ contains: value });
+  }
+
+  doesNotContain(value: string): PropertyFilter {
+    return this.create({ does_not_contain: value });
+  }
+
+  isEmpty(): PropertyFilter {
+    return this.create({ is_empty: true });
+  }
+
+  isNotEmpty(): PropertyFilter {
+    return this.create({ is_not_empty: true });
+  }
+
+  private create(condition: MultiSelectCondition): PropertyFilter {
+    return { property: this.property, multi_select: condition };
+  }
+}
+
+/**
+ * Builds conditions on a date property or on an entry timestamp
+ */
+export class DateFilter<T extends PropertyFilter | TimestampFilter> {
+  private create: (condition: DateCondition) => T;
+
+  constructor(create: (condition: DateCondition) => T) {
+    this.create = create;
+  }
+
+  equals(date: string): T {
+    return this.create({ equals: date });
+  }
+
+  before(date: string): T {
+    return this.create({ before: date });
+  }
+
+  after(date: string): T {
+    return this.create({ after: date });
+  }
+
+  onOrBefore(date: string): T {
+    return this.create({ on_or_before: date });
+  }
+
+  onOrAfter(date: string): T {
+    return this.create({ on_or_after: date });
+  }
+
+  isEmpty(): T {
+    return this.create({ is_empty: true });
+  }
+
+  isNotEmpty(): T {
+    return this.create({ is_not_empty: true });
+  }
+}
+
+/**
+ * Filter factory
+ * Creates conditions typed by the property they apply to, and combines
+ * them into compound filters
+ */
+export class Filter {
+  static title(property = "Title"): TextFilter {
+    return new TextFilter(property, "title");
+  }
+
+  static richText(property: string): TextFilter {
+    return new TextFilter(property, "rich_text");
+  }
+
+  static url(property: string): TextFilter {
+    return new TextFilter(property, "url");
+  }
+
+  static number(property: string): NumberFilter {
+    return new NumberFilter(property);
+  }
+
+  static checkbox(property: string): CheckboxFilter {
+    return new CheckboxFilter(property);
+  }
+
+  static select(property: string): SelectFilter {
+    return new SelectFilter(property);
+  }
+
+  static multiSelect(property: string): MultiSelectFilter {
+    return new MultiSelectFilter(property);
+  }
+
+  static date(property: string): DateFilter<PropertyFilter> {
+    return new DateFilter((date) => ({ property, date }));
+  }
+
+  static createdTime(): DateFilter<TimestampFilter> {
+    return new DateFilter((condition) => ({
+      timestamp: "created_time",
+      created_time: condition,
+    }));
+  }
+
+  static lastEditedTime(): DateFilter<TimestampFilter> {
+    return new DateFilter((condition) => ({
+      timestamp: "last_edited_time",
+      last_edited_time: condition,
+    }));
+  }
+
+  /**
+   * Matches entries that match all of the filters
+   * @param filters The filters to combine
+   */
+  static and(...filters: DatabaseFilter[]): DatabaseFilter {
+    return { and: filters };
+  }
+
+  /**
+   * Matches entries that match any of the filters
+   * @param filters The filters to combine
+   */
+  static or(...filters: DatabaseFilter[]): DatabaseFilter {
+    return { or: filters };
+  }
+}
+
+/**
+ * Query Builder
+ * Builds database queries from typed filters and sorts, for example:
+ * new QueryBuilder().where(Filter.title().equals("Closures")).limit(1).build()
+ */
+export class QueryBuilder {
+  private databaseId?: string;
+  private filters: DatabaseFilter[] = [];
+  private sorts: DatabaseSort[] = [];
+  private pageSize?: number;
+  private startCursor?: string;
+
+  /**
+   * Sets the database to query
+   * @param databaseId The database ID
+   */
+  inDatabase(databaseId: string): this {
+    this.databaseId = databaseId;
+    return this;
+  }
+
+  /**
+   * Adds a filter, entries must match all filters added
+   * @param filter The filter to add
+   */
+  where(filter: DatabaseFilter): this {
+    this.filters.push(filter);
+    return this;
+  }
+
+  /**
+   * Sorts entries by a property, earlier sorts take precedence
+   * @param property The property name
+   * @param direction The sort direction
+   */
+  sortBy(property: string, direction: SortDirection = "ascending"): this {
+    this.sorts.push({ property, direction });
+    return this;
+  }
+
+  /**
+   * Sorts entries by their creation or last edit time
+   * @param timestamp The timestamp to sort by
+   * @param direction The sort direction
+   */
+  sortByTimestamp(
+    timestamp: "created_time" | "last_edited_time",
+    direction: SortDirection = "ascending"
+  ): this {
+    this.sorts.push({ timestamp, direction });
+    return this;
+  }
+
+  /**
+   * Limits the number of entries returned
+   * @param count Maximum number of entries
+   */
+  limit(count: number): this {
+    this.pageSize = count;
+    return this;
+  }
+
+  /**
+   * Continues a previous query from its cursor
+   * @param cursor The cursor returned by the previous query
+   */
+  startAt(cursor: string): this {
+    this.startCursor = cursor;
+    return this;
+  }
+
+  /**
+   * Builds the query
+   * @throws Error if compound filters are nested deeper than the API allows
+   */
+  build(): QueryFilter {
+    const query: QueryFilter = {};
+    const filter =
+      this.filters.length > 1 ? Filter.and(...this.filters) : this.filters[0];
+
+    if (filter && QueryBuilder.getDepth(filter) > MAX_COMPOUND_DEPTH) {
+      throw new Error(
+        `Compound filters can be nested at most ${MAX_COMPOUND_DEPTH} levels deep`
+      );
+    }
+
+    if (this.databaseId) query.database_id = this.databaseId;
+    if (filter) query.filter = filter;
+    if (this.sorts.length > 0) query.sorts = [...this.sorts];
+    if (this.pageSize !== undefined) query.page_size = this.pageSize;
+    if (this.startCursor) query.start_cursor = this.startCursor;
+
+    return query;
+  }
+
+  /**
+   * Gets the number of nested compound filters of a filter
+   * @param filter The filter to measure
+   */
+  private static getDepth(filter: DatabaseFilter): number {
+    const filters =
+      "and" in filter ? filter.and : "or" in filter ? filter.or : undefined;
+
+    if (!filters) return 0;
+
+    return (
+      1 + Math.max(0, ...filters.map((nested) => QueryBuilder.getDepth(nested)))
+    );
+  }
+}
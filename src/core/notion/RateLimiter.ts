@@ -0,0 +1,236 @@
+import {
+  NotionConfig,
+  RateLimiterOptions,
+  RateLimiterStats,
+} from "../../types";
+
+/**
+ * HTTP statuses that are worth retrying
+ */
+const RETRYABLE_STATUSES = [409, 429, 500, 502, 503, 504];
+
+/**
+ * HTTP statuses of requests Notion rejected before processing them
+ * Other failures may come after a write was done, so writes that are not
+ * idempotent are only retried on these
+ */
+const REJECTED_STATUSES = [409, 429];
+
+/**
+ * Error codes of transient client and network failures
+ */
+const RETRYABLE_CODES = [
+  "notionhq_client_request_timeout",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+];
+
+/**
+ * Token-bucket rate limiter for Notion API requests
+ * A single instance is shared by all services so the whole run stays within
+ * Notion's average request rate, with bounded concurrency and retries
+ */
+export class RateLimiter {
+  private interval: number;
+  private burst: number;
+  private maxConcurrent: number;
+  private maxRetries: number;
+  private baseDelay: number;
+  private maxDelay: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil: number = 0;
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+  private stats: RateLimiterStats = {
+    requests: 0,
+    retries: 0,
+    rateLimited: 0,
+    failures: 0,
+  };
+
+  /**
+   * Creates a new RateLimiter
+   * @param options Rate, concurrency and retry options
+   */
+  constructor(options: RateLimiterOptions = {}) {
+    this.interval = options.interval ?? 350;
+    this.burst = Math.max(1, options.burst ?? 3);
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 3);
+    this.maxRetries = options.maxRetries ?? 5;
+    this.baseDelay = options.baseDelay ?? 500;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Creates a rate limiter from the Notion configuration
+   * @param config The Notion configuration
+   */
+  static fromConfig(config: NotionConfig): RateLimiter {
+    return new RateLimiter({
+      interval: config.rateLimitDelay ?? 350,
+      maxConcurrent: config.maxConcurrentRequests,
+      maxRetries: config.maxRetries,
+    });
+  }
+
+  /**
+   * Runs a request once a token and a concurrency slot are available
+   * Rate-limited and transient failures are retried with backoff
+   * @param request Function that sends the request
+   * @param idempotent Whether sending the request twice has the same effect
+   * as sending it once, such as reads and updates; other requests, such as
+   * creating pages or appending blocks, are only retried when rejected
+   */
+  async schedule<T>(
+    request: () => Promise<T>,
+    idempotent: boolean = true
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+
+      let retryDelay: number | undefined;
+      try {
+        this.stats.requests++;
+        return await request();
+      } catch (error) {
+        retryDelay = this.getRetryDelay(error, attempt, idempotent);
+        if (retryDelay === undefined) {
+          this.stats.failures++;
+          throw error;
+        }
+      } finally {
+        this.release();
+      }
+
+      this.stats.retries++;
+      console.warn(
+        `Notion request failed, retrying in ${retryDelay}ms (attempt ${attempt + 1} of ${this.maxRetries})`
+      );
+      await this.sleep(retryDelay);
+    }
+  }
+
+  /**
+   * Gets a snapshot of the request counters
+   */
+  getStats(): RateLimiterStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Waits for a concurrency slot and a token
+   */
+  private async acquire(): Promise<void> {
+    while (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+
+    for (;;) {
+      this.refill();
+
+      const pause = this.pausedUntil - Date.now();
+      if (pause <= 0 && this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      const refillWait = Math.ceil((1 - this.tokens) * this.interval);
+      await this.sleep(Math.max(pause, refillWait, 1));
+    }
+  }
+
+  /**
+   * Frees a concurrency slot and wakes the next waiting request
+   */
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  /**
+   * Adds the tokens earned since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+
+    if (this.interval <= 0) {
+      this.tokens = this.burst;
+    } else {
+      this.tokens = Math.min(
+        this.burst,
+        this.tokens + (now - this.lastRefill) / this.interval
+      );
+    }
+
+    this.lastRefill = now;
+  }
+
+  /**
+   * Gets the delay before retrying a failed request
+   * @param error The error thrown by the request
+   * @param attempt Number of retries already made
+   * @param idempotent Whether the request may be sent again after any failure
+   * @returns The delay in milliseconds, or undefined if the error is not retryable
+   */
+  private getRetryDelay(
+    error: unknown,
+    attempt: number,
+    idempotent: boolean
+  ): number | undefined {
+    const status = (error as any)?.status;
+    const code = (error as any)?.code;
+    const retryable = idempotent
+      ? RETRYABLE_STATUSES.includes(status) || RETRYABLE_CODES.includes(code)
+      : REJECTED_STATUSES.includes(status);
+
+    if (attempt >= this.maxRetries || !retryable) {
+      return undefined;
+    }
+
+    if (status === 429) {
+      this.stats.rateLimited++;
+
+      // Notion says how long to wait, and every queued request waits with it
+      const retryAfter = this.getRetryAfter(error);
+      if (retryAfter !== undefined) {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + retryAfter);
+        return retryAfter;
+      }
+    }
+
+    // Exponential backoff with jitter so parallel retries spread out
+    const backoff = Math.min(this.maxDelay, this.baseDelay * 2 ** attempt);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Reads the Retry-After header of an error response
+   * @param error The error thrown by the request
+   * @returns The delay in milliseconds, or undefined if absent
+   */
+  private getRetryAfter(error: unknown): number | undefined {
+    const headers = (error as any)?.headers;
+    const value =
+      typeof headers?.get === "function"
+        ? headers.get("retry-after")
+        : headers?.["retry-after"];
+    const seconds = parseFloat(value);
+
+    return Number.isFinite(seconds) && seconds >= 0
+      ? Math.min(this.maxDelay, seconds * 1000)
+      : undefined;
+  }
+
+  /**
+   * Waits for the given time
+   * @param ms Milliseconds to wait
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
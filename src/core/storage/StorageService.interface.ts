@@ -1,4 +1,9 @@
-import { ImageMetadata, StorageItem, StorageResult } from "../../types";
+import {
+  FileMetadata,
+  ImageMetadata,
+  StorageItem,
+  StorageResult,
+} from "../../types";
 
 /**
  * Interface for storage services
@@ -15,6 +20,13 @@ export interface IStorageService {
     metadata?: ImageMetadata
   ): Promise<StorageResult>;
 
+  /**
+   * Uploads a file that is not an image, such as a PDF or a video
+   * @param filePath Path to the file to upload
+   * @param metadata Metadata for the file
+   */
+  uploadFile(filePath: string, metadata?: FileMetadata): Promise<StorageResult>;
+
   /**
    * Gets a public URL for a stored item
    * @param key Key of the item to get URL for
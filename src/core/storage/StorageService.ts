@@ -10,6 +10,7 @@ import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import * as fs from "fs-extra";
 import * as path from "path";
 import {
+  FileMetadata,
   ImageMetadata,
   StorageConfig,
   StorageItem,
@@ -71,50 +72,75 @@ export class StorageService implements IStorageService {
   async uploadImage(
     imagePath: string,
     metadata?: ImageMetadata
+  ): Promise<StorageResult> {
+    // Set up metadata object
+    const s3Metadata: Record<string, string> = {};
+    if (metadata) {
+      if (metadata.title) s3Metadata.title = metadata.title;
+      if (metadata.description) s3Metadata.description = metadata.description;
+      if (metadata.alt) s3Metadata.alt = metadata.alt;
+      if (metadata.author) s3Metadata.author = metadata.author;
+      if (metadata.sourceUrl) s3Metadata.sourceUrl = metadata.sourceUrl;
+
+      // Convert tags array to string if present
+      if (metadata.tags && Array.isArray(metadata.tags)) {
+        s3Metadata.tags = metadata.tags.join(",");
+      }
+    }
+
+    return this.uploadObject(imagePath, "image", s3Metadata);
+  }
+
+  /**
+   * Uploads a file that is not an image, such as a PDF or a video
+   * @param filePath Path to the file to upload
+   * @param metadata Metadata for the file
+   */
+  async uploadFile(
+    filePath: string,
+    metadata?: FileMetadata
+  ): Promise<StorageResult> {
+    const s3Metadata: Record<string, string> = {};
+    if (metadata) {
+      if (metadata.title) s3Metadata.title = metadata.title;
+      if (metadata.description) s3Metadata.description = metadata.description;
+      if (metadata.sourceUrl) s3Metadata.sourceUrl = metadata.sourceUrl;
+    }
+
+    return this.uploadObject(
+      filePath,
+      "file",
+      s3Metadata,
+      metadata?.contentType
+    );
+  }
+
+  /**
+   * Uploads a local file, images are stored under images/ and other files under files/
+   * @param filePath Path to the file to upload
+   * @param kind Kind of the file
+   * @param s3Metadata Metadata stored with the object
+   * @param contentType Content type, detected from the file extension when omitted
+   */
+  private async uploadObject(
+    filePath: string,
+    kind: "image" | "file",
+    s3Metadata: Record<string, string>,
+    contentType = this.getContentTypeFromKey(filePath)
   ): Promise<StorageResult> {
     try {
       // Check if the file exists
-      if (!(await fs.pathExists(imagePath))) {
-        throw new Error(`File not found: ${imagePath}`);
+      if (!(await fs.pathExists(filePath))) {
+        throw new Error(`File not found: ${filePath}`);
       }
 
       // Read the file
-      const fileContent = await fs.readFile(imagePath);
-
-      // Get the file extension
-      const fileExtension = path.extname(imagePath).toLowerCase();
-
-      // Determine content type
-      let contentType = "application/octet-stream";
-      if (fileExtension === ".jpg" || fileExtension === ".jpeg") {
-        contentType = "image/jpeg";
-      } else if (fileExtension === ".png") {
-        contentType = "image/png";
-      } else if (fileExtension === ".gif") {
-        contentType = "image/gif";
-      } else if (fileExtension === ".webp") {
-        contentType = "image/webp";
-      }
+      const fileContent = await fs.readFile(filePath);
 
-      // Create a key for the image using a timestamp and original filename
+      // Create a key for the file using a timestamp and original filename
       const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-      const fileName = path.basename(imagePath);
-      const key = `images/${timestamp}-${fileName}`;
-
-      // Set up metadata object
-      const s3Metadata: Record<string, string> = {};
-      if (metadata) {
-        if (metadata.title) s3Metadata.title = metadata.title;
-        if (metadata.description) s3Metadata.description = metadata.description;
-        if (metadata.alt) s3Metadata.alt = metadata.alt;
-        if (metadata.author) s3Metadata.author = metadata.author;
-        if (metadata.sourceUrl) s3Metadata.sourceUrl = metadata.sourceUrl;
-
-        // Convert tags array to string if present
-        if (metadata.tags && Array.isArray(metadata.tags)) {
-          s3Metadata.tags = metadata.tags.join(",");
-        }
-      }
+      const fileName = path.basename(filePath);
+      const key = `${kind}s/${timestamp}-${fileName}`;
 
       // Upload to S3
       const command = new PutObjectCommand({
@@ -138,7 +164,7 @@ export class StorageService implements IStorageService {
         success: true,
       };
     } catch (error) {
-      console.error("Error uploading image:", error);
+      console.error(`Error uploading ${kind}:`, error);
       return {
         key: "",
         url: "",
@@ -302,8 +328,20 @@ export class StorageService implements IStorageService {
         return "image/gif";
       case ".webp":
         return "image/webp";
+      case ".svg":
+        return "image/svg+xml";
       case ".pdf":
         return "application/pdf";
+      case ".mp4":
+        return "video/mp4";
+      case ".webm":
+        return "video/webm";
+      case ".mov":
+        return "video/quicktime";
+      case ".mp3":
+        return "audio/mpeg";
+      case ".zip":
+        return "application/zip";
       case ".json":
         return "application/json";
       case ".txt":
@@ -1,6 +1,11 @@
 import * as dotenv from "dotenv";
 import * as path from "path";
-import { MigrationOptions } from "./types";
+import {
+  ContentFormat,
+  MigrationOptions,
+  OrphanPolicy,
+  SchemaUpdateMode,
+} from "./types";
 import { MigrationManager } from "./workflow/MigrationManager";
 
 // Load environment variables
@@ -29,6 +34,8 @@ export async function migrate(
       console.log(`Total pages: ${result.totalPages}`);
       console.log(`Updated pages: ${result.updatedPages}`);
       console.log(`Failed pages: ${result.failedPages}`);
+      console.log(`Orphaned entries: ${result.orphanedEntries}`);
+      console.log(`Field conflicts: ${result.fieldConflicts}`);
       console.log(
         `Categories: ${result.categories?.map((c) => c.name).join(", ")}`
       );
@@ -42,6 +49,51 @@ export async function migrate(
   }
 }
 
+/**
+ * Writes the schema of an existing database to the schema file
+ * @param configPath Optional path to the configuration file
+ * @param databaseId ID of the database to import the schema from
+ */
+export async function importSchema(
+  configPath: string | undefined,
+  databaseId: string
+): Promise<void> {
+  try {
+    const manager = new MigrationManager(configPath);
+    const schemaFile = await manager.importSchema(databaseId);
+    console.log(`Database schema written to ${schemaFile}`);
+  } catch (error) {
+    console.error("Schema import failed with an error:", error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Links existing entries of the target database to their source pages
+ * @param configPath Optional path to the configuration file
+ * @param options Options for the migration
+ */
+export async function backfillSourceIds(
+  configPath?: string,
+  options: MigrationOptions = {}
+): Promise<void> {
+  try {
+    const manager = new MigrationManager(configPath);
+    const result = await manager.backfillSourceIds(options);
+
+    result.unmatched.forEach((title) =>
+      console.log(`No entry found for: ${title}`)
+    );
+    result.ambiguous.forEach((title) =>
+      console.log(`Several entries match, link by hand: ${title}`)
+    );
+    console.log("Source ID backfill completed");
+  } catch (error) {
+    console.error("Source ID backfill failed with an error:", error);
+    process.exit(1);
+  }
+}
+
 /**
  * Command-line entry point
  */
@@ -49,6 +101,8 @@ if (require.main === module) {
   // Parse command-line arguments
   const args = process.argv.slice(2);
   let configPath: string | undefined;
+  let importDatabaseId: string | undefined;
+  let backfill = false;
   const options: MigrationOptions = {
     enhanceContent: true,
     processImages: true,
@@ -67,6 +121,31 @@ if (require.main === module) {
       options.processImages = false;
     } else if (arg === "--no-generate-images") {
       options.generateImages = false;
+    } else if (arg === "--format" && i + 1 < args.length) {
+      const format = args[++i];
+      if (!["text", "markdown", "html"].includes(format)) {
+        console.error(`Unsupported content format: ${format}`);
+        process.exit(1);
+      }
+      options.contentFormat = format as ContentFormat;
+    } else if (arg === "--schema" && i + 1 < args.length) {
+      const mode = args[++i];
+      if (!["apply", "preview", "off"].includes(mode)) {
+        console.error(`Unsupported schema update mode: ${mode}`);
+        process.exit(1);
+      }
+      options.schemaUpdate = mode as SchemaUpdateMode;
+    } else if (arg === "--orphans" && i + 1 < args.length) {
+      const policy = args[++i];
+      if (!["ignore", "mark", "archive"].includes(policy)) {
+        console.error(`Unsupported orphan policy: ${policy}`);
+        process.exit(1);
+      }
+      options.orphanPolicy = policy as OrphanPolicy;
+    } else if (arg === "--import-schema" && i + 1 < args.length) {
+      importDatabaseId = args[++i];
+    } else if (arg === "--backfill-source-ids") {
+      backfill = true;
     } else if (arg === "--help") {
       console.log(`
 NotionPageDb Migration System
@@ -79,14 +158,24 @@ Options:
   --no-enhance            Disable content enhancement
   --no-images             Disable image processing
   --no-generate-images    Disable image generation
+  --format <format>       Content format: text, markdown or html
+  --schema <mode>         Schema update mode: preview (default), apply or off
+  --orphans <policy>      Orphaned entry policy: ignore, mark or archive
+  --import-schema <id>    Write the schema of a database to the schema file
+  --backfill-source-ids   Link existing entries to their source pages
   --help                  Show this help message
       `);
       process.exit(0);
     }
   }
 
-  // Run the migration
-  migrate(configPath, options).catch((error) => {
+  // Import a schema, backfill source IDs or run the migration
+  (importDatabaseId
+    ? importSchema(configPath, importDatabaseId)
+    : backfill
+      ? backfillSourceIds(configPath, options)
+      : migrate(configPath, options)
+  ).catch((error) => {
     console.error("Unhandled error:", error);
     process.exit(1);
   });
@@ -95,14 +184,21 @@ Options:
 // Export core components for programmatic use
 export * from "./core/ai/AIService";
 export * from "./core/config/ConfigManager";
+export * from "./core/config/DatabaseSchemaFile";
+export * from "./core/content/HtmlRenderer";
+export * from "./core/content/MarkdownRenderer";
+export * from "./core/notion/FieldMapper";
 export * from "./core/notion/NotionContent";
 export * from "./core/notion/NotionDatabase";
+export * from "./core/notion/QueryBuilder";
+export * from "./core/notion/RateLimiter";
 export * from "./core/storage/StorageService";
 
 // Export workflow components for programmatic use
 export * from "./workflow/content/ContentProcessor";
 export * from "./workflow/database/DatabaseUpdater";
 export * from "./workflow/database/DatabaseVerifier";
+export * from "./workflow/database/SchemaDiffer";
 export * from "./workflow/images/ImageProcessor";
 export * from "./workflow/MigrationManager";
 
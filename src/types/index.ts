@@ -9,6 +9,200 @@ export interface NotionConfig {
   targetDatabaseName?: string;
   resolvedDatabaseId?: string;
   rateLimitDelay?: number;
+  contentFormat?: ContentFormat; // Format used for ContentPage.content
+  traversalMode?: TraversalMode; // How the source page hierarchy is walked
+  maxDepth?: number; // Deepest level of nested pages extracted in deep mode
+  sourceMode?: SourceMode; // Whether content comes from a page tree or a database
+  sourceDatabaseId?: string; // Source database ID used in database mode
+  sourceProperties?: SourcePropertyMapping; // Row properties read in database mode
+  cacheDir?: string; // Directory of the persistent content cache and database index (disabled when unset)
+  maxConcurrentRequests?: number; // Notion requests allowed in flight at once
+  maxRetries?: number; // Retries of rate-limited or failed Notion requests
+  categoryRules?: CategoryRule[]; // Rules mapping source titles onto categories
+  contentFilter?: ContentFilterOptions; // Selects which source pages are migrated
+  imageSources?: ImageSource[]; // Where a page's image comes from, in priority order
+  tableOfContents?: boolean; // Whether Markdown and HTML content starts with a table of contents
+  outlineProperty?: string; // Rich text property of the target database the outline is written to
+  schemaUpdate?: SchemaUpdateMode; // How differences in the target database schema are handled
+  schemaFile?: string; // JSON file defining the target database schema
+  databaseSchema?: DatabaseSchema; // Target database schema loaded from the schema file
+  fieldMapping?: FieldMapping; // Target database properties content page fields are written to
+  fieldOwnership?: FieldOwnershipMap; // Whether the source or the database owns each field of existing entries
+  orphanPolicy?: OrphanPolicy; // How entries whose source page is gone are handled
+  orphanStatus?: string; // Status the mark policy gives orphaned entries
+  orphanArchiveLimit?: number; // Most orphaned entries archived in one run
+  categoryMode?: CategoryMode; // Whether categories are select options or rows of a categories database
+  categoryDatabaseId?: string; // Categories database in relation mode, found by name or created when unset
+  categoryDatabaseName?: string; // Name the categories database is found by and created with
+}
+
+/**
+ * Source of the content to migrate
+ * "page" walks the page tree under the source page,
+ * "database" reads the rows of the source database as content pages
+ */
+export type SourceMode = "page" | "database";
+
+/**
+ * Names of the source database properties mapped onto content pages
+ */
+export interface SourcePropertyMapping {
+  title?: string; // Defaults to the database's title property
+  category?: string;
+  tags?: string;
+}
+
+/**
+ * Source page traversal mode
+ * "categories" reads articles directly under category pages,
+ * "deep" also turns nested child pages into articles up to a maximum depth
+ */
+export type TraversalMode = "categories" | "deep";
+
+/**
+ * Filters selecting which source pages are migrated
+ * Title patterns are globs, or regular expressions written as /pattern/flags
+ */
+export interface ContentFilterOptions {
+  includeCategories?: string[];
+  excludeCategories?: string[];
+  includeTitles?: string[];
+  excludeTitles?: string[];
+  includePageIds?: string[];
+  excludePageIds?: string[];
+  createdAfter?: string; // Keeps pages created on or after this date
+  createdBefore?: string; // Keeps pages created before this date
+  editedAfter?: string; // Keeps pages last edited on or after this date
+  editedBefore?: string; // Keeps pages last edited before this date
+  minWords?: number; // Skips pages with fewer words
+}
+
+/**
+ * Source of a content page's image
+ * "cover" and "icon" are the source page's cover and image icon,
+ * "inline" is the first image in the page body and "generate" is AI generation
+ */
+export type ImageSource = "cover" | "icon" | "inline" | "generate";
+
+/**
+ * How the target database schema is brought in line with the required schema
+ * "apply" adds missing properties and select options, "preview" only reports
+ * the changes and "off" skips the schema check
+ */
+export type SchemaUpdateMode = "apply" | "preview" | "off";
+
+/**
+ * How the category of an entry is written
+ * "select" writes it as a select option, "relation" links the entry to a row
+ * of a separate categories database
+ */
+export type CategoryMode = "select" | "relation";
+
+/**
+ * How entries whose source page was deleted or moved out of the source are handled
+ * "ignore" only reports them, "mark" sets their status to the orphan status
+ * and "archive" archives them
+ */
+export type OrphanPolicy = "ignore" | "mark" | "archive";
+
+/**
+ * Content page fields that can be written to the target database
+ */
+export type MappedField =
+  | "title"
+  | "category"
+  | "tags"
+  | "summary"
+  | "excerpt"
+  | "minsRead"
+  | "imageUrl"
+  | "r2ImageUrl"
+  | "createdTime"
+  | "status"
+  | "originalPageUrl"
+  | "published"
+  | "outline"
+  | "sourceId";
+
+/**
+ * Where a content page field is written
+ * "callout" writes the field as a callout at the top of the page body
+ */
+export interface FieldBinding {
+  property?: string; // Target property, not used by callouts
+  type: PropertyDefinition["type"] | "callout";
+}
+
+/**
+ * Bindings of content page fields, fields without a binding are not written
+ */
+export type FieldMapping = Partial<Record<MappedField, FieldBinding>>;
+
+/**
+ * Who owns a field of existing entries
+ * "source-wins" writes the source value whenever it differs, "database-wins"
+ * never writes the field, "fill-if-empty" writes it when the entry has no
+ * value, and "ai-only-once" also keeps the value of the entry instead of
+ * generating a new one. New entries get every field.
+ */
+export type FieldOwnership =
+  | "source-wins"
+  | "database-wins"
+  | "fill-if-empty"
+  | "ai-only-once";
+
+/**
+ * Ownership of content page fields, "fill-if-empty" for fields not listed
+ * except the title, which the source owns
+ */
+export type FieldOwnershipMap = Partial<Record<MappedField, FieldOwnership>>;
+
+/**
+ * Field of an existing entry whose value differs from the source
+ */
+export interface FieldConflict {
+  entryId: string;
+  title: string; // Title of the source page
+  field: MappedField;
+  ownership: FieldOwnership; // Decides whether the entry value is kept
+}
+
+/**
+ * Result of linking existing entries to their source pages
+ */
+export interface BackfillResult {
+  linked: number; // Entries that got the source ID of their page
+  alreadyLinked: number; // Source pages whose entry already had their source ID
+  unmatched: string[]; // Titles of source pages without a matching entry
+  ambiguous: string[]; // Titles of source pages matching several entries or sharing a title
+}
+
+/**
+ * Output format for rendered page content
+ */
+export type ContentFormat = "text" | "markdown" | "html";
+
+/**
+ * Language of page content
+ * Latin-script text that is not recognized as English is "other"
+ */
+export type ContentLanguage = "en" | "zh" | "ja" | "ko" | "other";
+
+/**
+ * Size of page content, with code counted separately from prose
+ */
+export interface TextStats {
+  language: ContentLanguage;
+  words: number; // Words of space-separated prose
+  characters: number; // Chinese, Japanese and Korean characters
+  codeLines: number; // Non-empty lines of code blocks
+}
+
+/**
+ * Options of the Markdown and HTML block renderers
+ */
+export interface RendererOptions {
+  tableOfContents?: boolean; // Render a linked table of contents before the content
 }
 
 export interface AIConfig {
@@ -45,8 +239,31 @@ export interface ValidationResult {
   errors: string[];
 }
 
+/**
+ * Options for the shared Notion request rate limiter
+ */
+export interface RateLimiterOptions {
+  interval?: number; // Average spacing between requests (ms)
+  burst?: number; // Requests that may be sent back to back
+  maxConcurrent?: number; // Requests allowed in flight at once
+  maxRetries?: number; // Retries of transient failures
+  baseDelay?: number; // First backoff delay (ms)
+  maxDelay?: number; // Upper bound of a single backoff delay (ms)
+}
+
+/**
+ * Counters collected by the rate limiter
+ */
+export interface RateLimiterStats {
+  requests: number; // Attempts sent, including retries
+  retries: number;
+  rateLimited: number; // Responses with status 429
+  failures: number; // Requests that failed after all retries
+}
+
 // Database Schema Types
 export interface DatabaseSchema {
+  version?: number; // Version of the schema file format
   name: string;
   properties: Record<string, PropertyDefinition>;
 }
@@ -57,24 +274,159 @@ export interface PropertyDefinition {
     | "rich_text"
     | "select"
     | "multi_select"
+    | "status"
     | "number"
     | "url"
+    | "email"
+    | "phone_number"
     | "date"
     | "files"
-    | "checkbox";
-  options?: Array<{ name: string; color?: string }>; // For select/multi_select
+    | "checkbox"
+    | "people"
+    | "relation"
+    | "formula"
+    | "rollup"
+    | "created_time"
+    | "created_by"
+    | "last_edited_time"
+    | "last_edited_by";
+  options?: Array<{ name: string; color?: string }>; // For select/multi_select/status
+  databaseId?: string; // Database a relation links to
+  expression?: string; // Expression of a formula
+  rollup?: RollupDefinition; // For rollup
   description?: string;
 }
 
+/**
+ * Values a rollup property aggregates
+ * Formulas, rollups and the created and last edited properties are computed
+ * by Notion, so entries cannot write them
+ */
+export interface RollupDefinition {
+  relationProperty: string; // Relation property of the same database
+  rollupProperty: string; // Property of the related database
+  function: string; // Aggregation, such as count or sum
+}
+
 // Notion Database Types
 export interface QueryFilter {
   database_id?: string;
-  filter?: Record<string, any>;
-  sorts?: Array<Record<string, any>>;
+  filter?: DatabaseFilter;
+  sorts?: DatabaseSort[];
   page_size?: number;
   start_cursor?: string;
 }
 
+/**
+ * Condition on a title, rich text or URL property
+ */
+export interface TextCondition {
+  equals?: string;
+  does_not_equal?: string;
+  contains?: string;
+  does_not_contain?: string;
+  starts_with?: string;
+  ends_with?: string;
+  is_empty?: true;
+  is_not_empty?: true;
+}
+
+/**
+ * Condition on a number property
+ */
+export interface NumberCondition {
+  equals?: number;
+  does_not_equal?: number;
+  greater_than?: number;
+  less_than?: number;
+  greater_than_or_equal_to?: number;
+  less_than_or_equal_to?: number;
+  is_empty?: true;
+  is_not_empty?: true;
+}
+
+/**
+ * Condition on a checkbox property
+ */
+export interface CheckboxCondition {
+  equals?: boolean;
+  does_not_equal?: boolean;
+}
+
+/**
+ * Condition on a select property
+ */
+export interface SelectCondition {
+  equals?: string;
+  does_not_equal?: string;
+  is_empty?: true;
+  is_not_empty?: true;
+}
+
+/**
+ * Condition on a multi-select property
+ */
+export interface MultiSelectCondition {
+  contains?: string;
+  does_not_contain?: string;
+  is_empty?: true;
+  is_not_empty?: true;
+}
+
+/**
+ * Condition on a date property or timestamp, dates are ISO 8601 strings
+ */
+export interface DateCondition {
+  equals?: string;
+  before?: string;
+  after?: string;
+  on_or_before?: string;
+  on_or_after?: string;
+  is_empty?: true;
+  is_not_empty?: true;
+}
+
+/**
+ * Filter on a single database property, keyed by the property type
+ */
+export type PropertyFilter =
+  | { property: string; title: TextCondition }
+  | { property: string; rich_text: TextCondition }
+  | { property: string; url: TextCondition }
+  | { property: string; number: NumberCondition }
+  | { property: string; checkbox: CheckboxCondition }
+  | { property: string; select: SelectCondition }
+  | { property: string; multi_select: MultiSelectCondition }
+  | { property: string; date: DateCondition };
+
+/**
+ * Filter on the creation or last edit time of entries
+ */
+export type TimestampFilter =
+  | { timestamp: "created_time"; created_time: DateCondition }
+  | { timestamp: "last_edited_time"; last_edited_time: DateCondition };
+
+/**
+ * Filter of a database query, compound filters combine other filters
+ */
+export type DatabaseFilter =
+  | PropertyFilter
+  | TimestampFilter
+  | { and: DatabaseFilter[] }
+  | { or: DatabaseFilter[] };
+
+export type SortDirection = "ascending" | "descending";
+
+/**
+ * Sort of a database query, by a property or a timestamp
+ */
+export type DatabaseSort =
+  | { property: string; direction: SortDirection }
+  | {
+      timestamp: "created_time" | "last_edited_time";
+      direction: SortDirection;
+    };
+
 export interface NotionEntry {
   id: string;
   properties: Record<string, any>;
@@ -97,6 +449,8 @@ export interface PageContent {
   title: string;
   blocks: Block[];
   properties?: Record<string, any>;
+  cover?: string; // URL of the page cover image
+  icon?: string; // URL of the page icon, when it is an image
   createdTime: string;
   lastEditedTime: string;
 }
@@ -108,10 +462,81 @@ export interface Block {
   hasChildren: boolean;
 }
 
+/**
+ * Block in the shape the Notion API accepts when appending children
+ */
+export type NotionBlockRequest = Record<string, any>;
+
+/**
+ * Text content of a block, kept both as plain text and as formatted spans
+ */
+export interface TextContent {
+  text: string;
+  richText: RichTextSpan[];
+}
+
+/**
+ * A run of rich text with uniform formatting
+ */
+export interface RichTextSpan {
+  type: "text" | "mention" | "equation";
+  text: string;
+  annotations?: RichTextAnnotations; // Omitted when the span is unformatted
+  href?: string;
+  mention?: RichTextMention;
+}
+
+/**
+ * Formatting applied to a rich text span
+ */
+export interface RichTextAnnotations {
+  bold: boolean;
+  italic: boolean;
+  strikethrough: boolean;
+  underline: boolean;
+  code: boolean;
+  color: string;
+}
+
+/**
+ * Target of a mention inside rich text
+ */
+export interface RichTextMention {
+  type: string; // page, database, user, date, link_preview, ...
+  id?: string; // Page, database or user ID
+  name?: string; // User name when available
+  url?: string; // Link preview URL
+  start?: string; // Date mention start
+  end?: string; // Date mention end
+}
+
 export interface Category {
   id: string;
+  name: string; // Name after the category rules are applied
+  title?: string; // Title of the source page or property value
+  parent?: string; // Parent category assigned by a category rule
+}
+
+/**
+ * Rule that maps a source category title onto a category
+ * The first rule whose pattern matches the title is applied
+ */
+export interface CategoryRule {
+  match: string; // Regular expression tested against the title
+  flags?: string; // Regular expression flags, e.g. "i"
+  rename?: string; // Replacement for the matched text, may reference groups as $1
+  alias?: string; // Existing category the title is merged into
+  prefix?: string; // Text prepended to the name
+  exclude?: boolean; // Skip the category and all of its pages
+  parent?: string; // Parent category to file the category under
+}
+
+/**
+ * Result of applying the category rules to a title
+ */
+export interface CategoryMapping {
   name: string;
-  type: "regular" | "mit"; // Regular category or MIT unit with CITS prefix
+  parent?: string;
 }
 
 /**
@@ -130,27 +555,59 @@ export enum Status {
 export interface ContentPage {
   id: string;
   title: string;
+  sourceTitle?: string; // Title of the source page when the title was generated
   parentId: string;
   category: string;
+  parentCategory?: string; // Parent of the category assigned by a category rule
+  categoryPath?: string[]; // Breadcrumb from the category down to the parent page
   content: string;
+  contentFormat?: ContentFormat; // Format of the content field (defaults to text)
+  language?: ContentLanguage; // Detected language of the content
   summary?: string;
   excerpt?: string;
   tags?: string[];
   minsRead?: number;
   imageUrl?: string;
   r2ImageUrl?: string; // Secondary image URL for R2 storage
+  coverUrl?: string; // Cover image of the source page
+  iconUrl?: string; // Image icon of the source page
   status?: Status; // Status field (Draft, Ready, Review, Published)
   published?: boolean; // Whether the entry is published
   originalPageUrl?: string; // URL to the original Notion page
+  assets?: ContentAsset[]; // Inline images and attachments in the content
+  blocks?: Block[]; // Block tree of the body, written to the target entry
+  outline?: OutlineEntry[]; // Headings of the body in document order
   createdTime: string;
   lastEditedTime: string;
 }
 
+/**
+ * Heading of a page body
+ */
+export interface OutlineEntry {
+  level: 1 | 2 | 3;
+  text: string;
+  slug: string; // Anchor of the heading in the rendered content
+  blockId: string; // ID of the source heading block
+}
+
+/**
+ * Inline image or attachment referenced by a page body
+ */
+export interface ContentAsset {
+  blockId: string; // ID of the source block, used to deduplicate uploads
+  type: "image" | "file" | "pdf";
+  url: string; // URL as it appears in the rendered content
+  sourceUrl?: string; // URL the asset was downloaded from, once it is re-hosted
+  name?: string;
+}
+
 // AI Service Types
 export interface SummaryOptions {
   maxLength?: number;
   style?: "concise" | "detailed" | "technical";
   includeKeyPoints?: boolean;
+  outline?: OutlineEntry[]; // Headings of the content, describing its structure
 }
 
 export interface ImageOptions {
@@ -191,6 +648,13 @@ export interface ImageMetadata {
 /**
  * Result of storage operations
  */
+export interface FileMetadata {
+  title?: string;
+  description?: string;
+  sourceUrl?: string;
+  contentType?: string; // Detected from the file extension when omitted
+}
+
 export interface StorageResult {
   key: string;
   url: string;
@@ -219,12 +683,29 @@ export interface VerificationResult {
 
 export interface SchemaValidationResult {
   valid: boolean;
-  missingProperties: PropertyDefinition[];
+  missingProperties: {
+    name: string;
+    expected: PropertyDefinition;
+  }[];
   incorrectProperties: {
     name: string;
     expected: PropertyDefinition;
     actual: PropertyDefinition;
   }[];
+  missingOptions: {
+    name: string;
+    options: Array<{ name: string; color?: string }>;
+  }[];
+}
+
+/**
+ * Result of bringing the target database schema in line with the required schema
+ */
+export interface SchemaMigrationResult {
+  validation: SchemaValidationResult;
+  changes: string[]; // Additive changes, applied unless previewing
+  conflicts: string[]; // Differences that have to be fixed by hand
+  applied: boolean;
 }
 
 /**
@@ -235,10 +716,13 @@ export interface FetchResult {
   error?: string;
   categories?: Category[];
   contentPages?: ContentPage[];
+  sourcePageIds?: string[]; // Every page of the source, including the ones the filters and category rules leave out
 }
 
 export interface UpdateOptions {
+  /** @deprecated Set "database-wins" ownership of the fields instead */
   skipExisting?: boolean;
+  /** @deprecated Set "source-wins" ownership of the fields instead */
   overwriteFields?: string[];
   preserveDates?: boolean;
   dryRun?: boolean;
@@ -366,6 +850,15 @@ export interface ImageProcessingResult {
   error?: string;
 }
 
+/**
+ * Result of re-hosting the inline assets of a content page
+ */
+export interface AssetProcessingResult {
+  uploaded: number; // Assets uploaded during this run
+  reused: number; // Assets already uploaded by an earlier run
+  failed: number; // Assets left at their original URL
+}
+
 /**
  * Migration options
  */
@@ -373,6 +866,9 @@ export interface MigrationOptions {
   enhanceContent?: boolean;
   processImages?: boolean;
   generateImages?: boolean;
+  contentFormat?: ContentFormat; // Overrides the configured content format
+  schemaUpdate?: SchemaUpdateMode; // Overrides the configured schema update mode
+  orphanPolicy?: OrphanPolicy; // Overrides the configured orphan policy
 }
 
 /**
@@ -383,6 +879,8 @@ export interface MigrationResult {
   totalPages?: number;
   updatedPages?: number;
   failedPages?: number;
+  orphanedEntries?: number;
+  fieldConflicts?: number; // Fields whose entry value differs from the source
   categories?: Category[];
   error?: string;
 }
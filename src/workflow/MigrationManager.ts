@@ -1,12 +1,24 @@
 import { AIService } from "../core/ai/AIService";
 import { ConfigManager } from "../core/config/ConfigManager";
+import { DatabaseSchemaFile } from "../core/config/DatabaseSchemaFile";
+import { FieldMapper } from "../core/notion/FieldMapper";
 import { NotionContent } from "../core/notion/NotionContent";
 import { NotionDatabase } from "../core/notion/NotionDatabase";
+import { RateLimiter } from "../core/notion/RateLimiter";
 import { StorageService } from "../core/storage/StorageService";
-import { ContentPage, MigrationOptions, MigrationResult } from "../types";
+import {
+  BackfillResult,
+  Category,
+  ContentPage,
+  MigrationOptions,
+  MigrationResult,
+  NotionEntry,
+} from "../types";
 import { ContentProcessor } from "./content/ContentProcessor";
+import { CategoryDatabase } from "./database/CategoryDatabase";
 import { DatabaseUpdater } from "./database/DatabaseUpdater";
 import { DatabaseVerifier } from "./database/DatabaseVerifier";
+import { AssetProcessor } from "./images/AssetProcessor";
 import { ImageProcessor } from "./images/ImageProcessor";
 
 /**
@@ -17,12 +29,15 @@ export class MigrationManager {
   private configManager: ConfigManager;
   private notionDatabase: NotionDatabase;
   private notionContent: NotionContent;
+  private rateLimiter: RateLimiter;
   private aiService: AIService;
   private storageService: StorageService;
   private databaseVerifier: DatabaseVerifier;
   private contentProcessor: ContentProcessor;
   private databaseUpdater: DatabaseUpdater;
+  private categoryDatabase?: CategoryDatabase;
   private imageProcessor: ImageProcessor;
+  private assetProcessor: AssetProcessor;
 
   /**
    * Creates a new MigrationManager instance
@@ -50,9 +65,10 @@ export class MigrationManager {
     const aiConfig = this.configManager.getAIConfig();
     const storageConfig = this.configManager.getStorageConfig();
 
-    // Initialize core services
-    this.notionDatabase = new NotionDatabase(notionConfig);
-    this.notionContent = new NotionContent(notionConfig);
+    // Initialize core services, sharing one rate limiter for all Notion calls
+    this.rateLimiter = RateLimiter.fromConfig(notionConfig);
+    this.notionDatabase = new NotionDatabase(notionConfig, this.rateLimiter);
+    this.notionContent = new NotionContent(notionConfig, this.rateLimiter);
     this.aiService = new AIService(aiConfig);
     this.storageService = new StorageService(storageConfig);
 
@@ -64,17 +80,53 @@ export class MigrationManager {
     this.contentProcessor = new ContentProcessor(
       this.notionContent,
       this.aiService,
-      notionConfig.sourcePageId
+      notionConfig.sourcePageId,
+      notionConfig.sourceMode === "database"
+        ? notionConfig.sourceDatabaseId
+        : undefined,
+      notionConfig.contentFilter,
+      notionConfig.imageSources
     );
 
+    // Categories are rows of their own database in relation mode
+    if (notionConfig.categoryMode === "relation") {
+      this.categoryDatabase = new CategoryDatabase(
+        new NotionDatabase(
+          {
+            ...notionConfig,
+            resolvedDatabaseId: notionConfig.categoryDatabaseId,
+            targetDatabaseName: notionConfig.categoryDatabaseName,
+            databaseSchema: undefined,
+          },
+          this.rateLimiter
+        ),
+        notionConfig.categoryDatabaseName || "Categories",
+        notionConfig.sourceMode
+      );
+    }
+
     // Initialize database updater without the database ID
     // We'll resolve it during migration
-    this.databaseUpdater = new DatabaseUpdater(this.notionDatabase);
+    this.databaseUpdater = new DatabaseUpdater(
+      this.notionDatabase,
+      undefined,
+      notionConfig.outlineProperty,
+      this.categoryDatabase
+        ? FieldMapper.withCategoryRelation(notionConfig.fieldMapping)
+        : notionConfig.fieldMapping,
+      notionConfig.cacheDir,
+      notionConfig.fieldOwnership
+    );
 
     this.imageProcessor = new ImageProcessor(
       this.aiService,
       this.storageService
     );
+    this.assetProcessor = new AssetProcessor(
+      this.storageService,
+      undefined,
+      notionConfig.cacheDir
+    );
   }
 
   /**
@@ -88,47 +140,18 @@ export class MigrationManager {
       // Initialize components
       await this.imageProcessor.initialize();
 
-      // Verify or create the database
-      console.log("Verifying database...");
-      const notionConfig = this.configManager.getNotionConfig();
-
-      // First, check if we have a direct database ID from config
-      let verificationResult;
-      if (notionConfig.resolvedDatabaseId) {
-        // If we already have a database ID, verify it directly
-        verificationResult = await this.databaseVerifier.verifyDatabase(
-          notionConfig.resolvedDatabaseId
-        );
-      } else {
-        // Otherwise, try to find or create the database using the source page as parent
-        verificationResult = await this.databaseVerifier.createDatabaseIfNeeded(
-          notionConfig.sourcePageId
-        );
-      }
-
-      if (!verificationResult.success) {
-        return {
-          success: false,
-          error: `Database verification failed: ${verificationResult.errors?.join(", ")}`,
-        };
+      // Apply a per-run content format override
+      if (options.contentFormat) {
+        this.notionContent.setContentFormat(options.contentFormat);
       }
 
-      console.log(
-        `Database verified successfully: ${verificationResult.databaseId}`
-      );
-
-      // Update the database ID in our configuration
-      if (verificationResult.databaseId) {
-        notionConfig.resolvedDatabaseId = verificationResult.databaseId;
-      }
+      const notionConfig = this.configManager.getNotionConfig();
+      const databaseError = await this.prepareDatabase(options);
 
-      // Initialize the database updater with the resolved database ID
-      if (notionConfig.resolvedDatabaseId) {
-        this.databaseUpdater.setDatabaseId(notionConfig.resolvedDatabaseId);
-      } else {
+      if (databaseError) {
         return {
           success: false,
-          error: "Database ID could not be resolved",
+          error: databaseError,
         };
       }
 
@@ -137,7 +160,13 @@ export class MigrationManager {
       console.log("Database updater initialized with existing entries");
 
       // Traverse the source page and fetch all content
-      console.log(`Traversing source page: ${notionConfig.sourcePageId}`);
+      if (notionConfig.sourceMode === "database") {
+        console.log(
+          `Reading source database: ${notionConfig.sourceDatabaseId}`
+        );
+      } else {
+        console.log(`Traversing source page: ${notionConfig.sourcePageId}`);
+      }
       const fetchResult = await this.contentProcessor.fetchContent();
 
       if (!fetchResult.success) {
@@ -153,19 +182,22 @@ export class MigrationManager {
 
       // Analyze each content page to determine if it needs updating
       const contentPages = fetchResult.contentPages || [];
+      const sourcePageIds =
+        fetchResult.sourcePageIds || contentPages.map((page) => page.id);
+      await this.syncCategories(fetchResult.categories || [], contentPages);
+
+      // Entries marked as orphaned by an earlier run get their status back
+      // before they are compared, when their source page is back
+      await this.unmarkOrphans(sourcePageIds, contentPages, options);
       const pagesToProcess: ContentPage[] = [];
       const skippedPages: ContentPage[] = [];
+      let fieldConflicts = 0;
 
       // Check each content page against existing entries
       for (const contentPage of contentPages) {
-        // Get existing entry by originalPageUrl or by title
-        let existingEntry;
-
-        if (contentPage.originalPageUrl) {
-          existingEntry = this.databaseUpdater.getExistingEntry(
-            contentPage.originalPageUrl
-          );
-        }
+        // Get existing entry by source ID or originalPageUrl, or later by title
+        const existingEntry =
+          this.databaseUpdater.findExistingEntry(contentPage);
 
         if (!existingEntry) {
           // Try to find by title - first initialize a temporary ContentPage
@@ -189,6 +221,8 @@ export class MigrationManager {
             continue;
           }
         } else {
+          fieldConflicts += this.reportConflicts(contentPage, existingEntry);
+
           // Check if the existing entry needs updating
           const fieldsToUpdate = this.databaseUpdater.getFieldsNeedingUpdate(
             contentPage,
@@ -213,6 +247,10 @@ export class MigrationManager {
         `Found ${pagesToProcess.length} pages to process, ${skippedPages.length} pages up to date`
       );
 
+      // Entries whose source page is gone are handled before anything is written
+      // Pages left out by the filters still exist, so their entries are not orphaned
+      const orphanedEntries = await this.handleOrphans(sourcePageIds, options);
+
       // Process only the pages that need it
       if (pagesToProcess.length === 0) {
         return {
@@ -220,6 +258,8 @@ export class MigrationManager {
           totalPages: contentPages.length,
           updatedPages: 0,
           failedPages: 0,
+          orphanedEntries,
+          fieldConflicts,
           categories: fetchResult.categories,
         };
       }
@@ -229,8 +269,16 @@ export class MigrationManager {
       const enhancedPages = [];
 
       for (const page of pagesToProcess) {
+        // Values generated only once are kept instead of generated again
+        const existingEntry = this.databaseUpdater.findExistingEntry(page);
+
         // Store the page in the processor's map before enhancing
-        this.contentProcessor.setContentPage(page.id, page);
+        this.contentProcessor.setContentPage(
+          page.id,
+          existingEntry
+            ? this.databaseUpdater.keepGeneratedValues(page, existingEntry)
+            : page
+        );
 
         const enhancedPage = await this.contentProcessor.enhanceContent(
           page.id,
@@ -246,10 +294,15 @@ export class MigrationManager {
 
       // Process images
       if (options.processImages !== false && enhancedPages.length > 0) {
+        // Notion file URLs expire, so inline assets are moved to storage first
+        console.log("Re-hosting inline assets...");
+        await this.assetProcessor.processAllAssets(enhancedPages);
+
         console.log("Processing images...");
         await this.imageProcessor.processAllImages(
           enhancedPages,
-          options.generateImages !== false
+          options.generateImages !== false &&
+            this.contentProcessor.canGenerateImages()
         );
       }
 
@@ -273,6 +326,8 @@ export class MigrationManager {
           totalPages: contentPages.length,
           updatedPages: successfulUpdates.length,
           failedPages: failedUpdates.length,
+          orphanedEntries,
+          fieldConflicts,
           categories: fetchResult.categories,
         };
       } else {
@@ -281,6 +336,8 @@ export class MigrationManager {
           totalPages: contentPages.length,
           updatedPages: 0,
           failedPages: 0,
+          orphanedEntries,
+          fieldConflicts,
           categories: fetchResult.categories,
         };
       }
@@ -290,7 +347,274 @@ export class MigrationManager {
         success: false,
         error: error instanceof Error ? error.message : String(error),
       };
+    } finally {
+      const stats = this.rateLimiter.getStats();
+      console.log(
+        `Notion API: ${stats.requests} requests, ${stats.retries} retries, ${stats.rateLimited} rate limited, ${stats.failures} failed`
+      );
+    }
+  }
+
+  /**
+   * Links existing entries to their source pages by writing the source ID
+   * This is only needed once for entries written before source IDs were used,
+   * later migrations link entries as they update them
+   * @param options Options for the migration, of which the schema update mode is used
+   * @returns Counts of linked entries and the titles of pages left unlinked
+   */
+  async backfillSourceIds(
+    options: MigrationOptions = {}
+  ): Promise<BackfillResult> {
+    const databaseError = await this.prepareDatabase(options);
+    if (databaseError) {
+      throw new Error(databaseError);
+    }
+
+    await this.databaseUpdater.initialize();
+
+    const fetchResult = await this.contentProcessor.fetchContent();
+    if (!fetchResult.success) {
+      throw new Error(`Content fetching failed: ${fetchResult.error}`);
     }
+
+    const result = await this.databaseUpdater.linkSourceIds(
+      fetchResult.contentPages || []
+    );
+
+    console.log(
+      `Linked ${result.linked} entries, ${result.alreadyLinked} already linked, ${result.unmatched.length} unmatched, ${result.ambiguous.length} ambiguous`
+    );
+
+    return result;
+  }
+
+  /**
+   * Reports the entries whose source page is gone and applies the orphan policy
+   * Archiving stops the migration when more entries would be archived than the limit allows
+   * @param sourcePageIds IDs of every current source page
+   * @param options Options for the migration
+   * @returns The number of orphaned entries
+   */
+  private async handleOrphans(
+    sourcePageIds: string[],
+    options: MigrationOptions
+  ): Promise<number> {
+    const notionConfig = this.configManager.getNotionConfig();
+    const policy =
+      options.orphanPolicy || notionConfig.orphanPolicy || "ignore";
+    const orphans = this.databaseUpdater.findOrphanedEntries(sourcePageIds);
+
+    if (orphans.length === 0) {
+      return 0;
+    }
+
+    console.log(`Found ${orphans.length} entries whose source page is gone:`);
+    orphans.forEach((entry) => console.log(`- ${entry.id} (${entry.url})`));
+
+    if (policy === "archive") {
+      const limit = notionConfig.orphanArchiveLimit ?? 10;
+
+      if (orphans.length > limit) {
+        throw new Error(
+          `Refusing to archive ${orphans.length} orphaned entries, the limit is ${limit}. ` +
+            "Raise NOTION_ORPHAN_ARCHIVE_LIMIT or run with --orphans ignore."
+        );
+      }
+
+      const archived = await this.databaseUpdater.archiveEntries(orphans);
+      console.log(`Archived ${archived} orphaned entries`);
+    } else if (policy === "mark") {
+      const status = notionConfig.orphanStatus || "Archived";
+      const marked = await this.databaseUpdater.markEntries(orphans, status);
+      console.log(`Marked ${marked} orphaned entries as ${status}`);
+    }
+
+    return orphans.length;
+  }
+
+  /**
+   * Replaces the orphan status of entries whose source page is back
+   * Only done with the mark policy, which set the status
+   * @param sourcePageIds IDs of every current source page
+   * @param contentPages The fetched content pages
+   * @param options Options for the migration
+   */
+  private async unmarkOrphans(
+    sourcePageIds: string[],
+    contentPages: ContentPage[],
+    options: MigrationOptions
+  ): Promise<void> {
+    const notionConfig = this.configManager.getNotionConfig();
+    const policy =
+      options.orphanPolicy || notionConfig.orphanPolicy || "ignore";
+
+    if (policy !== "mark") {
+      return;
+    }
+
+    const status = notionConfig.orphanStatus || "Archived";
+    const unmarked = await this.databaseUpdater.unmarkEntries(
+      sourcePageIds,
+      status,
+      contentPages
+    );
+
+    if (unmarked > 0) {
+      console.log(
+        `Unmarked ${unmarked} entries whose source page is back from ${status}`
+      );
+    }
+  }
+
+  /**
+   * Logs the fields of an existing entry whose value differs from the source
+   * @param contentPage The content page
+   * @param existingEntry The existing entry of the page
+   * @returns The number of conflicting fields
+   */
+  private reportConflicts(
+    contentPage: ContentPage,
+    existingEntry: NotionEntry
+  ): number {
+    const conflicts = this.databaseUpdater.getFieldConflicts(
+      contentPage,
+      existingEntry
+    );
+
+    for (const { field, ownership } of conflicts) {
+      const resolution =
+        ownership === "source-wins"
+          ? "overwriting the database value"
+          : "keeping the database value";
+      console.warn(
+        `Field "${field}" of "${contentPage.title}" differs from the source (${ownership}), ${resolution}`
+      );
+    }
+
+    return conflicts.length;
+  }
+
+  /**
+   * Writes the categories to the categories database in relation mode
+   * Entries are linked to the rows of their categories when they are written
+   * @param categories The categories of the source
+   * @param contentPages All current source pages
+   */
+  private async syncCategories(
+    categories: Category[],
+    contentPages: ContentPage[]
+  ): Promise<void> {
+    if (!this.categoryDatabase) {
+      return;
+    }
+
+    console.log("Syncing categories database...");
+    const categoryPages = await this.categoryDatabase.sync(
+      categories,
+      contentPages
+    );
+    this.databaseUpdater.setCategoryPages(categoryPages);
+  }
+
+  /**
+   * Verifies or creates the target database and brings its schema in line
+   * @param options Options for the migration
+   * @returns An error message, or undefined when the database is ready
+   */
+  private async prepareDatabase(
+    options: MigrationOptions
+  ): Promise<string | undefined> {
+    // Verify or create the database
+    console.log("Verifying database...");
+    const notionConfig = this.configManager.getNotionConfig();
+
+    // The category relation links to the categories database, so it comes first
+    if (this.categoryDatabase) {
+      try {
+        notionConfig.categoryDatabaseId =
+          await this.categoryDatabase.initialize(notionConfig.sourcePageId);
+        console.log(
+          `Categories database verified: ${notionConfig.categoryDatabaseId}`
+        );
+      } catch (error) {
+        return `Categories database verification failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    // First, check if we have a direct database ID from config
+    let verificationResult;
+    if (notionConfig.resolvedDatabaseId) {
+      // If we already have a database ID, verify it directly
+      verificationResult = await this.databaseVerifier.verifyDatabase(
+        notionConfig.resolvedDatabaseId
+      );
+    } else {
+      // Otherwise, try to find or create the database using the source page as parent
+      verificationResult = await this.databaseVerifier.createDatabaseIfNeeded(
+        notionConfig.sourcePageId
+      );
+    }
+
+    if (!verificationResult.success) {
+      return `Database verification failed: ${verificationResult.errors?.join(", ")}`;
+    }
+
+    console.log(
+      `Database verified successfully: ${verificationResult.databaseId}`
+    );
+
+    // Update the database ID in our configuration
+    if (verificationResult.databaseId) {
+      notionConfig.resolvedDatabaseId = verificationResult.databaseId;
+    }
+
+    // Initialize the database updater with the resolved database ID
+    if (notionConfig.resolvedDatabaseId) {
+      this.databaseUpdater.setDatabaseId(notionConfig.resolvedDatabaseId);
+    } else {
+      return "Database ID could not be resolved";
+    }
+
+    // Bring the database schema in line before writing entries, so a
+    // missing property is reported here instead of failing every write
+    const schemaUpdate =
+      options.schemaUpdate || notionConfig.schemaUpdate || "preview";
+
+    if (schemaUpdate !== "off") {
+      console.log("Checking database schema...");
+      const schemaResult = await this.databaseVerifier.migrateSchema(
+        schemaUpdate === "preview"
+      );
+
+      if (schemaResult.conflicts.length > 0) {
+        return `Database schema conflicts: ${schemaResult.conflicts.join("; ")}`;
+      }
+
+      if (schemaUpdate === "preview" && schemaResult.changes.length > 0) {
+        return `Database schema needs changes: ${schemaResult.changes.join("; ")}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Writes the schema of an existing database to the schema file
+   * @param databaseId ID of the database to import the schema from
+   * @returns The path of the written schema file
+   */
+  async importSchema(databaseId: string): Promise<string> {
+    const schemaFile =
+      this.configManager.getNotionConfig().schemaFile ||
+      DatabaseSchemaFile.DEFAULT_PATH;
+    const schema = await this.databaseVerifier.importSchema(databaseId);
+
+    DatabaseSchemaFile.write(schemaFile, schema);
+    console.log(
+      `Imported ${Object.keys(schema.properties).length} properties to ${schemaFile}`
+    );
+
+    return schemaFile;
   }
 
   /**
@@ -314,6 +638,13 @@ export class MigrationManager {
     return this.notionContent;
   }
 
+  /**
+   * Gets the rate limiter shared by the Notion services
+   */
+  getRateLimiter(): RateLimiter {
+    return this.rateLimiter;
+  }
+
   /**
    * Gets the AI service
    */
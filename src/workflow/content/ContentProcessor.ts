@@ -1,6 +1,13 @@
 import { IAIService } from "../../core/ai/AIService.interface";
+import { ContentFilter } from "../../core/content/ContentFilter";
 import { INotionContent } from "../../core/notion/NotionContent.interface";
-import { ContentPage, FetchResult } from "../../types";
+import {
+  Category,
+  ContentFilterOptions,
+  ContentPage,
+  FetchResult,
+  ImageSource,
+} from "../../types";
 
 /**
  * Content Processor
@@ -10,6 +17,9 @@ export class ContentProcessor {
   private notionContent: INotionContent;
   private aiService: IAIService;
   private sourcePageId: string;
+  private sourceDatabaseId?: string;
+  private contentFilter: ContentFilter;
+  private imageSources: ImageSource[];
   private processedContent: Map<string, ContentPage>;
 
   /**
@@ -17,30 +27,43 @@ export class ContentProcessor {
    * @param notionContent The Notion content service
    * @param aiService The AI service for content enhancement
    * @param sourcePageId The source page ID to extract content from
+   * @param sourceDatabaseId Optional database ID whose rows are read instead of the page tree
+   * @param contentFilter Optional filters selecting which pages are migrated
+   * @param imageSources Where page images come from, in priority order
    */
   constructor(
     notionContent: INotionContent,
     aiService: IAIService,
-    sourcePageId: string
+    sourcePageId: string,
+    sourceDatabaseId?: string,
+    contentFilter?: ContentFilterOptions,
+    imageSources: ImageSource[] = ["cover", "inline", "icon", "generate"]
   ) {
     this.notionContent = notionContent;
     this.aiService = aiService;
     this.sourcePageId = sourcePageId;
+    this.sourceDatabaseId = sourceDatabaseId;
+    this.contentFilter = new ContentFilter(contentFilter);
+    this.imageSources = imageSources;
     this.processedContent = new Map<string, ContentPage>();
   }
 
   /**
    * Fetches content from the source page
-   * Extracts categories and valid content pages
+   * Extracts categories and valid content pages, then applies the content filters
    */
   async fetchContent(): Promise<FetchResult> {
+    if (this.sourceDatabaseId) {
+      return this.fetchDatabaseContent(this.sourceDatabaseId);
+    }
+
     try {
       console.log(`Fetching content from page: ${this.sourcePageId}`);
 
       // Extract categories
-      const categories = await this.notionContent.extractCategories(
-        this.sourcePageId
-      );
+      const categories = (
+        await this.notionContent.extractCategories(this.sourcePageId)
+      ).filter((category) => this.contentFilter.acceptsCategory(category));
 
       if (categories.length === 0) {
         return {
@@ -52,11 +75,11 @@ export class ContentProcessor {
       console.log(`Found ${categories.length} categories`);
 
       // Extract content pages
-      const contentPages = await this.notionContent.extractValidContent(
+      const extractedPages = await this.notionContent.extractValidContent(
         this.sourcePageId
       );
 
-      if (contentPages.length === 0) {
+      if (extractedPages.length === 0) {
         return {
           success: false,
           error: "No valid content pages found",
@@ -64,10 +87,21 @@ export class ContentProcessor {
         };
       }
 
+      const contentPages = this.applyContentFilter(extractedPages);
+
+      if (contentPages.length === 0) {
+        return {
+          success: false,
+          error: "No content pages match the content filters",
+          categories,
+        };
+      }
+
       console.log(`Found ${contentPages.length} content pages`);
 
       // Store content pages in the map for later use
       contentPages.forEach((page) => {
+        this.selectSourceImage(page);
         this.processedContent.set(page.id, page);
       });
 
@@ -75,6 +109,10 @@ export class ContentProcessor {
         success: true,
         categories,
         contentPages,
+        sourcePageIds: await this.getSourcePageIds(
+          this.sourcePageId,
+          extractedPages
+        ),
       };
     } catch (error) {
       console.error("Error fetching content:", error);
@@ -85,6 +123,144 @@ export class ContentProcessor {
     }
   }
 
+  /**
+   * Fetches content from the rows of the source database
+   * Categories are derived from the category values of the rows
+   * @param databaseId ID of the source database
+   */
+  private async fetchDatabaseContent(databaseId: string): Promise<FetchResult> {
+    try {
+      console.log(`Fetching content from database: ${databaseId}`);
+
+      const extractedPages =
+        await this.notionContent.extractDatabaseContent(databaseId);
+
+      if (extractedPages.length === 0) {
+        return {
+          success: false,
+          error: "No content pages found in the source database",
+        };
+      }
+
+      const contentPages = this.applyContentFilter(extractedPages);
+
+      if (contentPages.length === 0) {
+        return {
+          success: false,
+          error: "No content pages match the content filters",
+        };
+      }
+
+      const categories: Category[] = [];
+      for (const page of contentPages) {
+        if (!categories.some((category) => category.name === page.category)) {
+          categories.push({
+            id: databaseId,
+            name: page.category,
+            ...(page.parentCategory && { parent: page.parentCategory }),
+          });
+        }
+      }
+
+      console.log(
+        `Found ${contentPages.length} content pages in ${categories.length} categories`
+      );
+
+      contentPages.forEach((page) => {
+        this.selectSourceImage(page);
+        this.processedContent.set(page.id, page);
+      });
+
+      return {
+        success: true,
+        categories,
+        contentPages,
+        sourcePageIds: await this.getSourcePageIds(databaseId, extractedPages),
+      };
+    } catch (error) {
+      console.error("Error fetching database content:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Lists every page of the source, so that pages left out by the content
+   * filters or the category rules are not taken for deleted pages
+   * @param sourceId ID of the source page or database
+   * @param extractedPages The content pages before filtering
+   */
+  private async getSourcePageIds(
+    sourceId: string,
+    extractedPages: ContentPage[]
+  ): Promise<string[]> {
+    return [
+      ...extractedPages.map((page) => page.id),
+      ...(await this.notionContent.extractExcludedPageIds(sourceId)),
+    ];
+  }
+
+  /**
+   * Drops the pages rejected by the content filters
+   * @param pages The extracted content pages
+   * @returns The pages that are kept
+   */
+  private applyContentFilter(pages: ContentPage[]): ContentPage[] {
+    const { kept, skipped } = this.contentFilter.filterPages(pages);
+
+    for (const { page, reason } of skipped) {
+      console.log(`Skipping page "${page.title}": ${reason}`);
+    }
+
+    if (skipped.length > 0) {
+      console.log(
+        `Content filters skipped ${skipped.length} of ${pages.length} pages`
+      );
+    }
+
+    return kept;
+  }
+
+  /**
+   * Uses an image the page already has, following the image source priority
+   * Pages left without an image are generated one later, if generation is enabled
+   * @param page The content page
+   */
+  private selectSourceImage(page: ContentPage): void {
+    if (page.imageUrl) {
+      return;
+    }
+
+    for (const source of this.imageSources) {
+      let imageUrl: string | undefined;
+
+      if (source === "cover") {
+        imageUrl = page.coverUrl;
+      } else if (source === "icon") {
+        imageUrl = page.iconUrl;
+      } else if (source === "inline") {
+        imageUrl = page.assets?.find((asset) => asset.type === "image")?.url;
+      } else if (source === "generate") {
+        return;
+      }
+
+      if (imageUrl) {
+        console.log(`Using the ${source} image of page: ${page.title}`);
+        page.imageUrl = imageUrl;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Checks whether images may be generated for pages without one
+   */
+  canGenerateImages(): boolean {
+    return this.imageSources.includes("generate");
+  }
+
   /**
    * Enhances content with AI services
    * @param pageId ID of the page to enhance
@@ -105,16 +281,19 @@ export class ContentProcessor {
 
       console.log(`Enhancing content for page: ${existingPage.title}`);
 
-      // Generate a better title if the current one is generic
+      // Generate a better title if the current one is generic, titles
+      // generated by an earlier run are kept
       if (
-        existingPage.title.toLowerCase().includes("untitled") ||
-        existingPage.title.length < 10
+        !existingPage.sourceTitle &&
+        (existingPage.title.toLowerCase().includes("untitled") ||
+          existingPage.title.length < 10)
       ) {
         const enhancedTitle = await this.aiService.generateTitle(
           existingPage.content,
           existingPage.title
         );
         console.log(`Enhanced title: ${enhancedTitle}`);
+        existingPage.sourceTitle = existingPage.title;
         existingPage.title = enhancedTitle;
       }
 
@@ -125,6 +304,7 @@ export class ContentProcessor {
           {
             maxLength: 250,
             style: "detailed",
+            outline: existingPage.outline,
           }
         );
         console.log(`Generated summary (${summary.length} chars)`);
@@ -146,7 +326,8 @@ export class ContentProcessor {
         const tags = this.notionContent.extractTags(
           existingPage.content,
           existingPage.title,
-          existingPage.category
+          existingPage.category,
+          existingPage.language
         );
         console.log(`Generated ${tags.length} tags`);
         existingPage.tags = tags;
@@ -155,14 +336,15 @@ export class ContentProcessor {
       // Estimate reading time
       if (!existingPage.minsRead || existingPage.minsRead === 0) {
         const readingTime = this.notionContent.estimateReadingTime(
-          existingPage.content
+          existingPage.content,
+          existingPage.language
         );
         console.log(`Estimated reading time: ${readingTime} minutes`);
         existingPage.minsRead = readingTime;
       }
 
       // Generate image if needed and requested
-      if (enhanceImages && !existingPage.imageUrl) {
+      if (enhanceImages && !existingPage.imageUrl && this.canGenerateImages()) {
         console.log("Generating image for content...");
 
         // Create an image prompt based on the content
@@ -0,0 +1,241 @@
+import { INotionDatabase } from "../../core/notion/NotionDatabase.interface";
+import { QueryBuilder } from "../../core/notion/QueryBuilder";
+import {
+  Category,
+  ContentPage,
+  DatabaseSchema,
+  NotionEntry,
+  SourceMode,
+} from "../../types";
+import { SchemaDiffer } from "./SchemaDiffer";
+
+/**
+ * Properties of the categories database
+ */
+const CATEGORY_PROPERTIES: DatabaseSchema["properties"] = {
+  Name: { type: "title" },
+  // Whether the category comes from a source page or a database property
+  Type: {
+    type: "select",
+    options: [
+      { name: "Page", color: "blue" },
+      { name: "Property", color: "purple" },
+    ],
+  },
+  "Source Page": { type: "url" },
+  Articles: { type: "number" },
+};
+
+/**
+ * Category Database
+ * Maintains a database with one row per category, which the entries of
+ * the target database link to through a relation property
+ */
+export class CategoryDatabase {
+  private notionDatabase: INotionDatabase;
+  private databaseName: string;
+  private sourceMode: SourceMode;
+  private schemaDiffer: SchemaDiffer;
+
+  /**
+   * Creates a new CategoryDatabase
+   * @param notionDatabase Notion database service bound to the categories database
+   * @param databaseName Name the database is found by and created with
+   * @param sourceMode Where the categories come from
+   */
+  constructor(
+    notionDatabase: INotionDatabase,
+    databaseName: string,
+    sourceMode: SourceMode = "page"
+  ) {
+    this.notionDatabase = notionDatabase;
+    this.databaseName = databaseName;
+    this.sourceMode = sourceMode;
+    this.schemaDiffer = new SchemaDiffer();
+  }
+
+  /**
+   * Gets the schema of the categories database
+   */
+  getSchema(): DatabaseSchema {
+    return {
+      name: this.databaseName,
+      properties: { ...CATEGORY_PROPERTIES },
+    };
+  }
+
+  /**
+   * Verifies the configured database, or finds or creates it by name
+   * Missing properties are added, properties of another type are conflicts
+   * @param parentPageId Page to create the database under if needed
+   * @returns The ID of the categories database
+   */
+  async initialize(parentPageId?: string): Promise<string> {
+    let databaseId = this.notionDatabase.getDatabaseId();
+
+    if (databaseId) {
+      if (!(await this.notionDatabase.verifyDatabase())) {
+        throw new Error(`Categories database not accessible: ${databaseId}`);
+      }
+    } else {
+      databaseId = await this.notionDatabase.initializeDatabase(
+        parentPageId,
+        this.getSchema()
+      );
+    }
+
+    const live = await this.notionDatabase.getSchema(databaseId);
+    const validation = this.schemaDiffer.diff(this.getSchema(), live);
+    const conflicts = this.schemaDiffer.describeConflicts(validation, live);
+
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Categories database schema conflicts: ${conflicts.join("; ")}`
+      );
+    }
+
+    const changes = this.schemaDiffer.getAdditiveChanges(validation, live);
+    if (Object.keys(changes).length > 0) {
+      await this.notionDatabase.updateSchema(changes);
+    }
+
+    return databaseId;
+  }
+
+  /**
+   * Creates and updates the rows of the categories
+   * Categories only named by content pages get a row as well
+   * @param categories The categories of the source
+   * @param contentPages The content pages, counted per category
+   * @returns IDs of the category rows, by category name
+   */
+  async sync(
+    categories: Category[],
+    contentPages: ContentPage[]
+  ): Promise<Map<string, string>> {
+    const databaseId = this.notionDatabase.getDatabaseId();
+    if (!databaseId) {
+      throw new Error("Categories database must be initialized before syncing");
+    }
+
+    const rows = new Map<string, NotionEntry>();
+    for await (const row of this.notionDatabase.iterateEntries(
+      new QueryBuilder().inDatabase(databaseId).build()
+    )) {
+      const name = this.readName(row);
+      if (name && !rows.has(name)) {
+        rows.set(name, row);
+      }
+    }
+
+    const articles = new Map<string, number>();
+    for (const page of contentPages) {
+      if (page.category) {
+        articles.set(page.category, (articles.get(page.category) || 0) + 1);
+      }
+    }
+
+    const sources = new Map<string, Category | undefined>();
+    categories.forEach((category) => sources.set(category.name, category));
+    articles.forEach((_, name) => {
+      if (!sources.has(name)) {
+        sources.set(name, undefined);
+      }
+    });
+
+    const rowIds = new Map<string, string>();
+    let created = 0;
+    let updated = 0;
+
+    for (const [name, category] of sources) {
+      const properties = this.toProperties(
+        name,
+        category,
+        articles.get(name) || 0
+      );
+      const row = rows.get(name);
+
+      try {
+        if (!row) {
+          rowIds.set(
+            name,
+            await this.notionDatabase.createEntry({ properties })
+          );
+          created++;
+        } else {
+          rowIds.set(name, row.id);
+
+          if (this.hasChanged(row, properties)) {
+            await this.notionDatabase.updateEntry(row.id, { properties });
+            updated++;
+          }
+        }
+      } catch (error) {
+        console.error(
+          `Error writing category "${name}":`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    console.log(
+      `Synced ${sources.size} categories (${created} created, ${updated} updated)`
+    );
+
+    return rowIds;
+  }
+
+  /**
+   * Converts a category into the properties of its row
+   * @param name Name of the category
+   * @param category The source category, if the source has one
+   * @param articles Number of content pages in the category
+   */
+  private toProperties(
+    name: string,
+    category: Category | undefined,
+    articles: number
+  ): Record<string, any> {
+    // Categories of a source database are values of its category property
+    const fromPage = this.sourceMode === "page" && !!category;
+
+    return {
+      Name: { title: [{ type: "text", text: { content: name } }] },
+      Type: { select: { name: fromPage ? "Page" : "Property" } },
+      "Source Page": {
+        url: fromPage
+          ? `https://www.notion.so/${category.id.replace(/-/g, "")}`
+          : null,
+      },
+      Articles: { number: articles },
+    };
+  }
+
+  /**
+   * Checks if a row differs from the properties it should have
+   * @param row The existing row
+   * @param properties The properties to write
+   */
+  private hasChanged(
+    row: NotionEntry,
+    properties: Record<string, any>
+  ): boolean {
+    const current = row.properties;
+
+    return (
+      current.Type?.select?.name !== properties.Type.select.name ||
+      (current["Source Page"]?.url ?? null) !== properties["Source Page"].url ||
+      (current.Articles?.number ?? null) !== properties.Articles.number
+    );
+  }
+
+  /**
+   * Reads the name of a category row
+   * @param row The row
+   */
+  private readName(row: NotionEntry): string {
+    return (row.properties.Name?.title || [])
+      .map((part: any) => part.plain_text ?? part.text?.content ?? "")
+      .join("");
+  }
+}
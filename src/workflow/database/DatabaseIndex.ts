@@ -0,0 +1,407 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { FieldMapper } from "../../core/notion/FieldMapper";
+import { INotionDatabase } from "../../core/notion/NotionDatabase.interface";
+import { Filter, QueryBuilder } from "../../core/notion/QueryBuilder";
+import { NotionEntry } from "../../types";
+
+/**
+ * Version of the stored index format
+ * Bump this when the shape of stored entries changes so stale indexes are rebuilt
+ */
+const INDEX_VERSION = 1;
+
+/**
+ * How far before the last sync incremental syncs start
+ * Notion rounds last edited times down to the minute
+ */
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+/**
+ * How often the index is replaced by a full sync
+ * Queries do not return archived or deleted entries, so only a full sync
+ * drops them from the index
+ */
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Index stored between runs
+ */
+interface StoredIndex {
+  version: number;
+  databaseId: string;
+  syncedAt: string;
+  fullSyncedAt?: string; // When every entry was last fetched
+  entries: NotionEntry[];
+  contentHashes?: Record<string, string>; // Hashes of the bodies written to entries, by entry ID
+  sourceTitles?: Record<string, string>; // Source titles of entries with generated titles, by entry ID
+}
+
+/**
+ * Database Index
+ * Holds every entry of the target database, indexed by ID, source ID,
+ * original page URL and title. The entries are stored on disk so later
+ * runs only fetch entries edited since the last sync.
+ */
+export class DatabaseIndex {
+  private notionDatabase: INotionDatabase;
+  private fieldMapper: FieldMapper;
+  private indexDir: string | undefined;
+  private syncedDatabaseId: string | undefined;
+  private syncedAt: string | undefined;
+  private fullSyncedAt: string | undefined;
+  private entries: Map<string, NotionEntry>;
+  private entriesBySourceId: Map<string, NotionEntry>;
+  private entriesByUrl: Map<string, NotionEntry>;
+  private entriesByTitle: Map<string, NotionEntry[]>;
+  private contentHashes: Map<string, string>;
+  private sourceTitles: Map<string, string>;
+
+  /**
+   * Creates a new DatabaseIndex
+   * @param notionDatabase The Notion database service
+   * @param fieldMapper Reads the indexed fields from entries
+   * @param indexDir Optional directory to store the index in, not stored when omitted
+   */
+  constructor(
+    notionDatabase: INotionDatabase,
+    fieldMapper: FieldMapper,
+    indexDir?: string
+  ) {
+    this.notionDatabase = notionDatabase;
+    this.fieldMapper = fieldMapper;
+    this.indexDir = indexDir;
+    this.entries = new Map<string, NotionEntry>();
+    this.entriesBySourceId = new Map<string, NotionEntry>();
+    this.entriesByUrl = new Map<string, NotionEntry>();
+    this.entriesByTitle = new Map<string, NotionEntry[]>();
+    this.contentHashes = new Map<string, string>();
+    this.sourceTitles = new Map<string, string>();
+  }
+
+  /**
+   * Loads the entries of a database
+   * Starts from the stored index when there is one and fetches the entries
+   * edited since it was stored, otherwise fetches every entry. Every entry
+   * is also fetched once a day, replacing the entries of the stored index,
+   * so that entries archived or deleted in Notion are dropped
+   * @param databaseId ID of the database
+   * @returns The number of entries fetched from the database
+   */
+  async sync(databaseId: string): Promise<number> {
+    // Taken before fetching so that edits made during the sync are fetched again next time
+    const syncedAt = new Date().toISOString();
+    const stored = await this.load(databaseId);
+    const incremental =
+      !!stored &&
+      Date.parse(syncedAt) - Date.parse(stored.fullSyncedAt || "") <
+        FULL_SYNC_INTERVAL_MS;
+
+    this.clear();
+    if (incremental) {
+      stored.entries.forEach((entry) => this.add(entry));
+    }
+    Object.entries(stored?.contentHashes || {}).forEach(([entryId, hash]) =>
+      this.contentHashes.set(entryId, hash)
+    );
+    Object.entries(stored?.sourceTitles || {}).forEach(([entryId, title]) =>
+      this.sourceTitles.set(entryId, title)
+    );
+
+    const query = new QueryBuilder().inDatabase(databaseId);
+    if (incremental) {
+      query.where(
+        Filter.lastEditedTime().onOrAfter(
+          new Date(Date.parse(stored.syncedAt) - SYNC_OVERLAP_MS).toISOString()
+        )
+      );
+    }
+
+    let fetched = 0;
+    for await (const entry of this.notionDatabase.iterateEntries(
+      query.build()
+    )) {
+      this.add(entry);
+      fetched++;
+    }
+
+    this.syncedDatabaseId = databaseId;
+    this.syncedAt = syncedAt;
+    this.fullSyncedAt = incremental ? stored.fullSyncedAt : syncedAt;
+    await this.save();
+
+    return fetched;
+  }
+
+  /**
+   * Checks if the entries of a database have been loaded
+   * @param databaseId ID of the database
+   */
+  isSynced(databaseId: string): boolean {
+    return this.syncedDatabaseId === databaseId;
+  }
+
+  /**
+   * Adds an entry, replacing the previous version of it
+   * @param entry The entry to add
+   */
+  add(entry: NotionEntry): void {
+    this.remove(entry.id);
+    this.entries.set(entry.id, entry);
+
+    const sourceId = this.getSourceId(entry);
+    if (sourceId) {
+      this.entriesBySourceId.set(sourceId, entry);
+    }
+
+    const url = this.readText(entry, "originalPageUrl");
+    if (url) {
+      this.entriesByUrl.set(url, entry);
+    }
+
+    const title = this.readText(entry, "title");
+    if (title) {
+      this.entriesByTitle.set(title, [
+        ...(this.entriesByTitle.get(title) || []),
+        entry,
+      ]);
+    }
+  }
+
+  /**
+   * Removes an entry
+   * @param entryId ID of the entry to remove
+   */
+  remove(entryId: string): void {
+    const entry = this.entries.get(entryId);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(entryId);
+
+    const sourceId = this.getSourceId(entry);
+    if (sourceId && this.entriesBySourceId.get(sourceId) === entry) {
+      this.entriesBySourceId.delete(sourceId);
+    }
+
+    const url = this.readText(entry, "originalPageUrl");
+    if (url && this.entriesByUrl.get(url) === entry) {
+      this.entriesByUrl.delete(url);
+    }
+
+    const title = this.readText(entry, "title");
+    if (title) {
+      const remaining = (this.entriesByTitle.get(title) || []).filter(
+        (titled) => titled !== entry
+      );
+
+      if (remaining.length > 0) {
+        this.entriesByTitle.set(title, remaining);
+      } else {
+        this.entriesByTitle.delete(title);
+      }
+    }
+  }
+
+  /**
+   * Gets an entry by ID
+   * @param entryId ID of the entry
+   */
+  get(entryId: string): NotionEntry | undefined {
+    return this.entries.get(entryId);
+  }
+
+  /**
+   * Gets the entry linked to a source page
+   * @param sourceId ID of the source page
+   */
+  findBySourceId(sourceId: string): NotionEntry | undefined {
+    return this.entriesBySourceId.get(sourceId);
+  }
+
+  /**
+   * Gets the entry of an original page URL
+   * @param url URL of the original page
+   */
+  findByUrl(url: string): NotionEntry | undefined {
+    return this.entriesByUrl.get(url);
+  }
+
+  /**
+   * Gets the entries with a title
+   * @param title The title
+   */
+  findByTitle(title: string): NotionEntry[] {
+    return this.entriesByTitle.get(title) || [];
+  }
+
+  /**
+   * Gets all entries
+   */
+  getEntries(): NotionEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Gets the hash of the body last written to an entry
+   * @param entryId ID of the entry
+   * @returns The hash, or undefined if no body was recorded for the entry
+   */
+  getContentHash(entryId: string): string | undefined {
+    return this.contentHashes.get(entryId);
+  }
+
+  /**
+   * Records the hash of the body written to an entry
+   * @param entryId ID of the entry
+   * @param hash Hash of the body, empty while the body is being written
+   */
+  setContentHash(entryId: string, hash: string): void {
+    this.contentHashes.set(entryId, hash);
+  }
+
+  /**
+   * Gets the title of the source page of an entry whose title was generated
+   * @param entryId ID of the entry
+   * @returns The source title, or undefined if the title of the entry is the source title
+   */
+  getSourceTitle(entryId: string): string | undefined {
+    return this.sourceTitles.get(entryId);
+  }
+
+  /**
+   * Records the title of the source page of an entry whose title was generated
+   * @param entryId ID of the entry
+   * @param title The source title, undefined when the entry has the source title
+   */
+  setSourceTitle(entryId: string, title: string | undefined): void {
+    if (title === undefined) {
+      this.sourceTitles.delete(entryId);
+    } else {
+      this.sourceTitles.set(entryId, title);
+    }
+  }
+
+  /**
+   * Gets the ID of the source page an entry is linked to
+   * @param entry The entry
+   */
+  getSourceId(entry: NotionEntry): string | undefined {
+    return this.readText(entry, "sourceId");
+  }
+
+  /**
+   * Stores the index of the synced database
+   * Entries changed since the sync are fetched again by the next sync
+   */
+  async save(): Promise<void> {
+    const databaseId = this.syncedDatabaseId;
+    if (!this.indexDir || !databaseId || !this.syncedAt) {
+      return;
+    }
+
+    try {
+      const stored: StoredIndex = {
+        version: INDEX_VERSION,
+        databaseId,
+        syncedAt: this.syncedAt,
+        fullSyncedAt: this.fullSyncedAt,
+        entries: this.getEntries(),
+        contentHashes: Object.fromEntries(
+          Array.from(this.contentHashes).filter(([entryId]) =>
+            this.entries.has(entryId)
+          )
+        ),
+        sourceTitles: Object.fromEntries(
+          Array.from(this.sourceTitles).filter(([entryId]) =>
+            this.entries.has(entryId)
+          )
+        ),
+      };
+      const filePath = this.getFilePath(databaseId);
+
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeJSON(filePath, stored);
+    } catch (error) {
+      console.error(
+        `Error storing the index of database ${databaseId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Removes all entries
+   */
+  private clear(): void {
+    this.entries.clear();
+    this.entriesBySourceId.clear();
+    this.entriesByUrl.clear();
+    this.entriesByTitle.clear();
+    this.contentHashes.clear();
+    this.sourceTitles.clear();
+  }
+
+  /**
+   * Reads the stored index of a database
+   * @param databaseId ID of the database
+   * @returns The stored index, or undefined if there is no usable one
+   */
+  private async load(databaseId: string): Promise<StoredIndex | undefined> {
+    if (!this.indexDir) {
+      return undefined;
+    }
+
+    try {
+      const filePath = this.getFilePath(databaseId);
+      if (!(await fs.pathExists(filePath))) {
+        return undefined;
+      }
+
+      const stored: StoredIndex = await fs.readJSON(filePath);
+      if (
+        stored.version !== INDEX_VERSION ||
+        stored.databaseId !== databaseId ||
+        isNaN(Date.parse(stored.syncedAt)) ||
+        !Array.isArray(stored.entries)
+      ) {
+        return undefined;
+      }
+
+      return stored;
+    } catch (error) {
+      // A corrupt index is rebuilt from a full sync
+      console.warn(
+        `Error reading the index of database ${databaseId}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Reads a text field of an entry
+   * @param entry The entry
+   * @param field The field to read
+   */
+  private readText(
+    entry: NotionEntry,
+    field: "sourceId" | "originalPageUrl" | "title"
+  ): string | undefined {
+    const value = this.fieldMapper.readField(entry, field);
+    return typeof value === "string" && value ? value : undefined;
+  }
+
+  /**
+   * Gets the path of the index file of a database
+   * @param databaseId ID of the database
+   */
+  private getFilePath(databaseId: string): string {
+    return path.join(
+      this.indexDir as string,
+      "databases",
+      `${databaseId.replace(/-/g, "")}.json`
+    );
+  }
+}
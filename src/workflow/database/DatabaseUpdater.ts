@@ -1,5 +1,20 @@
+import { createHash } from "crypto";
+import { FieldMapper, FieldValue } from "../../core/notion/FieldMapper";
+import { NotionBlockConverter } from "../../core/notion/NotionBlockConverter";
 import { INotionDatabase } from "../../core/notion/NotionDatabase.interface";
-import { ContentPage, NotionEntry, UpdateResult } from "../../types";
+import {
+  BackfillResult,
+  ContentPage,
+  FieldConflict,
+  FieldMapping,
+  FieldOwnershipMap,
+  MappedField,
+  NotionBlockRequest,
+  NotionEntry,
+  UpdateResult,
+} from "../../types";
+import { AssetProcessor } from "../images/AssetProcessor";
+import { DatabaseIndex } from "./DatabaseIndex";
 
 /**
  * Database Updater
@@ -8,17 +23,36 @@ import { ContentPage, NotionEntry, UpdateResult } from "../../types";
 export class DatabaseUpdater {
   private notionDatabase: INotionDatabase;
   private databaseId: string | undefined;
-  private existingEntries: Map<string, NotionEntry>;
+  private index: DatabaseIndex;
+  private blockConverter: NotionBlockConverter;
+  private fieldMapper: FieldMapper;
 
   /**
    * Creates a new DatabaseUpdater instance
    * @param notionDatabase The Notion database service
    * @param databaseId Optional ID of the database to update
+   * @param outlineProperty Optional rich text property the outline is written to
+   * @param fieldMapping Optional properties the fields are written to, the built-in ones when omitted
+   * @param indexDir Optional directory the index of existing entries is stored in between runs
+   * @param fieldOwnership Optional ownership of the fields of existing entries
    */
-  constructor(notionDatabase: INotionDatabase, databaseId?: string) {
+  constructor(
+    notionDatabase: INotionDatabase,
+    databaseId?: string,
+    outlineProperty?: string,
+    fieldMapping?: FieldMapping,
+    indexDir?: string,
+    fieldOwnership?: FieldOwnershipMap
+  ) {
     this.notionDatabase = notionDatabase;
     this.databaseId = databaseId;
-    this.existingEntries = new Map<string, NotionEntry>();
+    this.blockConverter = new NotionBlockConverter();
+    this.fieldMapper = new FieldMapper(
+      fieldMapping,
+      outlineProperty,
+      fieldOwnership
+    );
+    this.index = new DatabaseIndex(notionDatabase, this.fieldMapper, indexDir);
   }
 
   /**
@@ -37,6 +71,15 @@ export class DatabaseUpdater {
     return this.databaseId;
   }
 
+  /**
+   * Sets the rows of the categories database entries link to
+   * Only used when the category is written as a relation
+   * @param categoryPages IDs of the category rows, by category name
+   */
+  setCategoryPages(categoryPages: Map<string, string>): void {
+    this.fieldMapper.setRelatedPages(categoryPages);
+  }
+
   /**
    * Initializes the updater by fetching existing entries
    */
@@ -50,29 +93,19 @@ export class DatabaseUpdater {
         `Initializing database updater for database: ${this.databaseId}`
       );
 
-      // Query all entries in the database
-      const queryResult = await this.notionDatabase.queryEntries({
-        database_id: this.databaseId,
-        page_size: 100,
-      });
-
-      // Store entries in the map for quick lookup
-      if (queryResult && queryResult.length > 0) {
-        queryResult.forEach((entry) => {
-          // Use the Original Page URL as the key if available
-          const originalPageUrl = entry.properties["Original Page"]?.url;
-          const pageId = entry.id;
+      this.notionDatabase.setDatabaseId(this.databaseId);
 
-          if (originalPageUrl) {
-            this.existingEntries.set(originalPageUrl, entry);
-          }
+      // Statuses are written to the status property of the database
+      this.fieldMapper.useStatusProperty(
+        await this.notionDatabase.getSchema(this.databaseId)
+      );
 
-          // Also store by ID for direct lookups
-          this.existingEntries.set(pageId, entry);
-        });
-      }
+      // Load every entry in the database, or the ones edited since the last run
+      const fetched = await this.index.sync(this.databaseId);
 
-      console.log(`Loaded ${this.existingEntries.size} existing entries`);
+      console.log(
+        `Loaded ${this.index.getEntries().length} existing entries (${fetched} fetched)`
+      );
     } catch (error) {
       console.error("Error initializing database updater:", error);
       throw error;
@@ -92,37 +125,8 @@ export class DatabaseUpdater {
       // Set the database ID for this operation
       this.notionDatabase.setDatabaseId(this.databaseId);
 
-      // Check if the entry exists by originalPageUrl or title
-      let existingEntry: NotionEntry | undefined;
-
-      if (contentPage.originalPageUrl) {
-        existingEntry = this.existingEntries.get(contentPage.originalPageUrl);
-      }
-
-      if (!existingEntry) {
-        // Try to find by title
-        const entriesByTitle = await this.notionDatabase.queryEntries({
-          filter: {
-            property: "Title",
-            title: {
-              equals: contentPage.title,
-            },
-          },
-          page_size: 1,
-        });
-
-        if (entriesByTitle && entriesByTitle.length > 0) {
-          existingEntry = entriesByTitle[0];
-          // Store for future lookups
-          this.existingEntries.set(existingEntry.id, existingEntry);
-          if (contentPage.originalPageUrl) {
-            this.existingEntries.set(
-              contentPage.originalPageUrl,
-              existingEntry
-            );
-          }
-        }
-      }
+      // Check if the entry exists by source ID, originalPageUrl or title
+      const existingEntry = this.findExistingEntry(contentPage);
 
       // Determine if we need to create or update
       if (existingEntry) {
@@ -145,11 +149,32 @@ export class DatabaseUpdater {
           `Updating existing entry ${existingEntry.id}, fields to update: ${fieldsToUpdate.join(", ")}`
         );
 
-        // Convert ContentPage to Notion properties
-        const properties = this.mapContentToProperties(contentPage);
+        // Only the fields the source owns are written, so edits made in the database are kept
+        const properties = this.fieldMapper.toProperties(
+          contentPage,
+          this.fieldMapper
+            .getPropertyFields()
+            .filter((field) => fieldsToUpdate.includes(field))
+        );
 
-        // Update the existing entry
-        await this.notionDatabase.updateEntry(existingEntry.id, { properties });
+        if (Object.keys(properties).length > 0) {
+          await this.notionDatabase.updateEntry(existingEntry.id, {
+            properties,
+          });
+          this.index.add({
+            ...existingEntry,
+            properties: { ...existingEntry.properties, ...properties },
+          });
+        }
+
+        if (fieldsToUpdate.includes("title")) {
+          this.index.setSourceTitle(existingEntry.id, contentPage.sourceTitle);
+        }
+
+        // The body is only replaced when its content changed
+        if (fieldsToUpdate.includes("content")) {
+          await this.writeContent(existingEntry.id, contentPage);
+        }
 
         return {
           success: true,
@@ -168,14 +193,14 @@ export class DatabaseUpdater {
         }
 
         // Convert ContentPage to Notion properties
-        const properties = this.mapContentToProperties(contentPage);
+        const properties = this.fieldMapper.toProperties(contentPage);
 
         // Create a new entry
         const newId = await this.notionDatabase.createEntry({
           properties,
         });
 
-        // Add the new entry to our map
+        // Indexed before the body is written, so a failed body is written by the next run
         const newEntry: NotionEntry = {
           id: newId,
           properties: properties,
@@ -184,10 +209,11 @@ export class DatabaseUpdater {
           last_edited_time: new Date().toISOString(),
         };
 
-        this.existingEntries.set(newId, newEntry);
-        if (contentPage.originalPageUrl) {
-          this.existingEntries.set(contentPage.originalPageUrl, newEntry);
-        }
+        this.index.add(newEntry);
+        this.index.setSourceTitle(newId, contentPage.sourceTitle);
+        this.index.setContentHash(newId, "");
+
+        await this.writeContent(newId, contentPage);
 
         return {
           success: true,
@@ -206,77 +232,69 @@ export class DatabaseUpdater {
   }
 
   /**
-   * Maps a ContentPage to Notion properties
-   * @param contentPage The content page to map
+   * Writes the block tree of a content page as the body of an entry,
+   * after the callouts of fields bound to the body
+   * Pages without blocks keep their current body
+   * The hash of the body is recorded once it is written, and is empty while
+   * writing so that a body that failed halfway is written again
+   * @param entryId The ID of the entry to write to
+   * @param contentPage The content page to write
    */
-  private mapContentToProperties(
+  private async writeContent(
+    entryId: string,
     contentPage: ContentPage
-  ): Record<string, any> {
-    return {
-      Title: {
-        title: [
-          {
-            type: "text",
-            text: {
-              content: contentPage.title,
-            },
-          },
-        ],
-      },
-      Category: {
-        select: {
-          name: contentPage.category,
-        },
-      },
-      Tags: {
-        multi_select: contentPage.tags?.map((tag) => ({ name: tag })) || [],
-      },
-      Summary: {
-        rich_text: [
-          {
-            type: "text",
-            text: {
-              content: contentPage.summary || "",
-            },
-          },
-        ],
-      },
-      Excerpt: {
-        rich_text: [
-          {
-            type: "text",
-            text: {
-              content: contentPage.excerpt || "",
-            },
-          },
-        ],
-      },
-      "Mins Read": {
-        number: contentPage.minsRead || 0,
-      },
-      Image: {
-        url: contentPage.imageUrl || null,
-      },
-      R2ImageUrl: {
-        url: contentPage.r2ImageUrl || null,
-      },
-      "Date Created": {
-        date: {
-          start: contentPage.createdTime,
-        },
-      },
-      Status: {
-        select: {
-          name: contentPage.status || "Draft",
-        },
-      },
-      "Original Page": {
-        url: contentPage.originalPageUrl || "",
-      },
-      Published: {
-        checkbox: contentPage.published || false,
-      },
-    };
+  ): Promise<void> {
+    const blocks = this.toBodyBlocks(contentPage);
+    if (!blocks) {
+      return;
+    }
+
+    this.index.setContentHash(entryId, "");
+    await this.notionDatabase.replacePageContent(entryId, blocks);
+    this.index.setContentHash(entryId, this.hashBody(contentPage));
+  }
+
+  /**
+   * Converts a content page into the blocks of its entry body
+   * @param contentPage The content page
+   * @returns The blocks, or undefined for pages without blocks
+   */
+  private toBodyBlocks(
+    contentPage: ContentPage
+  ): NotionBlockRequest[] | undefined {
+    if (!contentPage.blocks) {
+      return undefined;
+    }
+
+    return this.blockConverter.toNotionBlocks([
+      ...this.fieldMapper.toCallouts(contentPage),
+      ...contentPage.blocks,
+    ]);
+  }
+
+  /**
+   * Hashes the source blocks of a content page, so the hash is the same before
+   * and after its assets are re-hosted and its callouts generated
+   * Asset URLs are hashed by the file they point to, as Notion signs them anew
+   * on every fetch, and callouts are left out as they are generated from the page
+   * @param contentPage The content page
+   */
+  private hashBody(contentPage: ContentPage): string {
+    const files = new Map<string, string>();
+    for (const asset of contentPage.assets || []) {
+      files.set(
+        asset.blockId,
+        AssetProcessor.getFileIdentity(asset.sourceUrl || asset.url)
+      );
+    }
+
+    const blocks = JSON.stringify(contentPage.blocks || [], (key, value) =>
+      value && typeof value === "object" && files.has(value.id)
+        ? { ...value, content: { ...value.content, url: files.get(value.id) } }
+        : value
+    );
+
+    return createHash("sha256").update(blocks).digest("hex");
   }
 
   /**
@@ -299,7 +317,7 @@ export class DatabaseUpdater {
     }
 
     // Make sure we're initialized
-    if (this.existingEntries.size === 0) {
+    if (!this.index.isSynced(this.databaseId)) {
       try {
         await this.initialize();
       } catch (error) {
@@ -344,6 +362,9 @@ export class DatabaseUpdater {
       }
     }
 
+    // Keep the hashes of the bodies written, including the ones that failed
+    await this.index.save();
+
     // Log results
     console.log(
       `Database update completed: ${successful.length} successful, ${failed.length} failed`
@@ -359,26 +380,269 @@ export class DatabaseUpdater {
     return results;
   }
 
+  /**
+   * Finds the loaded entry of a content page
+   * Entries are matched by source ID, or by original page URL and then by
+   * title when they are not linked to a source page yet
+   * @param contentPage The content page to find the entry of
+   */
+  findExistingEntry(contentPage: ContentPage): NotionEntry | undefined {
+    const linkedEntry = this.index.findBySourceId(contentPage.id);
+    if (linkedEntry) {
+      return linkedEntry;
+    }
+
+    const entry = contentPage.originalPageUrl
+      ? this.index.findByUrl(contentPage.originalPageUrl)
+      : undefined;
+    if (entry && !this.index.getSourceId(entry)) {
+      return entry;
+    }
+
+    // Entries linked to another source page are not matched by title
+    return this.index
+      .findByTitle(contentPage.title)
+      .find((titled) => !this.index.getSourceId(titled));
+  }
+
+  /**
+   * Links existing entries to their source pages by writing the source ID
+   * Entries without a source ID are matched by original page URL, then by
+   * title. Titles shared by several entries or source pages are left alone.
+   * @param contentPages The source pages
+   */
+  async linkSourceIds(contentPages: ContentPage[]): Promise<BackfillResult> {
+    if (!this.fieldMapper.getBinding("sourceId")?.property) {
+      throw new Error("The field mapping does not bind the sourceId field");
+    }
+
+    const result: BackfillResult = {
+      linked: 0,
+      alreadyLinked: 0,
+      unmatched: [],
+      ambiguous: [],
+    };
+    const unlinked = this.getAllExistingEntries().filter(
+      (entry) => !this.index.getSourceId(entry)
+    );
+    const titleCounts = new Map<string, number>();
+
+    for (const contentPage of contentPages) {
+      titleCounts.set(
+        contentPage.title,
+        (titleCounts.get(contentPage.title) || 0) + 1
+      );
+    }
+
+    for (const contentPage of contentPages) {
+      if (this.index.findBySourceId(contentPage.id)) {
+        result.alreadyLinked++;
+        continue;
+      }
+
+      let candidates = unlinked.filter(
+        (entry) =>
+          !!contentPage.originalPageUrl &&
+          this.fieldMapper.readField(entry, "originalPageUrl") ===
+            contentPage.originalPageUrl
+      );
+
+      if (candidates.length === 0) {
+        candidates = unlinked.filter(
+          (entry) =>
+            this.fieldMapper.readField(entry, "title") === contentPage.title
+        );
+
+        if (
+          candidates.length > 0 &&
+          (titleCounts.get(contentPage.title) || 0) > 1
+        ) {
+          result.ambiguous.push(contentPage.title);
+          continue;
+        }
+      }
+
+      if (candidates.length === 0) {
+        result.unmatched.push(contentPage.title);
+        continue;
+      }
+
+      if (candidates.length > 1) {
+        result.ambiguous.push(contentPage.title);
+        continue;
+      }
+
+      const [entry] = candidates;
+      const properties = this.fieldMapper.toProperties(contentPage, [
+        "sourceId",
+      ]);
+
+      await this.notionDatabase.updateEntry(entry.id, { properties });
+      this.index.add({
+        ...entry,
+        properties: { ...entry.properties, ...properties },
+      });
+      unlinked.splice(unlinked.indexOf(entry), 1);
+
+      console.log(`Linked entry ${entry.id} to source page ${contentPage.id}`);
+      result.linked++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds the entries whose source page is not among the given pages
+   * Only entries linked to a source page are considered, entries without a
+   * source ID may have been added by hand
+   * @param sourcePageIds IDs of every current source page, including the
+   * pages left out by the content filters
+   */
+  findOrphanedEntries(sourcePageIds: string[]): NotionEntry[] {
+    const sourceIds = new Set(sourcePageIds);
+
+    return this.index.getEntries().filter((entry) => {
+      const sourceId = this.index.getSourceId(entry);
+      return !!sourceId && !sourceIds.has(sourceId);
+    });
+  }
+
+  /**
+   * Sets the status of entries, skipping entries that already have it
+   * @param entries The entries to mark
+   * @param status The status to set
+   * @returns The number of entries marked
+   */
+  async markEntries(entries: NotionEntry[], status: string): Promise<number> {
+    if (!this.fieldMapper.getBinding("status")?.property) {
+      throw new Error("The field mapping does not bind the status field");
+    }
+
+    let marked = 0;
+
+    for (const entry of entries) {
+      if (this.fieldMapper.readField(entry, "status") === status) {
+        continue;
+      }
+
+      try {
+        const properties = this.fieldMapper.toFieldProperties("status", status);
+
+        await this.notionDatabase.updateEntry(entry.id, { properties });
+        this.index.add({
+          ...entry,
+          properties: { ...entry.properties, ...properties },
+        });
+        marked++;
+      } catch (error) {
+        console.error(
+          `Error marking entry ${entry.id}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    return marked;
+  }
+
+  /**
+   * Replaces the status of marked entries whose source page is back
+   * The status of a fetched page is written, entries of pages left out by
+   * the content filters get an empty status
+   * @param sourcePageIds IDs of every current source page
+   * @param status The status orphaned entries were marked with
+   * @param contentPages The fetched content pages
+   * @returns The number of entries unmarked
+   */
+  async unmarkEntries(
+    sourcePageIds: string[],
+    status: string,
+    contentPages: ContentPage[] = []
+  ): Promise<number> {
+    if (!this.fieldMapper.getBinding("status")?.property) {
+      return 0;
+    }
+
+    const sourceIds = new Set(sourcePageIds);
+    const pages = new Map(contentPages.map((page) => [page.id, page]));
+    let unmarked = 0;
+
+    for (const entry of this.index.getEntries()) {
+      const sourceId = this.index.getSourceId(entry);
+      if (
+        !sourceId ||
+        !sourceIds.has(sourceId) ||
+        this.fieldMapper.readField(entry, "status") !== status
+      ) {
+        continue;
+      }
+
+      try {
+        const page = pages.get(sourceId);
+        const properties = this.fieldMapper.toFieldProperties(
+          "status",
+          page ? this.fieldMapper.getValue(page, "status") : undefined
+        );
+
+        await this.notionDatabase.updateEntry(entry.id, { properties });
+        this.index.add({
+          ...entry,
+          properties: { ...entry.properties, ...properties },
+        });
+        unmarked++;
+      } catch (error) {
+        console.error(
+          `Error unmarking entry ${entry.id}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    return unmarked;
+  }
+
+  /**
+   * Archives entries and drops them from the index
+   * @param entries The entries to archive
+   * @returns The number of entries archived
+   */
+  async archiveEntries(entries: NotionEntry[]): Promise<number> {
+    let archived = 0;
+
+    for (const entry of entries) {
+      try {
+        await this.notionDatabase.archiveEntry(entry.id);
+        this.index.remove(entry.id);
+        archived++;
+      } catch (error) {
+        console.error(
+          `Error archiving entry ${entry.id}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    // Archived entries are not returned by incremental syncs
+    if (archived > 0) {
+      await this.index.save();
+    }
+
+    return archived;
+  }
+
   /**
    * Gets an existing entry by ID or URL
    * @param idOrUrl ID or URL of the entry to get
    */
   getExistingEntry(idOrUrl: string): NotionEntry | undefined {
-    return this.existingEntries.get(idOrUrl);
+    return this.index.get(idOrUrl) || this.index.findByUrl(idOrUrl);
   }
 
   /**
    * Gets all existing entries
    */
   getAllExistingEntries(): NotionEntry[] {
-    // Use Set to deduplicate entries (since we store them by both ID and URL)
-    const uniqueEntries = new Set<NotionEntry>();
-
-    this.existingEntries.forEach((entry) => {
-      uniqueEntries.add(entry);
-    });
-
-    return Array.from(uniqueEntries);
+    return this.index.getEntries();
   }
 
   /**
@@ -432,6 +696,9 @@ export class DatabaseUpdater {
 
   /**
    * Checks if a content page needs processing by comparing to existing entry
+   * Properties are read back through the field mapping, unbound fields are not compared.
+   * Fields the source owns are updated when they differ, fields the database
+   * owns never, and other fields when they are empty in the entry.
    * @param contentPage The content page to check
    * @param existingEntry The existing database entry to compare against
    * @returns Array of field names that need to be updated
@@ -441,54 +708,197 @@ export class DatabaseUpdater {
     existingEntry: NotionEntry
   ): string[] {
     const fieldsToUpdate: string[] = [];
-    const properties = existingEntry.properties;
 
-    // Check title
-    if (properties.Title?.title?.[0]?.text?.content !== contentPage.title) {
-      fieldsToUpdate.push("title");
+    for (const field of this.fieldMapper.getPropertyFields()) {
+      const current = this.fieldMapper.readField(existingEntry, field);
+      const value = this.fieldMapper.getValue(contentPage, field);
+      let changed: boolean;
+
+      // A generated title is kept while the source title it replaced is unchanged
+      if (
+        field === "title" &&
+        this.hasGeneratedTitle(contentPage, existingEntry)
+      ) {
+        continue;
+      }
+
+      switch (this.fieldMapper.getOwnership(field)) {
+        case "source-wins":
+          changed = !this.isSameValue(
+            current,
+            this.fieldMapper.toStoredValue(field, value)
+          );
+          break;
+        case "database-wins":
+          changed = false;
+          break;
+        default:
+          changed = this.isEmpty(current) && !this.isEmpty(value);
+      }
+
+      if (changed) {
+        fieldsToUpdate.push(field);
+      }
     }
 
-    // Check summary
+    // Check body, by the hash of the body last written when there is one
+    const contentHash = this.index.getContentHash(existingEntry.id);
     if (
-      !properties.Summary?.rich_text?.[0]?.text?.content &&
-      contentPage.summary
+      contentPage.blocks &&
+      (contentHash !== undefined
+        ? contentHash !== this.hashBody(contentPage)
+        : new Date(contentPage.lastEditedTime) >
+          new Date(existingEntry.last_edited_time))
     ) {
-      fieldsToUpdate.push("summary");
+      fieldsToUpdate.push("content");
     }
 
-    // Check excerpt
-    if (
-      !properties.Excerpt?.rich_text?.[0]?.text?.content &&
-      contentPage.excerpt
-    ) {
-      fieldsToUpdate.push("excerpt");
+    return fieldsToUpdate;
+  }
+
+  /**
+   * Finds the fields of an existing entry whose value differs from the source
+   * Fields empty on either side are not conflicts, the value is filled in
+   * @param contentPage The content page
+   * @param existingEntry The existing entry of the page
+   */
+  getFieldConflicts(
+    contentPage: ContentPage,
+    existingEntry: NotionEntry
+  ): FieldConflict[] {
+    const conflicts: FieldConflict[] = [];
+
+    for (const field of this.fieldMapper.getPropertyFields()) {
+      const current = this.fieldMapper.readField(existingEntry, field);
+      const value = this.fieldMapper.toStoredValue(
+        field,
+        this.fieldMapper.getValue(contentPage, field)
+      );
+
+      if (
+        !this.isEmpty(current) &&
+        !this.isEmpty(value) &&
+        !this.isSameValue(current, value)
+      ) {
+        conflicts.push({
+          entryId: existingEntry.id,
+          title: contentPage.title,
+          field,
+          ownership: this.fieldMapper.getOwnership(field),
+        });
+      }
     }
 
-    // Check tags
+    return conflicts;
+  }
+
+  /**
+   * Copies the values of an entry that are generated only once onto a copy
+   * of its content page, so that the content enhancement keeps them
+   * A title generated from the current source title is kept the same way
+   * @param contentPage The content page
+   * @param existingEntry The existing entry of the page
+   * @returns The content page with the kept values
+   */
+  keepGeneratedValues(
+    contentPage: ContentPage,
+    existingEntry: NotionEntry
+  ): ContentPage {
+    const page = { ...contentPage };
+
+    const title = this.fieldMapper.readField(existingEntry, "title");
     if (
-      !properties.Tags?.multi_select ||
-      properties.Tags.multi_select.length === 0
+      this.hasGeneratedTitle(contentPage, existingEntry) &&
+      !this.isEmpty(title)
     ) {
-      if (contentPage.tags && contentPage.tags.length > 0) {
-        fieldsToUpdate.push("tags");
+      page.sourceTitle = contentPage.title;
+      page.title = String(title);
+    }
+
+    for (const field of this.fieldMapper.getPropertyFields()) {
+      if (this.fieldMapper.getOwnership(field) !== "ai-only-once") {
+        continue;
+      }
+
+      const value = this.fieldMapper.readField(existingEntry, field);
+      if (!this.isEmpty(value)) {
+        Object.assign(page, this.toPageValue(field, value));
       }
     }
 
-    // Check mins read
-    if (!properties["Mins Read"]?.number && contentPage.minsRead) {
-      fieldsToUpdate.push("minsRead");
+    return page;
+  }
+
+  /**
+   * Checks if the title of an entry was generated from the current title of its source page
+   * @param contentPage The content page, before its title is generated
+   * @param existingEntry The existing entry of the page
+   */
+  private hasGeneratedTitle(
+    contentPage: ContentPage,
+    existingEntry: NotionEntry
+  ): boolean {
+    return (
+      !contentPage.sourceTitle &&
+      this.index.getSourceTitle(existingEntry.id) === contentPage.title
+    );
+  }
+
+  /**
+   * Converts a value read from an entry into the value of a content page field
+   * @param field The field
+   * @param value The value read from the entry
+   */
+  private toPageValue(
+    field: MappedField,
+    value: FieldValue
+  ): Partial<ContentPage> {
+    switch (field) {
+      case "tags":
+        return {
+          tags: Array.isArray(value)
+            ? value
+            : String(value)
+                .split(",")
+                .map((tag) => tag.trim())
+                .filter(Boolean),
+        };
+      case "minsRead":
+        return { minsRead: Number(value) || 0 };
+      default:
+        return {
+          [field]: Array.isArray(value) ? value.join(", ") : String(value),
+        };
     }
+  }
 
-    // Check image
-    if (!properties.Image?.url && contentPage.imageUrl) {
-      fieldsToUpdate.push("imageUrl");
+  /**
+   * Checks if two field values are equal, empty values are equal to each other
+   * @param a The first value
+   * @param b The second value
+   */
+  private isSameValue(a: FieldValue, b: FieldValue): boolean {
+    if (this.isEmpty(a) || this.isEmpty(b)) {
+      return this.isEmpty(a) && this.isEmpty(b);
     }
 
-    // Check R2ImageUrl
-    if (!properties.R2ImageUrl?.url && contentPage.r2ImageUrl) {
-      fieldsToUpdate.push("r2ImageUrl");
+    if (Array.isArray(a) || Array.isArray(b)) {
+      return (
+        Array.isArray(a) &&
+        Array.isArray(b) &&
+        a.length === b.length &&
+        a.every((item, i) => item === b[i])
+      );
     }
 
-    return fieldsToUpdate;
+    return a === b;
+  }
+
+  /**
+   * Checks if a field value counts as empty
+   * @param value The value to check
+   */
+  private isEmpty(value: FieldValue): boolean {
+    return Array.isArray(value) ? value.length === 0 : !value;
   }
 }
@@ -1,5 +1,17 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { DatabaseSchemaFile } from "../../core/config/DatabaseSchemaFile";
+import { FieldMapper } from "../../core/notion/FieldMapper";
 import { INotionDatabase } from "../../core/notion/NotionDatabase.interface";
-import { DatabaseSchema, NotionConfig, VerificationResult } from "../../types";
+import {
+  DatabaseSchema,
+  NotionConfig,
+  PropertyDefinition,
+  SchemaMigrationResult,
+  SchemaValidationResult,
+  VerificationResult,
+} from "../../types";
+import { SchemaDiffer } from "./SchemaDiffer";
 
 /**
  * Database Verifier
@@ -8,7 +20,7 @@ import { DatabaseSchema, NotionConfig, VerificationResult } from "../../types";
 export class DatabaseVerifier {
   private notionDatabase: INotionDatabase;
   private notionConfig: NotionConfig;
-  private comparisonDatabaseId: string = "1ab7ef86a5ad81aba4cbf8b8f37ec491";
+  private schemaDiffer: SchemaDiffer;
 
   /**
    * Creates a new DatabaseVerifier instance
@@ -18,6 +30,7 @@ export class DatabaseVerifier {
   constructor(notionDatabase: INotionDatabase, notionConfig: NotionConfig) {
     this.notionDatabase = notionDatabase;
     this.notionConfig = notionConfig;
+    this.schemaDiffer = new SchemaDiffer();
   }
 
   /**
@@ -74,20 +87,10 @@ export class DatabaseVerifier {
     parentPageId: string
   ): Promise<VerificationResult> {
     try {
-      // First, get the schema from the comparison database
-      const comparisonSchema = await this.getComparisonDatabaseSchema();
-
-      if (!comparisonSchema) {
-        return {
-          success: false,
-          errors: ["Could not fetch schema from comparison database"],
-        };
-      }
-
-      // Try to initialize the database with the comparison schema
+      // Find the database by name or create it with the required schema
       const databaseId = await this.notionDatabase.initializeDatabase(
         parentPageId,
-        comparisonSchema
+        this.getRequiredSchema()
       );
 
       // Verify the database (either existing or newly created)
@@ -102,8 +105,7 @@ export class DatabaseVerifier {
         return {
           success: true,
           databaseId: verificationResult.databaseId,
-          message:
-            "Database created and verified successfully with comparison schema",
+          message: "Database created and verified successfully",
         };
       }
 
@@ -119,70 +121,150 @@ export class DatabaseVerifier {
   }
 
   /**
-   * Fetches the schema from the comparison database
+   * Gets the schema the migration writes to
+   * This is the default schema, plus the outline property when configured.
+   * With a field mapping it is the mapped properties, plus the other
+   * properties of the schema file when one is configured. In relation
+   * category mode the category is a relation with the categories database.
    */
-  private async getComparisonDatabaseSchema(): Promise<DatabaseSchema | null> {
-    try {
-      // Store current database ID
-      const currentDatabaseId = this.notionDatabase.getDatabaseId();
+  getRequiredSchema(): DatabaseSchema {
+    const schema = this.notionDatabase.getDefaultSchema();
+    const { databaseSchema, outlineProperty, categoryDatabaseId } =
+      this.notionConfig;
+    const fieldMapping =
+      this.notionConfig.categoryMode === "relation"
+        ? FieldMapper.withCategoryRelation(this.notionConfig.fieldMapping)
+        : this.notionConfig.fieldMapping;
 
-      // Set to comparison database temporarily
-      this.notionDatabase.setDatabaseId(this.comparisonDatabaseId);
+    if (!fieldMapping) {
+      if (outlineProperty) {
+        schema.properties[outlineProperty] = { type: "rich_text" };
+      }
+
+      return schema;
+    }
 
-      // Fetch the database to get its schema
-      const database = await this.notionDatabase.client.databases.retrieve({
-        database_id: this.comparisonDatabaseId,
-      });
+    const properties: Record<string, PropertyDefinition> = {};
 
-      // Restore original database ID
-      if (currentDatabaseId) {
-        this.notionDatabase.setDatabaseId(currentDatabaseId);
+    if (databaseSchema) {
+      for (const [name, definition] of Object.entries(schema.properties)) {
+        if (definition.type !== "title") {
+          properties[name] = definition;
+        }
       }
+    }
 
-      // Convert Notion's schema format to our DatabaseSchema format
-      const schema: DatabaseSchema = {
-        name: (database as any).title?.[0]?.plain_text || "Content Database",
-        properties: {},
-      };
+    const types = new FieldMapper(
+      fieldMapping,
+      outlineProperty
+    ).getPropertyTypes();
 
-      // Convert each property
-      Object.entries(database.properties).forEach(([name, prop]) => {
-        const property = prop as any;
-        if (property.type === "title") {
-          schema.properties[name] = { type: "title" };
-        } else if (property.type === "select") {
-          schema.properties[name] = {
-            type: "select",
-            options: property.select.options.map((opt: any) => ({
-              name: opt.name,
-              color: opt.color,
-            })),
-          };
-        } else if (property.type === "multi_select") {
-          schema.properties[name] = {
-            type: "multi_select",
-            options: property.multi_select.options.map((opt: any) => ({
-              name: opt.name,
-              color: opt.color,
-            })),
-          };
-        } else if (property.type === "rich_text") {
-          schema.properties[name] = { type: "rich_text" };
-        } else if (property.type === "number") {
-          schema.properties[name] = { type: "number" };
-        } else if (property.type === "url") {
-          schema.properties[name] = { type: "url" };
-        } else if (property.type === "date") {
-          schema.properties[name] = { type: "date" };
-        } else if (property.type === "checkbox") {
-          schema.properties[name] = { type: "checkbox" };
-        }
-      });
+    for (const [name, type] of Object.entries(types)) {
+      const definition = schema.properties[name];
+
+      if (type === "relation") {
+        properties[name] = { type, databaseId: categoryDatabaseId };
+      } else {
+        properties[name] = definition?.type === type ? definition : { type };
+      }
+    }
+
+    return { ...schema, properties };
+  }
+
+  /**
+   * Compares the schema of the database with the required schema
+   * @param schema The required schema, the default one when omitted
+   */
+  async validateSchema(
+    schema: DatabaseSchema = this.getRequiredSchema()
+  ): Promise<SchemaValidationResult> {
+    const live = await this.notionDatabase.getSchema();
+    return this.schemaDiffer.diff(schema, live, this.getStatusProperty());
+  }
+
+  /**
+   * Adds missing properties and select options to the database
+   * Changed types and a renamed title are reported as conflicts, because
+   * changing them could lose data
+   * @param dryRun Whether to only report the changes
+   * @param schema The required schema, the default one when omitted
+   */
+  async migrateSchema(
+    dryRun = false,
+    schema: DatabaseSchema = this.getRequiredSchema()
+  ): Promise<SchemaMigrationResult> {
+    const live = await this.notionDatabase.getSchema();
+    const validation = this.schemaDiffer.diff(
+      schema,
+      live,
+      this.getStatusProperty()
+    );
+    const changes = this.schemaDiffer.describeChanges(validation, live);
+    const conflicts = this.schemaDiffer.describeConflicts(validation, live);
+    const updates = this.schemaDiffer.getAdditiveChanges(validation, live);
+    let applied = false;
+
+    for (const change of changes) {
+      console.log(`${dryRun ? "[dry run] " : ""}${change}`);
+    }
+
+    if (!dryRun && Object.keys(updates).length > 0) {
+      await this.notionDatabase.updateSchema(updates);
+      applied = true;
+      console.log(`Applied ${changes.length} schema changes`);
+    }
+
+    return { validation, changes, conflicts, applied };
+  }
+
+  /**
+   * Reads the schema of an existing database as the contents of a schema file
+   * Used to create a schema file from a database that already has the
+   * wanted properties
+   * @param databaseId ID of the database to import
+   */
+  async importSchema(databaseId: string): Promise<DatabaseSchema> {
+    const live = await this.notionDatabase.getSchema(databaseId);
+    return DatabaseSchemaFile.fromLiveSchema(live);
+  }
+
+  /**
+   * Loads and validates a schema file
+   * @param schemaPath Path of the schema file, config/database-schema.json
+   * in the working directory when omitted
+   * @returns The schema, or null if the file is missing or invalid
+   */
+  async loadSchemaConfig(schemaPath?: string): Promise<DatabaseSchema | null> {
+    const filePath =
+      schemaPath || path.join(process.cwd(), "config", "database-schema.json");
+
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return null;
+      }
+
+      const schema = await fs.readJson(filePath);
+      const errors = DatabaseSchemaFile.validate(schema);
+
+      if (errors.length > 0) {
+        console.error(`Invalid database schema file ${filePath}:`, errors);
+        return null;
+      }
 
       return schema;
     } catch (error) {
-      console.error("Error fetching comparison database schema:", error);
+      console.error("Error loading database schema file:", error);
       return null;
     }
   }
+
+  /**
+   * Gets the name of the property bound to the status field, which may be
+   * a status property instead of the select of the required schema
+   */
+  private getStatusProperty(): string | undefined {
+    return new FieldMapper(this.notionConfig.fieldMapping).getBinding("status")
+      ?.property;
+  }
 }
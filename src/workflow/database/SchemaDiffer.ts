@@ -0,0 +1,205 @@
+import {
+  DatabaseSchema,
+  PropertyDefinition,
+  SchemaValidationResult,
+} from "../../types";
+
+/**
+ * Schema Differ
+ * Compares the required database schema with the live one and works out
+ * which differences can be fixed by adding properties and select options
+ */
+export class SchemaDiffer {
+  /**
+   * Compares a required schema with the live schema of a database
+   * Property names are matched exactly, extra live properties are ignored
+   * @param required The schema the migration writes to
+   * @param live The schema of the target database
+   * @param statusProperty Name of the property bound to the status field, which may be a status instead of a select
+   */
+  diff(
+    required: DatabaseSchema,
+    live: DatabaseSchema,
+    statusProperty?: string
+  ): SchemaValidationResult {
+    const result: SchemaValidationResult = {
+      valid: true,
+      missingProperties: [],
+      incorrectProperties: [],
+      missingOptions: [],
+    };
+
+    for (const [name, expected] of Object.entries(required.properties)) {
+      const actual = live.properties[name];
+
+      if (!actual) {
+        result.missingProperties.push({ name, expected });
+      } else if (
+        !this.hasCompatibleType(expected, actual, name === statusProperty) ||
+        !this.linksSameDatabase(expected, actual)
+      ) {
+        result.incorrectProperties.push({ name, expected, actual });
+      } else if (expected.options) {
+        const liveOptions = new Set(
+          (actual.options || []).map((option) => option.name)
+        );
+        const options = expected.options.filter(
+          (option) => !liveOptions.has(option.name)
+        );
+
+        if (options.length > 0) {
+          result.missingOptions.push({ name, options });
+        }
+      }
+    }
+
+    result.valid =
+      result.missingProperties.length === 0 &&
+      result.incorrectProperties.length === 0 &&
+      result.missingOptions.length === 0;
+
+    return result;
+  }
+
+  /**
+   * Gets the property updates that fix the additive differences
+   * A database has exactly one title property, so it is never added, and
+   * status options can only be added in Notion
+   * @param result The result of the comparison
+   * @param live The schema of the target database
+   */
+  getAdditiveChanges(
+    result: SchemaValidationResult,
+    live: DatabaseSchema
+  ): Record<string, PropertyDefinition> {
+    const changes: Record<string, PropertyDefinition> = {};
+
+    for (const { name, expected } of result.missingProperties) {
+      if (expected.type !== "title") {
+        changes[name] = expected;
+      }
+    }
+
+    for (const { name, options } of result.missingOptions) {
+      const actual = live.properties[name];
+      if (actual.type === "status") {
+        continue;
+      }
+
+      // Options left out of an update are removed, so existing ones are resent
+      changes[name] = {
+        type: actual.type,
+        options: [
+          ...(actual.options || []).map((option) => ({ name: option.name })),
+          ...options,
+        ],
+      };
+    }
+
+    return changes;
+  }
+
+  /**
+   * Describes the differences that can be fixed by adding to the schema
+   * @param result The result of the comparison
+   * @param live The schema of the target database
+   */
+  describeChanges(
+    result: SchemaValidationResult,
+    live: DatabaseSchema
+  ): string[] {
+    return [
+      ...result.missingProperties
+        .filter(({ expected }) => expected.type !== "title")
+        .map(
+          ({ name, expected }) => `Add property "${name}" (${expected.type})`
+        ),
+      ...result.missingOptions
+        .filter(({ name }) => live.properties[name]?.type !== "status")
+        .map(
+          ({ name, options }) =>
+            `Add options to "${name}": ${options.map((option) => option.name).join(", ")}`
+        ),
+    ];
+  }
+
+  /**
+   * Describes the differences that have to be fixed by hand
+   * @param result The result of the comparison
+   * @param live The schema of the target database
+   */
+  describeConflicts(
+    result: SchemaValidationResult,
+    live: DatabaseSchema
+  ): string[] {
+    const conflicts: string[] = [];
+
+    for (const { name, expected } of result.missingProperties) {
+      if (expected.type === "title") {
+        const current = Object.keys(live.properties).find(
+          (property) => live.properties[property].type === "title"
+        );
+        conflicts.push(
+          current
+            ? `Title property is named "${current}", expected "${name}"`
+            : `Title property "${name}" is missing`
+        );
+      }
+    }
+
+    for (const { name, expected, actual } of result.incorrectProperties) {
+      conflicts.push(
+        actual.type === expected.type
+          ? `Property "${name}" links to database ${actual.databaseId}, expected ${expected.databaseId}`
+          : `Property "${name}" is ${actual.type}, expected ${expected.type}`
+      );
+    }
+
+    for (const { name, options } of result.missingOptions) {
+      if (live.properties[name]?.type === "status") {
+        conflicts.push(
+          `Status "${name}" is missing options, add them in Notion: ${options.map((option) => option.name).join(", ")}`
+        );
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Checks if a live property can hold the values of the required one
+   * The select of the status field is also met by a status, which is
+   * written with the same option names
+   * @param expected The required property
+   * @param actual The live property
+   * @param isStatus Whether the property is bound to the status field
+   */
+  private hasCompatibleType(
+    expected: PropertyDefinition,
+    actual: PropertyDefinition,
+    isStatus: boolean
+  ): boolean {
+    return (
+      actual.type === expected.type ||
+      (isStatus && expected.type === "select" && actual.type === "status")
+    );
+  }
+
+  /**
+   * Checks if a relation links to the required database
+   * Relations that do not name a database accept any database
+   * @param expected The required property
+   * @param actual The live property
+   */
+  private linksSameDatabase(
+    expected: PropertyDefinition,
+    actual: PropertyDefinition
+  ): boolean {
+    if (expected.type !== "relation" || !expected.databaseId) {
+      return true;
+    }
+
+    const normalize = (id?: string) => (id || "").replace(/-/g, "");
+    return normalize(expected.databaseId) === normalize(actual.databaseId);
+  }
+}
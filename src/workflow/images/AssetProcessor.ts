@@ -0,0 +1,335 @@
+import axios from "axios";
+import * as fs from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { IStorageService } from "../../core/storage/StorageService.interface";
+import {
+  AssetProcessingResult,
+  Block,
+  ContentAsset,
+  ContentPage,
+} from "../../types";
+
+/**
+ * Upload recorded for an inline asset
+ */
+export interface AssetUploadEntry {
+  blockId: string; // Source block ID
+  sourceUrl: string; // URL the asset was downloaded from
+  storageUrl: string; // URL of the uploaded copy
+  uploadedAt: string;
+}
+
+/**
+ * Asset Processor
+ * Re-hosts inline images and attachments of page bodies, whose Notion file
+ * URLs expire after about an hour, and rewrites the rendered content to use
+ * the storage URLs. Uploads are recorded by source block ID so reruns reuse
+ * them until the file of the block is replaced.
+ */
+export class AssetProcessor {
+  private storageService: IStorageService;
+  private tempDir: string;
+  private recordDir: string;
+  private filePath: string;
+  private uploads: Map<string, AssetUploadEntry>;
+  private initialized: boolean = false;
+
+  /**
+   * Creates a new AssetProcessor instance
+   * @param storageService The storage service assets are uploaded to
+   * @param tempDir Directory for downloads
+   * @param cacheDir Directory to store the upload record in, the temporary directory when omitted
+   */
+  constructor(
+    storageService: IStorageService,
+    tempDir = path.join(os.tmpdir(), "notion-page-db-assets"),
+    cacheDir?: string
+  ) {
+    this.storageService = storageService;
+    this.tempDir = tempDir;
+    this.recordDir = cacheDir ? path.join(cacheDir, "assets") : tempDir;
+    this.filePath = path.join(this.recordDir, "asset-uploads.json");
+    this.uploads = new Map();
+  }
+
+  /**
+   * Initializes the processor by loading the uploads of earlier runs
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      await fs.ensureDir(this.tempDir);
+      await fs.ensureDir(this.recordDir);
+
+      if (await fs.pathExists(this.filePath)) {
+        const data = await fs.readJSON(this.filePath);
+        this.uploads = new Map(Object.entries(data));
+        console.log(
+          `Loaded ${this.uploads.size} asset uploads from ${this.filePath}`
+        );
+      }
+    } catch (error) {
+      console.error("Error initializing asset processor:", error);
+      this.uploads = new Map();
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Re-hosts the inline assets of a content page and rewrites its content
+   * and blocks. Assets that cannot be uploaded keep their original URL
+   * @param contentPage The content page to process
+   */
+  async processAssets(
+    contentPage: ContentPage
+  ): Promise<AssetProcessingResult> {
+    const result: AssetProcessingResult = { uploaded: 0, reused: 0, failed: 0 };
+
+    for (const asset of contentPage.assets || []) {
+      let entry = this.uploads.get(asset.blockId);
+
+      // A block whose file was replaced keeps its ID, so the file is compared too
+      if (
+        entry &&
+        AssetProcessor.getFileIdentity(entry.sourceUrl) !==
+          AssetProcessor.getFileIdentity(asset.url)
+      ) {
+        entry = undefined;
+      }
+
+      if (entry) {
+        result.reused++;
+      } else {
+        entry = await this.uploadAsset(asset, contentPage);
+        if (!entry) {
+          result.failed++;
+          continue;
+        }
+
+        result.uploaded++;
+      }
+
+      contentPage.content = this.replaceUrl(
+        contentPage.content,
+        asset.url,
+        entry.storageUrl
+      );
+      this.replaceBlockUrl(
+        contentPage.blocks || [],
+        asset.blockId,
+        entry.storageUrl
+      );
+      asset.sourceUrl = asset.url;
+      asset.url = entry.storageUrl;
+    }
+
+    if (result.uploaded > 0) {
+      await this.save();
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-hosts the inline assets of multiple content pages
+   * @param contentPages The content pages to process
+   */
+  async processAllAssets(
+    contentPages: ContentPage[]
+  ): Promise<AssetProcessingResult> {
+    await this.initialize();
+
+    const total: AssetProcessingResult = { uploaded: 0, reused: 0, failed: 0 };
+
+    for (const page of contentPages) {
+      if (!page.assets?.length) continue;
+
+      const result = await this.processAssets(page);
+      total.uploaded += result.uploaded;
+      total.reused += result.reused;
+      total.failed += result.failed;
+    }
+
+    console.log(
+      `Inline assets: ${total.uploaded} uploaded, ${total.reused} reused, ${total.failed} failed`
+    );
+
+    return total;
+  }
+
+  /**
+   * Downloads an asset and uploads it to storage
+   * @param asset The asset to upload
+   * @param contentPage The content page the asset belongs to
+   * @returns The recorded upload, or undefined if it failed
+   */
+  private async uploadAsset(
+    asset: ContentAsset,
+    contentPage: ContentPage
+  ): Promise<AssetUploadEntry | undefined> {
+    const tempFilePath = path.join(
+      this.tempDir,
+      `${asset.blockId}-${this.getFileName(asset)}`
+    );
+
+    try {
+      const response = await axios({
+        url: asset.url,
+        method: "GET",
+        responseType: "stream",
+      });
+
+      const writer = fs.createWriteStream(tempFilePath);
+      response.data.pipe(writer);
+
+      await new Promise<void>((resolve, reject) => {
+        writer.on("finish", resolve);
+        writer.on("error", reject);
+      });
+
+      // Attachments are stored as files, so they keep their own content type
+      const storageResult =
+        asset.type === "image"
+          ? await this.storageService.uploadImage(tempFilePath, {
+              title: asset.name || contentPage.title,
+              alt: `${asset.type} in ${contentPage.title}`,
+              sourceUrl: asset.url,
+            })
+          : await this.storageService.uploadFile(tempFilePath, {
+              title: asset.name || contentPage.title,
+              description: `${asset.type} in ${contentPage.title}`,
+              sourceUrl: asset.url,
+            });
+
+      if (!storageResult.success) {
+        console.error(
+          `Failed to upload ${asset.type} ${asset.blockId}: ${storageResult.error || "Unknown error"}`
+        );
+        return undefined;
+      }
+
+      const entry: AssetUploadEntry = {
+        blockId: asset.blockId,
+        sourceUrl: asset.url,
+        storageUrl: storageResult.url,
+        uploadedAt: new Date().toISOString(),
+      };
+      this.uploads.set(asset.blockId, entry);
+
+      return entry;
+    } catch (error) {
+      console.error(
+        `Failed to download ${asset.type} ${asset.blockId}:`,
+        error instanceof Error ? error.message : error
+      );
+      return undefined;
+    } finally {
+      if (await fs.pathExists(tempFilePath)) {
+        await fs.remove(tempFilePath);
+      }
+    }
+  }
+
+  /**
+   * Gets the identity of a file from its URL
+   * Notion file URLs are signed and expire, so the query string is left out
+   * @param url URL of the file
+   */
+  static getFileIdentity(url: string): string {
+    try {
+      const { origin, pathname } = new URL(url);
+      return `${origin}${pathname}`;
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Gets a file name for an asset from its name or URL path
+   * @param asset The asset
+   */
+  private getFileName(asset: ContentAsset): string {
+    let fileName = "";
+
+    try {
+      fileName = decodeURIComponent(path.basename(new URL(asset.url).pathname));
+    } catch {
+      fileName = "";
+    }
+
+    if (!path.extname(fileName) && asset.name) {
+      fileName = asset.name;
+    }
+
+    return fileName.replace(/[^\w.-]+/g, "_") || asset.type;
+  }
+
+  /**
+   * Replaces a URL in rendered content, including its escaped forms
+   * HTML escapes ampersands and Markdown escapes spaces and parentheses
+   * @param content The rendered content
+   * @param sourceUrl The URL to replace
+   * @param storageUrl The replacement URL
+   */
+  private replaceUrl(
+    content: string,
+    sourceUrl: string,
+    storageUrl: string
+  ): string {
+    const forms: Array<(url: string) => string> = [
+      (url) => url,
+      (url) =>
+        url
+          .replace(/&/g, "&amp;")
+          .replace(/"/g, "&quot;")
+          .replace(/'/g, "&#39;"),
+      (url) =>
+        url.replace(/ /g, "%20").replace(/\(/g, "%28").replace(/\)/g, "%29"),
+    ];
+
+    for (const form of forms) {
+      content = content.split(form(sourceUrl)).join(form(storageUrl));
+    }
+
+    return content;
+  }
+
+  /**
+   * Points the block of an asset at its uploaded copy
+   * @param blocks Blocks to search, including nested blocks
+   * @param blockId ID of the asset block
+   * @param storageUrl URL of the uploaded copy
+   */
+  private replaceBlockUrl(
+    blocks: Block[],
+    blockId: string,
+    storageUrl: string
+  ): void {
+    for (const block of blocks) {
+      if (block.id === blockId && block.content) {
+        block.content = { ...block.content, url: storageUrl };
+      }
+
+      if (Array.isArray(block.content?.children)) {
+        this.replaceBlockUrl(block.content.children, blockId, storageUrl);
+      }
+    }
+  }
+
+  /**
+   * Saves the recorded uploads to the file
+   */
+  private async save(): Promise<void> {
+    try {
+      await fs.ensureDir(this.recordDir);
+      await fs.writeJSON(this.filePath, Object.fromEntries(this.uploads), {
+        spaces: 2,
+      });
+    } catch (error) {
+      console.error("Error saving asset uploads:", error);
+    }
+  }
+}
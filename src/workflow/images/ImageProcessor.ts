@@ -413,7 +413,7 @@ export class ImageProcessor {
       // Create a temporary file path
       const tempFilePath = path.join(
         this.tempDir,
-        `${Date.now()}-${path.basename(imageUrl) || "image.jpg"}`
+        `${Date.now()}-${path.basename(imageUrl.split("?")[0]) || "image.jpg"}`
       );
 
       try {
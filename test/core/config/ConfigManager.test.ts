@@ -443,6 +443,264 @@ describe("ConfigManager", () => {
       expect(result.errors).toContain("Notion source page ID is required");
     });
 
+    it("should require a source database ID in database mode", () => {
+      configManager = new ConfigManager();
+      (configManager as any).config.storage.baseUrl =
+        "https://test-bucket.example.com";
+      (configManager as any).config.notion.sourceMode = "database";
+      (configManager as any).config.notion.sourcePageId = undefined;
+
+      let result = configManager.validate();
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(
+        "Notion source database ID is required in database mode"
+      );
+      expect(result.errors).not.toContain("Notion source page ID is required");
+
+      (configManager as any).config.notion.sourceDatabaseId = "source-db-id";
+      result = configManager.validate();
+
+      expect(result.valid).toBe(true);
+    });
+
+    it("should validate category rules from the environment", () => {
+      process.env.NOTION_CATEGORY_RULES =
+        '[{"match": "^MIT", "prefix": "CITS"}]';
+      configManager = new ConfigManager();
+      (configManager as any).config.storage.baseUrl =
+        "https://test-bucket.example.com";
+
+      expect(configManager.getNotionConfig().categoryRules).toEqual([
+        { match: "^MIT", prefix: "CITS" },
+      ]);
+      expect(configManager.validate().valid).toBe(true);
+
+      process.env.NOTION_CATEGORY_RULES = "{invalid";
+      configManager = new ConfigManager();
+
+      const result = configManager.validate();
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain("Category rules must be an array");
+
+      delete process.env.NOTION_CATEGORY_RULES;
+    });
+
+    it("should validate the field mapping from the environment", () => {
+      process.env.NOTION_FIELD_MAPPING = JSON.stringify({
+        title: { property: "Name", type: "title" },
+        tags: { property: "Topic", type: "select" },
+        summary: { type: "callout" },
+      });
+      configManager = new ConfigManager();
+      (configManager as any).config.storage.baseUrl =
+        "https://test-bucket.example.com";
+
+      expect(configManager.getNotionConfig().fieldMapping).toEqual({
+        title: { property: "Name", type: "title" },
+        tags: { property: "Topic", type: "select" },
+        summary: { type: "callout" },
+      });
+      expect(configManager.validate().valid).toBe(true);
+
+      process.env.NOTION_FIELD_MAPPING = '{"tags": {"type": "number"}}';
+      configManager = new ConfigManager();
+
+      const result = configManager.validate();
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(
+        "Field mapping must bind the title field"
+      );
+
+      delete process.env.NOTION_FIELD_MAPPING;
+    });
+
+    it("should validate the orphan policy from the environment", () => {
+      process.env.NOTION_ORPHAN_POLICY = "archive";
+      process.env.NOTION_ORPHAN_ARCHIVE_LIMIT = "25";
+      configManager = new ConfigManager();
+      (configManager as any).config.storage.baseUrl =
+        "https://test-bucket.example.com";
+
+      expect(configManager.getNotionConfig()).toMatchObject({
+        orphanPolicy: "archive",
+        orphanStatus: "Archived",
+        orphanArchiveLimit: 25,
+      });
+      expect(configManager.validate().valid).toBe(true);
+
+      process.env.NOTION_ORPHAN_POLICY = "delete";
+      process.env.NOTION_ORPHAN_ARCHIVE_LIMIT = "-1";
+      configManager = new ConfigManager();
+
+      const result = configManager.validate();
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain("Unsupported orphan policy: delete");
+      expect(result.errors).toContain(
+        "Notion orphan archive limit must be a non-negative number"
+      );
+
+      delete process.env.NOTION_ORPHAN_POLICY;
+      delete process.env.NOTION_ORPHAN_ARCHIVE_LIMIT;
+    });
+
+    it("should validate the field ownership from the environment", () => {
+      process.env.NOTION_FIELD_OWNERSHIP =
+        '{"status": "database-wins", "summary": "ai-only-once"}';
+      configManager = new ConfigManager();
+      (configManager as any).config.storage.baseUrl =
+        "https://test-bucket.example.com";
+
+      expect(configManager.getNotionConfig().fieldOwnership).toEqual({
+        status: "database-wins",
+        summary: "ai-only-once",
+      });
+      expect(configManager.validate().valid).toBe(true);
+
+      process.env.NOTION_FIELD_OWNERSHIP = '{"status": "editor-wins"}';
+      configManager = new ConfigManager();
+
+      const result = configManager.validate();
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(
+        'Unsupported ownership of field "status": editor-wins (expected source-wins, database-wins, fill-if-empty, ai-only-once)'
+      );
+
+      delete process.env.NOTION_FIELD_OWNERSHIP;
+    });
+
+    it("should validate the category mode from the environment", () => {
+      process.env.NOTION_CATEGORY_MODE = "relation";
+      process.env.NOTION_CATEGORY_DATABASE_ID = "categories-db";
+      configManager = new ConfigManager();
+      (configManager as any).config.storage.baseUrl =
+        "https://test-bucket.example.com";
+
+      expect(configManager.getNotionConfig()).toMatchObject({
+        categoryMode: "relation",
+        categoryDatabaseId: "categories-db",
+        categoryDatabaseName: "Categories",
+      });
+      expect(configManager.validate().valid).toBe(true);
+
+      process.env.NOTION_CATEGORY_MODE = "multi_select";
+      configManager = new ConfigManager();
+
+      const result = configManager.validate();
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain(
+        "Unsupported category mode: multi_select"
+      );
+
+      delete process.env.NOTION_CATEGORY_MODE;
+      delete process.env.NOTION_CATEGORY_DATABASE_ID;
+    });
+
+    it("should read content filters from the environment", () => {
+      process.env.NOTION_EXCLUDE_CATEGORIES = "Drafts, Templates";
+      process.env.NOTION_EXCLUDE_TITLES = "Scratch*";
+      process.env.NOTION_MIN_WORDS = "50";
+      process.env.NOTION_EDITED_AFTER = "not a date";
+      configManager = new ConfigManager();
+      (configManager as any).config.storage.baseUrl =
+        "https://test-bucket.example.com";
+
+      expect(configManager.getNotionConfig().contentFilter).toMatchObject({
+        excludeCategories: ["Drafts", "Templates"],
+        excludeTitles: ["Scratch*"],
+        minWords: 50,
+      });
+
+      const result = configManager.validate();
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain("Invalid editedAfter date: not a date");
+
+      delete process.env.NOTION_EXCLUDE_CATEGORIES;
+      delete process.env.NOTION_EXCLUDE_TITLES;
+      delete process.env.NOTION_MIN_WORDS;
+      delete process.env.NOTION_EDITED_AFTER;
+    });
+
+    it("should validate image sources from the environment", () => {
+      process.env.NOTION_IMAGE_SOURCES = "cover, inline, banner";
+      configManager = new ConfigManager();
+
+      expect(configManager.getNotionConfig().imageSources).toEqual([
+        "cover",
+        "inline",
+        "banner",
+      ]);
+      expect(configManager.validate().errors).toContain(
+        "Unsupported image sources: banner"
+      );
+
+      delete process.env.NOTION_IMAGE_SOURCES;
+    });
+
+    it("should load the table of contents options from the environment", () => {
+      process.env.NOTION_TABLE_OF_CONTENTS = "true";
+      process.env.NOTION_OUTLINE_PROPERTY = "Outline";
+      configManager = new ConfigManager();
+
+      expect(configManager.getNotionConfig().tableOfContents).toBe(true);
+      expect(configManager.getNotionConfig().outlineProperty).toBe("Outline");
+
+      delete process.env.NOTION_TABLE_OF_CONTENTS;
+      delete process.env.NOTION_OUTLINE_PROPERTY;
+    });
+
+    it("should validate the schema update mode from the environment", () => {
+      configManager = new ConfigManager();
+      expect(configManager.getNotionConfig().schemaUpdate).toBe("preview");
+
+      process.env.NOTION_SCHEMA_UPDATE = "rewrite";
+      configManager = new ConfigManager();
+
+      expect(configManager.validate().errors).toContain(
+        "Unsupported schema update mode: rewrite"
+      );
+
+      delete process.env.NOTION_SCHEMA_UPDATE;
+    });
+
+    it("should load the database schema file from the environment", () => {
+      const schema = {
+        version: 1,
+        name: "Blog Posts",
+        properties: { Title: { type: "title" } },
+      };
+      process.env.NOTION_SCHEMA_FILE = "schema.json";
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(schema));
+      configManager = new ConfigManager();
+
+      expect(configManager.getNotionConfig().databaseSchema).toEqual(schema);
+      expect(configManager.validate().valid).toBe(true);
+
+      delete process.env.NOTION_SCHEMA_FILE;
+    });
+
+    it("should report a missing or invalid database schema file", () => {
+      process.env.NOTION_SCHEMA_FILE = "schema.json";
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      configManager = new ConfigManager();
+
+      expect(configManager.validate().errors).toContain(
+        "Database schema file not found: schema.json"
+      );
+
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(
+        JSON.stringify({ properties: { Summary: { type: "rich_text" } } })
+      );
+      configManager = new ConfigManager();
+
+      expect(configManager.validate().errors).toContain(
+        "Database schema must have exactly one title property"
+      );
+
+      delete process.env.NOTION_SCHEMA_FILE;
+    });
+
     it("should return invalid result when AI API key is missing", () => {
       delete process.env.DEEPSEEK_API_KEY;
 
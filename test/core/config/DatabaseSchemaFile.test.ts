@@ -0,0 +1,213 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DatabaseSchemaFile } from "../../../src/core/config/DatabaseSchemaFile";
+import { DatabaseSchema } from "../../../src/types";
+
+describe("DatabaseSchemaFile", () => {
+  const schema: DatabaseSchema = {
+    version: 1,
+    name: "Blog Posts",
+    properties: {
+      Title: { type: "title" },
+      Category: {
+        type: "select",
+        options: [{ name: "Guides", color: "blue" }],
+      },
+      "Mins Read": { type: "number" },
+    },
+  };
+
+  describe("validate", () => {
+    it("should accept a valid schema", () => {
+      expect(DatabaseSchemaFile.validate(schema)).toEqual([]);
+    });
+
+    it("should accept the example schema file", () => {
+      const example = JSON.parse(
+        fs.readFileSync("config/database-schema.example.json", "utf8")
+      );
+
+      expect(DatabaseSchemaFile.validate(example)).toEqual([]);
+    });
+
+    it("should reject a schema that is not an object", () => {
+      expect(DatabaseSchemaFile.validate("{ invalid")).toEqual([
+        "Database schema must be a JSON object",
+      ]);
+    });
+
+    it("should reject unsupported versions and property types", () => {
+      const errors = DatabaseSchemaFile.validate({
+        version: 2,
+        properties: {
+          Title: { type: "title" },
+          Publish: { type: "button" },
+        },
+      });
+
+      expect(errors).toEqual([
+        "Unsupported database schema version: 2",
+        'Unsupported type of property "Publish": button',
+      ]);
+    });
+
+    it("should validate relations, formulas and rollups", () => {
+      const valid = DatabaseSchemaFile.validate({
+        properties: {
+          Title: { type: "title" },
+          Reviewer: { type: "people" },
+          Stage: { type: "status", options: [{ name: "Done" }] },
+          Series: { type: "relation", databaseId: "series-db" },
+          Slug: { type: "formula", expression: 'lower(prop("Title"))' },
+          Parts: {
+            type: "rollup",
+            rollup: {
+              relationProperty: "Series",
+              rollupProperty: "Title",
+              function: "count",
+            },
+          },
+        },
+      });
+      const invalid = DatabaseSchemaFile.validate({
+        properties: {
+          Title: { type: "title" },
+          Series: { type: "relation" },
+          Slug: { type: "formula" },
+          Parts: {
+            type: "rollup",
+            rollup: {
+              relationProperty: "Slug",
+              rollupProperty: "Title",
+              function: "count",
+            },
+          },
+          Total: { type: "rollup" },
+        },
+      });
+
+      expect(valid).toEqual([]);
+      expect(invalid).toEqual([
+        'Relation property "Series" must name a database',
+        'Formula property "Slug" must have an expression',
+        'Rollup property "Parts" must roll up a relation property of the schema: Slug',
+        'Rollup property "Total" must name a relation property, a rollup property and a function',
+      ]);
+    });
+
+    it("should require exactly one title property", () => {
+      expect(
+        DatabaseSchemaFile.validate({
+          properties: { Title: { type: "title" }, Name: { type: "title" } },
+        })
+      ).toContain("Database schema must have exactly one title property");
+    });
+
+    it("should validate select options", () => {
+      const errors = DatabaseSchemaFile.validate({
+        properties: {
+          Title: { type: "title", options: [] },
+          Tags: {
+            type: "multi_select",
+            options: [
+              { name: "a,b" },
+              { name: "Guides" },
+              { name: "Guides" },
+              { name: "News", color: "teal" },
+            ],
+          },
+        },
+      });
+
+      expect(errors).toEqual([
+        'Only select properties can have options: "Title"',
+        'Invalid option of property "Tags": {"name":"a,b"}',
+        'Duplicate option of property "Tags": Guides',
+        'Unsupported color of option "News" of property "Tags": teal',
+      ]);
+    });
+  });
+
+  describe("fromLiveSchema", () => {
+    it("should keep the properties a schema file can define", () => {
+      const result = DatabaseSchemaFile.fromLiveSchema({
+        name: "Team Database",
+        properties: {
+          Name: { type: "title" },
+          Stage: {
+            type: "select",
+            options: [{ name: "Draft", color: "gray" }],
+          },
+          Progress: { type: "status", options: [] },
+          Series: { type: "relation", databaseId: "series-db" },
+          Parts: {
+            type: "rollup",
+            rollup: {
+              relationProperty: "Series",
+              rollupProperty: "Title",
+              function: "count",
+            },
+          },
+          Publish: { type: "button" as any },
+        },
+      });
+
+      expect(result).toEqual({
+        version: 1,
+        name: "Team Database",
+        properties: {
+          Name: { type: "title" },
+          Stage: {
+            type: "select",
+            options: [{ name: "Draft", color: "gray" }],
+          },
+          Progress: { type: "status", options: [] },
+          Series: { type: "relation", databaseId: "series-db" },
+          Parts: {
+            type: "rollup",
+            rollup: {
+              relationProperty: "Series",
+              rollupProperty: "Title",
+              function: "count",
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe("read and write", () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "schema-file-test-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("should write a schema and read it back", () => {
+      const filePath = path.join(tempDir, "config", "database-schema.json");
+
+      DatabaseSchemaFile.write(filePath, schema);
+
+      expect(DatabaseSchemaFile.read(filePath)).toEqual(schema);
+    });
+
+    it("should return undefined for a missing file", () => {
+      expect(
+        DatabaseSchemaFile.read(path.join(tempDir, "missing.json"))
+      ).toBeUndefined();
+    });
+
+    it("should return invalid JSON as text", () => {
+      const filePath = path.join(tempDir, "invalid.json");
+      fs.writeFileSync(filePath, "{ invalid");
+
+      expect(DatabaseSchemaFile.read(filePath)).toBe("{ invalid");
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { ContentFilter } from "../../../src/core/content/ContentFilter";
+import { ContentPage } from "../../../src/types";
+
+describe("ContentFilter", () => {
+  const createPage = (overrides: Partial<ContentPage> = {}): ContentPage => ({
+    id: "1a2b3c4d-0000-0000-0000-000000000001",
+    title: "Understanding Closures",
+    parentId: "category-page",
+    category: "JavaScript",
+    content: "Closures capture variables from their enclosing scope.",
+    createdTime: "2024-03-01T10:00:00.000Z",
+    lastEditedTime: "2024-03-10T10:00:00.000Z",
+    ...overrides,
+  });
+
+  describe("getSkipReason", () => {
+    it("should keep every page when no filters are set", () => {
+      const filter = new ContentFilter();
+
+      expect(filter.getSkipReason(createPage())).toBeUndefined();
+    });
+
+    it("should filter by category name, ignoring case", () => {
+      const include = new ContentFilter({ includeCategories: ["javascript"] });
+      const exclude = new ContentFilter({ excludeCategories: ["JavaScript"] });
+
+      expect(include.getSkipReason(createPage())).toBeUndefined();
+      expect(include.getSkipReason(createPage({ category: "Python" }))).toBe(
+        "category Python is not included"
+      );
+      expect(exclude.getSkipReason(createPage())).toBe(
+        "category JavaScript is excluded"
+      );
+    });
+
+    it("should filter titles by glob", () => {
+      const filter = new ContentFilter({
+        excludeTitles: ["Template*", "Scratch ?"],
+      });
+
+      expect(
+        filter.getSkipReason(createPage({ title: "template: article" }))
+      ).toBe("title is excluded");
+      expect(filter.getSkipReason(createPage({ title: "Scratch 2" }))).toBe(
+        "title is excluded"
+      );
+      expect(
+        filter.getSkipReason(createPage({ title: "Scratch pad" }))
+      ).toBeUndefined();
+    });
+
+    it("should filter titles by regular expression", () => {
+      const filter = new ContentFilter({
+        includeTitles: ["/^understanding/i"],
+      });
+
+      expect(filter.getSkipReason(createPage())).toBeUndefined();
+      expect(filter.getSkipReason(createPage({ title: "Closures" }))).toBe(
+        "title is not included"
+      );
+    });
+
+    it("should match page IDs with or without dashes", () => {
+      const include = new ContentFilter({
+        includePageIds: ["1a2b3c4d000000000000000000000001"],
+      });
+      const exclude = new ContentFilter({
+        excludePageIds: ["1A2B3C4D-0000-0000-0000-000000000001"],
+      });
+
+      expect(include.getSkipReason(createPage())).toBeUndefined();
+      expect(include.getSkipReason(createPage({ id: "other" }))).toBe(
+        "page ID is not included"
+      );
+      expect(exclude.getSkipReason(createPage())).toBe("page ID is excluded");
+    });
+
+    it("should filter by created and edited date ranges", () => {
+      const filter = new ContentFilter({
+        createdAfter: "2024-03-01",
+        editedBefore: "2024-03-10T10:00:00.000Z",
+      });
+
+      expect(
+        filter.getSkipReason(
+          createPage({ lastEditedTime: "2024-03-05T00:00:00.000Z" })
+        )
+      ).toBeUndefined();
+      expect(
+        filter.getSkipReason(
+          createPage({ createdTime: "2024-02-29T23:59:59.000Z" })
+        )
+      ).toBe("created before 2024-03-01");
+      expect(filter.getSkipReason(createPage())).toBe(
+        "edited on or after 2024-03-10T10:00:00.000Z"
+      );
+    });
+
+    it("should skip pages with fewer words than the minimum", () => {
+      const filter = new ContentFilter({ minWords: 7 });
+
+      expect(filter.getSkipReason(createPage())).toBeUndefined();
+      expect(
+        filter.getSkipReason(
+          createPage({ content: "<h1>TODO</h1>\n<p>write this</p>" })
+        )
+      ).toBe("has 3 words, fewer than 7");
+    });
+  });
+
+  describe("filterPages", () => {
+    it("should split pages into kept and skipped pages", () => {
+      const filter = new ContentFilter({ excludeTitles: ["Untitled"] });
+      const page = createPage();
+      const untitled = createPage({ id: "page2", title: "Untitled" });
+
+      const { kept, skipped } = filter.filterPages([page, untitled]);
+
+      expect(kept).toEqual([page]);
+      expect(skipped).toEqual([
+        { page: untitled, reason: "title is excluded" },
+      ]);
+    });
+  });
+
+  describe("countWords", () => {
+    it("should ignore markup when counting words", () => {
+      expect(ContentFilter.countWords("## Heading\n\n- one *two*")).toBe(3);
+      expect(ContentFilter.countWords("")).toBe(0);
+      expect(ContentFilter.countWords("<p>闭包的用法</p>")).toBe(5);
+    });
+  });
+
+  describe("validate", () => {
+    it("should report invalid patterns, dates and word counts", () => {
+      const errors = ContentFilter.validate({
+        includeTitles: ["/(/"],
+        createdBefore: "yesterday",
+        minWords: -1,
+      });
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toMatch(/^Invalid title pattern \/\(\/:/);
+      expect(errors[1]).toBe("Invalid createdBefore date: yesterday");
+      expect(errors[2]).toBe(
+        "Minimum word count must be a non-negative integer"
+      );
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { HtmlRenderer } from "../../../src/core/content/HtmlRenderer";
+import { Block } from "../../../src/types";
+
+/**
+ * Helper to create a transformed block
+ */
+function block(type: string, content: any, id = type): Block {
+  return { id, type, content, hasChildren: false };
+}
+
+describe("HtmlRenderer", () => {
+  let renderer: HtmlRenderer;
+
+  beforeEach(() => {
+    renderer = new HtmlRenderer();
+  });
+
+  it("should return an empty string for no blocks", () => {
+    expect(renderer.render([])).toBe("");
+  });
+
+  it("should render headings and paragraphs", () => {
+    const result = renderer.render([
+      block("heading_1", "Title"),
+      block("heading_2", "Section"),
+      block("heading_3", "Subsection"),
+      block("paragraph", "Body"),
+    ]);
+
+    expect(result).toBe(
+      "<h1>Title</h1>\n<h2>Section</h2>\n<h3>Subsection</h3>\n<p>Body</p>\n"
+    );
+  });
+
+  it("should group list runs into ul and ol elements", () => {
+    const result = renderer.render([
+      block("bulleted_list_item", "Apple", "1"),
+      block("bulleted_list_item", "Pear", "2"),
+      block("numbered_list_item", "First", "3"),
+      block("numbered_list_item", "Second", "4"),
+    ]);
+
+    expect(result).toBe(
+      "<ul>\n<li>Apple</li>\n<li>Pear</li>\n</ul>\n<ol>\n<li>First</li>\n<li>Second</li>\n</ol>\n"
+    );
+  });
+
+  it("should nest child lists inside their list item", () => {
+    const result = renderer.render([
+      {
+        id: "parent",
+        type: "bulleted_list_item",
+        content: {
+          text: "Parent",
+          children: [block("numbered_list_item", "Child")],
+        },
+        hasChildren: true,
+      },
+    ]);
+
+    expect(result).toBe(
+      "<ul>\n<li>Parent\n<ol>\n<li>Child</li>\n</ol>\n</li>\n</ul>\n"
+    );
+  });
+
+  it("should render to-dos as checkboxes", () => {
+    const result = renderer.render([
+      block("to_do", { text: "Done", checked: true }, "1"),
+      block("to_do", { text: "Open", checked: false }, "2"),
+    ]);
+
+    expect(result).toBe(
+      '<ul>\n<li><input type="checkbox" disabled checked> Done</li>\n<li><input type="checkbox" disabled> Open</li>\n</ul>\n'
+    );
+  });
+
+  it("should render code with a language class", () => {
+    const result = renderer.render([
+      block("code", { text: "if (a < b) {}", language: "java script" }),
+      block("code", { text: "plain", language: "plain text" }, "2"),
+    ]);
+
+    expect(result).toBe(
+      '<pre><code class="language-java-script">if (a &lt; b) {}</code></pre>\n<pre><code>plain</code></pre>\n'
+    );
+  });
+
+  it("should render images as figures with captions", () => {
+    const result = renderer.render([
+      block("image", {
+        url: "https://example.com/a.png?x=1&y=2",
+        caption: "A <diagram>",
+      }),
+    ]);
+
+    expect(result).toBe(
+      '<figure><img src="https://example.com/a.png?x=1&amp;y=2" alt="A &lt;diagram&gt;"><figcaption>A &lt;diagram&gt;</figcaption></figure>\n'
+    );
+  });
+
+  it("should drop images with unsafe URLs", () => {
+    const result = renderer.render([
+      block("image", { url: "javascript:alert(1)", caption: "" }),
+    ]);
+
+    expect(result).toBe("");
+  });
+
+  it("should escape text and keep line breaks", () => {
+    const result = renderer.render([
+      block("quote", 'He said "<b>hi</b>"\n& left'),
+    ]);
+
+    expect(result).toBe(
+      "<blockquote><p>He said &quot;&lt;b&gt;hi&lt;/b&gt;&quot;<br>&amp; left</p></blockquote>\n"
+    );
+  });
+
+  it("should render inline annotations, colours and links", () => {
+    const annotations = {
+      bold: false,
+      italic: false,
+      strikethrough: false,
+      underline: false,
+      code: false,
+      color: "default",
+    };
+    const result = renderer.render([
+      block("paragraph", {
+        text: "Bold red link unsafe",
+        richText: [
+          {
+            type: "text",
+            text: "Bold",
+            annotations: { ...annotations, bold: true, underline: true },
+          },
+          { type: "text", text: " " },
+          {
+            type: "text",
+            text: "red",
+            annotations: { ...annotations, color: "red" },
+          },
+          { type: "text", text: " " },
+          { type: "text", text: "link", href: "https://example.com/?a=1&b=2" },
+          { type: "text", text: " " },
+          { type: "text", text: "unsafe", href: "javascript:alert(1)" },
+        ],
+      }),
+    ]);
+
+    expect(result).toBe(
+      '<p><u><strong>Bold</strong></u> <span class="color-red">red</span> <a href="https://example.com/?a=1&amp;b=2">link</a> unsafe</p>\n'
+    );
+  });
+
+  it("should render tables with header cells", () => {
+    const row = (id: string, cells: string[]) =>
+      block(
+        "table_row",
+        {
+          cells: cells.map((text) => ({
+            text,
+            richText: [{ type: "text", text }],
+          })),
+        },
+        id
+      );
+    const result = renderer.render([
+      {
+        id: "table",
+        type: "table",
+        content: {
+          tableWidth: 2,
+          hasColumnHeader: true,
+          hasRowHeader: true,
+          children: [row("r1", ["", "Value"]), row("r2", ["Row", "1"])],
+        },
+        hasChildren: true,
+      },
+    ]);
+
+    expect(result).toBe(
+      "<table>\n<thead>\n<tr><th></th><th>Value</th></tr>\n</thead>\n<tbody>\n<tr><th>Row</th><td>1</td></tr>\n</tbody>\n</table>\n"
+    );
+  });
+
+  it("should render callouts, toggles, dividers and equations", () => {
+    const result = renderer.render([
+      block("callout", { text: "Note", icon: "💡" }),
+      {
+        id: "toggle",
+        type: "toggle",
+        content: {
+          text: "More",
+          children: [block("paragraph", "Hidden")],
+        },
+        hasChildren: true,
+      },
+      block("divider", {}),
+      block("equation", { expression: "a<b" }),
+    ]);
+
+    expect(result).toBe(
+      '<aside class="callout"><span class="callout-icon">💡</span><p>Note</p></aside>\n<details><summary>More</summary>\n<p>Hidden</p>\n</details>\n<hr>\n<div class="equation">a&lt;b</div>\n'
+    );
+  });
+
+  it("should embed uploaded videos and link external resources", () => {
+    const result = renderer.render([
+      block("video", {
+        type: "file",
+        url: "https://files.example.com/v.mp4",
+        caption: "Demo",
+      }),
+      block(
+        "video",
+        { type: "external", url: "https://youtu.be/x", caption: "" },
+        "2"
+      ),
+      block("pdf", { url: "https://example.com/d.pdf", name: "d.pdf" }),
+    ]);
+
+    expect(result).toBe(
+      '<figure><video src="https://files.example.com/v.mp4" controls></video><figcaption>Demo</figcaption></figure>\n<p><a href="https://youtu.be/x">https://youtu.be/x</a></p>\n<p><a href="https://example.com/d.pdf">d.pdf</a></p>\n'
+    );
+  });
+
+  it("should render absorbed child pages as sections", () => {
+    const result = renderer.render([
+      block("child_page", { title: "Skipped" }, "empty"),
+      {
+        id: "page",
+        type: "child_page",
+        content: {
+          title: "Nested <page>",
+          children: [block("paragraph", "Body")],
+        },
+        hasChildren: true,
+      },
+    ]);
+
+    expect(result).toBe(
+      "<section>\n<h2>Nested &lt;page&gt;</h2>\n<p>Body</p>\n</section>\n"
+    );
+  });
+
+  it("should render a table of contents and heading anchors when enabled", () => {
+    const result = new HtmlRenderer({ tableOfContents: true }).render([
+      block("heading_1", "Intro", "1"),
+      block("heading_2", "Setup", "2"),
+      block("heading_3", "Install", "3"),
+      block("heading_1", "Usage", "4"),
+    ]);
+
+    expect(result).toBe(
+      '<nav class="toc">\n<ul><li><a href="#intro">Intro</a><ul><li><a href="#setup">Setup</a><ul><li><a href="#install">Install</a></li></ul></li></ul></li><li><a href="#usage">Usage</a></li></ul>\n</nav>\n<h1 id="intro">Intro</h1>\n<h2 id="setup">Setup</h2>\n<h3 id="install">Install</h3>\n<h1 id="usage">Usage</h1>\n'
+    );
+  });
+});
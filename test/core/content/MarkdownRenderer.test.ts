@@ -0,0 +1,319 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MarkdownRenderer } from "../../../src/core/content/MarkdownRenderer";
+import { Block } from "../../../src/types";
+
+/**
+ * Helper to create a transformed block
+ */
+function block(type: string, content: any, id = type): Block {
+  return { id, type, content, hasChildren: false };
+}
+
+describe("MarkdownRenderer", () => {
+  let renderer: MarkdownRenderer;
+
+  beforeEach(() => {
+    renderer = new MarkdownRenderer();
+  });
+
+  it("should return an empty string for no blocks", () => {
+    expect(renderer.render([])).toBe("");
+  });
+
+  it("should render headings and paragraphs", () => {
+    const result = renderer.render([
+      block("heading_1", "Title"),
+      block("paragraph", "First paragraph"),
+      block("heading_2", "Section"),
+      block("heading_3", "Subsection"),
+    ]);
+
+    expect(result).toBe(
+      "# Title\n\nFirst paragraph\n\n## Section\n\n### Subsection\n"
+    );
+  });
+
+  it("should number consecutive numbered list items", () => {
+    const result = renderer.render([
+      block("numbered_list_item", "One", "1"),
+      block("numbered_list_item", "Two", "2"),
+      block("numbered_list_item", "Three", "3"),
+      block("paragraph", "Break"),
+      block("numbered_list_item", "Restart", "4"),
+    ]);
+
+    expect(result).toBe("1. One\n2. Two\n3. Three\n\nBreak\n\n1. Restart\n");
+  });
+
+  it("should indent nested list items under their parent", () => {
+    const result = renderer.render([
+      {
+        id: "parent",
+        type: "numbered_list_item",
+        content: {
+          text: "Parent",
+          children: [
+            block("bulleted_list_item", "Child", "child-1"),
+            {
+              id: "child-2",
+              type: "bulleted_list_item",
+              content: {
+                text: "Child with children",
+                children: [block("numbered_list_item", "Grandchild")],
+              },
+              hasChildren: true,
+            },
+          ],
+        },
+        hasChildren: true,
+      },
+    ]);
+
+    expect(result).toBe(
+      "1. Parent\n   - Child\n   - Child with children\n     1. Grandchild\n"
+    );
+  });
+
+  it("should render to-do items as task list entries", () => {
+    const result = renderer.render([
+      block("to_do", { text: "Done", checked: true }, "1"),
+      block("to_do", { text: "Open", checked: false }, "2"),
+    ]);
+
+    expect(result).toBe("- [x] Done\n- [ ] Open\n");
+  });
+
+  it("should render code blocks with their language", () => {
+    const result = renderer.render([
+      block("code", { text: "const a = 1;", language: "typescript" }),
+      block("code", { text: "plain", language: "plain text" }, "2"),
+    ]);
+
+    expect(result).toBe(
+      "```typescript\nconst a = 1;\n```\n\n```\nplain\n```\n"
+    );
+  });
+
+  it("should use a longer fence when the code contains backticks", () => {
+    const result = renderer.render([
+      block("code", { text: "```js\nx\n```", language: "markdown" }),
+    ]);
+
+    expect(result).toBe("````markdown\n```js\nx\n```\n````\n");
+  });
+
+  it("should render images with captions", () => {
+    const result = renderer.render([
+      block("image", {
+        type: "external",
+        url: "https://example.com/a b.png",
+        caption: "A diagram",
+      }),
+      block("image", { type: "file", url: "https://example.com/c.png" }, "2"),
+    ]);
+
+    expect(result).toBe(
+      "![A diagram](https://example.com/a%20b.png)\n*A diagram*\n\n![](https://example.com/c.png)\n"
+    );
+  });
+
+  it("should render quotes including multiple lines", () => {
+    const result = renderer.render([block("quote", "Line one\nLine two")]);
+
+    expect(result).toBe("> Line one  \n> Line two\n");
+  });
+
+  it("should escape Markdown control characters in text", () => {
+    const result = renderer.render([
+      block("paragraph", "Use *args and snake_case [here]"),
+    ]);
+
+    expect(result).toBe("Use \\*args and snake\\_case \\[here\\]\n");
+  });
+
+  it("should skip child pages", () => {
+    const result = renderer.render([
+      block("paragraph", "Intro"),
+      block("child_page", { title: "Nested page" }),
+    ]);
+
+    expect(result).toBe("Intro\n");
+  });
+
+  it("should render absorbed child pages as sections", () => {
+    const result = renderer.render([
+      block("paragraph", "Intro"),
+      {
+        id: "page",
+        type: "child_page",
+        content: {
+          title: "Nested page",
+          children: [block("paragraph", "Body")],
+        },
+        hasChildren: true,
+      },
+    ]);
+
+    expect(result).toBe("Intro\n\n## Nested page\n\nBody\n");
+  });
+
+  it("should render inline annotations and links", () => {
+    const annotations = {
+      bold: false,
+      italic: false,
+      strikethrough: false,
+      underline: false,
+      code: false,
+      color: "default",
+    };
+    const result = renderer.render([
+      block("paragraph", {
+        text: "Bold, italic code and a link",
+        richText: [
+          {
+            type: "text",
+            text: "Bold, ",
+            annotations: { ...annotations, bold: true },
+          },
+          {
+            type: "text",
+            text: "italic ",
+            annotations: { ...annotations, italic: true },
+          },
+          {
+            type: "text",
+            text: "code",
+            annotations: { ...annotations, code: true },
+          },
+          { type: "text", text: " and " },
+          {
+            type: "text",
+            text: "a link",
+            href: "https://example.com/a_(b)",
+            annotations: { ...annotations, strikethrough: true },
+          },
+        ],
+      }),
+    ]);
+
+    expect(result).toBe(
+      "**Bold,** *italic* `code` and [~~a link~~](https://example.com/a_%28b%29)\n"
+    );
+  });
+
+  it("should render inline equations and mentions", () => {
+    const result = renderer.render([
+      block("paragraph", {
+        text: "See Page at x^2",
+        richText: [
+          { type: "text", text: "See " },
+          {
+            type: "mention",
+            text: "Page",
+            href: "https://www.notion.so/abc",
+            mention: { type: "page", id: "abc" },
+          },
+          { type: "text", text: " at " },
+          { type: "equation", text: "x^2" },
+        ],
+      }),
+    ]);
+
+    expect(result).toBe("See [Page](https://www.notion.so/abc) at $x^2$\n");
+  });
+
+  it("should render tables with a header row", () => {
+    const row = (id: string, cells: string[]) =>
+      block(
+        "table_row",
+        {
+          cells: cells.map((text) => ({
+            text,
+            richText: [{ type: "text", text }],
+          })),
+        },
+        id
+      );
+    const result = renderer.render([
+      {
+        id: "table",
+        type: "table",
+        content: {
+          tableWidth: 2,
+          hasColumnHeader: true,
+          hasRowHeader: false,
+          children: [row("r1", ["Name", "Value"]), row("r2", ["a|b", "1"])],
+        },
+        hasChildren: true,
+      },
+    ]);
+
+    expect(result).toBe("| Name | Value |\n| --- | --- |\n| a\\|b | 1 |\n");
+  });
+
+  it("should render callouts, toggles, dividers and equations", () => {
+    const result = renderer.render([
+      block("callout", { text: "Note", icon: "💡" }),
+      {
+        id: "toggle",
+        type: "toggle",
+        content: {
+          text: "More",
+          children: [block("paragraph", "Hidden")],
+        },
+        hasChildren: true,
+      },
+      block("divider", {}),
+      block("equation", { expression: "a^2+b^2" }),
+    ]);
+
+    expect(result).toBe(
+      "> 💡 Note\n\n<details>\n<summary>More</summary>\n\nHidden\n\n</details>\n\n---\n\n$$\na^2+b^2\n$$\n"
+    );
+  });
+
+  it("should render bookmarks, files and column layouts as content", () => {
+    const result = renderer.render([
+      block("bookmark", { url: "https://example.com", caption: "" }),
+      {
+        id: "columns",
+        type: "column_list",
+        content: {
+          children: [
+            {
+              id: "column",
+              type: "column",
+              content: {
+                children: [
+                  block("file", {
+                    url: "https://example.com/f.zip",
+                    caption: "",
+                    name: "f.zip",
+                  }),
+                ],
+              },
+              hasChildren: true,
+            },
+          ],
+        },
+        hasChildren: true,
+      },
+    ]);
+
+    expect(result).toBe(
+      "[https://example.com](https://example.com)\n\n[f.zip](https://example.com/f.zip)\n"
+    );
+  });
+
+  it("should render a table of contents when enabled", () => {
+    const result = new MarkdownRenderer({ tableOfContents: true }).render([
+      block("heading_1", "Setup [beta]", "1"),
+      block("paragraph", "Body"),
+      block("heading_3", "Install", "2"),
+    ]);
+
+    expect(result).toBe(
+      "- [Setup \\[beta\\]](#setup-beta)\n  - [Install](#install)\n\n# Setup \\[beta\\]\n\nBody\n\n### Install\n"
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { OutlineExtractor } from "../../../src/core/content/OutlineExtractor";
+import { Block } from "../../../src/types";
+
+/**
+ * Helper to create a transformed block
+ */
+function block(type: string, content: any, id = type): Block {
+  return { id, type, content, hasChildren: false };
+}
+
+describe("OutlineExtractor", () => {
+  const extractor = new OutlineExtractor();
+
+  describe("extract", () => {
+    it("should collect headings in document order", () => {
+      const outline = extractor.extract([
+        block("heading_1", { text: "Getting Started", richText: [] }, "h1"),
+        block("paragraph", "Body"),
+        block("heading_2", "Install  the\nCLI", "h2"),
+        block("heading_3", "Node.js & npm (v18+)", "h3"),
+      ]);
+
+      expect(outline).toEqual([
+        {
+          level: 1,
+          text: "Getting Started",
+          slug: "getting-started",
+          blockId: "h1",
+        },
+        {
+          level: 2,
+          text: "Install the CLI",
+          slug: "install-the-cli",
+          blockId: "h2",
+        },
+        {
+          level: 3,
+          text: "Node.js & npm (v18+)",
+          slug: "nodejs--npm-v18",
+          blockId: "h3",
+        },
+      ]);
+    });
+
+    it("should include nested headings and absorbed child pages", () => {
+      const outline = extractor.extract([
+        {
+          id: "toggle",
+          type: "toggle",
+          content: { text: "More", children: [block("heading_3", "Hidden")] },
+          hasChildren: true,
+        },
+        block("child_page", { title: "Skipped" }, "empty"),
+        {
+          id: "page",
+          type: "child_page",
+          content: {
+            title: "Appendix",
+            children: [block("paragraph", "Body")],
+          },
+          hasChildren: true,
+        },
+      ]);
+
+      expect(outline.map(({ level, text }) => ({ level, text }))).toEqual([
+        { level: 3, text: "Hidden" },
+        { level: 2, text: "Appendix" },
+      ]);
+    });
+
+    it("should give repeated headings unique slugs", () => {
+      const outline = extractor.extract([
+        block("heading_2", "Example", "1"),
+        block("heading_2", "Example", "2"),
+        block("heading_2", "Über Café", "3"),
+        block("heading_2", "", "4"),
+      ]);
+
+      expect(outline.map((entry) => entry.slug)).toEqual([
+        "example",
+        "example-1",
+        "über-café",
+      ]);
+    });
+  });
+
+  describe("toText", () => {
+    it("should indent headings without skipping levels", () => {
+      const outline = extractor.extract([
+        block("heading_2", "Intro", "1"),
+        block("heading_3", "Details", "2"),
+        block("heading_1", "Title", "3"),
+        block("heading_3", "Deep", "4"),
+      ]);
+
+      expect(OutlineExtractor.getDepths(outline)).toEqual([0, 1, 0, 1]);
+      expect(OutlineExtractor.toText(outline)).toBe(
+        "Intro\n  Details\nTitle\n  Deep"
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { TextAnalyzer } from "../../../src/core/content/TextAnalyzer";
+
+describe("TextAnalyzer", () => {
+  const analyzer = new TextAnalyzer();
+
+  const chinese =
+    "闭包是函数和其周围状态的组合。闭包让内部函数可以访问外部函数的作用域。在JavaScript中，闭包在函数创建时生成。";
+  const japanese =
+    "クロージャは関数とその周囲の状態の組み合わせです。クロージャを使うと、内側の関数から外側の関数のスコープにアクセスできます。";
+  const korean =
+    "클로저는 함수와 그 주변 상태의 조합입니다. 클로저를 사용하면 내부 함수에서 외부 함수의 범위에 접근할 수 있습니다.";
+
+  describe("detectLanguage", () => {
+    it("should detect languages from their scripts", () => {
+      expect(analyzer.detectLanguage(chinese)).toBe("zh");
+      expect(analyzer.detectLanguage(japanese)).toBe("ja");
+      expect(analyzer.detectLanguage(korean)).toBe("ko");
+      expect(
+        analyzer.detectLanguage("A closure is the combination of a function.")
+      ).toBe("en");
+      expect(
+        analyzer.detectLanguage(
+          "Une fermeture combine une fonction et ses variables."
+        )
+      ).toBe("other");
+    });
+
+    it("should ignore code when detecting the language", () => {
+      const content = `这是一个关于闭包的例子\n\n\`\`\`javascript\nfunction makeCounter() {\n  let count = 0;\n  return () => count++;\n}\n\`\`\``;
+
+      expect(analyzer.detectLanguage(content)).toBe("zh");
+    });
+  });
+
+  describe("analyze", () => {
+    it("should count code separately from prose", () => {
+      const stats = analyzer.analyze(
+        "<p>Closures 闭包</p>\n<pre><code>const a = 1;\n\nconst b = 2;</code></pre>"
+      );
+
+      expect(stats).toEqual({
+        language: "zh",
+        words: 1,
+        characters: 2,
+        codeLines: 2,
+      });
+    });
+  });
+
+  describe("countWords", () => {
+    it("should count each CJK character as a word", () => {
+      expect(analyzer.countWords("使用React开发")).toBe(5);
+      expect(analyzer.countWords("## Heading\n\n- one *two*")).toBe(3);
+      expect(analyzer.countWords("")).toBe(0);
+    });
+  });
+
+  describe("estimateReadingTime", () => {
+    it("should read Chinese by character", () => {
+      // 900 characters at 300 characters per minute
+      expect(analyzer.estimateReadingTime("闭包".repeat(450))).toBe(3);
+    });
+
+    it("should read English by word", () => {
+      expect(
+        analyzer.estimateReadingTime(Array(450).fill("word").join(" "), "en")
+      ).toBe(3);
+    });
+
+    it("should add the time spent on code", () => {
+      const code = Array(40).fill("x = 1").join("\n");
+
+      expect(
+        analyzer.estimateReadingTime(`Intro\n\n\`\`\`\n${code}\n\`\`\``)
+      ).toBe(3);
+    });
+
+    it("should return 0 for empty content", () => {
+      expect(analyzer.estimateReadingTime("  ")).toBe(0);
+    });
+  });
+
+  describe("extractKeywords", () => {
+    it("should extract repeated Chinese terms without stop words", () => {
+      const keywords = analyzer.extractKeywords(chinese, 5, "zh");
+
+      expect(keywords).toContain("闭包");
+      expect(keywords).toContain("函数");
+      expect(keywords).toContain("javascript");
+      expect(keywords).not.toContain("可以");
+    });
+
+    it("should extract Japanese katakana and kanji terms", () => {
+      const keywords = analyzer.extractKeywords(japanese, 5, "ja");
+
+      expect(keywords).toContain("クロージャ");
+      expect(keywords).toContain("関数");
+    });
+
+    it("should strip Korean particles", () => {
+      const keywords = analyzer.extractKeywords(korean, 5, "ko");
+
+      expect(keywords).toContain("클로저");
+      expect(keywords).toContain("함수");
+    });
+
+    it("should skip English stop words and words with digits", () => {
+      const keywords = analyzer.extractKeywords(
+        "This closure keeps state. This closure uses version2 of the API.",
+        5,
+        "en"
+      );
+
+      expect(keywords[0]).toBe("closure");
+      expect(keywords).not.toContain("this");
+      expect(keywords).not.toContain("version2");
+    });
+  });
+
+  describe("extractTitleTerms", () => {
+    it("should split mixed titles into terms", () => {
+      expect(analyzer.extractTitleTerms("深入理解JavaScript闭包")).toEqual([
+        "javascript",
+        "深入理解",
+        "闭包",
+      ]);
+    });
+  });
+});
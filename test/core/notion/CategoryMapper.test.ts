@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { CategoryMapper } from "../../../src/core/notion/CategoryMapper";
+
+describe("CategoryMapper", () => {
+  describe("map", () => {
+    it("should keep titles that match no rule", () => {
+      const mapper = new CategoryMapper([{ match: "^MIT", prefix: "CITS" }]);
+
+      expect(mapper.map("Submit Guides")).toEqual({ name: "Submit Guides" });
+    });
+
+    it("should rename using capture groups and add a prefix", () => {
+      const mapper = new CategoryMapper([
+        { match: "^MIT\\s*(\\d+)$", rename: "$1", prefix: "CITS" },
+      ]);
+
+      expect(mapper.map("MIT 3701")).toEqual({ name: "CITS3701" });
+    });
+
+    it("should merge aliases into an existing category", () => {
+      const mapper = new CategoryMapper([
+        { match: "^(js|javascript)$", flags: "i", alias: "JavaScript" },
+      ]);
+
+      expect(mapper.map("JS")).toEqual({ name: "JavaScript" });
+      expect(mapper.map("javascript")).toEqual({ name: "JavaScript" });
+    });
+
+    it("should exclude matching categories", () => {
+      const mapper = new CategoryMapper([{ match: "^Archive", exclude: true }]);
+
+      expect(mapper.map("Archive 2020")).toBeUndefined();
+    });
+
+    it("should assign a parent category", () => {
+      const mapper = new CategoryMapper([
+        { match: "^React", parent: "Frontend" },
+      ]);
+
+      expect(mapper.map("React Hooks")).toEqual({
+        name: "React Hooks",
+        parent: "Frontend",
+      });
+    });
+
+    it("should apply only the first matching rule", () => {
+      const mapper = new CategoryMapper([
+        { match: "Guide", alias: "Guides", flags: "g" },
+        { match: "Guide", exclude: true },
+      ]);
+
+      expect(mapper.map("User Guide")).toEqual({ name: "Guides" });
+      expect(mapper.map("Admin Guide")).toEqual({ name: "Guides" });
+    });
+  });
+
+  describe("validate", () => {
+    it("should accept valid rules", () => {
+      expect(
+        CategoryMapper.validate([{ match: "^MIT", prefix: "CITS" }])
+      ).toEqual([]);
+    });
+
+    it("should reject rules that are not an array", () => {
+      expect(CategoryMapper.validate("[not json")).toEqual([
+        "Category rules must be an array",
+      ]);
+    });
+
+    it("should report invalid rules", () => {
+      const errors = CategoryMapper.validate([
+        { prefix: "CITS" },
+        { match: "(", exclude: true },
+        { match: "x", rename: "y", alias: "z" },
+        { match: "x" },
+      ]);
+
+      expect(errors).toHaveLength(4);
+      expect(errors[0]).toBe("Category rule 1 must have a match pattern");
+      expect(errors[1]).toMatch(/^Category rule 2 has an invalid pattern/);
+      expect(errors[2]).toBe("Category rule 3 cannot both rename and alias");
+      expect(errors[3]).toMatch(/^Category rule 4 has no action/);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ContentCache } from "../../../src/core/notion/ContentCache";
+import { PageContent } from "../../../src/types";
+
+// Mock fs-extra
+vi.mock("fs-extra", () => ({
+  ensureDir: vi.fn(),
+  pathExists: vi.fn(),
+  readJSON: vi.fn(),
+  writeJSON: vi.fn(),
+  remove: vi.fn(),
+}));
+
+describe("ContentCache", () => {
+  let cache: ContentCache;
+  const cacheDir = "/tmp/notion-cache";
+  const filePath = path.join(cacheDir, "abc123.json");
+
+  const pageContent: PageContent = {
+    title: "Cached Page",
+    blocks: [
+      {
+        id: "block1",
+        type: "paragraph",
+        content: { text: "Hello", richText: [{ type: "text", text: "Hello" }] },
+        hasChildren: false,
+      },
+    ],
+    properties: {},
+    createdTime: "2024-03-08T00:00:00.000Z",
+    lastEditedTime: "2024-03-08T01:00:00.000Z",
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fs.ensureDir).mockResolvedValue();
+    vi.mocked(fs.writeJSON).mockResolvedValue();
+
+    cache = new ContentCache(cacheDir);
+  });
+
+  describe("get", () => {
+    it("should return undefined when the page is not cached", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(false));
+
+      const result = await cache.get("abc-123", pageContent.lastEditedTime);
+
+      expect(result).toBeUndefined();
+      expect(fs.pathExists).toHaveBeenCalledWith(filePath);
+    });
+
+    it("should return the cached content when the page is unchanged", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValue({ version: 2, pageContent });
+
+      const result = await cache.get("abc-123", pageContent.lastEditedTime);
+
+      expect(result).toEqual(pageContent);
+    });
+
+    it("should ignore entries for a different edit time or version", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValueOnce({ version: 2, pageContent });
+      vi.mocked(fs.readJSON).mockResolvedValueOnce({ version: 1, pageContent });
+
+      expect(
+        await cache.get("abc-123", "2024-03-09T00:00:00.000Z")
+      ).toBeUndefined();
+      expect(
+        await cache.get("abc-123", pageContent.lastEditedTime)
+      ).toBeUndefined();
+    });
+
+    it("should ignore entries with expired Notion file URLs", async () => {
+      const imageBlock = (expiryTime: string) => ({
+        id: "image1",
+        type: "image",
+        content: { url: "https://files.example.com/a.png", expiryTime },
+        hasChildren: false,
+      });
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValueOnce({
+        version: 2,
+        pageContent: {
+          ...pageContent,
+          blocks: [imageBlock("2000-01-01T00:00:00.000Z")],
+        },
+      });
+      vi.mocked(fs.readJSON).mockResolvedValueOnce({
+        version: 2,
+        pageContent: {
+          ...pageContent,
+          blocks: [imageBlock("2999-01-01T00:00:00.000Z")],
+        },
+      });
+
+      expect(
+        await cache.get("abc-123", pageContent.lastEditedTime)
+      ).toBeUndefined();
+      expect(
+        await cache.get("abc-123", pageContent.lastEditedTime)
+      ).toBeDefined();
+    });
+
+    it("should treat unreadable entries as a miss", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockRejectedValue(new Error("Unexpected token"));
+
+      const result = await cache.get("abc-123", pageContent.lastEditedTime);
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe("set", () => {
+    it("should write the page content with the cache version", async () => {
+      await cache.set("abc-123", pageContent);
+
+      expect(fs.ensureDir).toHaveBeenCalledWith(cacheDir);
+      expect(fs.writeJSON).toHaveBeenCalledWith(filePath, {
+        version: 2,
+        pageContent,
+      });
+    });
+
+    it("should not throw when writing fails", async () => {
+      vi.mocked(fs.writeJSON).mockRejectedValue(new Error("Disk full"));
+
+      await expect(cache.set("abc-123", pageContent)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("clear", () => {
+    it("should remove the cache directory", async () => {
+      vi.mocked(fs.remove).mockResolvedValue();
+
+      await cache.clear();
+
+      expect(fs.remove).toHaveBeenCalledWith(cacheDir);
+    });
+  });
+});
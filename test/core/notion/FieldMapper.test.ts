@@ -0,0 +1,327 @@
+import { describe, expect, it } from "vitest";
+import { FieldMapper } from "../../../src/core/notion/FieldMapper";
+import {
+  ContentPage,
+  FieldMapping,
+  NotionEntry,
+  Status,
+} from "../../../src/types";
+
+describe("FieldMapper", () => {
+  const contentPage: ContentPage = {
+    id: "page-id",
+    title: "Closures",
+    parentId: "parent-id",
+    category: "JavaScript",
+    content: "Content",
+    summary: "What closures are",
+    tags: ["functions", "scope"],
+    minsRead: 4,
+    originalPageUrl: "https://www.notion.so/page-id",
+    outline: [{ level: 1, text: "Intro", slug: "intro", blockId: "h1" }],
+    createdTime: "2024-01-01T00:00:00Z",
+    lastEditedTime: "2024-01-02T00:00:00Z",
+  };
+
+  const mapping: FieldMapping = {
+    title: { property: "Name", type: "title" },
+    category: { property: "Topics", type: "multi_select" },
+    tags: { property: "Tag", type: "select" },
+    summary: { type: "callout" },
+    minsRead: { property: "Reading Time", type: "rich_text" },
+    originalPageUrl: { property: "Source", type: "url" },
+  };
+
+  describe("toProperties", () => {
+    it("should write the built-in properties by default", () => {
+      const properties = new FieldMapper().toProperties(contentPage);
+
+      expect(Object.keys(properties)).toEqual([
+        "Title",
+        "Category",
+        "Tags",
+        "Summary",
+        "Excerpt",
+        "Mins Read",
+        "Image",
+        "R2ImageUrl",
+        "Date Created",
+        "Status",
+        "Original Page",
+        "Published",
+        "Source ID",
+      ]);
+      expect(properties.Status).toEqual({ select: { name: "Draft" } });
+      expect(properties.Image).toEqual({ url: null });
+    });
+
+    it("should write only bound fields with their property types", () => {
+      const properties = new FieldMapper(mapping).toProperties(contentPage);
+
+      expect(properties).toEqual({
+        Name: { title: [{ type: "text", text: { content: "Closures" } }] },
+        Topics: { multi_select: [{ name: "JavaScript" }] },
+        Tag: { select: { name: "functions" } },
+        "Reading Time": {
+          rich_text: [{ type: "text", text: { content: "4" } }],
+        },
+        Source: { url: "https://www.notion.so/page-id" },
+      });
+    });
+
+    it("should bind the outline property unless the mapping binds the outline", () => {
+      expect(
+        new FieldMapper(undefined, "Outline").toProperties(contentPage).Outline
+      ).toEqual({ rich_text: [{ type: "text", text: { content: "Intro" } }] });
+      expect(
+        new FieldMapper(mapping, "Outline").toProperties(contentPage).Outline
+      ).toBeDefined();
+      expect(
+        new FieldMapper(
+          { ...mapping, outline: { type: "callout" } },
+          "Outline"
+        ).toProperties(contentPage).Outline
+      ).toBeUndefined();
+    });
+  });
+
+  describe("toFieldProperties", () => {
+    it("should write a single value to the property of its field", () => {
+      const mapper = new FieldMapper(mapping);
+
+      expect(mapper.toFieldProperties("tags", ["scope"])).toEqual({
+        Tag: { select: { name: "scope" } },
+      });
+      expect(mapper.toFieldProperties("summary", "Text")).toEqual({});
+      expect(mapper.toFieldProperties("status", "Archived")).toEqual({});
+    });
+  });
+
+  describe("withCategoryRelation", () => {
+    it("should write the category as a relation with the category rows", () => {
+      const mapper = new FieldMapper(FieldMapper.withCategoryRelation(mapping));
+      mapper.setRelatedPages(new Map([["JavaScript", "row-1"]]));
+
+      expect(mapper.getBinding("category")).toEqual({
+        property: "Topics",
+        type: "relation",
+      });
+      expect(mapper.toFieldProperties("category", "JavaScript")).toEqual({
+        Topics: { relation: [{ id: "row-1" }] },
+      });
+      expect(mapper.toFieldProperties("category", "Rust")).toEqual({
+        Topics: { relation: [] },
+      });
+      expect(
+        mapper.readField(
+          {
+            id: "entry-id",
+            properties: { Topics: { relation: [{ id: "row-1" }] } },
+            url: "https://notion.so/entry-id",
+            created_time: "2024-01-01T00:00:00Z",
+            last_edited_time: "2024-01-02T00:00:00Z",
+          },
+          "category"
+        )
+      ).toEqual(["row-1"]);
+    });
+
+    it("should keep a category that is not written to a property", () => {
+      expect(
+        FieldMapper.withCategoryRelation({
+          ...mapping,
+          category: { type: "callout" },
+        }).category
+      ).toEqual({ type: "callout" });
+      expect(FieldMapper.withCategoryRelation().category).toEqual({
+        property: "Category",
+        type: "relation",
+      });
+    });
+  });
+
+  describe("toCallouts", () => {
+    it("should create callouts for fields bound to the body", () => {
+      const callouts = new FieldMapper(mapping).toCallouts(contentPage);
+
+      expect(callouts).toEqual([
+        {
+          id: "page-id-summary",
+          type: "callout",
+          content: { text: "What closures are", richText: [] },
+          hasChildren: false,
+        },
+      ]);
+      expect(
+        new FieldMapper(mapping).toCallouts({
+          ...contentPage,
+          summary: undefined,
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe("readField", () => {
+    const entry: NotionEntry = {
+      id: "entry-id",
+      properties: {
+        Name: { title: [{ plain_text: "Clo" }, { plain_text: "sures" }] },
+        Topics: { multi_select: [{ name: "JavaScript" }] },
+        Tag: { select: null },
+        Source: { url: "https://www.notion.so/page-id" },
+      },
+      url: "https://notion.so/entry-id",
+      created_time: "2024-01-01T00:00:00Z",
+      last_edited_time: "2024-01-02T00:00:00Z",
+    };
+
+    it("should read fields back from their properties", () => {
+      const mapper = new FieldMapper(mapping);
+
+      expect(mapper.readField(entry, "title")).toBe("Closures");
+      expect(mapper.readField(entry, "category")).toEqual(["JavaScript"]);
+      expect(mapper.readField(entry, "tags")).toBeUndefined();
+      expect(mapper.readField(entry, "originalPageUrl")).toBe(
+        "https://www.notion.so/page-id"
+      );
+    });
+
+    it("should read and write status properties", () => {
+      const mapper = new FieldMapper({
+        status: { property: "Stage", type: "status" },
+      });
+
+      expect(
+        mapper.toProperties({ ...contentPage, status: Status.Ready })
+      ).toEqual({ Stage: { status: { name: "Ready" } } });
+      expect(
+        mapper.readField(
+          { ...entry, properties: { Stage: { status: { name: "Done" } } } },
+          "status"
+        )
+      ).toBe("Done");
+      expect(
+        FieldMapper.validate({
+          ...mapping,
+          status: { property: "Stage", type: "status" },
+        })
+      ).toEqual([]);
+    });
+
+    it("should write the status field to the status property of a database", () => {
+      const mapper = new FieldMapper();
+
+      mapper.useStatusProperty({
+        name: "Content Database",
+        properties: {
+          Status: { type: "status" },
+          Category: { type: "status" },
+        },
+      });
+
+      expect(mapper.getBinding("status")).toEqual({
+        property: "Status",
+        type: "status",
+      });
+      expect(mapper.getBinding("category")?.type).toBe("select");
+      expect(FieldMapper.DEFAULT_MAPPING.status?.type).toBe("select");
+    });
+
+    it("should not read unbound fields or callouts", () => {
+      const mapper = new FieldMapper(mapping);
+
+      expect(mapper.readField(entry, "summary")).toBeUndefined();
+      expect(mapper.readField(entry, "status")).toBeUndefined();
+      expect(mapper.getPropertyFields()).not.toContain("summary");
+    });
+  });
+
+  describe("ownership", () => {
+    it("should let the source own the title and fill in other fields", () => {
+      const mapper = new FieldMapper(mapping, undefined, {
+        tags: "database-wins",
+      });
+
+      expect(mapper.getOwnership("title")).toBe("source-wins");
+      expect(mapper.getOwnership("tags")).toBe("database-wins");
+      expect(mapper.getOwnership("summary")).toBe("fill-if-empty");
+    });
+
+    it("should convert values into the values read back after writing them", () => {
+      const mapper = new FieldMapper(mapping);
+
+      expect(mapper.toStoredValue("tags", ["functions", "scope"])).toBe(
+        "functions"
+      );
+      expect(mapper.toStoredValue("minsRead", 4)).toBe("4");
+      expect(mapper.toStoredValue("summary", "Text")).toBeUndefined();
+    });
+
+    it("should validate the configured ownership", () => {
+      expect(
+        FieldMapper.validateOwnership({
+          status: "database-wins",
+          summary: "ai-only-once",
+        })
+      ).toEqual([]);
+      expect(FieldMapper.validateOwnership("source-wins")).toEqual([
+        "Field ownership must be an object",
+      ]);
+      expect(
+        FieldMapper.validateOwnership({
+          author: "source-wins",
+          sourceId: "database-wins",
+          tags: "editor-wins",
+          status: "ai-only-once",
+        })
+      ).toEqual([
+        "Unknown field in field ownership: author",
+        "The ownership of the sourceId field cannot be changed",
+        'Unsupported ownership of field "tags": editor-wins (expected source-wins, database-wins, fill-if-empty, ai-only-once)',
+        'Field "status" is not generated, so it cannot be ai-only-once',
+      ]);
+    });
+  });
+
+  describe("getPropertyTypes", () => {
+    it("should list the bound properties with their types", () => {
+      expect(new FieldMapper(mapping).getPropertyTypes()).toEqual({
+        Name: "title",
+        Topics: "multi_select",
+        Tag: "select",
+        "Reading Time": "rich_text",
+        Source: "url",
+      });
+    });
+  });
+
+  describe("validate", () => {
+    it("should accept the default mapping", () => {
+      expect(FieldMapper.validate(FieldMapper.DEFAULT_MAPPING)).toEqual([]);
+    });
+
+    it("should reject a mapping that is not an object", () => {
+      expect(FieldMapper.validate([])).toEqual([
+        "Field mapping must be an object",
+      ]);
+    });
+
+    it("should reject unknown fields, incompatible types and shared properties", () => {
+      const errors = FieldMapper.validate({
+        author: { property: "Author", type: "rich_text" },
+        tags: { property: "Tags", type: "number" },
+        summary: { property: "Notes", type: "rich_text" },
+        excerpt: { property: "Notes", type: "rich_text" },
+        category: { type: "select" },
+      });
+
+      expect(errors).toEqual([
+        "Unknown field in field mapping: author",
+        'Unsupported type of field "tags": number (expected multi_select, select, rich_text)',
+        'Property "Notes" is bound to both "summary" and "excerpt"',
+        'Field "category" must name a property',
+        "Field mapping must bind the title field",
+      ]);
+    });
+  });
+});
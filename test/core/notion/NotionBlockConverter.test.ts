@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { NotionBlockConverter } from "../../../src/core/notion/NotionBlockConverter";
+import { Block } from "../../../src/types";
+
+describe("NotionBlockConverter", () => {
+  const converter = new NotionBlockConverter();
+
+  const createBlock = (
+    type: string,
+    content: any,
+    children?: Block[]
+  ): Block => ({
+    id: `${type}-id`,
+    type,
+    content: children ? { ...content, children } : content,
+    hasChildren: !!children,
+  });
+
+  const text = (value: string) => ({ text: value, richText: [] });
+
+  describe("toNotionBlocks", () => {
+    it("should convert formatted spans into rich text", () => {
+      const [block] = converter.toNotionBlocks([
+        createBlock("paragraph", {
+          text: "Bold link E=mc^2",
+          richText: [
+            {
+              type: "text",
+              text: "Bold",
+              annotations: {
+                bold: true,
+                italic: false,
+                strikethrough: false,
+                underline: false,
+                code: false,
+                color: "default",
+              },
+            },
+            { type: "text", text: " link", href: "https://example.com" },
+            { type: "text", text: " other page", href: "/0123abcd" },
+            { type: "equation", text: "E=mc^2" },
+          ],
+        }),
+      ]);
+
+      expect(block.paragraph.rich_text).toEqual([
+        {
+          type: "text",
+          text: { content: "Bold" },
+          annotations: expect.objectContaining({ bold: true }),
+        },
+        {
+          type: "text",
+          text: { content: " link", link: { url: "https://example.com" } },
+        },
+        { type: "text", text: { content: " other page" } },
+        { type: "equation", equation: { expression: "E=mc^2" } },
+      ]);
+    });
+
+    it("should split text longer than the API limit", () => {
+      const [block] = converter.toNotionBlocks([
+        createBlock("code", { text: "x".repeat(4500), language: "python" }),
+      ]);
+
+      expect(block.code.language).toBe("python");
+      expect(
+        block.code.rich_text.map((item: any) => item.text.content.length)
+      ).toEqual([2000, 2000, 500]);
+    });
+
+    it("should nest children and make headings with children toggleable", () => {
+      const [heading] = converter.toNotionBlocks([
+        createBlock("heading_2", text("Details"), [
+          createBlock("to_do", { ...text("Task"), checked: true }),
+        ]),
+      ]);
+
+      expect(heading.heading_2.is_toggleable).toBe(true);
+      expect(heading.heading_2.children).toEqual([
+        {
+          object: "block",
+          type: "to_do",
+          to_do: {
+            rich_text: [{ type: "text", text: { content: "Task" } }],
+            checked: true,
+          },
+        },
+      ]);
+    });
+
+    it("should reference media by URL and skip media without one", () => {
+      const blocks = converter.toNotionBlocks([
+        createBlock("image", {
+          type: "file",
+          url: "https://images.example.com/diagram.png",
+          caption: "Diagram",
+        }),
+        createBlock("video", { type: "file", url: "" }),
+      ]);
+
+      expect(blocks).toEqual([
+        {
+          object: "block",
+          type: "image",
+          image: {
+            type: "external",
+            external: { url: "https://images.example.com/diagram.png" },
+            caption: [{ type: "text", text: { content: "Diagram" } }],
+          },
+        },
+      ]);
+    });
+
+    it("should convert tables with their rows", () => {
+      const [table] = converter.toNotionBlocks([
+        createBlock(
+          "table",
+          { tableWidth: 2, hasColumnHeader: true, hasRowHeader: false },
+          [createBlock("table_row", { cells: [text("A"), text("")] })]
+        ),
+      ]);
+
+      expect(table.table).toEqual({
+        table_width: 2,
+        has_column_header: true,
+        has_row_header: false,
+        children: [
+          {
+            object: "block",
+            type: "table_row",
+            table_row: {
+              cells: [[{ type: "text", text: { content: "A" } }], []],
+            },
+          },
+        ],
+      });
+    });
+
+    it("should flatten synced blocks and absorbed child pages", () => {
+      const blocks = converter.toNotionBlocks([
+        createBlock("synced_block", { syncedFrom: "original" }, [
+          createBlock("divider", {}),
+        ]),
+        createBlock("child_page", { title: "Appendix" }, [
+          createBlock("quote", text("Quoted")),
+        ]),
+        createBlock("child_page", { title: "Separate page" }),
+        createBlock("unsupported", { type: "unsupported" }),
+      ]);
+
+      expect(blocks.map((block) => block.type)).toEqual([
+        "divider",
+        "heading_2",
+        "quote",
+      ]);
+      expect(blocks[1].heading_2.rich_text[0].text.content).toBe("Appendix");
+    });
+
+    it("should convert callout icons", () => {
+      const blocks = converter.toNotionBlocks([
+        createBlock("callout", { ...text("Note"), icon: "💡" }),
+        createBlock("callout", {
+          ...text("Logo"),
+          icon: "https://example.com/icon.png",
+        }),
+      ]);
+
+      expect(blocks[0].callout.icon).toEqual({ type: "emoji", emoji: "💡" });
+      expect(blocks[1].callout.icon).toEqual({
+        type: "external",
+        external: { url: "https://example.com/icon.png" },
+      });
+    });
+  });
+});
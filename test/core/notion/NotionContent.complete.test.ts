@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { NotionContent } from "../../../src/core/notion/NotionContent";
+import { RateLimiter } from "../../../src/core/notion/RateLimiter";
 import { Block, Category, NotionConfig, PageContent } from "../../../src/types";
 
 // Mock the @notionhq/client
@@ -8,6 +9,9 @@ vi.mock("@notionhq/client", () => ({
     pages: {
       retrieve: vi.fn(),
     },
+    databases: {
+      query: vi.fn(),
+    },
     blocks: {
       children: {
         list: vi.fn(),
@@ -69,7 +73,10 @@ describe("NotionContent Complete Coverage", () => {
       expect(result).toEqual({
         id: "block-id-1",
         type: "paragraph",
-        content: "Paragraph content",
+        content: {
+          text: "Paragraph content",
+          richText: [{ type: "text", text: "Paragraph content" }],
+        },
         hasChildren: false,
       });
     });
@@ -89,7 +96,10 @@ describe("NotionContent Complete Coverage", () => {
       expect(result).toEqual({
         id: "block-id-2",
         type: "heading_1",
-        content: "Heading 1 content",
+        content: {
+          text: "Heading 1 content",
+          richText: [{ type: "text", text: "Heading 1 content" }],
+        },
         hasChildren: false,
       });
     });
@@ -109,7 +119,10 @@ describe("NotionContent Complete Coverage", () => {
       expect(result).toEqual({
         id: "block-id-3",
         type: "heading_2",
-        content: "Heading 2 content",
+        content: {
+          text: "Heading 2 content",
+          richText: [{ type: "text", text: "Heading 2 content" }],
+        },
         hasChildren: false,
       });
     });
@@ -129,7 +142,10 @@ describe("NotionContent Complete Coverage", () => {
       expect(result).toEqual({
         id: "block-id-4",
         type: "heading_3",
-        content: "Heading 3 content",
+        content: {
+          text: "Heading 3 content",
+          richText: [{ type: "text", text: "Heading 3 content" }],
+        },
         hasChildren: false,
       });
     });
@@ -149,7 +165,10 @@ describe("NotionContent Complete Coverage", () => {
       expect(result).toEqual({
         id: "block-id-5",
         type: "bulleted_list_item",
-        content: "Bullet point content",
+        content: {
+          text: "Bullet point content",
+          richText: [{ type: "text", text: "Bullet point content" }],
+        },
         hasChildren: false,
       });
     });
@@ -169,7 +188,10 @@ describe("NotionContent Complete Coverage", () => {
       expect(result).toEqual({
         id: "block-id-6",
         type: "numbered_list_item",
-        content: "Numbered item content",
+        content: {
+          text: "Numbered item content",
+          richText: [{ type: "text", text: "Numbered item content" }],
+        },
         hasChildren: false,
       });
     });
@@ -192,6 +214,7 @@ describe("NotionContent Complete Coverage", () => {
         type: "to_do",
         content: {
           text: "Task content",
+          richText: [{ type: "text", text: "Task content" }],
           checked: true,
         },
         hasChildren: false,
@@ -216,6 +239,7 @@ describe("NotionContent Complete Coverage", () => {
         type: "to_do",
         content: {
           text: "Unchecked task",
+          richText: [{ type: "text", text: "Unchecked task" }],
           checked: false,
         },
         hasChildren: false,
@@ -290,6 +314,26 @@ describe("NotionContent Complete Coverage", () => {
       });
     });
 
+    it("should keep the expiry time of Notion-hosted files", () => {
+      const mockBlock = {
+        id: "block-id-13",
+        type: "image",
+        has_children: false,
+        image: {
+          type: "file",
+          file: {
+            url: "https://example.com/image.jpg",
+            expiry_time: "2024-03-08T02:00:00.000Z",
+          },
+          caption: [],
+        },
+      };
+
+      const result = (notionContent as any).transformBlock(mockBlock);
+
+      expect(result.content.expiryTime).toBe("2024-03-08T02:00:00.000Z");
+    });
+
     it("should transform image blocks with external URL", () => {
       const mockBlock = {
         id: "block-id-12",
@@ -375,6 +419,218 @@ describe("NotionContent Complete Coverage", () => {
     });
   });
 
+  describe("transformBlock for extended block types", () => {
+    it("should transform callouts with their icon", () => {
+      const result = (notionContent as any).transformBlock({
+        id: "callout-id",
+        type: "callout",
+        has_children: false,
+        callout: {
+          rich_text: [{ plain_text: "Remember this" }],
+          icon: { type: "emoji", emoji: "💡" },
+        },
+      });
+
+      expect(result.content).toEqual({
+        text: "Remember this",
+        richText: [{ type: "text", text: "Remember this" }],
+        icon: "💡",
+      });
+    });
+
+    it("should transform toggles as text blocks", () => {
+      const result = (notionContent as any).transformBlock({
+        id: "toggle-id",
+        type: "toggle",
+        has_children: true,
+        toggle: { rich_text: [{ plain_text: "Show more" }] },
+      });
+
+      expect(result.content.text).toBe("Show more");
+      expect(result.hasChildren).toBe(true);
+    });
+
+    it("should transform tables and table rows", () => {
+      const table = (notionContent as any).transformBlock({
+        id: "table-id",
+        type: "table",
+        has_children: true,
+        table: {
+          table_width: 2,
+          has_column_header: true,
+          has_row_header: false,
+        },
+      });
+      const row = (notionContent as any).transformBlock({
+        id: "row-id",
+        type: "table_row",
+        has_children: false,
+        table_row: {
+          cells: [[{ plain_text: "A" }], [{ plain_text: "B" }]],
+        },
+      });
+
+      expect(table.content).toEqual({
+        tableWidth: 2,
+        hasColumnHeader: true,
+        hasRowHeader: false,
+      });
+      expect(row.content.cells.map((cell: any) => cell.text)).toEqual([
+        "A",
+        "B",
+      ]);
+    });
+
+    it("should transform equations, bookmarks and files", () => {
+      const equation = (notionContent as any).transformBlock({
+        id: "eq-id",
+        type: "equation",
+        equation: { expression: "e=mc^2" },
+      });
+      const bookmark = (notionContent as any).transformBlock({
+        id: "bm-id",
+        type: "bookmark",
+        bookmark: {
+          url: "https://example.com",
+          caption: [{ plain_text: "Example" }],
+        },
+      });
+      const pdf = (notionContent as any).transformBlock({
+        id: "pdf-id",
+        type: "pdf",
+        pdf: {
+          type: "file",
+          file: { url: "https://files.notion.so/doc.pdf" },
+          caption: [],
+          name: "doc.pdf",
+        },
+      });
+
+      expect(equation.content).toEqual({ expression: "e=mc^2" });
+      expect(bookmark.content).toEqual({
+        url: "https://example.com",
+        caption: "Example",
+      });
+      expect(pdf.content).toEqual({
+        type: "file",
+        url: "https://files.notion.so/doc.pdf",
+        caption: "",
+        name: "doc.pdf",
+      });
+    });
+
+    it("should keep the source of synced blocks", () => {
+      const result = (notionContent as any).transformBlock({
+        id: "synced-id",
+        type: "synced_block",
+        has_children: true,
+        synced_block: { synced_from: { block_id: "original-id" } },
+      });
+
+      expect(result.content).toEqual({ syncedFrom: "original-id" });
+    });
+
+    it("should transform structural blocks with empty content", () => {
+      for (const type of ["divider", "column_list", "column"]) {
+        const result = (notionContent as any).transformBlock({
+          id: `${type}-id`,
+          type,
+          [type]: {},
+        });
+
+        expect(result.content).toEqual({});
+      }
+    });
+  });
+
+  describe("extractRichText", () => {
+    it("should keep annotations, links and mention targets", () => {
+      const mockRichText = [
+        {
+          type: "text",
+          plain_text: "Bold link",
+          href: "https://example.com",
+          text: { content: "Bold link", link: { url: "https://example.com" } },
+          annotations: {
+            bold: true,
+            italic: false,
+            strikethrough: false,
+            underline: false,
+            code: false,
+            color: "red",
+          },
+        },
+        {
+          type: "text",
+          plain_text: " plain ",
+          annotations: {
+            bold: false,
+            italic: false,
+            strikethrough: false,
+            underline: false,
+            code: false,
+            color: "default",
+          },
+        },
+        {
+          type: "mention",
+          plain_text: "Linked Page",
+          href: "https://www.notion.so/pageid",
+          mention: { type: "page", page: { id: "page-id" } },
+        },
+        {
+          type: "mention",
+          plain_text: "@Alex",
+          mention: { type: "user", user: { id: "user-id", name: "Alex" } },
+        },
+        {
+          type: "mention",
+          plain_text: "2024-01-01",
+          mention: { type: "date", date: { start: "2024-01-01", end: null } },
+        },
+      ];
+
+      const result = (notionContent as any).extractRichText(mockRichText);
+
+      expect(result).toEqual([
+        {
+          type: "text",
+          text: "Bold link",
+          href: "https://example.com",
+          annotations: {
+            bold: true,
+            italic: false,
+            strikethrough: false,
+            underline: false,
+            code: false,
+            color: "red",
+          },
+        },
+        { type: "text", text: " plain " },
+        {
+          type: "mention",
+          text: "Linked Page",
+          href: "https://www.notion.so/pageid",
+          mention: { type: "page", id: "page-id" },
+        },
+        {
+          type: "mention",
+          text: "@Alex",
+          mention: { type: "user", id: "user-id", name: "Alex" },
+        },
+        {
+          type: "mention",
+          text: "2024-01-01",
+          mention: { type: "date", start: "2024-01-01" },
+        },
+      ]);
+    });
+
+    it("should return an empty array for missing rich text", () => {
+      expect((notionContent as any).extractRichText(undefined)).toEqual([]);
+    });
+  });
+
   describe("convertBlocksToText", () => {
     it("should handle various block types when converting to text", () => {
       const mockBlocks: Block[] = [
@@ -458,6 +714,47 @@ describe("NotionContent Complete Coverage", () => {
       expect(result).toContain("console.log('Hello world');");
     });
 
+    it("should convert extended block types to text", () => {
+      const mockBlocks: Block[] = [
+        {
+          id: "1",
+          type: "callout",
+          content: { text: "Callout text", icon: "💡" },
+          hasChildren: false,
+        },
+        {
+          id: "2",
+          type: "table_row",
+          content: {
+            cells: [
+              { text: "A", richText: [] },
+              { text: "B", richText: [] },
+            ],
+          },
+          hasChildren: false,
+        },
+        {
+          id: "3",
+          type: "equation",
+          content: { expression: "x^2" },
+          hasChildren: false,
+        },
+        {
+          id: "4",
+          type: "bookmark",
+          content: { url: "https://example.com", caption: "Example" },
+          hasChildren: false,
+        },
+      ];
+
+      const result = (notionContent as any).convertBlocksToText(mockBlocks);
+
+      expect(result).toContain("Callout text");
+      expect(result).toContain("A | B");
+      expect(result).toContain("x^2");
+      expect(result).toContain("Example: https://example.com");
+    });
+
     it("should recursively process nested blocks", () => {
       const mockBlocks: Block[] = [
         {
@@ -483,6 +780,60 @@ describe("NotionContent Complete Coverage", () => {
     });
   });
 
+  describe("collectAssets", () => {
+    it("should collect inline images and attachments from nested blocks", () => {
+      const mockBlocks = [
+        {
+          id: "image1",
+          type: "image",
+          content: { url: "https://files.example.com/a.png", caption: "" },
+          hasChildren: false,
+        },
+        {
+          id: "toggle1",
+          type: "toggle",
+          content: {
+            text: "More",
+            children: [
+              {
+                id: "pdf1",
+                type: "pdf",
+                content: {
+                  url: "https://files.example.com/b.pdf",
+                  name: "b.pdf",
+                },
+                hasChildren: false,
+              },
+              {
+                id: "video1",
+                type: "video",
+                content: { url: "https://files.example.com/c.mp4" },
+                hasChildren: false,
+              },
+            ],
+          },
+          hasChildren: true,
+        },
+      ];
+
+      const result = (notionContent as any).collectAssets(mockBlocks);
+
+      expect(result).toEqual([
+        {
+          blockId: "image1",
+          type: "image",
+          url: "https://files.example.com/a.png",
+        },
+        {
+          blockId: "pdf1",
+          type: "pdf",
+          url: "https://files.example.com/b.pdf",
+          name: "b.pdf",
+        },
+      ]);
+    });
+  });
+
   describe("extractTags", () => {
     it("should extract tags from title and content", () => {
       const title = "JavaScript Programming Tutorial";
@@ -732,18 +1083,85 @@ describe("NotionContent Complete Coverage", () => {
       expect(result[1]).toEqual(mockBlocks[1]);
       expect((notionContent as any).fetchBlocks).toHaveBeenCalledWith("block1");
     });
+
+    it("should fetch children of synced copies from the original block", async () => {
+      const mockBlocks = [
+        {
+          id: "synced-copy",
+          type: "synced_block",
+          hasChildren: true,
+          content: { syncedFrom: "synced-original" },
+        },
+      ];
+
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue([]);
+
+      await (notionContent as any).fetchNestedBlocks(mockBlocks);
+
+      expect((notionContent as any).fetchBlocks).toHaveBeenCalledWith(
+        "synced-original"
+      );
+    });
   });
 
-  describe("delay", () => {
-    it("should delay for the configured time", async () => {
-      const startTime = Date.now();
-      await (notionContent as any).delay();
-      const endTime = Date.now();
-      expect(endTime - startTime).toBeGreaterThanOrEqual(350); // Default delay
+  describe("rate limiting", () => {
+    it("should send requests through the shared rate limiter", async () => {
+      const rateLimiter = new RateLimiter({ interval: 0 });
+      const schedule = vi.spyOn(rateLimiter, "schedule");
+      notionContent = new NotionContent(mockConfig, rateLimiter);
+      (notionContent as any).client.blocks.children.list = vi
+        .fn()
+        .mockResolvedValue({ results: [], has_more: false });
+
+      await (notionContent as any).fetchBlocks("test-page-id");
+
+      expect(schedule).toHaveBeenCalledTimes(1);
+      expect(rateLimiter.getStats().requests).toBe(1);
     });
   });
 
   describe("fetchPageContent", () => {
+    it("should read the page cover and image icon", async () => {
+      const mockPage = {
+        properties: {
+          title: {
+            title: [{ plain_text: "Covered Page" }],
+          },
+        },
+        cover: {
+          type: "external",
+          external: { url: "https://example.com/cover.jpg" },
+        },
+        icon: {
+          type: "file",
+          file: { url: "https://example.com/icon.png" },
+        },
+        created_time: "2024-03-08T00:00:00.000Z",
+        last_edited_time: "2024-03-08T01:00:00.000Z",
+      };
+      (notionContent as any).client = {
+        pages: {
+          retrieve: vi
+            .fn()
+            .mockResolvedValueOnce(mockPage)
+            .mockResolvedValueOnce({
+              ...mockPage,
+              cover: null,
+              icon: { type: "emoji", emoji: "📘" },
+            }),
+        },
+      };
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue([]);
+
+      const covered = await notionContent.fetchPageContent("covered-page");
+      const plain = await notionContent.fetchPageContent("emoji-page");
+
+      expect(covered.cover).toBe("https://example.com/cover.jpg");
+      expect(covered.icon).toBe("https://example.com/icon.png");
+      expect(plain.cover).toBeUndefined();
+      expect(plain.icon).toBeUndefined();
+    });
+
     it("should fetch and cache page content", async () => {
       const mockPage = {
         properties: {
@@ -812,6 +1230,119 @@ describe("NotionContent Complete Coverage", () => {
       const result = await notionContent.fetchPageContent("test-page-id");
       expect(result.title).toBe("Untitled");
     });
+
+    it("should reuse persisted blocks when the page is unchanged", async () => {
+      const cachedContent: PageContent = {
+        title: "Old title",
+        blocks: [
+          {
+            id: "cached",
+            type: "paragraph",
+            content: "Cached",
+            hasChildren: false,
+          },
+        ],
+        properties: {},
+        createdTime: "2024-03-08T00:00:00.000Z",
+        lastEditedTime: "2024-03-08T01:00:00.000Z",
+      };
+      const persistentCache = {
+        get: vi.fn().mockResolvedValue(cachedContent),
+        set: vi.fn(),
+      };
+      (notionContent as any).persistentCache = persistentCache;
+      (notionContent as any).client = {
+        pages: {
+          retrieve: vi.fn().mockResolvedValue({
+            properties: { title: { title: [{ plain_text: "New title" }] } },
+            created_time: "2024-03-08T00:00:00.000Z",
+            last_edited_time: "2024-03-08T01:00:00.000Z",
+          }),
+        },
+      };
+      const fetchBlocks = vi.spyOn(notionContent as any, "fetchBlocks");
+
+      const result = await notionContent.fetchPageContent("test-page-id");
+
+      expect(persistentCache.get).toHaveBeenCalledWith(
+        "test-page-id",
+        "2024-03-08T01:00:00.000Z"
+      );
+      expect(fetchBlocks).not.toHaveBeenCalled();
+      expect(persistentCache.set).not.toHaveBeenCalled();
+      expect(result.title).toBe("New title");
+      expect(result.blocks).toEqual(cachedContent.blocks);
+    });
+
+    it("should persist fetched blocks when the page changed", async () => {
+      const persistentCache = {
+        get: vi.fn().mockResolvedValue(undefined),
+        set: vi.fn(),
+      };
+      (notionContent as any).persistentCache = persistentCache;
+      (notionContent as any).client = {
+        pages: {
+          retrieve: vi.fn().mockResolvedValue({
+            properties: {},
+            created_time: "2024-03-08T00:00:00.000Z",
+            last_edited_time: "2024-03-09T00:00:00.000Z",
+          }),
+        },
+      };
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue([]);
+
+      await notionContent.fetchPageContent("test-page-id");
+
+      expect(persistentCache.set).toHaveBeenCalledWith(
+        "test-page-id",
+        expect.objectContaining({
+          blocks: [],
+          lastEditedTime: "2024-03-09T00:00:00.000Z",
+        })
+      );
+    });
+
+    it("should expand nested child pages through their own page content", async () => {
+      const pages: Record<string, any> = {
+        parent: {
+          properties: { title: { title: [{ plain_text: "Parent" }] } },
+          created_time: "2024-03-08T00:00:00.000Z",
+          last_edited_time: "2024-03-08T01:00:00.000Z",
+        },
+        child: {
+          properties: { title: { title: [{ plain_text: "Child" }] } },
+          created_time: "2024-03-08T00:00:00.000Z",
+          last_edited_time: "2024-03-08T01:00:00.000Z",
+        },
+      };
+      const childBlocks: Block[] = [
+        { id: "c1", type: "paragraph", content: "Child", hasChildren: false },
+      ];
+      (notionContent as any).client = {
+        pages: {
+          retrieve: vi
+            .fn()
+            .mockImplementation(async ({ page_id }) => pages[page_id]),
+        },
+      };
+      vi.spyOn(notionContent as any, "fetchBlocks").mockImplementation(
+        async (pageId) =>
+          pageId === "parent"
+            ? [
+                {
+                  id: "child",
+                  type: "child_page",
+                  content: { title: "Child" },
+                  hasChildren: true,
+                },
+              ]
+            : childBlocks
+      );
+
+      const result = await notionContent.fetchPageContent("parent");
+
+      expect(result.blocks[0].content.children).toEqual(childBlocks);
+    });
   });
 
   describe("extractCategories", () => {
@@ -843,8 +1374,12 @@ describe("NotionContent Complete Coverage", () => {
       // First call should fetch from API
       const result1 = await notionContent.extractCategories("test-page-id");
       expect(result1).toHaveLength(2);
-      expect(result1[0].type).toBe("regular");
-      expect(result1[1].type).toBe("mit");
+      expect(result1[0]).toEqual({
+        id: "category1",
+        title: "Regular Category",
+        name: "Regular Category",
+      });
+      expect(result1[1].name).toBe("MIT Unit 1");
       expect((notionContent as any).fetchBlocks).toHaveBeenCalledTimes(1);
 
       // Second call should use cache
@@ -852,6 +1387,37 @@ describe("NotionContent Complete Coverage", () => {
       expect(result2).toEqual(result1);
       expect((notionContent as any).fetchBlocks).toHaveBeenCalledTimes(1);
     });
+
+    it("should apply category rules to category titles", async () => {
+      notionContent = new NotionContent({
+        ...mockConfig,
+        categoryRules: [
+          { match: "^MIT Unit (\\d+)$", rename: "$1", prefix: "CITS" },
+          { match: "^Drafts$", exclude: true },
+          { match: "^Submit Guides$", parent: "Guides" },
+        ],
+      });
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue(
+        ["MIT Unit 1", "Drafts", "Submit Guides"].map((title, index) => ({
+          id: `category${index + 1}`,
+          type: "child_page",
+          hasChildren: true,
+          content: { title },
+        }))
+      );
+
+      const result = await notionContent.extractCategories("test-page-id");
+
+      expect(result).toEqual([
+        { id: "category1", title: "MIT Unit 1", name: "CITS1" },
+        {
+          id: "category3",
+          title: "Submit Guides",
+          name: "Submit Guides",
+          parent: "Guides",
+        },
+      ]);
+    });
   });
 
   describe("extractValidContent", () => {
@@ -860,12 +1426,11 @@ describe("NotionContent Complete Coverage", () => {
         {
           id: "category1",
           name: "Regular Category",
-          type: "regular",
         },
         {
           id: "category2",
-          name: "3701",
-          type: "mit",
+          name: "CITS3701",
+          title: "MIT 3701",
         },
       ];
 
@@ -919,4 +1484,276 @@ describe("NotionContent Complete Coverage", () => {
       expect(result[1].category).toBe("CITS3701");
     });
   });
+
+  describe("extractValidContent in deep mode", () => {
+    const page = (title: string, blocks: Block[]): PageContent => ({
+      title,
+      blocks,
+      properties: {},
+      createdTime: "2024-03-08T00:00:00.000Z",
+      lastEditedTime: "2024-03-08T01:00:00.000Z",
+    });
+    const childPage = (id: string, title: string): Block => ({
+      id,
+      type: "child_page",
+      content: { title },
+      hasChildren: true,
+    });
+    const paragraph = (id: string, text: string): Block => ({
+      id,
+      type: "paragraph",
+      content: text,
+      hasChildren: false,
+    });
+
+    beforeEach(() => {
+      notionContent = new NotionContent({
+        ...mockConfig,
+        traversalMode: "deep",
+        maxDepth: 2,
+      });
+
+      const pages: Record<string, PageContent> = {
+        "page-a": page("Page A", [
+          paragraph("a1", "Body A"),
+          {
+            id: "toggle",
+            type: "toggle",
+            content: {
+              text: "More",
+              children: [childPage("page-b", "Page B")],
+            },
+            hasChildren: true,
+          },
+        ]),
+        "page-b": page("Page B", [
+          paragraph("b1", "Body B"),
+          childPage("page-c", "Page C"),
+        ]),
+        "page-c": page("Page C", [paragraph("c1", "Body C")]),
+      };
+
+      vi.spyOn(notionContent, "extractCategories").mockResolvedValue([
+        { id: "category1", name: "Notes" },
+      ]);
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue([
+        childPage("page-a", "Page A"),
+      ]);
+      vi.spyOn(notionContent, "fetchPageContent").mockImplementation(
+        async (pageId: string) => pages[pageId]
+      );
+    });
+
+    it("should extract nested pages with their parent and breadcrumb", async () => {
+      const result = await notionContent.extractValidContent("test-page-id");
+
+      expect(result.map((item) => item.id)).toEqual(["page-a", "page-b"]);
+      expect(result[0]).toMatchObject({
+        parentId: "category1",
+        category: "Notes",
+        categoryPath: ["Notes"],
+      });
+      expect(result[1]).toMatchObject({
+        parentId: "page-a",
+        category: "Notes",
+        categoryPath: ["Notes", "Page A"],
+      });
+    });
+
+    it("should absorb pages beyond the maximum depth into their parent", async () => {
+      const result = await notionContent.extractValidContent("test-page-id");
+
+      expect(result[1].content).toContain("Body B");
+      expect(result[1].content).toContain("Body C");
+      expect(result[0].content).not.toContain("Body B");
+    });
+
+    it("should not expand child pages when fetching nested blocks", async () => {
+      const fetchBlocks = vi.spyOn(notionContent as any, "fetchBlocks");
+      const blocks = [childPage("page-a", "Page A")];
+
+      const result = await (notionContent as any).fetchNestedBlocks(blocks);
+
+      expect(result).toEqual(blocks);
+      expect(fetchBlocks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("extractDatabaseContent", () => {
+    const row = (id: string, properties: Record<string, any>) => ({
+      object: "page",
+      id,
+      url: `https://www.notion.so/${id}`,
+      created_time: "2024-03-08T00:00:00.000Z",
+      last_edited_time: "2024-03-08T01:00:00.000Z",
+      properties,
+    });
+
+    beforeEach(() => {
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue([
+        {
+          id: "b1",
+          type: "paragraph",
+          content: "Row body",
+          hasChildren: false,
+        },
+      ]);
+    });
+
+    it("should map row properties and fetch each row body", async () => {
+      const query = vi
+        .fn()
+        .mockResolvedValueOnce({
+          results: [
+            row("row1", {
+              Name: {
+                type: "title",
+                title: [{ plain_text: "First " }, { plain_text: "draft" }],
+              },
+              Category: { type: "select", select: { name: "Guides" } },
+              Tags: {
+                type: "multi_select",
+                multi_select: [{ name: "notion" }, { name: "api" }],
+              },
+            }),
+          ],
+          has_more: true,
+          next_cursor: "cursor-2",
+        })
+        .mockResolvedValueOnce({
+          results: [
+            row("row2", {
+              Name: { type: "title", title: [] },
+              Tags: {
+                type: "rich_text",
+                rich_text: [{ plain_text: "one, two" }],
+              },
+            }),
+            { object: "page", id: "partial" },
+          ],
+          has_more: false,
+          next_cursor: null,
+        });
+      (notionContent as any).client.databases.query = query;
+
+      const result = await notionContent.extractDatabaseContent("db-id");
+
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(query.mock.calls[1][0].start_cursor).toBe("cursor-2");
+      expect(result).toHaveLength(2);
+      expect(result[0]).toMatchObject({
+        id: "row1",
+        title: "First draft",
+        parentId: "db-id",
+        category: "Guides",
+        tags: ["notion", "api"],
+        content: "Row body\n\n",
+        originalPageUrl: "https://www.notion.so/row1",
+      });
+      expect(result[1]).toMatchObject({
+        title: "Untitled",
+        category: "Uncategorized",
+        tags: ["one", "two"],
+      });
+    });
+
+    it("should use the configured property names", async () => {
+      notionContent = new NotionContent({
+        ...mockConfig,
+        sourceProperties: {
+          title: "Headline",
+          category: "Area",
+          tags: "Labels",
+        },
+      });
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue([]);
+      (notionContent as any).client.databases.query = vi
+        .fn()
+        .mockResolvedValue({
+          results: [
+            row("row1", {
+              Name: { type: "title", title: [{ plain_text: "Ignored" }] },
+              Headline: {
+                type: "rich_text",
+                rich_text: [{ plain_text: "Chosen title" }],
+              },
+              Area: { type: "status", status: { name: "Research" } },
+              Labels: { type: "multi_select", multi_select: [{ name: "x" }] },
+            }),
+          ],
+          has_more: false,
+          next_cursor: null,
+        });
+
+      const [page] = await notionContent.extractDatabaseContent("db-id");
+
+      expect(page.title).toBe("Chosen title");
+      expect(page.category).toBe("Research");
+      expect(page.tags).toEqual(["x"]);
+    });
+  });
+
+  describe("extractExcludedPageIds", () => {
+    it("should list the pages below excluded categories", async () => {
+      notionContent = new NotionContent({
+        ...mockConfig,
+        categoryRules: [{ match: "^Drafts$", exclude: true }],
+      });
+      const childPage = (id: string, title: string) => ({
+        id,
+        type: "child_page",
+        hasChildren: true,
+        content: { title },
+      });
+      vi.spyOn(notionContent as any, "fetchBlocks").mockImplementation(
+        async (id: any) => {
+          if (id === "test-page-id") {
+            return [
+              childPage("category1", "Guides"),
+              childPage("category2", "Drafts"),
+            ];
+          }
+          if (id === "category2") {
+            return [childPage("draft1", "First draft")];
+          }
+          return [];
+        }
+      );
+
+      const result = await notionContent.extractExcludedPageIds("test-page-id");
+
+      expect(result).toEqual(["draft1"]);
+    });
+
+    it("should list the database rows of excluded categories", async () => {
+      notionContent = new NotionContent({
+        ...mockConfig,
+        categoryRules: [{ match: "^Drafts$", exclude: true }],
+      });
+      vi.spyOn(notionContent as any, "fetchBlocks").mockResolvedValue([]);
+      (notionContent as any).client.databases.query = vi
+        .fn()
+        .mockResolvedValue({
+          results: ["Guides", "Drafts"].map((category, index) => ({
+            object: "page",
+            id: `row${index + 1}`,
+            url: `https://www.notion.so/row${index + 1}`,
+            created_time: "2024-03-08T00:00:00.000Z",
+            last_edited_time: "2024-03-08T01:00:00.000Z",
+            properties: {
+              Name: { type: "title", title: [{ plain_text: category }] },
+              Category: { type: "select", select: { name: category } },
+            },
+          })),
+          has_more: false,
+          next_cursor: null,
+        });
+
+      const pages = await notionContent.extractDatabaseContent("db-id");
+      const result = await notionContent.extractExcludedPageIds("db-id");
+
+      expect(pages.map((page) => page.id)).toEqual(["row1"]);
+      expect(result).toEqual(["row2"]);
+    });
+  });
 });
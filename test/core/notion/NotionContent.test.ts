@@ -198,17 +198,13 @@ describe("NotionContent", () => {
       expect(categories).toHaveLength(2);
       expect(categories[0].id).toBe("category-1");
       expect(categories[0].name).toBe("Category 1");
-      expect(categories[0].type).toBe("regular");
       expect(categories[1].id).toBe("category-2");
       expect(categories[1].name).toBe("MIT Unit");
-      expect(categories[1].type).toBe("mit");
     });
 
     it("should return cached categories if available", async () => {
       const mockPageId = "test-page-id";
-      const cachedCategories = [
-        { id: "cached-1", name: "Cached Category", type: "regular" as const },
-      ];
+      const cachedCategories = [{ id: "cached-1", name: "Cached Category" }];
 
       // Set up private cache (using any to access private property)
       (notionContent as any).categoryCache.set(mockPageId, cachedCategories);
@@ -245,9 +241,7 @@ describe("NotionContent", () => {
   describe("extractValidContent", () => {
     it("should extract valid content pages from categories", async () => {
       // Mock extractCategories to return predefined categories
-      const mockCategories = [
-        { id: "category-1", name: "Category 1", type: "regular" as const },
-      ];
+      const mockCategories = [{ id: "category-1", name: "Category 1" }];
       vi.spyOn(notionContent, "extractCategories").mockResolvedValue(
         mockCategories
       );
@@ -313,14 +307,25 @@ describe("NotionContent", () => {
       expect(contentPages[0].content).toBeDefined();
     });
 
-    it("should handle MIT unit categories correctly", async () => {
-      // Mock extractCategories to return MIT category
-      const mockCategories = [
-        { id: "mit-category", name: "3100", type: "mit" as const },
-      ];
-      vi.spyOn(notionContent, "extractCategories").mockResolvedValue(
-        mockCategories
-      );
+    it("should name categories using category rules", async () => {
+      notionContent = new NotionContent({
+        ...mockConfig,
+        categoryRules: [{ match: "^MIT (\\d+)$", rename: "CITS$1" }],
+      });
+      (notionContent as any).client = mockClient;
+
+      // Mock the source page with a single category page
+      const mockSourceBlocks = {
+        results: [
+          {
+            id: "mit-category",
+            type: "child_page",
+            child_page: { title: "MIT 3100" },
+            has_children: true,
+          },
+        ],
+        has_more: false,
+      };
 
       // Mock blocks for mit-category
       const mockCategoryBlocks = {
@@ -362,7 +367,9 @@ describe("NotionContent", () => {
       };
 
       mockClient.blocks.children.list.mockImplementation((params) => {
-        if (params.block_id === "mit-category") {
+        if (params.block_id === "source-page-id") {
+          return Promise.resolve(mockSourceBlocks);
+        } else if (params.block_id === "mit-category") {
           return Promise.resolve(mockCategoryBlocks);
         } else if (params.block_id === "content-page-1") {
           return Promise.resolve(mockContentBlocks);
@@ -462,6 +469,15 @@ describe("NotionContent", () => {
       expect(tags.filter((tag) => tag === "development").length).toBe(1);
     });
 
+    it("should extract tags from Chinese content", () => {
+      const content =
+        "闭包是函数和其周围状态的组合。闭包让内部函数访问外部函数的作用域。";
+
+      const tags = notionContent.extractTags(content, "理解闭包", "JavaScript");
+
+      expect(tags).toEqual(["JavaScript", "理解闭包", "函数", "闭包"]);
+    });
+
     it("should limit to 10 tags", () => {
       // Create content with many potential keywords
       const words = Array.from({ length: 20 }, (_, i) => `keyword${i}`).join(
@@ -494,6 +510,15 @@ describe("NotionContent", () => {
       expect(readingTime).toBe(1); // Minimum reading time
     });
 
+    it("should estimate Chinese reading time by character", () => {
+      const readingTime = notionContent.estimateReadingTime(
+        "闭包".repeat(450),
+        "zh"
+      );
+
+      expect(readingTime).toBe(3);
+    });
+
     it("should return 0 for empty content", () => {
       const readingTime = notionContent.estimateReadingTime("");
       expect(readingTime).toBe(0);
@@ -1,6 +1,7 @@
 import { Client } from "@notionhq/client";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { NotionDatabase } from "../../../src/core/notion/NotionDatabase";
+import { RateLimiter } from "../../../src/core/notion/RateLimiter";
 import { DatabaseSchema, EntryData, NotionConfig } from "../../../src/types";
 import { resetMocks } from "../../setup";
 
@@ -72,7 +73,7 @@ describe("NotionDatabase Complete Coverage", () => {
       expect(db).toBeInstanceOf(NotionDatabase);
     });
 
-    it("should initialize with rate limit delay", () => {
+    it("should initialize the rate limiter with the rate limit delay", () => {
       const config: NotionConfig = {
         apiKey: "test-key",
         sourcePageId: "test-source",
@@ -81,7 +82,13 @@ describe("NotionDatabase Complete Coverage", () => {
         rateLimitDelay: 1000,
       };
       const db = new NotionDatabase(config);
-      expect(db["rateLimitDelay"]).toBe(1000);
+      expect(db["rateLimiter"]["interval"]).toBe(1000);
+    });
+
+    it("should use a shared rate limiter when provided", () => {
+      const rateLimiter = new RateLimiter({ interval: 0 });
+      const db = new NotionDatabase(mockConfig, rateLimiter);
+      expect(db["rateLimiter"]).toBe(rateLimiter);
     });
   });
 
@@ -247,6 +254,57 @@ describe("NotionDatabase Complete Coverage", () => {
     });
   });
 
+  describe("iterateEntries", () => {
+    beforeEach(() => {
+      notionDatabase.setDatabaseId("test-database-id");
+    });
+
+    it("should stream every entry past the page size", async () => {
+      mockClient.databases.query
+        .mockResolvedValueOnce({
+          results: [
+            { id: "page-1", properties: {} },
+            { id: "page-2", properties: {} },
+          ],
+          has_more: true,
+          next_cursor: "cursor1",
+        })
+        .mockResolvedValueOnce({
+          results: [{ id: "page-3", properties: {} }],
+          has_more: false,
+        });
+
+      const ids: string[] = [];
+      for await (const entry of notionDatabase.iterateEntries({
+        page_size: 2,
+      })) {
+        ids.push(entry.id);
+      }
+
+      expect(ids).toEqual(["page-1", "page-2", "page-3"]);
+      expect(mockClient.databases.query).toHaveBeenCalledTimes(2);
+      expect(mockClient.databases.query.mock.calls[1][0]).toMatchObject({
+        start_cursor: "cursor1",
+        page_size: 2,
+      });
+    });
+
+    it("should stop fetching when the caller stops iterating", async () => {
+      mockClient.databases.query.mockResolvedValue({
+        results: [{ id: "page-1", properties: {} }],
+        has_more: true,
+        next_cursor: "cursor1",
+      });
+
+      for await (const entry of notionDatabase.iterateEntries()) {
+        expect(entry.id).toBe("page-1");
+        break;
+      }
+
+      expect(mockClient.databases.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("transformFilter", () => {
     it("should handle empty filter object", async () => {
       // Test lines 218-224: Default filter handling
@@ -319,6 +377,20 @@ describe("NotionDatabase Complete Coverage", () => {
       );
     });
 
+    it("should not retry a creation that failed after reaching Notion", async () => {
+      console.warn = vi.fn();
+      mockClient.pages.create.mockReset();
+      mockClient.pages.create.mockRejectedValueOnce({
+        status: 502,
+        message: "Bad Gateway",
+      });
+
+      await expect(
+        notionDatabase.createEntry({ properties: {} })
+      ).rejects.toThrow("Failed to create entry: Bad Gateway");
+      expect(mockClient.pages.create).toHaveBeenCalledTimes(1);
+    });
+
     it("should handle API errors", async () => {
       // Set up the database ID
       notionDatabase.setDatabaseId("test-database-id");
@@ -512,6 +584,27 @@ describe("NotionDatabase Complete Coverage", () => {
     });
   });
 
+  describe("archiveEntry", () => {
+    it("should archive the page", async () => {
+      mockClient.pages.update.mockResolvedValue({});
+
+      await notionDatabase.archiveEntry("test-page-id");
+
+      expect(mockClient.pages.update).toHaveBeenCalledWith({
+        page_id: "test-page-id",
+        archived: true,
+      });
+    });
+
+    it("should handle API errors", async () => {
+      mockClient.pages.update.mockRejectedValue(new Error("API Error"));
+
+      await expect(notionDatabase.archiveEntry("test-page-id")).rejects.toThrow(
+        "Failed to archive entry: API Error"
+      );
+    });
+  });
+
   describe("batchUpdateEntries", () => {
     it("should process multiple entries correctly", async () => {
       const entries = [
@@ -650,6 +743,49 @@ describe("NotionDatabase Complete Coverage", () => {
       const result = notionDatabase["createPropertyDefinition"](definition);
       expect(result).toEqual({ select: {} });
     });
+
+    it("should create relation property definition with its database", () => {
+      const definition = { type: "relation", databaseId: "categories-db" };
+      const result = notionDatabase["createPropertyDefinition"](definition);
+      expect(result).toEqual({
+        relation: {
+          database_id: "categories-db",
+          type: "single_property",
+          single_property: {},
+        },
+      });
+    });
+
+    it("should create formula and rollup property definitions", () => {
+      expect(
+        notionDatabase["createPropertyDefinition"]({
+          type: "formula",
+          expression: 'prop("Mins Read") * 60',
+        })
+      ).toEqual({ formula: { expression: 'prop("Mins Read") * 60' } });
+      expect(
+        notionDatabase["createPropertyDefinition"]({
+          type: "rollup",
+          rollup: {
+            relationProperty: "Series",
+            rollupProperty: "Title",
+            function: "count",
+          },
+        })
+      ).toEqual({
+        rollup: {
+          relation_property_name: "Series",
+          rollup_property_name: "Title",
+          function: "count",
+        },
+      });
+    });
+
+    it("should create status property definition without its options", () => {
+      const definition = { type: "status", options: [{ name: "Done" }] };
+      const result = notionDatabase["createPropertyDefinition"](definition);
+      expect(result).toEqual({ status: {} });
+    });
   });
 
   describe("createDatabase", () => {
@@ -715,12 +851,20 @@ describe("NotionDatabase Complete Coverage", () => {
     });
   });
 
-  describe("delay", () => {
-    it("should delay execution", async () => {
-      const startTime = Date.now();
-      await notionDatabase["delay"]();
-      const endTime = Date.now();
-      expect(endTime - startTime).toBeGreaterThanOrEqual(0);
+  describe("rate limiting", () => {
+    it("should retry requests that were rate limited", async () => {
+      mockClient.pages.update
+        .mockRejectedValueOnce({ status: 429, headers: { "retry-after": "0" } })
+        .mockResolvedValueOnce({});
+
+      await notionDatabase.updateEntry("page-id", { properties: {} });
+
+      expect(mockClient.pages.update).toHaveBeenCalledTimes(2);
+      expect(notionDatabase["rateLimiter"].getStats()).toMatchObject({
+        requests: 2,
+        retries: 1,
+        rateLimited: 1,
+      });
     });
   });
 });
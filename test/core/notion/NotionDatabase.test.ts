@@ -1,6 +1,7 @@
 import { Client } from "@notionhq/client";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { NotionDatabase } from "../../../src/core/notion/NotionDatabase";
+import { Filter, QueryBuilder } from "../../../src/core/notion/QueryBuilder";
 import {
   DatabaseSchema,
   EntryData,
@@ -23,6 +24,13 @@ vi.mock("@notionhq/client", () => {
         create: vi.fn(),
         update: vi.fn(),
       },
+      blocks: {
+        children: {
+          list: vi.fn(),
+          append: vi.fn(),
+        },
+        delete: vi.fn(),
+      },
       search: vi.fn(),
     })),
   };
@@ -315,6 +323,120 @@ describe("NotionDatabase", () => {
     });
   });
 
+  describe("getDefaultSchema", () => {
+    it("should use the built-in schema without hard-coded categories", () => {
+      const schema = notionDatabase.getDefaultSchema();
+
+      expect(schema.name).toBe(mockConfig.targetDatabaseName);
+      expect(schema.properties.Title).toEqual({ type: "title" });
+      expect(schema.properties.Category).toEqual({
+        type: "select",
+        options: [],
+      });
+    });
+
+    it("should use the configured schema file", () => {
+      const database = new NotionDatabase({
+        ...mockConfig,
+        targetDatabaseName: "Blog Posts",
+        databaseSchema: {
+          version: 1,
+          name: "Schema Name",
+          properties: { Name: { type: "title" } },
+        },
+      });
+
+      expect(database.getDefaultSchema()).toEqual({
+        name: "Blog Posts",
+        properties: { Name: { type: "title" } },
+      });
+    });
+  });
+
+  describe("getSchema", () => {
+    it("should convert the live properties", async () => {
+      mockClient.databases.retrieve.mockResolvedValueOnce({
+        title: [{ plain_text: "Content Database" }],
+        properties: {
+          Title: { type: "title", title: {} },
+          Status: {
+            type: "select",
+            select: { options: [{ id: "1", name: "Draft", color: "gray" }] },
+          },
+          Progress: { type: "status", status: { options: [] } },
+          Category: {
+            type: "relation",
+            relation: { database_id: "categories-db", type: "single_property" },
+          },
+          Slug: { type: "formula", formula: { expression: 'prop("Title")' } },
+          Parts: {
+            type: "rollup",
+            rollup: {
+              relation_property_name: "Category",
+              rollup_property_name: "Name",
+              function: "count",
+            },
+          },
+          Reviewer: { type: "people", people: {} },
+        },
+      });
+
+      const schema = await notionDatabase.getSchema();
+
+      expect(schema).toEqual({
+        name: "Content Database",
+        properties: {
+          Title: { type: "title" },
+          Status: {
+            type: "select",
+            options: [{ name: "Draft", color: "gray" }],
+          },
+          Progress: { type: "status", options: [] },
+          Category: { type: "relation", databaseId: "categories-db" },
+          Slug: { type: "formula", expression: 'prop("Title")' },
+          Parts: {
+            type: "rollup",
+            rollup: {
+              relationProperty: "Category",
+              rollupProperty: "Name",
+              function: "count",
+            },
+          },
+          Reviewer: { type: "people" },
+        },
+      });
+    });
+
+    it("should throw an error if the database cannot be retrieved", async () => {
+      mockClient.databases.retrieve.mockRejectedValueOnce(
+        new Error("Not found")
+      );
+
+      await expect(notionDatabase.getSchema()).rejects.toThrow(
+        "Failed to retrieve database schema: Not found"
+      );
+    });
+  });
+
+  describe("updateSchema", () => {
+    it("should send the property definitions", async () => {
+      mockClient.databases.update.mockResolvedValueOnce({});
+
+      await notionDatabase.updateSchema({
+        Summary: { type: "rich_text" },
+        Status: { type: "select", options: [{ name: "Draft" }] },
+      });
+
+      expect(mockClient.databases.update).toHaveBeenCalledWith({
+        database_id: "test-database-id",
+        properties: {
+          Summary: { rich_text: {} },
+          Status: { select: { options: [{ name: "Draft" }] } },
+        },
+      });
+    });
+  });
+
   describe("queryEntries", () => {
     it("should query entries from the database", async () => {
       const mockQueryResponse = {
@@ -372,6 +494,64 @@ describe("NotionDatabase", () => {
       // Just verify that the query was called - implementation details may vary
     });
 
+    it("should pass filters and sorts to the query", async () => {
+      mockClient.databases.query.mockResolvedValueOnce({
+        results: [],
+        has_more: false,
+      });
+
+      await notionDatabase.queryEntries(
+        new QueryBuilder()
+          .where(
+            Filter.or(
+              Filter.checkbox("Published").equals(true),
+              Filter.multiSelect("Tags").contains("JavaScript")
+            )
+          )
+          .sortBy("Date Created", "descending")
+          .build()
+      );
+
+      expect(mockClient.databases.query).toHaveBeenCalledWith({
+        database_id: "test-database-id",
+        filter: {
+          or: [
+            { property: "Published", checkbox: { equals: true } },
+            { property: "Tags", multi_select: { contains: "JavaScript" } },
+          ],
+        },
+        sorts: [{ property: "Date Created", direction: "descending" }],
+        start_cursor: undefined,
+        page_size: 100,
+      });
+    });
+
+    it("should leave out empty filters and sorts", async () => {
+      mockClient.databases.query.mockResolvedValueOnce({
+        results: [],
+        has_more: false,
+      });
+
+      await notionDatabase.queryEntries({ filter: {} as any, sorts: [] });
+
+      const callArg = mockClient.databases.query.mock.calls[0][0];
+      expect(callArg).not.toHaveProperty("filter");
+      expect(callArg).not.toHaveProperty("sorts");
+    });
+
+    it("should cap the page size of each request", async () => {
+      mockClient.databases.query.mockResolvedValueOnce({
+        results: [],
+        has_more: false,
+      });
+
+      await notionDatabase.queryEntries({ page_size: 250 });
+
+      expect(mockClient.databases.query).toHaveBeenCalledWith(
+        expect.objectContaining({ page_size: 100 })
+      );
+    });
+
     it("should throw an error if query fails", async () => {
       mockClient.databases.query.mockRejectedValueOnce(
         new Error("Query failed")
@@ -538,4 +718,245 @@ describe("NotionDatabase", () => {
       );
     });
   });
+
+  describe("upsertEntry", () => {
+    const entryData: EntryData = {
+      properties: {
+        Title: { title: [{ text: { content: "Test Title" } }] },
+      },
+    };
+
+    it("should look up the entry by its title", async () => {
+      mockClient.databases.query.mockResolvedValueOnce({
+        results: [],
+        has_more: false,
+      });
+      mockClient.pages.create.mockResolvedValueOnce({ id: "new-page-id" });
+
+      const result = await notionDatabase.upsertEntry(entryData);
+
+      expect(result).toEqual({ id: "new-page-id", isNew: true });
+      expect(mockClient.databases.query).toHaveBeenCalledWith(
+        expect.objectContaining({
+          filter: { property: "Title", title: { equals: "Test Title" } },
+          page_size: 1,
+        })
+      );
+    });
+
+    it("should update the entry found by its title", async () => {
+      mockClient.databases.query.mockResolvedValueOnce({
+        results: [{ id: "existing-page-id", properties: {} }],
+        has_more: false,
+      });
+      mockClient.pages.update.mockResolvedValueOnce({ id: "existing-page-id" });
+
+      const result = await notionDatabase.upsertEntry(entryData);
+
+      expect(result).toEqual({ id: "existing-page-id", isNew: false });
+      expect(mockClient.pages.update).toHaveBeenCalledWith(
+        expect.objectContaining({ page_id: "existing-page-id" })
+      );
+    });
+
+    it("should look up the entry by its source ID first", async () => {
+      mockClient.databases.query
+        .mockResolvedValueOnce({ results: [], has_more: false })
+        .mockResolvedValueOnce({ results: [], has_more: false });
+      mockClient.pages.create.mockResolvedValueOnce({ id: "new-page-id" });
+
+      await notionDatabase.upsertEntry({
+        properties: {
+          ...entryData.properties,
+          "Source ID": { rich_text: [{ text: { content: "source-id" } }] },
+        },
+      });
+
+      expect(mockClient.databases.query).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          filter: { property: "Source ID", rich_text: { equals: "source-id" } },
+        })
+      );
+      expect(mockClient.databases.query).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          filter: {
+            and: [
+              { property: "Title", title: { equals: "Test Title" } },
+              { property: "Source ID", rich_text: { is_empty: true } },
+            ],
+          },
+        })
+      );
+    });
+  });
+
+  describe("replacePageContent", () => {
+    const paragraph = (text: string, children?: any[]) => ({
+      object: "block",
+      type: "paragraph",
+      paragraph: {
+        rich_text: [{ type: "text", text: { content: text } }],
+        ...(children && { children }),
+      },
+    });
+
+    beforeEach(() => {
+      let nextId = 0;
+      mockClient.blocks.children.append.mockImplementation(
+        async ({ children }: any) => ({
+          results: children.map(() => ({ id: `created-${nextId++}` })),
+        })
+      );
+      mockClient.blocks.delete.mockResolvedValue({});
+    });
+
+    it("should delete the existing body before appending blocks", async () => {
+      mockClient.blocks.children.list
+        .mockResolvedValueOnce({
+          results: [{ id: "old-1" }],
+          has_more: true,
+          next_cursor: "cursor-1",
+        })
+        .mockResolvedValueOnce({
+          results: [{ id: "old-2" }],
+          has_more: false,
+          next_cursor: null,
+        });
+
+      await notionDatabase.replacePageContent("page-id", [paragraph("Hello")]);
+
+      expect(mockClient.blocks.delete).toHaveBeenCalledTimes(2);
+      expect(mockClient.blocks.delete).toHaveBeenCalledWith({
+        block_id: "old-2",
+      });
+      expect(mockClient.blocks.children.append).toHaveBeenCalledWith({
+        block_id: "page-id",
+        children: [paragraph("Hello")],
+      });
+    });
+
+    it("should append more than 100 blocks in chunks", async () => {
+      mockClient.blocks.children.list.mockResolvedValue({
+        results: [],
+        has_more: false,
+      });
+      const blocks = Array.from({ length: 250 }, (_, index) =>
+        paragraph(`Paragraph ${index}`)
+      );
+
+      await notionDatabase.replacePageContent("page-id", blocks);
+
+      const calls = mockClient.blocks.children.append.mock.calls;
+      expect(calls.map((call: any[]) => call[0].children.length)).toEqual([
+        100, 100, 50,
+      ]);
+      expect(calls[2][0].children[0]).toEqual(paragraph("Paragraph 200"));
+    });
+
+    it("should append nested children to the created blocks", async () => {
+      mockClient.blocks.children.list.mockResolvedValue({
+        results: [],
+        has_more: false,
+      });
+
+      await notionDatabase.replacePageContent("page-id", [
+        paragraph("Parent", [paragraph("Child")]),
+      ]);
+
+      const calls = mockClient.blocks.children.append.mock.calls;
+      expect(calls[0][0]).toEqual({
+        block_id: "page-id",
+        children: [paragraph("Parent")],
+      });
+      expect(calls[1][0]).toEqual({
+        block_id: "created-0",
+        children: [paragraph("Child")],
+      });
+    });
+
+    it("should keep table rows in the append request", async () => {
+      mockClient.blocks.children.list.mockResolvedValue({
+        results: [],
+        has_more: false,
+      });
+      const row = {
+        object: "block",
+        type: "table_row",
+        table_row: { cells: [] },
+      };
+      const table = {
+        object: "block",
+        type: "table",
+        table: { table_width: 1, children: [row, row] },
+      };
+
+      await notionDatabase.replacePageContent("page-id", [table]);
+
+      expect(mockClient.blocks.children.append).toHaveBeenCalledTimes(1);
+      expect(mockClient.blocks.children.append).toHaveBeenCalledWith({
+        block_id: "page-id",
+        children: [table],
+      });
+    });
+
+    it("should append nested column content to the listed blocks", async () => {
+      mockClient.blocks.children.list.mockImplementation(
+        async ({ block_id }: any) => ({
+          results:
+            block_id === "created-0"
+              ? [{ id: "column-1" }, { id: "column-2" }]
+              : block_id === "column-1"
+                ? [{ id: "toggle-1" }]
+                : block_id === "column-2"
+                  ? [{ id: "text-1" }]
+                  : [],
+          has_more: false,
+        })
+      );
+      const column = (child: any) => ({
+        object: "block",
+        type: "column",
+        column: { children: [child] },
+      });
+
+      await notionDatabase.replacePageContent("page-id", [
+        {
+          object: "block",
+          type: "column_list",
+          column_list: {
+            children: [
+              column(paragraph("Toggle", [paragraph("Hidden")])),
+              column(paragraph("Text")),
+            ],
+          },
+        },
+      ]);
+
+      const calls = mockClient.blocks.children.append.mock.calls;
+      expect(calls).toHaveLength(2);
+      expect(calls[0][0].children[0].column_list.children[0]).toEqual(
+        column(paragraph("Toggle"))
+      );
+      expect(calls[1][0]).toEqual({
+        block_id: "toggle-1",
+        children: [paragraph("Hidden")],
+      });
+    });
+
+    it("should throw a descriptive error when appending fails", async () => {
+      mockClient.blocks.children.list.mockResolvedValue({
+        results: [],
+        has_more: false,
+      });
+      mockClient.blocks.children.append.mockRejectedValue(
+        new Error("Invalid block")
+      );
+
+      await expect(
+        notionDatabase.replacePageContent("page-id", [paragraph("Hello")])
+      ).rejects.toThrow("Failed to replace page content: Invalid block");
+    });
+  });
 });
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { Filter, QueryBuilder } from "../../../src/core/notion/QueryBuilder";
+
+describe("QueryBuilder", () => {
+  describe("Filter", () => {
+    it("should create conditions keyed by the property type", () => {
+      expect(Filter.title().equals("Closures")).toEqual({
+        property: "Title",
+        title: { equals: "Closures" },
+      });
+      expect(Filter.richText("Summary").contains("scope")).toEqual({
+        property: "Summary",
+        rich_text: { contains: "scope" },
+      });
+      expect(Filter.url("Original Page").isNotEmpty()).toEqual({
+        property: "Original Page",
+        url: { is_not_empty: true },
+      });
+      expect(Filter.number("Mins Read").greaterThan(5)).toEqual({
+        property: "Mins Read",
+        number: { greater_than: 5 },
+      });
+      expect(Filter.checkbox("Published").equals(true)).toEqual({
+        property: "Published",
+        checkbox: { equals: true },
+      });
+      expect(Filter.select("Category").doesNotEqual("Draft")).toEqual({
+        property: "Category",
+        select: { does_not_equal: "Draft" },
+      });
+      expect(Filter.multiSelect("Tags").contains("JavaScript")).toEqual({
+        property: "Tags",
+        multi_select: { contains: "JavaScript" },
+      });
+      expect(Filter.date("Date Created").onOrAfter("2024-01-01")).toEqual({
+        property: "Date Created",
+        date: { on_or_after: "2024-01-01" },
+      });
+    });
+
+    it("should create timestamp conditions", () => {
+      expect(Filter.lastEditedTime().after("2024-01-01")).toEqual({
+        timestamp: "last_edited_time",
+        last_edited_time: { after: "2024-01-01" },
+      });
+      expect(Filter.createdTime().before("2024-01-01")).toEqual({
+        timestamp: "created_time",
+        created_time: { before: "2024-01-01" },
+      });
+    });
+
+    it("should combine conditions into compound filters", () => {
+      const filter = Filter.or(
+        Filter.checkbox("Published").equals(true),
+        Filter.and(
+          Filter.select("Category").equals("JavaScript"),
+          Filter.multiSelect("Tags").contains("Closures")
+        )
+      );
+
+      expect(filter).toEqual({
+        or: [
+          { property: "Published", checkbox: { equals: true } },
+          {
+            and: [
+              { property: "Category", select: { equals: "JavaScript" } },
+              { property: "Tags", multi_select: { contains: "Closures" } },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  describe("build", () => {
+    it("should build an empty query", () => {
+      expect(new QueryBuilder().build()).toEqual({});
+    });
+
+    it("should build a query with a filter, sorts and a limit", () => {
+      const query = new QueryBuilder()
+        .inDatabase("database-id")
+        .where(Filter.title().equals("Closures"))
+        .sortBy("Date Created", "descending")
+        .sortByTimestamp("last_edited_time")
+        .limit(1)
+        .startAt("cursor-1")
+        .build();
+
+      expect(query).toEqual({
+        database_id: "database-id",
+        filter: { property: "Title", title: { equals: "Closures" } },
+        sorts: [
+          { property: "Date Created", direction: "descending" },
+          { timestamp: "last_edited_time", direction: "ascending" },
+        ],
+        page_size: 1,
+        start_cursor: "cursor-1",
+      });
+    });
+
+    it("should combine several filters with and", () => {
+      const query = new QueryBuilder()
+        .where(Filter.checkbox("Published").equals(true))
+        .where(Filter.number("Mins Read").lessThanOrEqualTo(5))
+        .build();
+
+      expect(query.filter).toEqual({
+        and: [
+          { property: "Published", checkbox: { equals: true } },
+          { property: "Mins Read", number: { less_than_or_equal_to: 5 } },
+        ],
+      });
+    });
+
+    it("should reject compound filters nested too deeply", () => {
+      const builder = new QueryBuilder().where(
+        Filter.and(
+          Filter.or(Filter.and(Filter.checkbox("Published").equals(true)))
+        )
+      );
+
+      expect(() => builder.build()).toThrow(
+        "Compound filters can be nested at most 2 levels deep"
+      );
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimiter } from "../../../src/core/notion/RateLimiter";
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe("schedule", () => {
+    it("should return the result of the request", async () => {
+      const rateLimiter = new RateLimiter({ interval: 0 });
+
+      const result = await rateLimiter.schedule(async () => "done");
+
+      expect(result).toBe("done");
+      expect(rateLimiter.getStats()).toEqual({
+        requests: 1,
+        retries: 0,
+        rateLimited: 0,
+        failures: 0,
+      });
+    });
+
+    it("should space requests out once the burst is used", async () => {
+      vi.useFakeTimers();
+      const rateLimiter = new RateLimiter({ interval: 100, burst: 2 });
+      const started: number[] = [];
+      const request = async () => {
+        started.push(Date.now());
+      };
+
+      const start = Date.now();
+      const all = Promise.all([
+        rateLimiter.schedule(request),
+        rateLimiter.schedule(request),
+        rateLimiter.schedule(request),
+      ]);
+      await vi.advanceTimersByTimeAsync(150);
+      await all;
+
+      expect(started.map((time) => time - start)).toEqual([0, 0, 100]);
+    });
+
+    it("should limit the number of requests in flight", async () => {
+      const rateLimiter = new RateLimiter({ interval: 0, maxConcurrent: 2 });
+      let active = 0;
+      let maxActive = 0;
+      const request = async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      };
+
+      await Promise.all(
+        Array.from({ length: 5 }, () => rateLimiter.schedule(request))
+      );
+
+      expect(maxActive).toBe(2);
+    });
+
+    it("should wait for Retry-After before retrying a 429", async () => {
+      vi.useFakeTimers();
+      const rateLimiter = new RateLimiter({ interval: 0 });
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce({
+          status: 429,
+          headers: new Map([["retry-after", "2"]]),
+        })
+        .mockResolvedValueOnce("ok");
+
+      const result = rateLimiter.schedule(request);
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(request).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe("ok");
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(rateLimiter.getStats()).toMatchObject({
+        retries: 1,
+        rateLimited: 1,
+      });
+    });
+
+    it("should retry server errors with backoff", async () => {
+      const rateLimiter = new RateLimiter({ interval: 0, baseDelay: 1 });
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce({ status: 502 })
+        .mockRejectedValueOnce({ code: "notionhq_client_request_timeout" })
+        .mockResolvedValueOnce("ok");
+
+      await expect(rateLimiter.schedule(request)).resolves.toBe("ok");
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(rateLimiter.getStats().retries).toBe(2);
+    });
+
+    it("should only retry rejected requests that are not idempotent", async () => {
+      const rateLimiter = new RateLimiter({ interval: 0, baseDelay: 1 });
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce({ status: 429 })
+        .mockRejectedValueOnce({ status: 409 })
+        .mockRejectedValueOnce({ status: 502 });
+
+      await expect(rateLimiter.schedule(request, false)).rejects.toEqual({
+        status: 502,
+      });
+      expect(request).toHaveBeenCalledTimes(3);
+
+      const timedOut = vi
+        .fn()
+        .mockRejectedValue({ code: "notionhq_client_request_timeout" });
+
+      await expect(rateLimiter.schedule(timedOut, false)).rejects.toEqual({
+        code: "notionhq_client_request_timeout",
+      });
+      expect(timedOut).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not retry client errors", async () => {
+      const rateLimiter = new RateLimiter({ interval: 0 });
+      const error = { status: 400, message: "validation_error" };
+      const request = vi.fn().mockRejectedValue(error);
+
+      await expect(rateLimiter.schedule(request)).rejects.toBe(error);
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(rateLimiter.getStats().failures).toBe(1);
+    });
+
+    it("should give up after the maximum number of retries", async () => {
+      const rateLimiter = new RateLimiter({
+        interval: 0,
+        maxRetries: 2,
+        baseDelay: 1,
+      });
+      const request = vi.fn().mockRejectedValue({ status: 503 });
+
+      await expect(rateLimiter.schedule(request)).rejects.toEqual({
+        status: 503,
+      });
+      expect(request).toHaveBeenCalledTimes(3);
+      expect(rateLimiter.getStats()).toMatchObject({
+        requests: 3,
+        retries: 2,
+        failures: 1,
+      });
+    });
+  });
+
+  describe("fromConfig", () => {
+    it("should use the Notion configuration", () => {
+      const rateLimiter = RateLimiter.fromConfig({
+        apiKey: "test-api-key",
+        sourcePageId: "test-source-page-id",
+        rateLimitDelay: 500,
+        maxConcurrentRequests: 4,
+        maxRetries: 1,
+      });
+
+      expect((rateLimiter as any).interval).toBe(500);
+      expect((rateLimiter as any).maxConcurrent).toBe(4);
+      expect((rateLimiter as any).maxRetries).toBe(1);
+    });
+  });
+});
@@ -286,6 +286,40 @@ describe("StorageService", () => {
     });
   });
 
+  describe("uploadFile", () => {
+    it("should upload a file under files with its content type", async () => {
+      vi.mocked(path.extname).mockReturnValue(".pdf");
+      vi.mocked(path.basename).mockReturnValue("manual.pdf");
+
+      const result = await storageService.uploadFile("manual.pdf", {
+        title: "Manual",
+        sourceUrl: "https://example.com/manual.pdf",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.contentType).toBe("application/pdf");
+      expect(PutObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Key: expect.stringMatching(/^files\/.*-manual\.pdf$/),
+          ContentType: "application/pdf",
+          Metadata: {
+            title: "Manual",
+            sourceUrl: "https://example.com/manual.pdf",
+          },
+        })
+      );
+    });
+
+    it("should use a given content type", async () => {
+      vi.mocked(path.extname).mockReturnValue("");
+
+      const result = await storageService.uploadFile("recording", {
+        contentType: "video/mp4",
+      });
+
+      expect(result.contentType).toBe("video/mp4");
+    });
+  });
   describe("getPublicUrl", () => {
     it("should generate presigned URL when configured", async () => {
       const config = { ...mockConfig, usePresignedUrls: true };
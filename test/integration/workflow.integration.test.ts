@@ -149,7 +149,6 @@ describe("NotionPageDb Integration", () => {
         const firstCategory: Category = {
           id: categoryBlocks[0].id,
           name: (categoryBlocks[0] as any).child_page.title,
-          type: "regular" as const,
         };
 
         // Get content pages from category
@@ -7,6 +7,7 @@ import { StorageService } from "../../src/core/storage/StorageService";
 import { ContentProcessor } from "../../src/workflow/content/ContentProcessor";
 import { DatabaseUpdater } from "../../src/workflow/database/DatabaseUpdater";
 import { DatabaseVerifier } from "../../src/workflow/database/DatabaseVerifier";
+import { AssetProcessor } from "../../src/workflow/images/AssetProcessor";
 import { ImageProcessor } from "../../src/workflow/images/ImageProcessor";
 import { MigrationManager } from "../../src/workflow/MigrationManager";
 import { resetMocks } from "../setup";
@@ -20,6 +21,7 @@ vi.mock("../../src/workflow/database/DatabaseVerifier");
 vi.mock("../../src/workflow/content/ContentProcessor");
 vi.mock("../../src/workflow/database/DatabaseUpdater");
 vi.mock("../../src/workflow/images/ImageProcessor");
+vi.mock("../../src/workflow/images/AssetProcessor");
 
 describe("MigrationManager", () => {
   let migrationManager: MigrationManager;
@@ -32,6 +34,7 @@ describe("MigrationManager", () => {
   let contentProcessor: ContentProcessor;
   let databaseUpdater: DatabaseUpdater;
   let imageProcessor: ImageProcessor;
+  let assetProcessor: AssetProcessor;
 
   beforeEach(() => {
     resetMocks();
@@ -83,6 +86,17 @@ describe("MigrationManager", () => {
         databaseId: "test-database-id",
         message: "Database initialized successfully",
       }),
+      migrateSchema: vi.fn().mockResolvedValue({
+        validation: {
+          valid: true,
+          missingProperties: [],
+          incorrectProperties: [],
+          missingOptions: [],
+        },
+        changes: [],
+        conflicts: [],
+        applied: false,
+      }),
     } as any;
 
     // Mock image processor
@@ -105,6 +119,25 @@ describe("MigrationManager", () => {
       ]),
       setDatabaseId: vi.fn(),
       getDatabaseId: vi.fn().mockReturnValue("test-database-id"),
+      findExistingEntry: vi.fn().mockReturnValue(undefined),
+      getEmptyFields: vi.fn().mockReturnValue([]),
+      findOrphanedEntries: vi.fn().mockReturnValue([]),
+      markEntries: vi.fn().mockResolvedValue(0),
+      unmarkEntries: vi.fn().mockResolvedValue(0),
+      archiveEntries: vi.fn().mockResolvedValue(0),
+      linkSourceIds: vi.fn().mockResolvedValue({
+        linked: 1,
+        alreadyLinked: 1,
+        unmatched: [],
+        ambiguous: [],
+      }),
+    } as any;
+
+    // Mock asset processor
+    assetProcessor = {
+      processAllAssets: vi
+        .fn()
+        .mockResolvedValue({ uploaded: 0, reused: 0, failed: 0 }),
     } as any;
 
     // Mock content processor
@@ -121,6 +154,7 @@ describe("MigrationManager", () => {
         { id: "page1", title: "Page 1", content: "Enhanced Content 1" },
         { id: "page2", title: "Page 2", content: "Enhanced Content 2" },
       ]),
+      canGenerateImages: vi.fn().mockReturnValue(true),
     } as any;
 
     // Set up constructor mocks
@@ -133,6 +167,7 @@ describe("MigrationManager", () => {
     vi.mocked(ContentProcessor).mockImplementation(() => contentProcessor);
     vi.mocked(DatabaseUpdater).mockImplementation(() => databaseUpdater);
     vi.mocked(ImageProcessor).mockImplementation(() => imageProcessor);
+    vi.mocked(AssetProcessor).mockImplementation(() => assetProcessor);
 
     migrationManager = new MigrationManager();
   });
@@ -176,8 +211,8 @@ describe("MigrationManager", () => {
           { id: "page2", title: "Page 2", content: "Content 2" },
         ],
         categories: [
-          { id: "cat1", name: "Category 1", type: "regular" },
-          { id: "cat2", name: "Category 2", type: "regular" },
+          { id: "cat1", name: "Category 1" },
+          { id: "cat2", name: "Category 2" },
         ],
       };
 
@@ -224,6 +259,53 @@ describe("MigrationManager", () => {
       expect(contentProcessor.fetchContent).not.toHaveBeenCalled();
     });
 
+    it("should stop on database schema conflicts", async () => {
+      (databaseVerifier.migrateSchema as any).mockResolvedValueOnce({
+        changes: [],
+        conflicts: ['Property "Mins Read" is rich_text, expected number'],
+        applied: false,
+      });
+
+      const result = await migrationManager.migrate();
+
+      expect(databaseVerifier.migrateSchema).toHaveBeenCalledWith(true);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(
+        'Database schema conflicts: Property "Mins Read" is rich_text'
+      );
+      expect(contentProcessor.fetchContent).not.toHaveBeenCalled();
+    });
+
+    it("should stop when a schema preview finds changes", async () => {
+      (databaseVerifier.migrateSchema as any).mockResolvedValueOnce({
+        changes: ['Add property "Summary" (rich_text)'],
+        conflicts: [],
+        applied: false,
+      });
+
+      const result = await migrationManager.migrate({
+        schemaUpdate: "preview",
+      });
+
+      expect(databaseVerifier.migrateSchema).toHaveBeenCalledWith(true);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Database schema needs changes");
+    });
+
+    it("should only change the database schema when asked to", async () => {
+      await migrationManager.migrate();
+      await migrationManager.migrate({ schemaUpdate: "apply" });
+
+      expect(databaseVerifier.migrateSchema).toHaveBeenNthCalledWith(1, true);
+      expect(databaseVerifier.migrateSchema).toHaveBeenNthCalledWith(2, false);
+    });
+
+    it("should skip the schema check when it is turned off", async () => {
+      await migrationManager.migrate({ schemaUpdate: "off" });
+
+      expect(databaseVerifier.migrateSchema).not.toHaveBeenCalled();
+    });
+
     it("should handle content extraction failure", async () => {
       vi.mocked(contentProcessor.fetchContent).mockRejectedValueOnce(
         new Error("Content extraction failed")
@@ -294,6 +376,232 @@ describe("MigrationManager", () => {
     });
   });
 
+  describe("orphaned entries", () => {
+    const orphans = [
+      { id: "entry1", url: "https://notion.so/entry1" },
+      { id: "entry2", url: "https://notion.so/entry2" },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(databaseUpdater.findOrphanedEntries).mockReturnValue(
+        orphans as any
+      );
+    });
+
+    it("should only report orphaned entries by default", async () => {
+      await migrationManager.migrate();
+
+      expect(databaseUpdater.findOrphanedEntries).toHaveBeenCalledWith([
+        "page1",
+        "page2",
+      ]);
+      expect(databaseUpdater.markEntries).not.toHaveBeenCalled();
+      expect(databaseUpdater.unmarkEntries).not.toHaveBeenCalled();
+      expect(databaseUpdater.archiveEntries).not.toHaveBeenCalled();
+    });
+
+    it("should mark orphaned entries with the orphan status", async () => {
+      configManager.getNotionConfig = vi.fn().mockReturnValue({
+        ...configManager.getNotionConfig(),
+        orphanPolicy: "mark",
+        orphanStatus: "Gone",
+      });
+
+      await migrationManager.migrate();
+
+      expect(databaseUpdater.markEntries).toHaveBeenCalledWith(orphans, "Gone");
+      expect(databaseUpdater.unmarkEntries).toHaveBeenCalledWith(
+        ["page1", "page2"],
+        "Gone",
+        expect.arrayContaining([expect.objectContaining({ id: "page1" })])
+      );
+      expect(
+        vi.mocked(databaseUpdater.unmarkEntries).mock.invocationCallOrder[0]
+      ).toBeLessThan(
+        vi.mocked(databaseUpdater.findExistingEntry).mock.invocationCallOrder[0]
+      );
+    });
+
+    it("should archive orphaned entries within the limit", async () => {
+      await migrationManager.migrate({ orphanPolicy: "archive" });
+
+      expect(databaseUpdater.archiveEntries).toHaveBeenCalledWith(orphans);
+    });
+
+    it("should not archive the entries of pages left out by the content filters", async () => {
+      // page3 exists in the source, but the content filters skipped it
+      contentProcessor.fetchContent = vi.fn().mockResolvedValue({
+        success: true,
+        contentPages: [{ id: "page1", title: "Page 1", content: "Content 1" }],
+        sourcePageIds: ["page1", "page3"],
+        categories: [],
+      });
+      const entries = [
+        { id: "entry1", sourceId: "page1" },
+        { id: "entry3", sourceId: "page3" },
+        { id: "entry4", sourceId: "deleted-page" },
+      ];
+      vi.mocked(databaseUpdater.findOrphanedEntries).mockImplementation(
+        (sourcePageIds) =>
+          entries.filter(
+            (entry) => !sourcePageIds.includes(entry.sourceId)
+          ) as any
+      );
+
+      await migrationManager.migrate({ orphanPolicy: "archive" });
+
+      expect(databaseUpdater.findOrphanedEntries).toHaveBeenCalledWith([
+        "page1",
+        "page3",
+      ]);
+      expect(databaseUpdater.archiveEntries).toHaveBeenCalledWith([
+        { id: "entry4", sourceId: "deleted-page" },
+      ]);
+    });
+
+    it("should stop before archiving more entries than the limit", async () => {
+      configManager.getNotionConfig = vi.fn().mockReturnValue({
+        ...configManager.getNotionConfig(),
+        orphanArchiveLimit: 1,
+      });
+
+      const result = await migrationManager.migrate({
+        orphanPolicy: "archive",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(
+        "Refusing to archive 2 orphaned entries, the limit is 1"
+      );
+      expect(databaseUpdater.archiveEntries).not.toHaveBeenCalled();
+      expect(databaseUpdater.updateEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("field conflicts", () => {
+    it("should report fields whose entry value differs from the source", async () => {
+      console.warn = vi.fn();
+      const entry = { id: "entry1", url: "https://notion.so/entry1" };
+      vi.mocked(databaseUpdater.findExistingEntry).mockReturnValue(
+        entry as any
+      );
+      (databaseUpdater as any).getFieldsNeedingUpdate = vi
+        .fn()
+        .mockReturnValue([]);
+      (databaseUpdater as any).getFieldConflicts = vi.fn().mockReturnValue([
+        {
+          entryId: "entry1",
+          title: "Page 1",
+          field: "status",
+          ownership: "database-wins",
+        },
+      ]);
+
+      const result = await migrationManager.migrate();
+
+      expect(result.success).toBe(true);
+      expect(result.fieldConflicts).toBe(2);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Field "status" of "Page 1" differs from the source (database-wins), keeping the database value'
+      );
+      expect(databaseUpdater.updateEntries).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("category relation", () => {
+    let categoryDatabase: any;
+
+    beforeEach(() => {
+      configManager.getNotionConfig = vi.fn().mockReturnValue({
+        ...configManager.getNotionConfig(),
+        categoryMode: "relation",
+        categoryDatabaseName: "Categories",
+      });
+      categoryDatabase = {
+        initialize: vi.fn().mockResolvedValue("categories-db"),
+        sync: vi.fn().mockResolvedValue(new Map([["JavaScript", "row-1"]])),
+      };
+      (databaseUpdater as any).setCategoryPages = vi.fn();
+
+      migrationManager = new MigrationManager();
+      (migrationManager as any).categoryDatabase = categoryDatabase;
+    });
+
+    it("should write the category as a relation", () => {
+      expect(DatabaseUpdater).toHaveBeenLastCalledWith(
+        notionDatabase,
+        undefined,
+        undefined,
+        expect.objectContaining({
+          category: { property: "Category", type: "relation" },
+        }),
+        undefined,
+        undefined
+      );
+    });
+
+    it("should prepare the categories database before the target database", async () => {
+      await migrationManager.migrate();
+
+      expect(categoryDatabase.initialize).toHaveBeenCalledWith(
+        "test-source-page-id"
+      );
+      expect(configManager.getNotionConfig().categoryDatabaseId).toBe(
+        "categories-db"
+      );
+      expect(categoryDatabase.sync).toHaveBeenCalledWith(
+        [],
+        [
+          { id: "page1", title: "Page 1", content: "Content 1" },
+          { id: "page2", title: "Page 2", content: "Content 2" },
+        ]
+      );
+      expect(databaseUpdater.setCategoryPages).toHaveBeenCalledWith(
+        new Map([["JavaScript", "row-1"]])
+      );
+    });
+
+    it("should stop when the categories database cannot be prepared", async () => {
+      categoryDatabase.initialize.mockRejectedValue(
+        new Error("Categories database schema conflicts: Property")
+      );
+
+      const result = await migrationManager.migrate();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Categories database verification failed");
+      expect(databaseVerifier.verifyDatabase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("backfillSourceIds", () => {
+    it("should link the entries of the fetched source pages", async () => {
+      const result = await migrationManager.backfillSourceIds();
+
+      expect(databaseVerifier.migrateSchema).toHaveBeenCalledWith(true);
+      expect(databaseUpdater.setDatabaseId).toHaveBeenCalledWith(
+        "test-database-id"
+      );
+      expect(databaseUpdater.linkSourceIds).toHaveBeenCalledWith([
+        { id: "page1", title: "Page 1", content: "Content 1" },
+        { id: "page2", title: "Page 2", content: "Content 2" },
+      ]);
+      expect(result.linked).toBe(1);
+    });
+
+    it("should fail when the database is not ready", async () => {
+      (databaseVerifier.verifyDatabase as any).mockResolvedValueOnce({
+        success: false,
+        errors: ["Database not found"],
+      });
+
+      await expect(migrationManager.backfillSourceIds()).rejects.toThrow(
+        "Database verification failed: Database not found"
+      );
+      expect(databaseUpdater.linkSourceIds).not.toHaveBeenCalled();
+    });
+  });
+
   describe("service getters", () => {
     it("should return initialized services", () => {
       expect(migrationManager.getConfigManager()).toBeDefined();
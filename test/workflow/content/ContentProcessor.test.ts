@@ -12,8 +12,8 @@ describe("ContentProcessor", () => {
 
   // Sample test data
   const sampleCategories: Category[] = [
-    { id: "cat1", name: "Category 1", type: "regular" },
-    { id: "cat2", name: "Category 2", type: "regular" },
+    { id: "cat1", name: "Category 1" },
+    { id: "cat2", name: "Category 2" },
   ];
 
   const sampleContentPages: ContentPage[] = [
@@ -48,6 +48,8 @@ describe("ContentProcessor", () => {
       fetchPageContent: vi.fn(),
       extractCategories: vi.fn().mockResolvedValue(sampleCategories),
       extractValidContent: vi.fn().mockResolvedValue(sampleContentPages),
+      extractDatabaseContent: vi.fn().mockResolvedValue(sampleContentPages),
+      extractExcludedPageIds: vi.fn().mockResolvedValue([]),
       generateExcerpt: vi.fn().mockReturnValue("This is an excerpt..."),
       extractTags: vi.fn().mockReturnValue(["tag1", "tag2"]),
       estimateReadingTime: vi.fn().mockReturnValue(3),
@@ -128,6 +130,189 @@ describe("ContentProcessor", () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe("Test error");
     });
+
+    it("should read content pages from the source database when configured", async () => {
+      // Setup
+      contentProcessor = new ContentProcessor(
+        notionContent,
+        aiService,
+        sourcePageId,
+        "source-db-id"
+      );
+
+      // Execute
+      const result = await contentProcessor.fetchContent();
+
+      // Verify
+      expect(notionContent.extractDatabaseContent).toHaveBeenCalledWith(
+        "source-db-id"
+      );
+      expect(notionContent.extractCategories).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.contentPages).toEqual(sampleContentPages);
+      expect(result.categories?.map((category) => category.name)).toEqual([
+        "Category 1",
+        "Category 2",
+      ]);
+    });
+
+    it("should return error when the source database has no rows", async () => {
+      // Setup
+      notionContent.extractDatabaseContent = vi.fn().mockResolvedValue([]);
+      contentProcessor = new ContentProcessor(
+        notionContent,
+        aiService,
+        sourcePageId,
+        "source-db-id"
+      );
+
+      // Execute
+      const result = await contentProcessor.fetchContent();
+
+      // Verify
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        "No content pages found in the source database"
+      );
+    });
+
+    it("should apply content filters before enhancement", async () => {
+      // Setup
+      contentProcessor = new ContentProcessor(
+        notionContent,
+        aiService,
+        sourcePageId,
+        undefined,
+        { excludeCategories: ["Category 2"], excludeTitles: ["Template*"] }
+      );
+
+      // Execute
+      const result = await contentProcessor.fetchContent();
+      await contentProcessor.enhanceAllContent();
+
+      // Verify
+      expect(result.success).toBe(true);
+      expect(result.categories).toEqual([sampleCategories[0]]);
+      expect(result.contentPages).toEqual([sampleContentPages[0]]);
+      expect(contentProcessor.getContentPage("page2")).toBeNull();
+      expect(aiService.generateTitle).not.toHaveBeenCalled();
+    });
+
+    it("should list the pages left out by filters and category rules", async () => {
+      // Setup
+      vi.mocked(notionContent.extractExcludedPageIds).mockResolvedValue([
+        "page3",
+      ]);
+      contentProcessor = new ContentProcessor(
+        notionContent,
+        aiService,
+        sourcePageId,
+        "source-db-id",
+        { excludeTitles: ["Untitled*"] }
+      );
+
+      // Execute
+      const result = await contentProcessor.fetchContent();
+
+      // Verify
+      expect(result.contentPages).toEqual([sampleContentPages[0]]);
+      expect(result.sourcePageIds).toEqual(["page1", "page2", "page3"]);
+      expect(notionContent.extractExcludedPageIds).toHaveBeenCalledWith(
+        "source-db-id"
+      );
+    });
+
+    it("should return error when the content filters reject every page", async () => {
+      // Setup
+      contentProcessor = new ContentProcessor(
+        notionContent,
+        aiService,
+        sourcePageId,
+        "source-db-id",
+        { minWords: 100 }
+      );
+
+      // Execute
+      const result = await contentProcessor.fetchContent();
+
+      // Verify
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("No content pages match the content filters");
+      expect(contentProcessor.getAllContentPages()).toEqual([]);
+    });
+  });
+
+  describe("image sources", () => {
+    const imagePage: ContentPage = {
+      ...sampleContentPages[0],
+      coverUrl: "https://example.com/cover.jpg",
+      iconUrl: "https://example.com/icon.png",
+      assets: [
+        {
+          blockId: "block1",
+          type: "file",
+          url: "https://example.com/notes.txt",
+        },
+        {
+          blockId: "block2",
+          type: "image",
+          url: "https://example.com/inline.png",
+        },
+      ],
+    };
+
+    it("should use the page cover before other images", async () => {
+      notionContent.extractValidContent = vi
+        .fn()
+        .mockResolvedValue([{ ...imagePage }]);
+
+      const result = await contentProcessor.fetchContent();
+
+      expect(result.contentPages?.[0].imageUrl).toBe(
+        "https://example.com/cover.jpg"
+      );
+    });
+
+    it("should follow the configured priority", async () => {
+      notionContent.extractValidContent = vi
+        .fn()
+        .mockResolvedValue([
+          { ...imagePage },
+          { ...imagePage, id: "page3", assets: [] },
+        ]);
+      contentProcessor = new ContentProcessor(
+        notionContent,
+        aiService,
+        sourcePageId,
+        undefined,
+        undefined,
+        ["inline", "generate"]
+      );
+
+      const result = await contentProcessor.fetchContent();
+
+      expect(result.contentPages?.[0].imageUrl).toBe(
+        "https://example.com/inline.png"
+      );
+      expect(result.contentPages?.[1].imageUrl).toBeUndefined();
+    });
+
+    it("should not generate images when generation is not a source", async () => {
+      contentProcessor = new ContentProcessor(
+        notionContent,
+        aiService,
+        sourcePageId,
+        undefined,
+        undefined,
+        ["cover"]
+      );
+      await contentProcessor.fetchContent();
+
+      await contentProcessor.enhanceContent("page1", true);
+
+      expect(contentProcessor.canGenerateImages()).toBe(false);
+      expect(aiService.generateImage).not.toHaveBeenCalled();
+    });
   });
 
   describe("enhanceContent", () => {
@@ -153,6 +338,7 @@ describe("ContentProcessor", () => {
 
       // Verify enhanced properties
       expect(result?.title).toBe("Enhanced Title");
+      expect(result?.sourceTitle).toBe("Untitled Page");
       expect(result?.summary).toBe("This is a summary of the content.");
       expect(result?.excerpt).toBe("This is an excerpt...");
       expect(result?.tags).toEqual(["tag1", "tag2"]);
@@ -177,6 +363,20 @@ describe("ContentProcessor", () => {
       expect(result?.title).toBe("Test Page 1");
     });
 
+    it("should keep a title generated by an earlier run", async () => {
+      // Setup
+      const page = (contentProcessor as any).processedContent.get("page2");
+      page.title = "Generated Title";
+      page.sourceTitle = "Untitled Page";
+
+      // Execute
+      const result = await contentProcessor.enhanceContent("page2", false);
+
+      // Verify
+      expect(aiService.generateTitle).not.toHaveBeenCalled();
+      expect(result?.title).toBe("Generated Title");
+    });
+
     it("should return null for non-existent page ID", async () => {
       // Execute
       const result = await contentProcessor.enhanceContent(
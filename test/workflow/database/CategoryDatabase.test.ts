@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { INotionDatabase } from "../../../src/core/notion/NotionDatabase.interface";
+import { Category, ContentPage, NotionEntry } from "../../../src/types";
+import { CategoryDatabase } from "../../../src/workflow/database/CategoryDatabase";
+
+describe("CategoryDatabase", () => {
+  let notionDatabase: INotionDatabase;
+  let categoryDatabase: CategoryDatabase;
+
+  const categories: Category[] = [
+    { id: "page-a-1", name: "JavaScript" },
+    { id: "page-b-2", name: "Rust" },
+  ];
+
+  const page = (id: string, category: string): ContentPage => ({
+    id,
+    title: `Page ${id}`,
+    parentId: "parent-id",
+    category,
+    content: "Content",
+    createdTime: "2024-01-01T00:00:00Z",
+    lastEditedTime: "2024-01-02T00:00:00Z",
+  });
+
+  const row = (
+    id: string,
+    name: string,
+    properties: Record<string, any> = {}
+  ): NotionEntry => ({
+    id,
+    properties: {
+      Name: { title: [{ plain_text: name }] },
+      ...properties,
+    },
+    url: `https://notion.so/${id}`,
+    created_time: "2024-01-01T00:00:00Z",
+    last_edited_time: "2024-01-02T00:00:00Z",
+  });
+
+  // Streams the given rows from the mocked database
+  const streamEntries = (entries: NotionEntry[]) =>
+    vi.fn().mockImplementation(async function* () {
+      yield* entries;
+    });
+
+  beforeEach(() => {
+    console.log = vi.fn();
+    console.error = vi.fn();
+
+    notionDatabase = {
+      getDatabaseId: vi.fn().mockReturnValue("categories-db"),
+      verifyDatabase: vi.fn().mockResolvedValue(true),
+      initializeDatabase: vi.fn().mockResolvedValue("created-db"),
+      getSchema: vi.fn(),
+      updateSchema: vi.fn().mockResolvedValue(undefined),
+      iterateEntries: streamEntries([]),
+      createEntry: vi.fn().mockResolvedValue("new-row"),
+      updateEntry: vi.fn().mockResolvedValue(undefined),
+    } as unknown as INotionDatabase;
+    vi.mocked(notionDatabase.getSchema).mockImplementation(async () =>
+      categoryDatabase.getSchema()
+    );
+
+    categoryDatabase = new CategoryDatabase(notionDatabase, "Categories");
+  });
+
+  describe("initialize", () => {
+    it("should verify the configured database", async () => {
+      const databaseId = await categoryDatabase.initialize("parent-id");
+
+      expect(databaseId).toBe("categories-db");
+      expect(notionDatabase.verifyDatabase).toHaveBeenCalled();
+      expect(notionDatabase.initializeDatabase).not.toHaveBeenCalled();
+      expect(notionDatabase.updateSchema).not.toHaveBeenCalled();
+    });
+
+    it("should find or create the database by name without an ID", async () => {
+      vi.mocked(notionDatabase.getDatabaseId).mockReturnValue(undefined);
+
+      const databaseId = await categoryDatabase.initialize("parent-id");
+
+      expect(databaseId).toBe("created-db");
+      expect(notionDatabase.initializeDatabase).toHaveBeenCalledWith(
+        "parent-id",
+        categoryDatabase.getSchema()
+      );
+    });
+
+    it("should add missing properties and reject changed ones", async () => {
+      vi.mocked(notionDatabase.getSchema).mockResolvedValueOnce({
+        name: "Categories",
+        properties: { Name: { type: "title" }, Articles: { type: "number" } },
+      });
+
+      await categoryDatabase.initialize();
+
+      expect(notionDatabase.updateSchema).toHaveBeenCalledWith({
+        Type: categoryDatabase.getSchema().properties.Type,
+        "Source Page": { type: "url" },
+      });
+
+      vi.mocked(notionDatabase.getSchema).mockResolvedValueOnce({
+        name: "Categories",
+        properties: {
+          ...categoryDatabase.getSchema().properties,
+          Articles: { type: "rich_text" },
+        },
+      });
+
+      await expect(categoryDatabase.initialize()).rejects.toThrow(
+        'Categories database schema conflicts: Property "Articles" is rich_text, expected number'
+      );
+    });
+  });
+
+  describe("sync", () => {
+    it("should create missing rows and update changed ones", async () => {
+      notionDatabase.iterateEntries = streamEntries([
+        row("row-js", "JavaScript", {
+          Type: { select: { name: "Page" } },
+          "Source Page": { url: "https://www.notion.so/pagea1" },
+          Articles: { number: 1 },
+        }),
+      ]);
+
+      const rowIds = await categoryDatabase.sync(categories, [
+        page("p1", "JavaScript"),
+        page("p2", "JavaScript"),
+        page("p3", "Go"),
+      ]);
+
+      expect(notionDatabase.iterateEntries).toHaveBeenCalledWith({
+        database_id: "categories-db",
+      });
+      expect(rowIds).toEqual(
+        new Map([
+          ["JavaScript", "row-js"],
+          ["Rust", "new-row"],
+          ["Go", "new-row"],
+        ])
+      );
+      expect(notionDatabase.updateEntry).toHaveBeenCalledWith("row-js", {
+        properties: expect.objectContaining({ Articles: { number: 2 } }),
+      });
+      expect(notionDatabase.createEntry).toHaveBeenCalledWith({
+        properties: {
+          Name: { title: [{ type: "text", text: { content: "Rust" } }] },
+          Type: { select: { name: "Page" } },
+          "Source Page": { url: "https://www.notion.so/pageb2" },
+          Articles: { number: 0 },
+        },
+      });
+      expect(notionDatabase.createEntry).toHaveBeenCalledWith({
+        properties: expect.objectContaining({
+          Type: { select: { name: "Property" } },
+          "Source Page": { url: null },
+        }),
+      });
+    });
+
+    it("should not update rows that are up to date", async () => {
+      notionDatabase.iterateEntries = streamEntries([
+        row("row-js", "JavaScript", {
+          Type: { select: { name: "Property" } },
+          "Source Page": { url: null },
+          Articles: { number: 1 },
+        }),
+      ]);
+      categoryDatabase = new CategoryDatabase(
+        notionDatabase,
+        "Categories",
+        "database"
+      );
+
+      await categoryDatabase.sync(
+        [{ id: "source-db", name: "JavaScript" }],
+        [page("p1", "JavaScript")]
+      );
+
+      expect(notionDatabase.updateEntry).not.toHaveBeenCalled();
+      expect(notionDatabase.createEntry).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import * as fs from "fs-extra";
+import * as path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { FieldMapper } from "../../../src/core/notion/FieldMapper";
+import { INotionDatabase } from "../../../src/core/notion/NotionDatabase.interface";
+import { NotionEntry } from "../../../src/types";
+import { DatabaseIndex } from "../../../src/workflow/database/DatabaseIndex";
+
+// Mock fs-extra
+vi.mock("fs-extra", () => ({
+  ensureDir: vi.fn(),
+  pathExists: vi.fn(),
+  readJSON: vi.fn(),
+  writeJSON: vi.fn(),
+}));
+
+describe("DatabaseIndex", () => {
+  let notionDatabase: INotionDatabase;
+  const indexDir = "/tmp/notion-cache";
+  const databaseId = "db-1";
+  const filePath = path.join(indexDir, "databases", "db1.json");
+
+  const entry = (
+    id: string,
+    title: string,
+    properties: Record<string, any> = {}
+  ): NotionEntry => ({
+    id,
+    properties: {
+      Title: { title: [{ plain_text: title }] },
+      ...properties,
+    },
+    url: `https://notion.so/${id}`,
+    created_time: "2024-01-01T00:00:00.000Z",
+    last_edited_time: "2024-01-02T00:00:00.000Z",
+  });
+
+  const linked = entry("entry1", "Closures", {
+    "Source ID": { rich_text: [{ plain_text: "source1" }] },
+    "Original Page": { url: "https://www.notion.so/source1" },
+  });
+  const unlinked = entry("entry2", "Closures");
+
+  // Streams the given entries from the mocked database
+  const streamEntries = (entries: NotionEntry[]) =>
+    vi.fn().mockImplementation(async function* () {
+      yield* entries;
+    });
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(fs.ensureDir).mockResolvedValue();
+    vi.mocked(fs.writeJSON).mockResolvedValue();
+    vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(false));
+
+    notionDatabase = {
+      iterateEntries: streamEntries([linked, unlinked]),
+    } as unknown as INotionDatabase;
+  });
+
+  describe("sync", () => {
+    it("should index every entry by source ID, URL and title", async () => {
+      const index = new DatabaseIndex(notionDatabase, new FieldMapper());
+
+      const fetched = await index.sync(databaseId);
+
+      expect(fetched).toBe(2);
+      expect(notionDatabase.iterateEntries).toHaveBeenCalledWith({
+        database_id: databaseId,
+      });
+      expect(index.isSynced(databaseId)).toBe(true);
+      expect(index.get("entry2")).toBe(unlinked);
+      expect(index.findBySourceId("source1")).toBe(linked);
+      expect(index.findByUrl("https://www.notion.so/source1")).toBe(linked);
+      expect(index.findByTitle("Closures")).toEqual([linked, unlinked]);
+      expect(fs.writeJSON).not.toHaveBeenCalled();
+    });
+
+    it("should store the index after a full sync", async () => {
+      const index = new DatabaseIndex(
+        notionDatabase,
+        new FieldMapper(),
+        indexDir
+      );
+
+      await index.sync(databaseId);
+
+      expect(fs.ensureDir).toHaveBeenCalledWith(path.dirname(filePath));
+      expect(fs.writeJSON).toHaveBeenCalledWith(filePath, {
+        version: 1,
+        databaseId,
+        syncedAt: expect.any(String),
+        fullSyncedAt: expect.any(String),
+        entries: [linked, unlinked],
+        contentHashes: {},
+        sourceTitles: {},
+      });
+    });
+
+    it("should keep the body hashes and source titles of stored entries", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValue({
+        version: 1,
+        databaseId,
+        syncedAt: "2024-03-01T10:05:30.000Z",
+        fullSyncedAt: new Date().toISOString(),
+        entries: [linked, unlinked],
+        contentHashes: { [linked.id]: "hash1", removed: "hash2" },
+        sourceTitles: { [unlinked.id]: "Short", removed: "Gone" },
+      });
+      notionDatabase.iterateEntries = streamEntries([]);
+      const index = new DatabaseIndex(
+        notionDatabase,
+        new FieldMapper(),
+        indexDir
+      );
+
+      await index.sync(databaseId);
+      index.setContentHash(unlinked.id, "");
+
+      expect(index.getContentHash(linked.id)).toBe("hash1");
+      expect(index.getSourceTitle(unlinked.id)).toBe("Short");
+      expect(fs.writeJSON).toHaveBeenLastCalledWith(
+        filePath,
+        expect.objectContaining({
+          contentHashes: { [linked.id]: "hash1" },
+          sourceTitles: { [unlinked.id]: "Short" },
+        })
+      );
+
+      await index.save();
+
+      expect(fs.writeJSON).toHaveBeenLastCalledWith(
+        filePath,
+        expect.objectContaining({
+          contentHashes: { [linked.id]: "hash1", [unlinked.id]: "" },
+        })
+      );
+    });
+
+    it("should only fetch entries edited since the stored sync", async () => {
+      const edited = {
+        ...unlinked,
+        properties: {
+          ...unlinked.properties,
+          Title: { title: [{ plain_text: "Scope" }] },
+        },
+      };
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValue({
+        version: 1,
+        databaseId,
+        syncedAt: "2024-03-01T10:05:30.000Z",
+        fullSyncedAt: new Date().toISOString(),
+        entries: [linked, unlinked],
+      });
+      notionDatabase.iterateEntries = streamEntries([edited]);
+      const index = new DatabaseIndex(
+        notionDatabase,
+        new FieldMapper(),
+        indexDir
+      );
+
+      const fetched = await index.sync(databaseId);
+
+      expect(fetched).toBe(1);
+      expect(notionDatabase.iterateEntries).toHaveBeenCalledWith({
+        database_id: databaseId,
+        filter: {
+          timestamp: "last_edited_time",
+          last_edited_time: { on_or_after: "2024-03-01T10:04:30.000Z" },
+        },
+      });
+      expect(index.getEntries()).toEqual([linked, edited]);
+      expect(index.findByTitle("Closures")).toEqual([linked]);
+      expect(index.findByTitle("Scope")).toEqual([edited]);
+    });
+
+    it("should replace the stored entries with a daily full sync", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValue({
+        version: 1,
+        databaseId,
+        syncedAt: new Date().toISOString(),
+        fullSyncedAt: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString(),
+        entries: [linked, unlinked],
+        contentHashes: { [linked.id]: "hash1", [unlinked.id]: "hash2" },
+      });
+      // The unlinked entry was archived in Notion
+      notionDatabase.iterateEntries = streamEntries([linked]);
+      const index = new DatabaseIndex(
+        notionDatabase,
+        new FieldMapper(),
+        indexDir
+      );
+
+      const fetched = await index.sync(databaseId);
+
+      expect(fetched).toBe(1);
+      expect(notionDatabase.iterateEntries).toHaveBeenCalledWith({
+        database_id: databaseId,
+      });
+      expect(index.getEntries()).toEqual([linked]);
+      expect(index.findByTitle("Closures")).toEqual([linked]);
+      expect(fs.writeJSON).toHaveBeenCalledWith(
+        filePath,
+        expect.objectContaining({
+          entries: [linked],
+          contentHashes: { [linked.id]: "hash1" },
+        })
+      );
+    });
+
+    it("should rebuild an index stored in another version", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValue({
+        version: 0,
+        databaseId,
+        syncedAt: "2024-03-01T10:05:30.000Z",
+        entries: [],
+      });
+      const index = new DatabaseIndex(
+        notionDatabase,
+        new FieldMapper(),
+        indexDir
+      );
+
+      await index.sync(databaseId);
+
+      expect(notionDatabase.iterateEntries).toHaveBeenCalledWith({
+        database_id: databaseId,
+      });
+    });
+
+    it("should rebuild a corrupt index", async () => {
+      console.warn = vi.fn();
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockRejectedValue(new Error("Unexpected token"));
+      const index = new DatabaseIndex(
+        notionDatabase,
+        new FieldMapper(),
+        indexDir
+      );
+
+      await index.sync(databaseId);
+
+      expect(console.warn).toHaveBeenCalled();
+      expect(index.getEntries()).toHaveLength(2);
+    });
+  });
+
+  describe("add", () => {
+    it("should replace the previous version of an entry", async () => {
+      const index = new DatabaseIndex(notionDatabase, new FieldMapper());
+      await index.sync(databaseId);
+
+      index.add({
+        ...linked,
+        properties: { Title: { title: [{ plain_text: "Renamed" }] } },
+      });
+
+      expect(index.getEntries()).toHaveLength(2);
+      expect(index.findBySourceId("source1")).toBeUndefined();
+      expect(index.findByUrl("https://www.notion.so/source1")).toBeUndefined();
+      expect(index.findByTitle("Closures")).toEqual([unlinked]);
+      expect(index.findByTitle("Renamed")[0].id).toBe("entry1");
+    });
+  });
+});
@@ -48,6 +48,7 @@ describe("DatabaseUpdater", () => {
       tags: ["tag1", "tag2"],
       minsRead: 5,
       imageUrl: "https://example.com/image1.jpg",
+      originalPageUrl: "https://www.notion.so/entry1id",
       status: Status.Draft,
       createdTime: "2023-01-01T00:00:00Z",
       lastEditedTime: "2023-01-02T00:00:00Z",
@@ -68,6 +69,12 @@ describe("DatabaseUpdater", () => {
     },
   ];
 
+  // Streams the given entries from the mocked database
+  const streamEntries = (entries: NotionEntry[]) =>
+    vi.fn().mockImplementation(async function* () {
+      yield* entries;
+    });
+
   beforeEach(() => {
     // Reset all mocks
     vi.resetAllMocks();
@@ -77,15 +84,20 @@ describe("DatabaseUpdater", () => {
       client: {} as any,
       getDatabaseId: vi.fn().mockReturnValue(databaseId),
       setDatabaseId: vi.fn(),
+      getSchema: vi
+        .fn()
+        .mockResolvedValue({ name: "Content Database", properties: {} }),
       findDatabaseByName: vi.fn(),
       initializeDatabase: vi.fn(),
       upsertEntry: vi.fn(),
       verifyDatabase: vi.fn().mockResolvedValue(true),
       createDatabase: vi.fn().mockResolvedValue("new-database-id"),
       queryEntries: vi.fn().mockResolvedValue(mockEntries),
+      iterateEntries: streamEntries(mockEntries),
       createEntry: vi.fn().mockResolvedValue("new-entry-id"),
       updateEntry: vi.fn().mockResolvedValue(undefined),
       batchUpdateEntries: vi.fn().mockResolvedValue(undefined),
+      replacePageContent: vi.fn().mockResolvedValue(undefined),
     };
 
     // Create DatabaseUpdater instance
@@ -102,9 +114,9 @@ describe("DatabaseUpdater", () => {
       await databaseUpdater.initialize();
 
       // Verify
-      expect(notionDatabase.queryEntries).toHaveBeenCalledWith({
+      expect(notionDatabase.setDatabaseId).toHaveBeenCalledWith(databaseId);
+      expect(notionDatabase.iterateEntries).toHaveBeenCalledWith({
         database_id: databaseId,
-        page_size: 100,
       });
 
       // Check if entries are stored correctly
@@ -117,22 +129,46 @@ describe("DatabaseUpdater", () => {
       expect(entry2).toEqual(mockEntries[1]);
     });
 
+    it("should write statuses to a status property of the database", async () => {
+      // Setup
+      vi.mocked(notionDatabase.getSchema).mockResolvedValue({
+        name: "Content Database",
+        properties: { Status: { type: "status" } },
+      });
+
+      // Execute
+      await databaseUpdater.initialize();
+      await databaseUpdater.updateEntry(contentPages[1]);
+
+      // Verify
+      expect(notionDatabase.getSchema).toHaveBeenCalledWith(databaseId);
+      expect(notionDatabase.createEntry).toHaveBeenCalledWith({
+        properties: expect.objectContaining({
+          Status: { status: { name: contentPages[1].status } },
+        }),
+      });
+    });
+
     it("should handle empty query results", async () => {
       // Setup
-      notionDatabase.queryEntries = vi.fn().mockResolvedValue([]);
+      notionDatabase.iterateEntries = streamEntries([]);
 
       // Execute
       await databaseUpdater.initialize();
 
       // Verify
-      expect(notionDatabase.queryEntries).toHaveBeenCalled();
+      expect(notionDatabase.iterateEntries).toHaveBeenCalled();
       expect(databaseUpdater.getAllExistingEntries()).toEqual([]);
     });
 
     it("should propagate errors during initialization", async () => {
       // Setup
       const testError = new Error("Query failed");
-      notionDatabase.queryEntries = vi.fn().mockRejectedValue(testError);
+      notionDatabase.iterateEntries = vi
+        .fn()
+        .mockImplementation(async function* () {
+          throw testError;
+        });
 
       // Execute & Verify
       await expect(databaseUpdater.initialize()).rejects.toThrow(testError);
@@ -150,20 +186,23 @@ describe("DatabaseUpdater", () => {
       // Execute
       const result = await databaseUpdater.updateEntry(contentPages[0]);
 
-      // Verify
+      // Verify, properties the entry already has are left alone
       expect(notionDatabase.updateEntry).toHaveBeenCalledWith("entry1", {
         properties: expect.objectContaining({
           Title: expect.any(Object),
-          Category: expect.any(Object),
           Summary: expect.any(Object),
           Excerpt: expect.any(Object),
           "Mins Read": expect.any(Object),
-          "Original Page": expect.any(Object),
           "Date Created": expect.any(Object),
           Image: expect.any(Object),
           Tags: expect.any(Object),
         }),
       });
+      expect(
+        Object.keys(
+          vi.mocked(notionDatabase.updateEntry).mock.calls[0][1].properties!
+        )
+      ).not.toContain("Category");
 
       expect(result).toEqual({
         success: true,
@@ -234,6 +273,411 @@ describe("DatabaseUpdater", () => {
       expect(result.isNew).toBe(true);
     });
 
+    it("should look up entries without a known URL by title", async () => {
+      // Execute
+      const result = await databaseUpdater.updateEntry({
+        ...contentPages[1],
+        title: "Existing Page 2",
+        originalPageUrl: undefined,
+      } as ContentPage);
+
+      // Verify
+      expect(result.entryId).toBe("entry2");
+      expect(notionDatabase.queryEntries).not.toHaveBeenCalled();
+      expect(notionDatabase.createEntry).not.toHaveBeenCalled();
+    });
+
+    it("should find entries by source ID before URL and title", async () => {
+      // Setup
+      notionDatabase.iterateEntries = streamEntries([
+        {
+          ...mockEntries[1],
+          properties: {
+            ...mockEntries[1].properties,
+            "Source ID": { rich_text: [{ plain_text: "entry1id" }] },
+          },
+        },
+        mockEntries[0],
+      ]);
+      const updater = new DatabaseUpdater(notionDatabase, databaseId);
+      await updater.initialize();
+
+      // Execute
+      const renamed = updater.findExistingEntry({
+        ...contentPages[0],
+        title: "Renamed Page",
+      });
+      const claimed = updater.findExistingEntry({
+        ...contentPages[1],
+        id: "other-id",
+        originalPageUrl: "https://www.notion.so/entry2id",
+      });
+      const unlinked = updater.findExistingEntry({
+        ...contentPages[1],
+        id: "entry1",
+        originalPageUrl: "https://www.notion.so/entry1id",
+      });
+
+      // Verify
+      expect(renamed?.id).toBe("entry2");
+      expect(claimed).toBeUndefined();
+      expect(unlinked?.id).toBe("entry1");
+    });
+
+    it("should write the source ID when creating an entry", async () => {
+      // Execute
+      await databaseUpdater.updateEntry(contentPages[1]);
+
+      // Verify
+      expect(notionDatabase.createEntry).toHaveBeenCalledWith({
+        properties: expect.objectContaining({
+          "Source ID": {
+            rich_text: [{ type: "text", text: { content: "new-page-id" } }],
+          },
+        }),
+      });
+      expect(databaseUpdater.findExistingEntry(contentPages[1])?.id).toBe(
+        "new-entry-id"
+      );
+    });
+
+    it("should write the page body when creating an entry", async () => {
+      // Setup
+      const page: ContentPage = {
+        ...contentPages[1],
+        blocks: [
+          {
+            id: "block1",
+            type: "paragraph",
+            content: { text: "Hello", richText: [] },
+            hasChildren: false,
+          },
+        ],
+      };
+
+      // Execute
+      await databaseUpdater.updateEntry(page);
+
+      // Verify
+      expect(notionDatabase.replacePageContent).toHaveBeenCalledWith(
+        "new-entry-id",
+        [
+          {
+            object: "block",
+            type: "paragraph",
+            paragraph: {
+              rich_text: [{ type: "text", text: { content: "Hello" } }],
+            },
+          },
+        ]
+      );
+    });
+
+    it("should replace the body when the source was edited after the entry", async () => {
+      // Setup
+      const page: ContentPage = {
+        ...contentPages[0],
+        title: "Existing Page 1",
+        summary: undefined,
+        excerpt: undefined,
+        tags: [],
+        minsRead: undefined,
+        imageUrl: undefined,
+        originalPageUrl: "https://www.notion.so/entry1id",
+        lastEditedTime: "2023-01-03T00:00:00Z",
+        blocks: [],
+      };
+
+      // Execute
+      const result = await databaseUpdater.updateEntry(page);
+
+      // Verify
+      expect(result.message).toBe("Updated entry: entry1");
+      expect(notionDatabase.replacePageContent).toHaveBeenCalledWith(
+        "entry1",
+        []
+      );
+    });
+
+    it("should keep the body when only properties changed", async () => {
+      // Execute
+      await databaseUpdater.updateEntry({ ...contentPages[0], blocks: [] });
+
+      // Verify
+      expect(notionDatabase.updateEntry).toHaveBeenCalled();
+      expect(notionDatabase.replacePageContent).not.toHaveBeenCalled();
+    });
+
+    it("should replace the body when it differs from the body last written", async () => {
+      // Setup
+      const page: ContentPage = {
+        ...contentPages[1],
+        blocks: [
+          {
+            id: "block1",
+            type: "paragraph",
+            content: { text: "Hello", richText: [] },
+            hasChildren: false,
+          },
+        ],
+      };
+      await databaseUpdater.updateEntry(page);
+      const entry = databaseUpdater.getExistingEntry("new-entry-id")!;
+
+      // Verify, the edit time of the entry no longer decides
+      expect(databaseUpdater.getFieldsNeedingUpdate(page, entry)).toEqual([]);
+      expect(
+        databaseUpdater.getFieldsNeedingUpdate(
+          {
+            ...page,
+            blocks: [
+              { ...page.blocks![0], content: { text: "Bye", richText: [] } },
+            ],
+          },
+          entry
+        )
+      ).toEqual(["content"]);
+    });
+
+    it("should keep the body of a page fetched again with new file URLs", async () => {
+      // Setup
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        {
+          title: { property: "Title", type: "title" },
+          summary: { type: "callout" },
+          originalPageUrl: { property: "Source", type: "url" },
+        }
+      );
+      await updater.initialize();
+      const fileUrl = "https://prod-files-secure.s3.amazonaws.com/ws/img.png";
+      const storageUrl = "https://storage.example.com/img.png";
+      const fetchPage = (signature: string): ContentPage => ({
+        ...contentPages[1],
+        summary: undefined,
+        blocks: [
+          {
+            id: "image1",
+            type: "image",
+            content: { url: `${fileUrl}?X-Amz-Signature=${signature}` },
+            hasChildren: false,
+          },
+        ],
+        assets: [
+          {
+            blockId: "image1",
+            type: "image",
+            url: `${fileUrl}?X-Amz-Signature=${signature}`,
+          },
+        ],
+      });
+
+      // Written after its image was re-hosted and its summary generated
+      const written = fetchPage("first");
+      await updater.updateEntry({
+        ...written,
+        summary: "Generated summary",
+        blocks: [
+          {
+            ...written.blocks![0],
+            content: { url: storageUrl },
+          },
+        ],
+        assets: [
+          {
+            ...written.assets![0],
+            url: storageUrl,
+            sourceUrl: written.assets![0].url,
+          },
+        ],
+      });
+      const entry = updater.getExistingEntry("new-entry-id")!;
+
+      // Verify
+      expect(
+        updater.getFieldsNeedingUpdate(fetchPage("second"), entry)
+      ).toEqual([]);
+      expect(
+        updater.getFieldsNeedingUpdate(
+          {
+            ...fetchPage("second"),
+            assets: [
+              {
+                blockId: "image1",
+                type: "image",
+                url: "https://prod-files-secure.s3.amazonaws.com/ws/new.png",
+              },
+            ],
+          },
+          entry
+        )
+      ).toEqual(["content"]);
+    });
+
+    it("should index a created entry and write its body again after a failure", async () => {
+      // Setup
+      vi.mocked(notionDatabase.replacePageContent).mockRejectedValueOnce(
+        new Error("Invalid block")
+      );
+      const page: ContentPage = {
+        ...contentPages[1],
+        blocks: [
+          {
+            id: "block1",
+            type: "paragraph",
+            content: { text: "Hello", richText: [] },
+            hasChildren: false,
+          },
+        ],
+      };
+
+      // Execute
+      const result = await databaseUpdater.updateEntry(page);
+
+      // Verify
+      expect(result).toEqual({ success: false, error: "Invalid block" });
+      expect(databaseUpdater.findExistingEntry(page)?.id).toBe("new-entry-id");
+
+      const retry = await databaseUpdater.updateEntry(page);
+
+      expect(retry.message).toBe("Updated entry: new-entry-id");
+      expect(notionDatabase.createEntry).toHaveBeenCalledTimes(1);
+      expect(notionDatabase.replacePageContent).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep the body of pages without blocks", async () => {
+      // Execute
+      await databaseUpdater.updateEntry(contentPages[0]);
+
+      // Verify
+      expect(notionDatabase.replacePageContent).not.toHaveBeenCalled();
+    });
+
+    it("should write the outline to the configured property", async () => {
+      // Setup
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        "Outline"
+      );
+      await updater.initialize();
+      const page: ContentPage = {
+        ...contentPages[0],
+        outline: [
+          { level: 1, text: "Intro", slug: "intro", blockId: "h1" },
+          { level: 2, text: "Setup", slug: "setup", blockId: "h2" },
+        ],
+      };
+
+      // Execute
+      await updater.updateEntry(page);
+
+      // Verify
+      expect(notionDatabase.updateEntry).toHaveBeenCalledWith("entry1", {
+        properties: expect.objectContaining({
+          Outline: {
+            rich_text: [{ type: "text", text: { content: "Intro\n  Setup" } }],
+          },
+        }),
+      });
+    });
+
+    it("should write fields to the properties of a field mapping", async () => {
+      // Setup
+      notionDatabase.iterateEntries = streamEntries([
+        {
+          ...mockEntries[0],
+          properties: {
+            Name: { title: [{ text: { content: "Existing Page 1" } }] },
+            Source: { url: "https://www.notion.so/entry1id" },
+          },
+        },
+      ]);
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        {
+          title: { property: "Name", type: "title" },
+          tags: { property: "Topic", type: "select" },
+          summary: { type: "callout" },
+          originalPageUrl: { property: "Source", type: "url" },
+        }
+      );
+      await updater.initialize();
+      const page: ContentPage = {
+        ...contentPages[0],
+        title: "Existing Page 1",
+        originalPageUrl: "https://www.notion.so/entry1id",
+        lastEditedTime: "2023-01-03T00:00:00Z",
+        blocks: [],
+      };
+
+      // Execute
+      const result = await updater.updateEntry(page);
+
+      // Verify
+      expect(updater.getExistingEntry(page.originalPageUrl!)?.id).toBe(
+        "entry1"
+      );
+      expect(
+        updater.getFieldsNeedingUpdate(page, {
+          ...mockEntries[0],
+          properties: {
+            Name: { title: [{ text: { content: "Existing Page 1" } }] },
+            Topic: { select: { name: "tag1" } },
+            Source: { url: "https://www.notion.so/entry1id" },
+          },
+        })
+      ).toEqual([]);
+      expect(result.message).toBe("Updated entry: entry1");
+      expect(notionDatabase.updateEntry).toHaveBeenCalledWith("entry1", {
+        properties: {
+          Topic: { select: { name: "tag1" } },
+        },
+      });
+      expect(notionDatabase.replacePageContent).toHaveBeenCalledWith("entry1", [
+        {
+          object: "block",
+          type: "callout",
+          callout: {
+            rich_text: [
+              { type: "text", text: { content: "Summary of page 1" } },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it("should look up entries by the mapped title property", async () => {
+      // Setup
+      notionDatabase.iterateEntries = streamEntries([
+        {
+          ...mockEntries[1],
+          properties: {
+            Name: { title: [{ text: { content: contentPages[1].title } }] },
+          },
+        },
+      ]);
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        {
+          title: { property: "Name", type: "title" },
+        }
+      );
+      await updater.initialize();
+
+      // Execute
+      const entry = updater.findExistingEntry(contentPages[1]);
+
+      // Verify
+      expect(entry?.id).toBe("entry2");
+    });
+
     it("should handle errors during update", async () => {
       // Setup
       const testError = new Error("Update failed");
@@ -287,6 +731,17 @@ describe("DatabaseUpdater", () => {
       expect(results.length).toBe(2);
     });
 
+    it("should store the index with the bodies written", async () => {
+      // Setup
+      const save = vi.spyOn((databaseUpdater as any).index, "save");
+
+      // Execute
+      await databaseUpdater.updateEntries(contentPages);
+
+      // Verify
+      expect(save).toHaveBeenCalled();
+    });
+
     it("should continue updating remaining entries if one fails", async () => {
       // Setup
       vi.spyOn(databaseUpdater, "updateEntry")
@@ -320,6 +775,196 @@ describe("DatabaseUpdater", () => {
     });
   });
 
+  describe("linkSourceIds", () => {
+    const page = (id: string, title: string, originalPageUrl?: string) =>
+      ({
+        ...contentPages[0],
+        id,
+        title,
+        originalPageUrl,
+      }) as ContentPage;
+
+    beforeEach(async () => {
+      notionDatabase.iterateEntries = streamEntries([
+        ...mockEntries,
+        {
+          ...mockEntries[1],
+          id: "entry3",
+          properties: {
+            Title: { title: [{ text: { content: "Shared Title" } }] },
+          },
+        },
+        {
+          ...mockEntries[1],
+          id: "entry4",
+          properties: {
+            Title: { title: [{ text: { content: "Linked Page" } }] },
+            "Source ID": { rich_text: [{ plain_text: "linked-id" }] },
+          },
+        },
+      ]);
+      await databaseUpdater.initialize();
+    });
+
+    it("should link unlinked entries by URL and by title", async () => {
+      // Execute
+      const result = await databaseUpdater.linkSourceIds([
+        page("source1", "Renamed Page", "https://www.notion.so/entry1id"),
+        page("source2", "Existing Page 2"),
+        page("linked-id", "Linked Page"),
+        page("source4", "Missing Page"),
+      ]);
+
+      // Verify
+      expect(result).toEqual({
+        linked: 2,
+        alreadyLinked: 1,
+        unmatched: ["Missing Page"],
+        ambiguous: [],
+      });
+      expect(notionDatabase.updateEntry).toHaveBeenCalledWith("entry1", {
+        properties: {
+          "Source ID": {
+            rich_text: [{ type: "text", text: { content: "source1" } }],
+          },
+        },
+      });
+      expect(notionDatabase.updateEntry).toHaveBeenCalledWith("entry2", {
+        properties: {
+          "Source ID": {
+            rich_text: [{ type: "text", text: { content: "source2" } }],
+          },
+        },
+      });
+      expect(
+        databaseUpdater.findExistingEntry(page("source2", "Existing Page 2"))
+          ?.id
+      ).toBe("entry2");
+    });
+
+    it("should leave titles shared by several source pages alone", async () => {
+      // Execute
+      const result = await databaseUpdater.linkSourceIds([
+        page("source1", "Shared Title"),
+        page("source2", "Shared Title"),
+      ]);
+
+      // Verify
+      expect(result.linked).toBe(0);
+      expect(result.ambiguous).toEqual(["Shared Title", "Shared Title"]);
+      expect(notionDatabase.updateEntry).not.toHaveBeenCalled();
+    });
+
+    it("should require a source ID binding", async () => {
+      // Setup
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        {
+          title: { property: "Title", type: "title" },
+        }
+      );
+
+      // Execute & Verify
+      await expect(updater.linkSourceIds([])).rejects.toThrow(
+        "The field mapping does not bind the sourceId field"
+      );
+    });
+  });
+
+  describe("orphaned entries", () => {
+    const linkedEntry = (id: string, sourceId: string): NotionEntry => ({
+      ...mockEntries[1],
+      id,
+      properties: {
+        ...mockEntries[1].properties,
+        "Source ID": { rich_text: [{ plain_text: sourceId }] },
+      },
+    });
+
+    const sourcePageIds = contentPages.map((page) => page.id);
+
+    beforeEach(async () => {
+      notionDatabase.archiveEntry = vi.fn().mockResolvedValue(undefined);
+      notionDatabase.iterateEntries = streamEntries([
+        mockEntries[0],
+        linkedEntry("entry3", "entry1id"),
+        linkedEntry("entry4", "deleted-id"),
+      ]);
+      await databaseUpdater.initialize();
+    });
+
+    it("should find linked entries whose source page is gone", () => {
+      const orphans = databaseUpdater.findOrphanedEntries(sourcePageIds);
+
+      expect(orphans.map((entry) => entry.id)).toEqual(["entry4"]);
+    });
+
+    it("should mark entries that do not have the status yet", async () => {
+      const orphans = databaseUpdater.findOrphanedEntries(sourcePageIds);
+
+      const marked = await databaseUpdater.markEntries(orphans, "Archived");
+      const markedAgain = await databaseUpdater.markEntries(
+        databaseUpdater.findOrphanedEntries(sourcePageIds),
+        "Archived"
+      );
+
+      expect(marked).toBe(1);
+      expect(markedAgain).toBe(0);
+      expect(notionDatabase.updateEntry).toHaveBeenCalledTimes(1);
+      expect(notionDatabase.updateEntry).toHaveBeenCalledWith("entry4", {
+        properties: { Status: { select: { name: "Archived" } } },
+      });
+    });
+
+    it("should unmark entries whose source page is back", async () => {
+      await databaseUpdater.markEntries(
+        databaseUpdater.findOrphanedEntries(sourcePageIds),
+        "Archived"
+      );
+      vi.mocked(notionDatabase.updateEntry).mockClear();
+
+      const unmarked = await databaseUpdater.unmarkEntries(
+        [...sourcePageIds, "deleted-id"],
+        "Archived",
+        [{ ...contentPages[0], id: "deleted-id", status: "Published" }]
+      );
+      const unmarkedAgain = await databaseUpdater.unmarkEntries(
+        [...sourcePageIds, "deleted-id"],
+        "Archived"
+      );
+
+      expect(unmarked).toBe(1);
+      expect(unmarkedAgain).toBe(0);
+      expect(notionDatabase.updateEntry).toHaveBeenCalledTimes(1);
+      expect(notionDatabase.updateEntry).toHaveBeenCalledWith("entry4", {
+        properties: { Status: { select: { name: "Published" } } },
+      });
+      expect(databaseUpdater.findOrphanedEntries(sourcePageIds)).toHaveLength(
+        1
+      );
+    });
+
+    it("should archive entries and drop them from the index", async () => {
+      vi.mocked(notionDatabase.archiveEntry)
+        .mockRejectedValueOnce(new Error("Archive failed"))
+        .mockResolvedValueOnce(undefined);
+      const orphans = [
+        mockEntries[0],
+        ...databaseUpdater.findOrphanedEntries(sourcePageIds),
+      ];
+
+      const archived = await databaseUpdater.archiveEntries(orphans);
+
+      expect(archived).toBe(1);
+      expect(notionDatabase.archiveEntry).toHaveBeenCalledWith("entry4");
+      expect(databaseUpdater.getExistingEntry("entry1")).toBeDefined();
+      expect(databaseUpdater.getExistingEntry("entry4")).toBeUndefined();
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
   describe("getExistingEntry", () => {
     beforeEach(async () => {
       // Initialize the updater with mock entries
@@ -371,7 +1016,7 @@ describe("DatabaseUpdater", () => {
 
     it("should return an empty array if no entries exist", async () => {
       // Setup
-      notionDatabase.queryEntries = vi.fn().mockResolvedValue([]);
+      notionDatabase.iterateEntries = streamEntries([]);
       const emptyUpdater = new DatabaseUpdater(notionDatabase, databaseId);
       await emptyUpdater.initialize();
 
@@ -382,4 +1027,152 @@ describe("DatabaseUpdater", () => {
       expect(results).toEqual([]);
     });
   });
+
+  describe("field ownership", () => {
+    const page: ContentPage = {
+      ...contentPages[0],
+      title: "Existing Page 1",
+      category: "Category 9",
+      status: Status.Ready,
+    };
+
+    it("should only write the fields the source owns", async () => {
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        undefined,
+        undefined,
+        {
+          category: "source-wins",
+          status: "database-wins",
+          tags: "database-wins",
+        }
+      );
+      await updater.initialize();
+
+      expect(updater.getFieldsNeedingUpdate(page, mockEntries[0])).toEqual([
+        "category",
+        "summary",
+        "excerpt",
+        "minsRead",
+        "imageUrl",
+        "createdTime",
+        "sourceId",
+      ]);
+
+      await updater.updateEntry(page);
+
+      const properties = vi.mocked(notionDatabase.updateEntry).mock.calls[0][1]
+        .properties!;
+      expect(properties.Category).toEqual({ select: { name: "Category 9" } });
+      expect(properties).not.toHaveProperty("Title");
+      expect(properties).not.toHaveProperty("Status");
+      expect(properties).not.toHaveProperty("Tags");
+      expect(properties).not.toHaveProperty("Original Page");
+    });
+
+    it("should not update an entry when only fields the database owns differ", async () => {
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        {
+          title: { property: "Title", type: "title" },
+          originalPageUrl: { property: "Original Page", type: "url" },
+        },
+        undefined,
+        { title: "database-wins" }
+      );
+      await updater.initialize();
+
+      const result = await updater.updateEntry(contentPages[0]);
+
+      expect(result.message).toBe("Entry already up to date: entry1");
+      expect(notionDatabase.updateEntry).not.toHaveBeenCalled();
+    });
+
+    it("should keep a generated title while the source title is unchanged", async () => {
+      // First run, the short source title is replaced by a generated one
+      const fetched: ContentPage = { ...contentPages[1], title: "Short" };
+      await databaseUpdater.updateEntry({
+        ...fetched,
+        title: "Generated title of the page",
+        sourceTitle: "Short",
+      });
+      const entry = databaseUpdater.getExistingEntry("new-entry-id")!;
+
+      // Second run
+      const kept = databaseUpdater.keepGeneratedValues(fetched, entry);
+
+      expect(databaseUpdater.getFieldsNeedingUpdate(fetched, entry)).toEqual(
+        []
+      );
+      expect(kept.title).toBe("Generated title of the page");
+      expect(kept.sourceTitle).toBe("Short");
+      expect(databaseUpdater.getFieldsNeedingUpdate(kept, entry)).toEqual([]);
+
+      // The source page is renamed
+      const renamed = { ...fetched, title: "Renamed" };
+      expect(databaseUpdater.getFieldsNeedingUpdate(renamed, entry)).toEqual([
+        "title",
+      ]);
+      expect(databaseUpdater.keepGeneratedValues(renamed, entry).title).toBe(
+        "Renamed"
+      );
+    });
+
+    it("should report fields whose entry value differs from the source", async () => {
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        undefined,
+        undefined,
+        { status: "database-wins" }
+      );
+
+      expect(updater.getFieldConflicts(page, mockEntries[0])).toEqual([
+        {
+          entryId: "entry1",
+          title: "Existing Page 1",
+          field: "category",
+          ownership: "fill-if-empty",
+        },
+        {
+          entryId: "entry1",
+          title: "Existing Page 1",
+          field: "status",
+          ownership: "database-wins",
+        },
+      ]);
+    });
+
+    it("should keep the values of fields generated only once", () => {
+      const updater = new DatabaseUpdater(
+        notionDatabase,
+        databaseId,
+        undefined,
+        undefined,
+        undefined,
+        { summary: "ai-only-once", tags: "ai-only-once" }
+      );
+      const entry: NotionEntry = {
+        ...mockEntries[0],
+        properties: {
+          ...mockEntries[0].properties,
+          Summary: { rich_text: [{ plain_text: "Edited summary" }] },
+        },
+      };
+
+      const kept = updater.keepGeneratedValues(
+        { ...page, summary: undefined, tags: undefined },
+        entry
+      );
+
+      expect(kept.summary).toBe("Edited summary");
+      expect(kept.tags).toBeUndefined();
+      expect(page.summary).toBe("Summary of page 1");
+    });
+  });
 });
@@ -308,6 +308,18 @@ describe("DatabaseVerifier", () => {
       expect(result).toBeNull();
     });
 
+    it("should return null if the schema file is invalid", async () => {
+      (fs.pathExists as any).mockResolvedValue(true);
+      (fs.readJson as any).mockResolvedValue({
+        properties: { Summary: { type: "rich_text" } },
+      });
+
+      const result = await databaseVerifier.loadSchemaConfig("schema.json");
+
+      expect(console.error).toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
     it("should handle errors when loading schema", async () => {
       // Setup
       const testError = new Error("File read error");
@@ -322,4 +334,171 @@ describe("DatabaseVerifier", () => {
       expect(result).toBeNull();
     });
   });
+
+  describe("migrateSchema", () => {
+    const liveSchema: DatabaseSchema = {
+      name: "Test Database",
+      properties: {
+        Title: { type: "title" },
+        Status: { type: "select", options: [{ name: "Draft" }] },
+      },
+    };
+
+    beforeEach(() => {
+      (notionDatabase as any).getDefaultSchema = vi.fn().mockReturnValue({
+        name: "Test Database",
+        properties: {
+          Title: { type: "title" },
+          Status: {
+            type: "select",
+            options: [{ name: "Draft" }, { name: "Published" }],
+          },
+          Summary: { type: "rich_text" },
+        },
+      });
+      (notionDatabase as any).getSchema = vi.fn().mockResolvedValue(liveSchema);
+      (notionDatabase as any).updateSchema = vi
+        .fn()
+        .mockResolvedValue(undefined);
+    });
+
+    it("should add the outline property to the required schema", () => {
+      notionConfig.outlineProperty = "Outline";
+
+      expect(databaseVerifier.getRequiredSchema().properties.Outline).toEqual({
+        type: "rich_text",
+      });
+    });
+
+    it("should require the mapped properties with a field mapping", () => {
+      notionConfig.outlineProperty = "Outline";
+      notionConfig.fieldMapping = {
+        title: { property: "Name", type: "title" },
+        status: { property: "Status", type: "select" },
+        summary: { type: "callout" },
+        tags: { property: "Topic", type: "select" },
+      };
+
+      expect(databaseVerifier.getRequiredSchema().properties).toEqual({
+        Name: { type: "title" },
+        Status: {
+          type: "select",
+          options: [{ name: "Draft" }, { name: "Published" }],
+        },
+        Topic: { type: "select" },
+        Outline: { type: "rich_text" },
+      });
+    });
+
+    it("should keep the schema file properties with a field mapping", () => {
+      notionConfig.databaseSchema = {
+        name: "Test Database",
+        properties: { Title: { type: "title" } },
+      };
+      notionConfig.fieldMapping = {
+        title: { property: "Name", type: "title" },
+      };
+
+      expect(databaseVerifier.getRequiredSchema().properties).toEqual({
+        Status: {
+          type: "select",
+          options: [{ name: "Draft" }, { name: "Published" }],
+        },
+        Summary: { type: "rich_text" },
+        Name: { type: "title" },
+      });
+    });
+
+    it("should require a category relation in relation mode", () => {
+      notionConfig.categoryMode = "relation";
+      notionConfig.categoryDatabaseId = "categories-db";
+      notionConfig.fieldMapping = {
+        title: { property: "Name", type: "title" },
+        category: { property: "Topic", type: "select" },
+      };
+
+      expect(databaseVerifier.getRequiredSchema().properties).toEqual({
+        Name: { type: "title" },
+        Topic: { type: "relation", databaseId: "categories-db" },
+      });
+    });
+
+    it("should validate the live schema", async () => {
+      const result = await databaseVerifier.validateSchema();
+
+      expect(result.valid).toBe(false);
+      expect(result.missingProperties).toEqual([
+        { name: "Summary", expected: { type: "rich_text" } },
+      ]);
+      expect(result.missingOptions).toEqual([
+        { name: "Status", options: [{ name: "Published" }] },
+      ]);
+    });
+
+    it("should apply additive changes", async () => {
+      const result = await databaseVerifier.migrateSchema();
+
+      expect(result.applied).toBe(true);
+      expect(result.conflicts).toEqual([]);
+      expect(notionDatabase.updateSchema).toHaveBeenCalledWith({
+        Summary: { type: "rich_text" },
+        Status: {
+          type: "select",
+          options: [{ name: "Draft" }, { name: "Published" }],
+        },
+      });
+    });
+
+    it("should only accept a status property for the status field", async () => {
+      (notionDatabase as any).getSchema = vi.fn().mockResolvedValue({
+        name: "Test Database",
+        properties: {
+          Title: { type: "title" },
+          Status: {
+            type: "status",
+            options: [{ name: "Draft" }, { name: "Published" }],
+          },
+          Summary: { type: "status" },
+        },
+      });
+
+      const result = await databaseVerifier.migrateSchema(true);
+
+      expect(result.conflicts).toEqual([
+        'Property "Summary" is status, expected rich_text',
+      ]);
+    });
+
+    it("should only report changes in a dry run", async () => {
+      const result = await databaseVerifier.migrateSchema(true);
+
+      expect(result.applied).toBe(false);
+      expect(result.changes).toEqual([
+        'Add property "Summary" (rich_text)',
+        'Add options to "Status": Published',
+      ]);
+      expect(notionDatabase.updateSchema).not.toHaveBeenCalled();
+    });
+
+    it("should import the schema of another database", async () => {
+      const result = await databaseVerifier.importSchema("source-database-id");
+
+      expect(notionDatabase.getSchema).toHaveBeenCalledWith(
+        "source-database-id"
+      );
+      expect(result).toEqual({ version: 1, ...liveSchema });
+    });
+
+    it("should not update a schema that matches", async () => {
+      (notionDatabase as any).getSchema = vi
+        .fn()
+        .mockResolvedValue(databaseVerifier.getRequiredSchema());
+
+      const result = await databaseVerifier.migrateSchema();
+
+      expect(result.validation.valid).toBe(true);
+      expect(result.applied).toBe(false);
+      expect(notionDatabase.updateSchema).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { DatabaseSchema } from "../../../src/types";
+import { SchemaDiffer } from "../../../src/workflow/database/SchemaDiffer";
+
+describe("SchemaDiffer", () => {
+  const differ = new SchemaDiffer();
+
+  const required: DatabaseSchema = {
+    name: "Content Database",
+    properties: {
+      Title: { type: "title" },
+      Status: {
+        type: "select",
+        options: [
+          { name: "Draft", color: "gray" },
+          { name: "Published", color: "blue" },
+        ],
+      },
+      Summary: { type: "rich_text" },
+      "Mins Read": { type: "number" },
+    },
+  };
+
+  const live: DatabaseSchema = {
+    name: "Content Database",
+    properties: {
+      Name: { type: "title" },
+      Status: {
+        type: "select",
+        options: [{ name: "Draft", color: "gray" }],
+      },
+      "Mins Read": { type: "rich_text" },
+      Notes: { type: "rich_text" },
+    },
+  };
+
+  it("should report a matching schema as valid", () => {
+    const result = differ.diff(required, {
+      ...required,
+      properties: { ...required.properties, Extra: { type: "url" } },
+    });
+
+    expect(result).toEqual({
+      valid: true,
+      missingProperties: [],
+      incorrectProperties: [],
+      missingOptions: [],
+    });
+  });
+
+  it("should report missing properties, wrong types and missing options", () => {
+    const result = differ.diff(required, live);
+
+    expect(result.valid).toBe(false);
+    expect(result.missingProperties).toEqual([
+      { name: "Title", expected: { type: "title" } },
+      { name: "Summary", expected: { type: "rich_text" } },
+    ]);
+    expect(result.incorrectProperties).toEqual([
+      {
+        name: "Mins Read",
+        expected: { type: "number" },
+        actual: { type: "rich_text" },
+      },
+    ]);
+    expect(result.missingOptions).toEqual([
+      { name: "Status", options: [{ name: "Published", color: "blue" }] },
+    ]);
+  });
+
+  it("should only add properties and options", () => {
+    const result = differ.diff(required, live);
+
+    expect(differ.getAdditiveChanges(result, live)).toEqual({
+      Summary: { type: "rich_text" },
+      Status: {
+        type: "select",
+        options: [{ name: "Draft" }, { name: "Published", color: "blue" }],
+      },
+    });
+    expect(differ.describeChanges(result, live)).toEqual([
+      'Add property "Summary" (rich_text)',
+      'Add options to "Status": Published',
+    ]);
+  });
+
+  it("should report a renamed title and changed types as conflicts", () => {
+    const result = differ.diff(required, live);
+
+    expect(differ.describeConflicts(result, live)).toEqual([
+      'Title property is named "Name", expected "Title"',
+      'Property "Mins Read" is rich_text, expected number',
+    ]);
+  });
+
+  it("should report missing status options as conflicts", () => {
+    const status: DatabaseSchema = {
+      name: "Content Database",
+      properties: {
+        Stage: { type: "status", options: [{ name: "Done" }] },
+      },
+    };
+    const current: DatabaseSchema = {
+      name: "Content Database",
+      properties: {
+        Stage: { type: "status", options: [{ name: "Not started" }] },
+      },
+    };
+    const result = differ.diff(status, current);
+
+    expect(differ.getAdditiveChanges(result, current)).toEqual({});
+    expect(differ.describeChanges(result, current)).toEqual([]);
+    expect(differ.describeConflicts(result, current)).toEqual([
+      'Status "Stage" is missing options, add them in Notion: Done',
+    ]);
+  });
+
+  it("should accept a status property for the select of the status field", () => {
+    const current: DatabaseSchema = {
+      name: "Content Database",
+      properties: {
+        Title: { type: "title" },
+        Status: {
+          type: "status",
+          options: [{ name: "Draft" }, { name: "Published" }],
+        },
+        Summary: { type: "rich_text" },
+        "Mins Read": { type: "number" },
+      },
+    };
+
+    expect(differ.diff(required, current, "Status").valid).toBe(true);
+    expect(differ.diff(required, current).incorrectProperties).toEqual([
+      {
+        name: "Status",
+        expected: required.properties.Status,
+        actual: current.properties.Status,
+      },
+    ]);
+
+    current.properties.Status = {
+      type: "status",
+      options: [{ name: "Draft" }],
+    };
+    const result = differ.diff(required, current, "Status");
+
+    expect(result.incorrectProperties).toEqual([]);
+    expect(differ.describeConflicts(result, current)).toEqual([
+      'Status "Status" is missing options, add them in Notion: Published',
+    ]);
+  });
+
+  it("should report a relation linking to another database as a conflict", () => {
+    const relation: DatabaseSchema = {
+      name: "Content Database",
+      properties: {
+        Category: { type: "relation", databaseId: "categories-db" },
+      },
+    };
+    const linked: DatabaseSchema = {
+      name: "Content Database",
+      properties: {
+        Category: { type: "relation", databaseId: "categories-db" },
+      },
+    };
+    const other: DatabaseSchema = {
+      name: "Content Database",
+      properties: {
+        Category: { type: "relation", databaseId: "other-db" },
+      },
+    };
+
+    expect(differ.diff(relation, linked).valid).toBe(true);
+    expect(
+      differ.describeConflicts(differ.diff(relation, other), other)
+    ).toEqual([
+      'Property "Category" links to database other-db, expected categories-db',
+    ]);
+  });
+});
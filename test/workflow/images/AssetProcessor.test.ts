@@ -0,0 +1,270 @@
+import axios from "axios";
+import * as fs from "fs-extra";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IStorageService } from "../../../src/core/storage/StorageService.interface";
+import { ContentPage } from "../../../src/types";
+import { AssetProcessor } from "../../../src/workflow/images/AssetProcessor";
+
+// Mock fs-extra and axios
+vi.mock("fs-extra", () => ({
+  ensureDir: vi.fn(),
+  pathExists: vi.fn(),
+  readJSON: vi.fn(),
+  writeJSON: vi.fn(),
+  createWriteStream: vi.fn(),
+  remove: vi.fn(),
+}));
+
+vi.mock("axios");
+
+describe("AssetProcessor", () => {
+  let assetProcessor: AssetProcessor;
+  let storageService: IStorageService;
+  const tempDir = "/tmp/assets";
+  const notionUrl =
+    "https://prod-files-secure.s3.us-west-2.amazonaws.com/abc/diagram.png?X-Amz-Signature=1&X-Amz-Expires=3600";
+  const storageUrl = "https://images.example.com/images/diagram.png";
+
+  const createPage = (content: string): ContentPage => ({
+    id: "page1",
+    title: "Test Page",
+    parentId: "category1",
+    category: "Testing",
+    content,
+    assets: [{ blockId: "block1", type: "image", url: notionUrl }],
+    blocks: [
+      {
+        id: "toggle1",
+        type: "toggle",
+        content: {
+          text: "Diagram",
+          richText: [],
+          children: [
+            {
+              id: "block1",
+              type: "image",
+              content: { type: "file", url: notionUrl, caption: "" },
+              hasChildren: false,
+            },
+          ],
+        },
+        hasChildren: true,
+      },
+    ],
+    createdTime: "2024-03-08T00:00:00.000Z",
+    lastEditedTime: "2024-03-08T01:00:00.000Z",
+  });
+
+  // Mock writer for fs.createWriteStream
+  const mockWriter = { on: vi.fn() };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    vi.mocked(fs.ensureDir).mockResolvedValue();
+    vi.mocked(fs.writeJSON).mockResolvedValue();
+    vi.mocked(fs.remove).mockResolvedValue();
+    vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(false));
+    mockWriter.on.mockImplementation((event, callback) => {
+      if (event === "finish") {
+        setTimeout(callback, 0);
+      }
+      return mockWriter;
+    });
+    vi.mocked(fs.createWriteStream).mockReturnValue(mockWriter as any);
+    vi.mocked(axios).mockResolvedValue({ data: { pipe: vi.fn() } });
+
+    storageService = {
+      uploadImage: vi.fn().mockResolvedValue({
+        success: true,
+        key: "images/diagram.png",
+        url: storageUrl,
+      }),
+      uploadFile: vi.fn().mockResolvedValue({
+        success: true,
+        key: "files/manual.pdf",
+        url: "https://images.example.com/files/manual.pdf",
+      }),
+      getPublicUrl: vi.fn(),
+      listItems: vi.fn(),
+      deleteItem: vi.fn(),
+      copyItem: vi.fn(),
+    };
+
+    assetProcessor = new AssetProcessor(storageService, tempDir);
+  });
+
+  describe("processAssets", () => {
+    it("should upload assets and rewrite every rendered form of the URL", async () => {
+      const escapedUrl = notionUrl.replace(/&/g, "&amp;");
+      const page = createPage(
+        `![Diagram](${notionUrl})\n<img src="${escapedUrl}" alt="">`
+      );
+
+      const result = await assetProcessor.processAssets(page);
+
+      expect(result).toEqual({ uploaded: 1, reused: 0, failed: 0 });
+      expect(axios).toHaveBeenCalledWith(
+        expect.objectContaining({ url: notionUrl })
+      );
+      expect(storageService.uploadImage).toHaveBeenCalledWith(
+        "/tmp/assets/block1-diagram.png",
+        expect.objectContaining({ sourceUrl: notionUrl })
+      );
+      expect(page.content).toBe(
+        `![Diagram](${storageUrl})\n<img src="${storageUrl}" alt="">`
+      );
+      expect(page.assets?.[0].url).toBe(storageUrl);
+      expect(page.blocks?.[0].content.children[0].content.url).toBe(storageUrl);
+      expect(fs.writeJSON).toHaveBeenCalledWith(
+        "/tmp/assets/asset-uploads.json",
+        {
+          block1: expect.objectContaining({
+            blockId: "block1",
+            storageUrl,
+          }),
+        },
+        { spaces: 2 }
+      );
+    });
+
+    it("should upload attachments as files", async () => {
+      const pdfUrl =
+        "https://prod-files-secure.s3.us-west-2.amazonaws.com/abc/manual.pdf?X-Amz-Signature=1";
+      const page: ContentPage = {
+        ...createPage(`[manual.pdf](${pdfUrl})`),
+        assets: [
+          { blockId: "block2", type: "pdf", url: pdfUrl, name: "manual.pdf" },
+        ],
+      };
+
+      const result = await assetProcessor.processAssets(page);
+
+      expect(result).toEqual({ uploaded: 1, reused: 0, failed: 0 });
+      expect(storageService.uploadImage).not.toHaveBeenCalled();
+      expect(storageService.uploadFile).toHaveBeenCalledWith(
+        "/tmp/assets/block2-manual.pdf",
+        expect.objectContaining({ title: "manual.pdf", sourceUrl: pdfUrl })
+      );
+      expect(page.content).toBe(
+        "[manual.pdf](https://images.example.com/files/manual.pdf)"
+      );
+    });
+
+    it("should reuse uploads recorded by earlier runs", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValue({
+        block1: {
+          blockId: "block1",
+          sourceUrl:
+            "https://prod-files-secure.s3.us-west-2.amazonaws.com/abc/diagram.png?X-Amz-Signature=0",
+          storageUrl,
+          uploadedAt: "2024-03-01T00:00:00.000Z",
+        },
+      });
+      const page = createPage(`![Diagram](${notionUrl})`);
+
+      await assetProcessor.initialize();
+      const result = await assetProcessor.processAssets(page);
+
+      expect(result).toEqual({ uploaded: 0, reused: 1, failed: 0 });
+      expect(axios).not.toHaveBeenCalled();
+      expect(storageService.uploadImage).not.toHaveBeenCalled();
+      expect(page.content).toBe(`![Diagram](${storageUrl})`);
+    });
+
+    it("should upload again when the file of a block was replaced", async () => {
+      vi.mocked(fs.pathExists).mockImplementation(() => Promise.resolve(true));
+      vi.mocked(fs.readJSON).mockResolvedValue({
+        block1: {
+          blockId: "block1",
+          sourceUrl:
+            "https://prod-files-secure.s3.us-west-2.amazonaws.com/old/diagram.png?X-Amz-Signature=0",
+          storageUrl: "https://images.example.com/images/old-diagram.png",
+          uploadedAt: "2024-03-01T00:00:00.000Z",
+        },
+      });
+      const page = createPage(`![Diagram](${notionUrl})`);
+
+      await assetProcessor.initialize();
+      const result = await assetProcessor.processAssets(page);
+
+      expect(result).toEqual({ uploaded: 1, reused: 0, failed: 0 });
+      expect(page.content).toBe(`![Diagram](${storageUrl})`);
+      expect(fs.writeJSON).toHaveBeenCalledWith(
+        "/tmp/assets/asset-uploads.json",
+        {
+          block1: expect.objectContaining({ sourceUrl: notionUrl, storageUrl }),
+        },
+        { spaces: 2 }
+      );
+    });
+
+    it("should store the upload record in the cache directory", async () => {
+      assetProcessor = new AssetProcessor(
+        storageService,
+        tempDir,
+        "/cache/notion"
+      );
+
+      await assetProcessor.processAssets(
+        createPage(`![Diagram](${notionUrl})`)
+      );
+
+      expect(storageService.uploadImage).toHaveBeenCalledWith(
+        "/tmp/assets/block1-diagram.png",
+        expect.anything()
+      );
+      expect(fs.writeJSON).toHaveBeenCalledWith(
+        "/cache/notion/assets/asset-uploads.json",
+        expect.any(Object),
+        { spaces: 2 }
+      );
+    });
+
+    it("should keep the original URL when the upload fails", async () => {
+      vi.mocked(storageService.uploadImage).mockResolvedValue({
+        success: false,
+        key: "",
+        url: "",
+        error: "Access denied",
+      });
+      const page = createPage(`![Diagram](${notionUrl})`);
+
+      const result = await assetProcessor.processAssets(page);
+
+      expect(result).toEqual({ uploaded: 0, reused: 0, failed: 1 });
+      expect(page.content).toBe(`![Diagram](${notionUrl})`);
+      expect(fs.writeJSON).not.toHaveBeenCalled();
+    });
+
+    it("should keep the original URL when the download fails", async () => {
+      vi.mocked(axios).mockRejectedValue(new Error("Request failed"));
+      const page = createPage(`![Diagram](${notionUrl})`);
+
+      const result = await assetProcessor.processAssets(page);
+
+      expect(result.failed).toBe(1);
+      expect(storageService.uploadImage).not.toHaveBeenCalled();
+      expect(page.content).toBe(`![Diagram](${notionUrl})`);
+    });
+  });
+
+  describe("processAllAssets", () => {
+    it("should upload an asset shared by several pages only once", async () => {
+      const pages = [
+        createPage(`![Diagram](${notionUrl})`),
+        createPage(`![Diagram](${notionUrl})`),
+        { ...createPage("No assets"), assets: [] },
+      ];
+
+      const result = await assetProcessor.processAllAssets(pages);
+
+      expect(result).toEqual({ uploaded: 1, reused: 1, failed: 0 });
+      expect(storageService.uploadImage).toHaveBeenCalledTimes(1);
+      expect(pages[1].content).toBe(`![Diagram](${storageUrl})`);
+    });
+  });
+});